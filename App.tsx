@@ -1,46 +1,361 @@
-import React, { useState } from 'react';
-import { AnalysisResult, Currency, Language } from './types';
-import { TRANSLATIONS } from './constants';
-import { analyzeStatement } from './services/geminiService';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AnalysisResult, BatchItem, BillSplit, CapturedImage, Cfdi, CategoryDefinition, CategoryRule, Currency, ExportFilters, ExtractionProgress, ExtractionRegion, HistoryEntry, Language, RateOverride, ReviewItem, ExpenseClass, ExpensePolicy, TaxSettings, TransactionEditOp, ValidationIssue } from './types';
+import { ACCEPTED_IMAGE_TYPES, MAX_UPLOAD_BYTES, TRANSLATIONS } from './constants';
+import { analyzeFile, analyzeFiles, getStatementExtractor, reextractRegion } from './services/statementExtractor';
+import { replaceRegion } from './services/reconciliation';
+import { applyTransactionEdit } from './services/transactionEdits';
+import { approveReviewItem } from './services/confidence';
+import { clampReimbursableAmounts, classifyExpense, loadExpensePolicy, saveExpensePolicy } from './services/expensePolicy';
+import { loadTaxSettings, saveTaxSettings } from './services/mexicanTaxes';
+import { applyCategoryRules, loadRules, saveRules } from './services/categoryRules';
+import { loadTaxonomy, saveTaxonomy } from './services/taxonomy';
+import {
+  HistoricalRatesFile, chainRateProviders, createHistoricalRateProvider, createManualRateProvider,
+  createOverrideRateProvider, fetchHistoricalRates, loadRateOverrides, saveRateOverrides
+} from './services/exchangeRates';
+import { useUndoable } from './hooks/useUndoable';
+import { AnalysisValidationError } from './services/analysisValidator';
+import { AnalysisImportError, parseAnalysisExport } from './services/exporters';
+import { AnalyzeApiError } from './services/geminiService';
+import { isAbortError } from './services/retry';
+import { createCapturedImage } from './services/imagePreprocessing';
+import {
+  createHistoryEntry, deleteHistoryEntry, listHistory, putHistoryEntry, sourceFileOf, updateHistoryEntry
+} from './services/historyStore';
 import { LanguageCurrencyToggle } from './components/LanguageCurrencyToggle';
 import { Dashboard } from './components/Dashboard';
-import { Upload, FileText, Loader2, AlertCircle } from 'lucide-react';
+import { ValidationIssues } from './components/ValidationIssues';
+import { HistoryPanel } from './components/HistoryPanel';
+import { GroupDashboard } from './components/GroupDashboard';
+import { ImagePreprocessor } from './components/ImagePreprocessor';
+import { Upload, FileText, Loader2, AlertCircle, ArrowLeft, Camera } from 'lucide-react';
 
 const App: React.FC = () => {
   const [language, setLanguage] = useState<Language>(Language.ES);
   const [currency, setCurrency] = useState<Currency>(Currency.MXN);
-  const [data, setData] = useState<AnalysisResult | null>(null);
+  // Every edit and region re-extraction goes through the undo history; loading a new
+  // statement starts a fresh one.
+  const { value: data, set: setData, reset: resetData, undo, redo, canUndo, canRedo } = useUndoable<AnalysisResult | null>(null);
+  const [sourceFile, setSourceFile] = useState<File | null>(null);
   const [loading, setLoading] = useState(false);
+  const analysisController = useRef<AbortController | null>(null);
+  const [progress, setProgress] = useState<ExtractionProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // Photos picked for upload, waiting to be adjusted and stitched into one statement
+  const [capturedImages, setCapturedImages] = useState<CapturedImage[] | null>(null);
+  const [issues, setIssues] = useState<ValidationIssue[]>([]);
+  const [initialFilters, setInitialFilters] = useState<ExportFilters | undefined>(undefined);
+  const [taxonomy, setTaxonomy] = useState<CategoryDefinition[]>(loadTaxonomy);
+  const [rules, setRules] = useState<CategoryRule[]>(() => loadRules(taxonomy));
+  const [expensePolicy, setExpensePolicy] = useState<ExpensePolicy>(() => loadExpensePolicy(taxonomy));
+  const [taxSettings, setTaxSettings] = useState<TaxSettings>(loadTaxSettings);
+
+  useEffect(() => {
+    saveTaxonomy(taxonomy);
+  }, [taxonomy]);
+
+  useEffect(() => {
+    saveRules(rules);
+  }, [rules]);
+
+  useEffect(() => {
+    saveExpensePolicy(expensePolicy);
+  }, [expensePolicy]);
+
+  useEffect(() => {
+    saveTaxSettings(taxSettings);
+  }, [taxSettings]);
+
+  // Every extraction is saved to IndexedDB; `historyId` is the entry the open analysis
+  // belongs to, so later edits are written back to it.
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [historyAvailable, setHistoryAvailable] = useState(true);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+
+  useEffect(() => {
+    listHistory().then(setHistory).catch(err => {
+      console.warn('History unavailable:', err);
+      setHistoryAvailable(false);
+    });
+  }, []);
+
+  const replaceHistoryEntry = (entry: HistoryEntry) => {
+    setHistory(prev => prev.map(other => (other.id === entry.id ? entry : other)));
+  };
+
+  useEffect(() => {
+    if (!data || !historyId || history.find(entry => entry.id === historyId)?.result === data) return;
+    // Debounced so typing in an editor does not write on every keystroke.
+    const timer = setTimeout(() => {
+      updateHistoryEntry(historyId, { result: data }).then(replaceHistoryEntry).catch(err => console.warn('Could not save edits to history:', err));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [data, historyId, history]);
+
+  // A multi-file upload (group stay). While a folio of it is open, `activeBatchId` is that
+  // folio and the single-statement state above holds its result.
+  const [batch, setBatch] = useState<BatchItem[] | null>(null);
+  const [activeBatchId, setActiveBatchId] = useState<string | null>(null);
+
+  const [rateOverrides, setRateOverrides] = useState<RateOverride[]>(loadRateOverrides);
+  const [historicalRates, setHistoricalRates] = useState<HistoricalRatesFile | null>(null);
+
+  useEffect(() => {
+    fetchHistoricalRates().then(setHistoricalRates);
+  }, []);
+
+  useEffect(() => {
+    saveRateOverrides(rateOverrides);
+  }, [rateOverrides]);
+
+  // Your overrides first, then the rate published for the transaction's day, then the fixed table.
+  const rates = useMemo(() => chainRateProviders([
+    createOverrideRateProvider(rateOverrides),
+    ...(historicalRates ? [createHistoricalRateProvider(historicalRates)] : []),
+    createManualRateProvider()
+  ]), [rateOverrides, historicalRates]);
+
+  // Rules are applied on top of the stored result rather than baked into it, so changing
+  // a rule re-categorizes immediately and never ends up in the undo history.
+  const categorizedData = useMemo(() => data && applyCategoryRules(data, rules), [data, rules]);
+  const categorizedBatch = useMemo(
+    () => batch?.map(item => (item.result ? { ...item, result: applyCategoryRules(item.result, rules) } : item)) ?? null,
+    [batch, rules]
+  );
 
   const t = TRANSLATIONS[language];
 
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  const saveToHistory = (...args: Parameters<typeof createHistoryEntry>) => {
+    const entry = createHistoryEntry(...args);
+    return putHistoryEntry(entry)
+      .then(() => {
+        setHistory(prev => [entry, ...prev]);
+        return entry.id;
+      })
+      .catch(err => {
+        console.warn('Could not save analysis to history:', err);
+        return null;
+      });
+  };
+
+  // PDFs are analyzed right away (several at once as a batch); photos go through the
+  // preprocessor first and are stitched into one statement.
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) return;
 
-    if (file.type !== 'application/pdf') {
-      setError("Please select a PDF file.");
+    const images = files.filter(file => ACCEPTED_IMAGE_TYPES.includes(file.type));
+    const pdfs = files.filter(file => file.type === 'application/pdf');
+    if (images.length + pdfs.length < files.length) {
+      setError(t.unsupportedFileError);
+      return;
+    }
+    if (images.length > 0 && pdfs.length > 0) {
+      setError(t.mixedUploadError);
       return;
     }
+    if (images.length > 0) {
+      setError(null);
+      setCapturedImages(images.map(createCapturedImage));
+      return;
+    }
+    if (pdfs.some(file => file.size > MAX_UPLOAD_BYTES)) {
+      setError(t.errorTooLarge);
+      return;
+    }
+    if (pdfs.length > 1) {
+      handleBatchUpload(pdfs);
+      return;
+    }
+    analyzeSingle(pdfs[0]);
+  };
+
+  const handleAnalyzePhotos = (statement: File) => {
+    setCapturedImages(null);
+    analyzeSingle(statement);
+  };
 
+  const analyzeSingle = async (file: File) => {
     setLoading(true);
     setError(null);
+    setIssues([]);
+    setProgress(null);
+    const controller = new AbortController();
+    analysisController.current = controller;
+    const onProgress = (next: ExtractionProgress) => {
+      if (analysisController.current === controller) setProgress(next);
+    };
 
     try {
-      const result = await analyzeStatement(file);
-      setData(result);
+      const { result, issues, backend, model } = await analyzeFile(file, { taxonomy, signal: controller.signal, onProgress });
+      // Backends that cannot abort still finish; their result is dropped.
+      if (controller.signal.aborted) return;
+      resetData(result);
+      setSourceFile(file);
+      setIssues(issues);
+      setInitialFilters(undefined);
+      setBatch(null);
+      saveToHistory(result, issues, backend, model, file).then(setHistoryId);
     } catch (err) {
+      if (controller.signal.aborted || isAbortError(err)) return;
       console.error(err);
-      setError(t.errorGeneric);
+      if (err instanceof AnalysisValidationError) {
+        setError(t.validationErrorTitle);
+        setIssues(err.issues);
+      } else if (err instanceof AnalyzeApiError && err.status === 413) {
+        setError(t.errorTooLarge);
+      } else if (err instanceof AnalyzeApiError && err.status === 429) {
+        setError(t.errorRateLimited);
+      } else {
+        setError(t.errorGeneric);
+      }
     } finally {
-      setLoading(false);
+      if (analysisController.current === controller) {
+        analysisController.current = null;
+        setLoading(false);
+        setProgress(null);
+      }
+    }
+  };
+
+  const handleCancelAnalysis = () => {
+    analysisController.current?.abort();
+    analysisController.current = null;
+    setLoading(false);
+    setProgress(null);
+  };
+
+  const handleBatchUpload = async (files: File[]) => {
+    setError(null);
+    setIssues([]);
+    const items: BatchItem[] = files.map((file, index) => ({ id: `batch-${index}-${file.name}`, file, status: 'pending', issues: [] }));
+    setBatch(items);
+    setActiveBatchId(null);
+    await analyzeFiles(items, (id, patch) => {
+      setBatch(prev => prev && prev.map(item => (item.id === id ? { ...item, ...patch } : item)));
+      if (patch.status === 'done') {
+        const item = items.find(other => other.id === id)!;
+        saveToHistory(patch.result!, patch.issues ?? [], patch.backend!, patch.model!, item.file).then(historyId => {
+          if (historyId) setBatch(prev => prev && prev.map(other => (other.id === id ? { ...other, historyId } : other)));
+        });
+      }
+    }, { taxonomy });
+  };
+
+  const handleOpenFolio = (id: string) => {
+    const item = batch?.find(other => other.id === id);
+    if (!item?.result) return;
+    resetData(item.result);
+    setSourceFile(item.file);
+    setIssues(item.issues);
+    setInitialFilters(undefined);
+    setHistoryId(item.historyId ?? null);
+    setActiveBatchId(id);
+  };
+
+  // Keeps the folio's edits in the group view.
+  const handleBackToGroup = () => {
+    setBatch(prev => prev && prev.map(item => (item.id === activeBatchId && data ? { ...item, result: data } : item)));
+    resetData(null);
+    setSourceFile(null);
+    setIssues([]);
+    setHistoryId(null);
+    setActiveBatchId(null);
+  };
+
+  // Reopens a JSON export as it was saved: edits, removed lines, filters and currency.
+  const handleOpenExport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      const { analysis, issues } = parseAnalysisExport(await file.text(), taxonomy);
+      resetData(analysis.result);
+      setSourceFile(null);
+      setHistoryId(null);
+      setBatch(null);
+      setIssues(issues);
+      setInitialFilters(analysis.filters);
+      setCurrency(analysis.currency);
+    } catch (err) {
+      console.error(err);
+      if (err instanceof AnalysisValidationError) {
+        setError(t.validationErrorTitle);
+        setIssues(err.issues);
+      } else {
+        setError(err instanceof AnalysisImportError ? `${t.importAnalysisError} ${err.message}` : t.errorGeneric);
+      }
     }
   };
 
+  const handleOpenHistory = (entry: HistoryEntry) => {
+    resetData(entry.result);
+    setSourceFile(sourceFileOf(entry));
+    setIssues(entry.issues);
+    setInitialFilters(undefined);
+    setError(null);
+    setHistoryId(entry.id);
+    setBatch(null);
+  };
+
+  const handleRenameHistory = (id: string, name: string) => {
+    updateHistoryEntry(id, { name }).then(replaceHistoryEntry).catch(err => console.warn('Could not rename analysis:', err));
+  };
+
+  const handleHistoryTags = (id: string, tags: string[]) => {
+    updateHistoryEntry(id, { tags }).then(replaceHistoryEntry).catch(err => console.warn('Could not update tags:', err));
+  };
+
+  const handleDeleteHistory = (id: string) => {
+    deleteHistoryEntry(id)
+      .then(() => {
+        setHistory(prev => prev.filter(entry => entry.id !== id));
+        if (historyId === id) setHistoryId(null);
+      })
+      .catch(err => console.warn('Could not delete analysis:', err));
+  };
+
+  const handleReextractRegion = async (region: ExtractionRegion) => {
+    if (!sourceFile) return;
+    const transactions = await reextractRegion(sourceFile, region, { taxonomy });
+    setData(prev => prev && { ...prev, transactions: replaceRegion(prev.transactions, region, transactions) });
+  };
+
+  const handleEdit = (op: TransactionEditOp) => {
+    setData(prev => prev && clampReimbursableAmounts(applyTransactionEdit(prev, op)));
+  };
+
+  const handleApproveReview = (item: ReviewItem) => {
+    setData(prev => prev && approveReviewItem(prev, item));
+  };
+
+  const handleClassifyExpense = (id: string, expenseClass: ExpenseClass, reimbursableAmount?: number) => {
+    setData(prev => prev && classifyExpense(prev, id, expenseClass, reimbursableAmount));
+  };
+
+  const handleBillSplitChange = (billSplit: BillSplit) => {
+    setData(prev => prev && { ...prev, billSplit });
+  };
+
+  const handleCfdiChange = (cfdi: Cfdi | undefined) => {
+    setData(prev => prev && { ...prev, cfdi });
+  };
+
+  // Ranges share their boundary page and finish in order, so the last finished one says how far the analysis got.
+  const pagesDone = progress?.ranges.reduce((max, range) => (range.status === 'done' ? Math.max(max, range.toPage) : max), 0) ?? 0;
+
   const handleReset = () => {
-    setData(null);
+    resetData(null);
+    setCapturedImages(null);
+    setSourceFile(null);
+    setHistoryId(null);
+    setBatch(null);
+    setActiveBatchId(null);
     setError(null);
+    setIssues([]);
+    setInitialFilters(undefined);
   };
 
   return (
@@ -78,6 +393,11 @@ const App: React.FC = () => {
             <div>
               <p className="text-sm text-red-700 font-medium">Error</p>
               <p className="text-sm text-red-600">{error}</p>
+              {!data && issues.length > 0 && (
+                <div className="text-red-600">
+                  <ValidationIssues issues={issues} language={language} />
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -90,10 +410,58 @@ const App: React.FC = () => {
             <p className="text-gray-500 mt-2 max-w-md text-center">
               Gemini is extracting tables, cleaning descriptions, and categorizing expenses...
             </p>
+            {progress && progress.ranges.length > 1 && (
+              <div className="mt-6 w-full max-w-md">
+                <p className="text-sm text-gray-500 text-center mb-1">{pagesDone} / {progress.totalPages} {t.pagesProgress}</p>
+                <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden mb-3">
+                  <div className="h-full bg-blue-600 transition-all" style={{ width: `${(pagesDone / Math.max(progress.totalPages, 1)) * 100}%` }} />
+                </div>
+                <div className="flex flex-wrap justify-center gap-2">
+                  {progress.ranges.map(range => (
+                    <span
+                      key={range.fromPage}
+                      className={`px-2 py-0.5 rounded-full text-xs border ${
+                        range.status === 'done' ? 'bg-green-50 border-green-200 text-green-700'
+                          : range.status === 'error' ? 'bg-red-50 border-red-200 text-red-700'
+                          : range.status === 'analyzing' ? 'bg-blue-50 border-blue-200 text-blue-700 animate-pulse'
+                          : 'bg-white border-gray-200 text-gray-400'
+                      }`}
+                    >
+                      {t.pagesLabel} {range.fromPage}–{range.toPage}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+            <button
+              onClick={handleCancelAnalysis}
+              className="mt-6 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md text-sm font-medium hover:bg-gray-50 transition-colors"
+            >
+              {t.cancelAnalysis}
+            </button>
           </div>
+        ) : !data && capturedImages ? (
+          <ImagePreprocessor
+            images={capturedImages}
+            language={language}
+            onChange={setCapturedImages}
+            onAnalyze={handleAnalyzePhotos}
+            onCancel={() => setCapturedImages(null)}
+          />
+        ) : !data && categorizedBatch ? (
+          // Group stay: every folio of a multi-file upload
+          <GroupDashboard
+            items={categorizedBatch}
+            language={language}
+            currency={currency}
+            rates={rates}
+            taxonomy={taxonomy}
+            onOpenFolio={handleOpenFolio}
+            onReset={handleReset}
+          />
         ) : !data ? (
           // Empty State / Upload
-          <div className="flex flex-col items-center justify-center h-[70vh]">
+          <div className="flex flex-col items-center justify-center min-h-[70vh]">
             <div className="w-full max-w-lg">
               <label 
                 htmlFor="file-upload" 
@@ -104,16 +472,25 @@ const App: React.FC = () => {
                     <Upload className="w-8 h-8 text-blue-500" />
                   </div>
                   <p className="mb-2 text-lg text-gray-700 font-medium">{t.uploadPrompt}</p>
-                  <p className="text-xs text-gray-400">PDF, max 10MB</p>
+                  <p className="text-xs text-gray-400">{t.uploadFormats} · {t.batchUploadHint}</p>
                 </div>
                 <input 
                   id="file-upload" 
                   type="file" 
-                  accept="application/pdf"
+                  accept={['application/pdf', ...ACCEPTED_IMAGE_TYPES].join(',')}
+                  multiple
                   className="hidden" 
                   onChange={handleFileUpload}
                 />
               </label>
+              <label className="mt-3 flex items-center justify-center gap-2 text-sm text-blue-600 hover:text-blue-800 cursor-pointer">
+                <Camera size={14} /> {t.usePhotos}
+                <input type="file" accept={ACCEPTED_IMAGE_TYPES.join(',')} capture="environment" multiple className="hidden" onChange={handleFileUpload} />
+              </label>
+              <label className="mt-2 block text-center text-sm text-blue-600 hover:text-blue-800 cursor-pointer">
+                {t.openSavedAnalysis}
+                <input type="file" accept="application/json,.json" className="hidden" onChange={handleOpenExport} />
+              </label>
               <div className="mt-8 grid grid-cols-1 sm:grid-cols-3 gap-4 text-center">
                 <div className="p-4 bg-white rounded-lg shadow-sm border border-gray-100">
                   <p className="font-semibold text-blue-600">1. Extract</p>
@@ -129,15 +506,61 @@ const App: React.FC = () => {
                 </div>
               </div>
             </div>
+            <div className="w-full max-w-4xl mt-10">
+              {historyAvailable ? (
+                <HistoryPanel
+                  entries={history}
+                  language={language}
+                  onOpen={handleOpenHistory}
+                  onRename={handleRenameHistory}
+                  onTagsChange={handleHistoryTags}
+                  onDelete={handleDeleteHistory}
+                />
+              ) : (
+                <p className="text-center text-xs text-gray-400">{t.historyUnavailable}</p>
+              )}
+            </div>
           </div>
         ) : (
           // Dashboard View
-          <Dashboard 
-            data={data} 
-            language={language} 
-            currency={currency} 
-            onReset={handleReset}
-          />
+          <>
+            {activeBatchId && (
+              <button onClick={handleBackToGroup} className="mb-4 inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800 font-medium">
+                <ArrowLeft size={16} /> {t.backToGroup}
+              </button>
+            )}
+            <Dashboard 
+              data={categorizedData} 
+              issues={issues}
+              language={language} 
+              currency={currency} 
+              onReextractRegion={sourceFile && getStatementExtractor().extractRegion ? handleReextractRegion : undefined}
+              sourceFile={sourceFile}
+              onEdit={handleEdit}
+              onUndo={undo}
+              onRedo={redo}
+              canUndo={canUndo}
+              canRedo={canRedo}
+              rules={rules}
+              onRulesChange={setRules}
+              taxonomy={taxonomy}
+              onTaxonomyChange={setTaxonomy}
+              rates={rates}
+              rateOverrides={rateOverrides}
+              onRateOverridesChange={setRateOverrides}
+              initialFilters={initialFilters}
+              onApproveReview={handleApproveReview}
+              expensePolicy={expensePolicy}
+              onExpensePolicyChange={setExpensePolicy}
+              onClassifyExpense={handleClassifyExpense}
+              onBillSplitChange={handleBillSplitChange}
+              taxSettings={taxSettings}
+              onTaxSettingsChange={setTaxSettings}
+              onCfdiChange={handleCfdiChange}
+              compareCandidates={history.filter(entry => entry.id !== historyId)}
+              onReset={handleReset}
+            />
+          </>
         )}
       </main>
     </div>
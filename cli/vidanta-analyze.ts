@@ -0,0 +1,308 @@
+#!/usr/bin/env -S npx tsx
+import { mkdir, readdir, readFile, rename, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { CategoryRule, Currency, ExtractionProgress, Language, Reconciliation } from "../types";
+import { MAX_UPLOAD_BYTES } from "../constants";
+import { AnalysisValidationError, validateAnalysisResult } from "../services/analysisValidator";
+import { applyCategoryRules, parseRulesJson } from "../services/categoryRules";
+import { chainRateProviders, createHistoricalRateProvider, createManualRateProvider, HistoricalRatesFile } from "../services/exchangeRates";
+import { ExportContext, NO_FILTERS, serializeAnalysis, toCsv } from "../services/exporters";
+import { createFixtureExtractor, FixtureLoader, fixtureKeyForFile } from "../services/fixtureExtractor";
+import { convertStay } from "../services/groupStay";
+import { extractByPageRanges } from "../services/pdfChunking";
+import { reconcile } from "../services/reconciliation";
+import { DEFAULT_TAXONOMY } from "../services/taxonomy";
+import { createDiskFixtureLoader } from "../server/diskFixtures";
+import { generateAnalysis } from "../server/geminiAnalyzer";
+
+const USAGE = `Usage: vidanta-analyze <folder> [options]
+
+Analyzes every PDF in <folder> and writes one result per folio.
+
+Options:
+  --out <dir>          Output folder (default: results)
+  --format <list>      Comma-separated: json, csv (default: json)
+  --currency <code>    Currency of amounts in the outputs (default: MXN)
+  --language <ES|EN>   Language of CSV headers and category labels (default: ES)
+  --rules <file>       Category rules exported from the app, applied to every folio
+  --replay <dir>       Replay recorded model responses (<folio-name>.json) from <dir> instead
+                       of calling Gemini; no API key needed. A folio without one fails
+  --record <dir>       Save each raw model response to <dir> for later --replay
+  --concurrency <n>    Folios analyzed at once (default: 1)
+  --force              Re-analyze folios already done in a previous run
+  --strict             Exit with code 3 when a folio's lines do not add up to its total
+  -h, --help           Show this help
+
+Exit codes: 0 success, 1 a folio failed, 2 bad arguments or configuration, 3 mismatches (--strict).`;
+
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+const EXIT_MISMATCH = 3;
+const PROGRESS_FILE = '.vidanta-progress.json';
+const FORMATS = ['json', 'csv'] as const;
+type OutputFormat = typeof FORMATS[number];
+
+// What a run remembers about each folio, so an interrupted run resumes where it stopped.
+interface FolioProgress {
+  fingerprint: string; // Size and modification time; a changed file is analyzed again
+  status: 'done' | 'failed';
+  finishedAt: string;
+  error?: string;
+  outputs?: string[];
+  reconciliation?: Pick<Reconciliation, 'printedTotal' | 'lineSum' | 'difference' | 'balanced'> & { causes: string[] };
+}
+
+type Progress = Record<string, FolioProgress>;
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+const parseOptions = (argv: string[]) => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', default: 'results' },
+      format: { type: 'string', default: 'json' },
+      currency: { type: 'string', default: Currency.MXN },
+      language: { type: 'string', default: Language.ES },
+      rules: { type: 'string' },
+      replay: { type: 'string' },
+      record: { type: 'string' },
+      concurrency: { type: 'string', default: '1' },
+      force: { type: 'boolean', default: false },
+      strict: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  });
+  if (values.help) return null;
+  if (positionals.length !== 1) throw new UsageError('Expected exactly one input folder.');
+
+  const formats = values.format.split(',').map(format => format.trim().toLowerCase()).filter(Boolean);
+  const unknown = formats.filter(format => !FORMATS.includes(format as OutputFormat));
+  if (formats.length === 0 || unknown.length > 0) throw new UsageError(`Unknown format: ${unknown.join(', ') || '(none)'}. Use json and/or csv.`);
+  const currency = values.currency.toUpperCase();
+  if (!Object.values(Currency).includes(currency as Currency)) throw new UsageError(`Unknown currency: ${values.currency}.`);
+  const language = values.language.toUpperCase();
+  if (!Object.values(Language).includes(language as Language)) throw new UsageError(`Unknown language: ${values.language}. Use ES or EN.`);
+  const concurrency = Number(values.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1) throw new UsageError('--concurrency must be a positive integer.');
+
+  return {
+    input: positionals[0],
+    out: values.out,
+    formats: formats as OutputFormat[],
+    currency: currency as Currency,
+    language: language as Language,
+    rulesFile: values.rules,
+    replay: values.replay,
+    record: values.record,
+    concurrency,
+    force: values.force,
+    strict: values.strict
+  };
+};
+
+type Options = NonNullable<ReturnType<typeof parseOptions>>;
+
+const readJson = async <T,>(file: string): Promise<T | null> => {
+  try {
+    return JSON.parse(await readFile(file, 'utf8')) as T;
+  } catch {
+    return null;
+  }
+};
+
+// Written through a temporary file so an interrupted run never leaves half a JSON behind.
+const writeAtomic = async (file: string, contents: string) => {
+  await writeFile(`${file}.tmp`, contents);
+  await rename(`${file}.tmp`, file);
+};
+
+const formatAmount = (value: number) => value.toFixed(2);
+
+// Unlike the app's fixture backend, a replay never falls back to default.json: a folio with
+// no recording of its own fails instead of getting another folio's data.
+const createReplayLoader = (dir: string): FixtureLoader => {
+  const load = createDiskFixtureLoader(dir);
+  return async key => {
+    const recorded = await load(key);
+    if (recorded === null) throw new Error(`no recording ${key}.json in ${dir}`);
+    return recorded;
+  };
+};
+
+const loadRules = async (file: string): Promise<CategoryRule[]> => {
+  const text = await readFile(file, 'utf8').catch(() => {
+    throw new UsageError(`Cannot read rules file ${file}.`);
+  });
+  try {
+    return parseRulesJson(text);
+  } catch (err) {
+    throw new UsageError(`Invalid rules file ${file}: ${(err as Error).message}`);
+  }
+};
+
+const run = async (options: Options): Promise<number> => {
+  const listing = await readdir(options.input).catch(() => {
+    throw new UsageError(`Cannot read folder ${options.input}.`);
+  });
+  const folioNames = listing.filter(name => name.toLowerCase().endsWith('.pdf')).sort();
+  if (folioNames.length === 0) throw new UsageError(`No PDF files in ${options.input}.`);
+
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!options.replay && !apiKey) throw new UsageError('GEMINI_API_KEY is not set. Set it, or use --replay <dir>.');
+
+  const rules = options.rulesFile ? await loadRules(options.rulesFile) : [];
+  const historical = await readJson<HistoricalRatesFile>(path.resolve('public', 'rates', 'historical.json'));
+  const rates = chainRateProviders([...(historical ? [createHistoricalRateProvider(historical)] : []), createManualRateProvider()]);
+  const replayExtractor = options.replay ? createFixtureExtractor(createReplayLoader(options.replay)) : null;
+
+  await mkdir(options.out, { recursive: true });
+  if (options.record) await mkdir(options.record, { recursive: true });
+  const progressPath = path.join(options.out, PROGRESS_FILE);
+  const progress: Progress = (await readJson<Progress>(progressPath)) ?? {};
+  // Workers finish in any order; saves are chained so they never overlap.
+  let saving = Promise.resolve();
+  const saveProgress = () => {
+    saving = saving.then(() => writeAtomic(progressPath, JSON.stringify(progress, null, 2)));
+    return saving;
+  };
+
+  const modelResponse = async (file: string, name: string, position: string) => {
+    if (replayExtractor) return replayExtractor.extract({ name } as File);
+    const data = await readFile(file);
+    if (data.length > MAX_UPLOAD_BYTES) throw new Error(`larger than ${MAX_UPLOAD_BYTES / 1024 / 1024}MB`);
+    // Long folios go to the model a few pages at a time, like in the app.
+    const onProgress = ({ totalPages, ranges }: ExtractionProgress) => {
+      const current = ranges.find(range => range.status === 'analyzing');
+      if (current && ranges.length > 1) console.log(`${position} ${name}: pages ${current.fromPage}-${current.toPage} of ${totalPages}`);
+    };
+    const raw = await extractByPageRanges(new File([data], name, { type: 'application/pdf' }), { onProgress }, async chunk =>
+      generateAnalysis(apiKey!, { data: Buffer.from(await chunk.arrayBuffer()).toString('base64'), mimeType: 'application/pdf', taxonomy: DEFAULT_TAXONOMY })
+    );
+    if (options.record) await writeFile(path.join(options.record, `${fixtureKeyForFile(name)}.json`), JSON.stringify(raw, null, 2));
+    return raw;
+  };
+
+  const processFolio = async (name: string, position: string) => {
+    const file = path.join(options.input, name);
+    const info = await stat(file);
+    const fingerprint = `${info.size}-${info.mtimeMs}`;
+    if (!options.force && progress[name]?.status === 'done' && progress[name].fingerprint === fingerprint) {
+      console.log(`${position} ${name}: already done, skipped`);
+      return;
+    }
+
+    try {
+      const { result: validated, issues } = validateAnalysisResult(await modelResponse(file, name, position), DEFAULT_TAXONOMY);
+      const result = applyCategoryRules(validated, rules);
+      const { transactions, spend } = convertStay(result, rates, options.currency);
+      const ctx: ExportContext = {
+        result,
+        transactions,
+        visibleTransactions: transactions,
+        filters: NO_FILTERS,
+        currency: options.currency,
+        rates,
+        totalSpend: spend,
+        language: options.language,
+        taxonomy: DEFAULT_TAXONOMY,
+        formatCurrency: formatAmount
+      };
+
+      const base = path.join(options.out, name.replace(/\.pdf$/i, ''));
+      const outputs = await Promise.all(options.formats.map(async format => {
+        const target = `${base}.${format}`;
+        await writeAtomic(target, format === 'json' ? serializeAnalysis(ctx) : toCsv(ctx));
+        return target;
+      }));
+
+      const { printedTotal, lineSum, difference, balanced, findings } = reconcile(result, rates);
+      progress[name] = {
+        fingerprint,
+        status: 'done',
+        finishedAt: new Date().toISOString(),
+        outputs,
+        reconciliation: { printedTotal, lineSum, difference, balanced, causes: findings.map(finding => finding.cause) }
+      };
+      const warnings = issues.length > 0 ? `, ${issues.length} validation warning(s)` : '';
+      console.log(`${position} ${name}: ${result.transactions.length} lines, ${balanced ? 'balanced' : `MISMATCH ${formatAmount(difference)}`}${warnings}`);
+    } catch (err) {
+      const message = err instanceof AnalysisValidationError
+        ? `invalid extraction: ${err.issues.map(issue => `${issue.field} (${issue.code})`).join(', ')}`
+        : (err as Error).message;
+      progress[name] = { fingerprint, status: 'failed', finishedAt: new Date().toISOString(), error: message };
+      console.error(`${position} ${name}: FAILED ${message}`);
+    }
+    await saveProgress();
+  };
+
+  const queue = folioNames.map((name, index) => ({ name, position: `[${index + 1}/${folioNames.length}]` }));
+  const worker = async () => {
+    for (let next = queue.shift(); next; next = queue.shift()) await processFolio(next.name, next.position);
+  };
+  await Promise.all(Array.from({ length: Math.min(options.concurrency, queue.length) }, worker));
+  await saving;
+
+  // Summary over the folios in the folder, including those done in earlier runs
+  const entries = folioNames.map(name => ({ name, entry: progress[name] }));
+  const failed = entries.filter(({ entry }) => entry?.status === 'failed');
+  const mismatched = entries.filter(({ entry }) => entry?.status === 'done' && entry.reconciliation && !entry.reconciliation.balanced);
+
+  console.log(`\n${entries.length - failed.length}/${entries.length} folios analyzed, ${failed.length} failed, ${mismatched.length} with mismatches.`);
+  if (mismatched.length > 0) {
+    console.log('\nPrinted total vs. line sum:');
+    mismatched.forEach(({ name, entry }) => {
+      const rec = entry!.reconciliation!;
+      console.log(`  ${name}: ${formatAmount(rec.printedTotal)} vs ${formatAmount(rec.lineSum)} (${rec.difference > 0 ? '+' : ''}${formatAmount(rec.difference)}) ${rec.causes.join(', ')}`);
+    });
+  }
+  if (failed.length > 0) {
+    console.log('\nFailed:');
+    failed.forEach(({ name, entry }) => console.log(`  ${name}: ${entry!.error}`));
+  }
+
+  await writeAtomic(path.join(options.out, 'summary.json'), JSON.stringify({
+    generatedAt: new Date().toISOString(),
+    folios: entries.length,
+    failed: failed.map(({ name, entry }) => ({ file: name, error: entry!.error })),
+    mismatches: mismatched.map(({ name, entry }) => ({ file: name, ...entry!.reconciliation }))
+  }, null, 2));
+
+  if (failed.length > 0) return EXIT_FAILED;
+  if (options.strict && mismatched.length > 0) return EXIT_MISMATCH;
+  return 0;
+};
+
+const main = async () => {
+  try {
+    process.loadEnvFile('.env.local');
+  } catch {
+    // Optional, as for the server
+  }
+  try {
+    const options = parseOptions(process.argv.slice(2));
+    if (!options) {
+      console.log(USAGE);
+      return 0;
+    }
+    return await run(options);
+  } catch (err) {
+    if (err instanceof UsageError || (err as NodeJS.ErrnoException).code?.startsWith('ERR_PARSE_ARGS')) {
+      console.error(`${(err as Error).message}\n\n${USAGE}`);
+      return EXIT_USAGE;
+    }
+    console.error(err);
+    return EXIT_FAILED;
+  }
+};
+
+main().then(code => {
+  process.exitCode = code;
+});
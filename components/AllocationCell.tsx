@@ -0,0 +1,103 @@
+import React from 'react';
+import { Allocation, Language, Participant } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { isAllocationValid } from '../services/billSplit';
+import { AlertTriangle } from 'lucide-react';
+
+interface Props {
+  allocation?: Allocation;
+  participants: Participant[];
+  sharedByDefault: boolean; // Room and tax lines are shared automatically when left unallocated
+  language: Language;
+  onAllocate: (allocation: Allocation | null) => void;
+}
+
+// Select values: '' (no allocation), 'whole:<participant id>', 'equal' and 'percent'.
+const selectValue = (allocation?: Allocation) => {
+  if (!allocation) return '';
+  return allocation.mode === 'whole' ? `whole:${allocation.participantId}` : allocation.mode;
+};
+
+export const AllocationCell: React.FC<Props> = ({ allocation, participants, sharedByDefault, language, onAllocate }) => {
+  const t = TRANSLATIONS[language];
+
+  const handleSelect = (value: string) => {
+    if (value === '') return onAllocate(null);
+    if (value.startsWith('whole:')) return onAllocate({ mode: 'whole', participantId: value.slice('whole:'.length) });
+    if (value === 'equal') return onAllocate({ mode: 'equal', participantIds: participants.map(participant => participant.id) });
+    // Start percentages from an even split so they already add up to 100.
+    const even = participants.length > 0 ? Math.floor(100 / participants.length) : 0;
+    const shares: Record<string, number> = {};
+    participants.forEach((participant, index) => {
+      shares[participant.id] = index === 0 ? 100 - even * (participants.length - 1) : even;
+    });
+    onAllocate({ mode: 'percent', shares });
+  };
+
+  const setShare = (participantId: string, value: string) => {
+    if (allocation?.mode !== 'percent') return;
+    const share = Number(value);
+    onAllocate({ mode: 'percent', shares: { ...allocation.shares, [participantId]: value.trim() === '' || !Number.isFinite(share) ? 0 : Math.max(0, share) } });
+  };
+
+  const toggleEqual = (participantId: string) => {
+    if (allocation?.mode !== 'equal') return;
+    const participantIds = allocation.participantIds.includes(participantId)
+      ? allocation.participantIds.filter(other => other !== participantId)
+      : [...allocation.participantIds, participantId];
+    onAllocate(participantIds.length > 0 ? { mode: 'equal', participantIds } : null);
+  };
+
+  const percentOff = !!allocation && !isAllocationValid(allocation);
+  const smallInputClass = 'px-1 py-0.5 border border-gray-300 rounded text-xs bg-white focus:ring-2 focus:ring-blue-500 outline-none';
+
+  return (
+    <td className="px-4 py-3 whitespace-nowrap" onClick={e => e.stopPropagation()}>
+      <div className="flex items-center gap-1">
+        <select
+          className={`${smallInputClass} ${!allocation && !sharedByDefault ? 'text-amber-700' : ''}`}
+          value={selectValue(allocation)}
+          onChange={e => handleSelect(e.target.value)}
+        >
+          <option value="">{sharedByDefault ? t.allocationAuto : t.allocationUnassigned}</option>
+          {participants.map(participant => (
+            <option key={participant.id} value={`whole:${participant.id}`}>{participant.name || t.participantNamePlaceholder}</option>
+          ))}
+          {participants.length > 1 && <option value="equal">{t.allocationEqual}</option>}
+          {participants.length > 1 && <option value="percent">{t.allocationPercent}</option>}
+        </select>
+        {percentOff && (
+          <span title={t.percentMustTotal} className="inline-flex text-red-500 cursor-help"><AlertTriangle size={12} /></span>
+        )}
+      </div>
+      {allocation?.mode === 'equal' && (
+        <div className="mt-1 space-y-0.5">
+          {participants.map(participant => (
+            <label key={participant.id} className="flex items-center gap-1 text-xs text-gray-600">
+              <input type="checkbox" checked={allocation.participantIds.includes(participant.id)} onChange={() => toggleEqual(participant.id)} />
+              {participant.name || t.participantNamePlaceholder}
+            </label>
+          ))}
+        </div>
+      )}
+      {allocation?.mode === 'percent' && (
+        <div className="mt-1 space-y-0.5">
+          {participants.map(participant => (
+            <label key={participant.id} className="flex items-center gap-1 text-xs text-gray-600">
+              <input
+                className={`${smallInputClass} w-[56px] text-right`}
+                type="number"
+                min="0"
+                max="100"
+                step="1"
+                value={allocation.shares[participant.id] ?? 0}
+                onChange={e => setShare(participant.id, e.target.value)}
+              />
+              % {participant.name || t.participantNamePlaceholder}
+            </label>
+          ))}
+        </div>
+      )}
+    </td>
+  );
+};
@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { Anomaly, Language, Transaction } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { AlertTriangle, ChevronDown } from 'lucide-react';
+
+interface Props {
+  anomalies: Anomaly[];
+  transactions: Transaction[];
+  language: Language;
+  onShowLine: (id: string) => void;
+}
+
+// Summary of the flagged charges; each flag lists its lines, and clicking one selects it in the table.
+export const AnomalyBadge: React.FC<Props> = ({ anomalies, transactions, language, onShowLine }) => {
+  const t = TRANSLATIONS[language];
+  const [open, setOpen] = useState(false);
+  if (anomalies.length === 0) return null;
+
+  const byId = new Map(transactions.map(tx => [tx.id, tx]));
+
+  return (
+    <div className="relative inline-block mt-2 text-left">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-semibold bg-red-50 text-red-700 border border-red-200 hover:bg-red-100"
+      >
+        <AlertTriangle size={12} />
+        {anomalies.length} {t.anomaliesBadge}
+        <ChevronDown size={12} />
+      </button>
+      {open && (
+        <div className="absolute right-0 z-20 mt-1 w-80 max-h-96 overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg p-3 whitespace-normal">
+          <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">{t.anomaliesTitle}</p>
+          <ul className="space-y-3">
+            {anomalies.map(anomaly => (
+              <li key={anomaly.key}>
+                <p className="text-sm font-medium text-red-700">{t.anomalyKinds[anomaly.kind]}</p>
+                <ul className="mt-1 space-y-0.5">
+                  {anomaly.transactionIds.map(id => {
+                    const tx = byId.get(id);
+                    return tx && (
+                      <li key={id}>
+                        <button
+                          onClick={() => {
+                            onShowLine(id);
+                            setOpen(false);
+                          }}
+                          className="w-full flex justify-between gap-2 px-1.5 py-0.5 text-xs text-gray-700 rounded hover:bg-gray-100"
+                        >
+                          <span className="truncate">{tx.date} · {tx.cleanName || tx.originalDescription}</span>
+                          <span className="shrink-0 font-medium">{tx.amount.toFixed(2)} {tx.currency}</span>
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
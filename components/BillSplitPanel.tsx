@@ -0,0 +1,155 @@
+import React from 'react';
+import { BillSplit, Language, Participant, RoomBasis, Settlement } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { createParticipant, removeParticipant } from '../services/billSplit';
+import { Users, Plus, Trash2, Download, X, AlertTriangle } from 'lucide-react';
+
+interface Props {
+  split: BillSplit;
+  settlement: Settlement;
+  stayNights: number; // Shown as the default for participants without their own nights
+  language: Language;
+  formatCurrency: (val: number) => string;
+  onChange: (split: BillSplit) => void;
+  onShowUnassigned: () => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+export const BillSplitPanel: React.FC<Props> = ({
+  split, settlement, stayNights, language, formatCurrency, onChange, onShowUnassigned, onExport, onClose
+}) => {
+  const t = TRANSLATIONS[language];
+
+  const updateParticipant = (id: string, patch: Partial<Participant>) => {
+    onChange({ ...split, participants: split.participants.map(participant => (participant.id === id ? { ...participant, ...patch } : participant)) });
+  };
+
+  const inputClass = 'px-2 py-1 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white';
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <Users size={18} className="text-blue-600" /> {t.splitBillLabel}
+        </h3>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onExport}
+            disabled={split.participants.length === 0}
+            className="inline-flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-blue-700 bg-blue-50 rounded-md hover:bg-blue-100 disabled:opacity-40"
+          >
+            <Download size={14} /> {t.exportSettlement}
+          </button>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={18} /></button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 mb-3">{t.participantsTitle}</h4>
+          <div className="space-y-2">
+            {split.participants.map(participant => (
+              <div key={participant.id} className="flex items-center gap-2">
+                <input
+                  className={`${inputClass} flex-1 min-w-0`}
+                  value={participant.name}
+                  placeholder={t.participantNamePlaceholder}
+                  onChange={e => updateParticipant(participant.id, { name: e.target.value })}
+                />
+                <input
+                  className={`${inputClass} w-20 text-right`}
+                  type="number"
+                  min="0"
+                  step="1"
+                  title={t.participantNights}
+                  placeholder={String(stayNights)}
+                  value={participant.nights ?? ''}
+                  onChange={e => {
+                    const nights = Number(e.target.value);
+                    updateParticipant(participant.id, { nights: e.target.value.trim() === '' || !Number.isFinite(nights) ? undefined : Math.max(0, nights) });
+                  }}
+                />
+                <span className="text-xs text-gray-400 w-12">{t.participantNights}</span>
+                <button onClick={() => onChange(removeParticipant(split, participant.id))} className="p-1 text-gray-400 hover:text-red-600">
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={() => onChange({ ...split, participants: [...split.participants, createParticipant()] })}
+            className="mt-3 inline-flex items-center gap-1 px-2 py-1 text-sm text-blue-700 hover:bg-blue-50 rounded"
+          >
+            <Plus size={14} /> {t.addParticipant}
+          </button>
+          <label className="block mt-4 text-xs text-gray-500">
+            {t.roomBasisLabel}
+            <select
+              className={`${inputClass} block mt-1`}
+              value={split.roomBasis}
+              onChange={e => onChange({ ...split, roomBasis: e.target.value as RoomBasis })}
+            >
+              {(Object.keys(t.roomBasisOptions) as RoomBasis[]).map(option => (
+                <option key={option} value={option}>{t.roomBasisOptions[option]}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 mb-3">{t.settlementTitle}</h4>
+          {settlement.invalidIds.length > 0 && (
+            <p className="text-sm text-red-600 flex items-start gap-2 mb-3">
+              <AlertTriangle size={14} className="mt-0.5 shrink-0" /> {t.invalidPercentLines} ({settlement.invalidIds.length})
+            </p>
+          )}
+          {split.participants.length === 0 ? (
+            <p className="text-sm text-gray-500">{t.noParticipants}</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="text-gray-500 border-b border-gray-200">
+                <tr>
+                  <th className="py-2 pr-2 text-left font-medium"></th>
+                  <th className="py-2 px-2 text-right font-medium">{t.roomRate}</th>
+                  <th className="py-2 px-2 text-right font-medium">{t.taxesLabel}</th>
+                  <th className="py-2 px-2 text-right font-medium">{t.otherCharges}</th>
+                  <th className="py-2 pl-2 text-right font-medium">{t.settlementTotal}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {settlement.participants.map(row => (
+                  <tr key={row.participant.id}>
+                    <td className="py-2 pr-2 text-gray-900 truncate max-w-[140px]">{row.participant.name || t.participantNamePlaceholder}</td>
+                    <td className="py-2 px-2 text-right">{formatCurrency(row.room)}</td>
+                    <td className="py-2 px-2 text-right">{formatCurrency(row.taxes)}</td>
+                    <td className="py-2 px-2 text-right">{formatCurrency(row.other)}</td>
+                    <td className="py-2 pl-2 text-right font-semibold">{formatCurrency(row.total)}</td>
+                  </tr>
+                ))}
+                {settlement.unassignedIds.length > 0 && (
+                  <tr className="text-amber-700">
+                    <td className="py-2 pr-2">
+                      <button onClick={onShowUnassigned} className="underline decoration-dotted hover:text-amber-900">
+                        {t.unassignedLabel} ({settlement.unassignedIds.length})
+                      </button>
+                    </td>
+                    <td colSpan={3}></td>
+                    <td className="py-2 pl-2 text-right font-semibold">{formatCurrency(settlement.unassigned)}</td>
+                  </tr>
+                )}
+              </tbody>
+              <tfoot className="border-t border-gray-200 font-semibold">
+                <tr>
+                  <td className="py-2 pr-2">{t.settlementTotal}</td>
+                  <td colSpan={3}></td>
+                  <td className="py-2 pl-2 text-right">{formatCurrency(settlement.total)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
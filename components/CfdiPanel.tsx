@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { Cfdi, CfdiCrossCheck, CfdiParty, Language, Transaction } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { CfdiParseError, parseCfdi } from '../services/cfdi';
+import { FileCode, Upload, Trash2, AlertTriangle, CheckCircle2, X } from 'lucide-react';
+
+interface Props {
+  cfdi?: Cfdi;
+  check: CfdiCrossCheck | null;
+  transactions: Transaction[];
+  folioCurrency: string; // The statement's own currency
+  language: Language;
+  onAttach: (cfdi: Cfdi | undefined) => void;
+  onShowLine: (id: string) => void;
+  onClose: () => void;
+}
+
+export const CfdiPanel: React.FC<Props> = ({ cfdi, check, transactions, folioCurrency, language, onAttach, onShowLine, onClose }) => {
+  const t = TRANSLATIONS[language];
+  const [importError, setImportError] = useState<string | null>(null);
+  const byId = new Map(transactions.map(tx => [tx.id, tx]));
+
+  // Invoice and folio amounts are both in the documents' own currency, not the selected one.
+  const formatAmount = (value: number, code = cfdi?.currency) => {
+    try {
+      return new Intl.NumberFormat(language === Language.ES ? 'es-MX' : 'en-US', { style: 'currency', currency: code || 'MXN' }).format(value);
+    } catch {
+      return value.toFixed(2);
+    }
+  };
+
+  const handleAttach = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      onAttach(parseCfdi(await file.text()));
+      setImportError(null);
+    } catch (err) {
+      console.error(err);
+      setImportError(err instanceof CfdiParseError ? `${t.cfdiImportError} ${t.cfdiParseErrors[err.reason]}` : t.cfdiImportError);
+    }
+  };
+
+  const lineButtons = (ids: string[]) => ids.map(id => (
+    <button
+      key={id}
+      onClick={() => onShowLine(id)}
+      className="px-1.5 py-0.5 text-xs text-gray-700 bg-gray-100 rounded hover:bg-gray-200"
+    >
+      {byId.get(id)?.cleanName || id}
+    </button>
+  ));
+
+  const partyCard = (title: string, party: CfdiParty) => (
+    <div className="bg-gray-50 rounded-lg p-3 text-sm space-y-1">
+      <p className="text-xs text-gray-500 uppercase tracking-wide">{title}</p>
+      <p className="font-semibold text-gray-900">{party.name || '—'}</p>
+      <p className="text-gray-600">{t.rfcLabel}: <span className="font-mono">{party.rfc || '—'}</span></p>
+      <p className="text-gray-600">{t.taxRegimeLabel}: {party.taxRegime || '—'}</p>
+      {party.cfdiUse !== undefined && <p className="text-gray-600">{t.cfdiUseLabel}: {party.cfdiUse || '—'}</p>}
+      {party.postalCode !== undefined && <p className="text-gray-600">{t.postalCodeLabel}: {party.postalCode || '—'}</p>}
+    </div>
+  );
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <FileCode size={18} className="text-blue-600" /> {t.cfdiTitle}
+        </h3>
+        <div className="flex items-center gap-2">
+          <label className="inline-flex items-center gap-1 px-3 py-1.5 bg-blue-50 text-blue-700 rounded-md text-sm font-medium hover:bg-blue-100 transition-colors cursor-pointer">
+            <Upload size={14} /> {cfdi ? t.replaceCfdi : t.attachCfdi}
+            <input type="file" accept="application/xml,text/xml,.xml" className="hidden" onChange={handleAttach} />
+          </label>
+          {cfdi && (
+            <button
+              onClick={() => onAttach(undefined)}
+              className="inline-flex items-center gap-1 px-3 py-1.5 bg-gray-50 text-gray-700 rounded-md text-sm font-medium hover:bg-gray-100 transition-colors"
+            >
+              <Trash2 size={14} /> {t.removeCfdi}
+            </button>
+          )}
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={18} /></button>
+        </div>
+      </div>
+
+      {importError && <p className="text-sm text-red-600 mb-3">{importError}</p>}
+
+      {!cfdi || !check ? (
+        <p className="text-sm text-gray-500">{t.noCfdi}</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+            {partyCard(t.cfdiIssuer, cfdi.issuer)}
+            {partyCard(t.cfdiReceiver, cfdi.receiver)}
+            <div className="bg-gray-50 rounded-lg p-3 text-sm space-y-1">
+              <p className="text-xs text-gray-500 uppercase tracking-wide">{t.cfdiUuid}</p>
+              <p className="font-mono text-xs text-gray-900 break-all">{cfdi.uuid ?? '—'}</p>
+              <p className="text-gray-600">{[cfdi.series, cfdi.folio].filter(Boolean).join('-') || '—'} · {cfdi.date} · CFDI {cfdi.version}</p>
+              <p className="text-gray-600">{t.cfdiTotalLabel}: <span className="font-semibold text-gray-900">{formatAmount(cfdi.total)}</span></p>
+              <p className="text-gray-600">{t.folioTotalLabel}: <span className="font-semibold text-gray-900">{formatAmount(check.folioTotal, folioCurrency || cfdi.currency)}</span></p>
+            </div>
+          </div>
+
+          <h4 className="text-sm font-semibold text-gray-700 mb-2">{t.cfdiConcepts}</h4>
+          <div className="overflow-x-auto mb-6">
+            <table className="w-full text-sm">
+              <tbody className="divide-y divide-gray-100">
+                {check.concepts.map(({ conceptIndex, transactionIds }) => {
+                  const concept = cfdi.concepts[conceptIndex];
+                  return (
+                    <tr key={conceptIndex}>
+                      <td className="py-2 pr-4 text-gray-900">
+                        {concept.description}
+                        <span className="ml-2 text-xs text-gray-400 font-mono">{concept.productCode}</span>
+                      </td>
+                      <td className="py-2 px-4 text-right text-gray-500 whitespace-nowrap">× {concept.quantity}</td>
+                      <td className="py-2 px-4 text-right font-medium whitespace-nowrap">{formatAmount(concept.amount - concept.discount)}</td>
+                      <td className="py-2 pl-4">
+                        {transactionIds.length > 0
+                          ? <div className="flex flex-wrap gap-1">{lineButtons(transactionIds)}</div>
+                          : <span className="text-red-500"><AlertTriangle size={14} /></span>}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <h4 className="text-sm font-semibold text-gray-700 mb-3">{t.cfdiFindingsTitle}</h4>
+          {check.findings.length === 0 ? (
+            <p className="text-sm text-green-700 flex items-center gap-2"><CheckCircle2 size={16} /> {t.cfdiMatchesFolio}</p>
+          ) : (
+            <ul className="space-y-3">
+              {check.findings.map(finding => (
+                <li key={finding.key} className="text-sm">
+                  <p className="flex items-start gap-2 text-red-700 font-medium">
+                    <AlertTriangle size={14} className="mt-0.5 shrink-0" />
+                    <span>
+                      {t.cfdiFindingKinds[finding.kind]}
+                      {finding.detail && <span className="font-normal text-gray-500"> · {finding.detail}</span>}
+                    </span>
+                    {(finding.expected !== undefined || finding.actual !== undefined) && (
+                      <span className="ml-auto whitespace-nowrap">
+                        {finding.actual !== undefined && formatAmount(finding.actual)}
+                        {finding.expected !== undefined && (
+                          <span className="font-normal text-gray-500">{finding.actual !== undefined ? ' / ' : ''}{formatAmount(finding.expected)}</span>
+                        )}
+                      </span>
+                    )}
+                  </p>
+                  {finding.transactionIds.length > 0 && (
+                    <div className="ml-6 mt-1 flex flex-wrap gap-1">{lineButtons(finding.transactionIds)}</div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
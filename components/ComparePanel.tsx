@@ -0,0 +1,232 @@
+import React, { useMemo, useState } from 'react';
+import { AnalysisResult, CategoryDefinition, CategoryRule, Currency, HistoryEntry, Language, LineDiff, RateProvider } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { diffStatements } from '../services/statementDiff';
+import { applyCategoryRules } from '../services/categoryRules';
+import { AnalysisImportError, parseAnalysisExport } from '../services/exporters';
+import { categoryColor, categoryLabel } from '../services/taxonomy';
+import { GitCompare, ArrowLeftRight, Upload, X } from 'lucide-react';
+
+interface Props {
+  current: AnalysisResult;
+  candidates: HistoryEntry[]; // Saved analyses other than the open one
+  rules: CategoryRule[];
+  taxonomy: CategoryDefinition[];
+  rates: RateProvider;
+  currency: Currency;
+  language: Language;
+  formatCurrency: (val: number) => string;
+  onShowLine: (id: string) => void; // Lines of the open statement only
+  onClose: () => void;
+}
+
+const KIND_STYLES: Record<LineDiff['kind'], string> = {
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-800',
+  changed: 'bg-amber-100 text-amber-800',
+  unchanged: 'bg-gray-100 text-gray-600'
+};
+
+export const ComparePanel: React.FC<Props> = ({
+  current, candidates, rules, taxonomy, rates, currency, language, formatCurrency, onShowLine, onClose
+}) => {
+  const t = TRANSLATIONS[language];
+  const [other, setOther] = useState<{ key: string; name: string; result: AnalysisResult } | null>(null);
+  const [currentIsNewer, setCurrentIsNewer] = useState(true);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const categorizedOther = useMemo(() => other && applyCategoryRules(other.result, rules), [other, rules]);
+  const diff = useMemo(() => {
+    if (!categorizedOther) return null;
+    const [before, after] = currentIsNewer ? [categorizedOther, current] : [current, categorizedOther];
+    return diffStatements(before, after, rates, currency, taxonomy);
+  }, [categorizedOther, current, currentIsNewer, rates, currency, taxonomy]);
+
+  const handleOpenFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const { analysis } = parseAnalysisExport(await file.text(), taxonomy);
+      setOther({ key: `file:${file.name}`, name: file.name, result: analysis.result });
+      setImportError(null);
+    } catch (err) {
+      console.error(err);
+      setImportError(err instanceof AnalysisImportError ? `${t.importAnalysisError} ${err.message}` : t.errorGeneric);
+    }
+  };
+
+  const currentName = `${current.hotelName || current.confirmationNumber} (${t.compareCurrent})`;
+  const [beforeName, afterName] = other ? (currentIsNewer ? [other.name, currentName] : [currentName, other.name]) : ['', ''];
+  const currentSide = currentIsNewer ? 'after' : 'before';
+  const signed = (value: number) => `${value > 0 ? '+' : ''}${formatCurrency(value)}`;
+
+  const lineCell = (line: LineDiff) => {
+    const tx = line.after ?? line.before!;
+    const own = line[currentSide];
+    const changed = (field: LineDiff['changedFields'][number]) => line.changedFields.includes(field);
+    return (
+      <>
+        <td className={`py-2 pr-4 whitespace-nowrap ${changed('date') ? 'text-amber-700 font-medium' : 'text-gray-500'}`}>
+          {changed('date') && <span className="line-through text-gray-400 mr-1">{line.before!.date}</span>}
+          {tx.date}
+        </td>
+        <td className="py-2 px-4">
+          {own?.id ? (
+            <button onClick={() => onShowLine(own.id!)} className="text-left text-gray-900 hover:text-blue-700 hover:underline">{tx.cleanName}</button>
+          ) : (
+            <span className="text-gray-900">{tx.cleanName}</span>
+          )}
+          {changed('cleanName') && <span className="block text-xs text-gray-400 line-through">{line.before!.cleanName}</span>}
+          {changed('category') && (
+            <span className="block text-xs text-amber-700">
+              {categoryLabel(taxonomy, line.before!.category, language, true)} → {categoryLabel(taxonomy, line.after!.category, language, true)}
+            </span>
+          )}
+        </td>
+        <td className={`py-2 pl-4 text-right whitespace-nowrap ${line.kind === 'removed' ? 'text-gray-400 line-through' : 'font-medium'}`}>
+          {changed('amount') && <span className="line-through text-gray-400 font-normal mr-1">{formatCurrency(line.before!.convertedAmount)}</span>}
+          {formatCurrency(tx.convertedAmount)}
+        </td>
+      </>
+    );
+  };
+
+  const selectClass = 'px-2 py-1 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white';
+  const visibleLines = diff?.lines.filter(line => line.kind !== 'unchanged') ?? [];
+  const unchangedCount = (diff?.lines.length ?? 0) - visibleLines.length;
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <GitCompare size={18} className="text-blue-600" /> {t.compareTitle}
+        </h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={18} /></button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <span className="text-sm text-gray-500">{t.compareWith}</span>
+        <select
+          className={selectClass}
+          value={other?.key.startsWith('history:') ? other.key : ''}
+          onChange={e => {
+            const entry = candidates.find(candidate => `history:${candidate.id}` === e.target.value);
+            setOther(entry ? { key: `history:${entry.id}`, name: entry.name, result: entry.result } : null);
+          }}
+        >
+          <option value="">{t.compareChooseHistory}</option>
+          {candidates.map(entry => (
+            <option key={entry.id} value={`history:${entry.id}`}>{entry.name} · {new Date(entry.extractedAt).toLocaleDateString()}</option>
+          ))}
+        </select>
+        <label className="inline-flex items-center gap-1 px-3 py-1.5 bg-gray-50 text-gray-700 rounded-md text-sm font-medium hover:bg-gray-100 transition-colors cursor-pointer">
+          <Upload size={14} /> {t.compareOpenFile}
+          <input type="file" accept="application/json,.json" className="hidden" onChange={handleOpenFile} />
+        </label>
+        {other && (
+          <button
+            onClick={() => setCurrentIsNewer(prev => !prev)}
+            className="inline-flex items-center gap-1 px-3 py-1.5 bg-gray-50 text-gray-700 rounded-md text-sm font-medium hover:bg-gray-100 transition-colors"
+          >
+            <ArrowLeftRight size={14} /> {t.compareSwap}
+          </button>
+        )}
+      </div>
+
+      {importError && <p className="text-sm text-red-600 mb-3">{importError}</p>}
+
+      {!diff ? (
+        <p className="text-sm text-gray-500">{t.compareHint}</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-4 mb-6">
+            <div className="bg-gray-50 rounded-lg p-3">
+              <p className="text-xs text-gray-500 uppercase tracking-wide">{t.compareBefore}</p>
+              <p className="text-xs text-gray-500 truncate" title={beforeName}>{beforeName}</p>
+              <p className="text-xl font-bold text-gray-800">{formatCurrency(diff.totalBefore)}</p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-3">
+              <p className="text-xs text-gray-500 uppercase tracking-wide">{t.compareAfter}</p>
+              <p className="text-xs text-gray-500 truncate" title={afterName}>{afterName}</p>
+              <p className="text-xl font-bold text-gray-800">{formatCurrency(diff.totalAfter)}</p>
+            </div>
+            <div className="bg-blue-50 rounded-lg p-3">
+              <p className="text-xs text-gray-500 uppercase tracking-wide">{t.netChange}</p>
+              <p className="text-xl font-bold text-blue-700">{signed(diff.totalAfter - diff.totalBefore)}</p>
+              <p className="text-xs text-gray-500 mt-1 space-x-2">
+                {(['added', 'removed', 'changed'] as const).map(kind => (
+                  <span key={kind}>{t.lineChangeKinds[kind]}: {diff.counts[kind]}</span>
+                ))}
+              </p>
+            </div>
+          </div>
+
+          {diff.headerChanges.length === 0 && diff.categories.length === 0 && visibleLines.length === 0 && (
+            <p className="text-sm text-gray-500">{t.compareNoChanges}</p>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+            {diff.headerChanges.length > 0 && (
+              <div>
+                <h4 className="text-sm font-semibold text-gray-700 mb-2">{t.headerChangesTitle}</h4>
+                <table className="w-full text-sm">
+                  <tbody className="divide-y divide-gray-100">
+                    {diff.headerChanges.map(change => (
+                      <tr key={change.field}>
+                        <td className="py-2 pr-4 text-gray-500">{change.field === 'totalAmount' ? t.totalAmountLabel : t.headerFieldLabels[change.field]}</td>
+                        <td className="py-2 px-4 text-gray-400 line-through">{change.before || '—'}</td>
+                        <td className="py-2 pl-4 text-gray-900 font-medium">{change.after || '—'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {diff.categories.length > 0 && (
+              <div>
+                <h4 className="text-sm font-semibold text-gray-700 mb-2">{t.categoryChangesTitle}</h4>
+                <table className="w-full text-sm">
+                  <tbody className="divide-y divide-gray-100">
+                    {diff.categories.map(delta => (
+                      <tr key={delta.category}>
+                        <td className="py-2 pr-4">
+                          <span className="inline-block h-2.5 w-2.5 rounded-full mr-2" style={{ backgroundColor: categoryColor(taxonomy, delta.category) }} />
+                          {categoryLabel(taxonomy, delta.category, language)}
+                        </td>
+                        <td className="py-2 px-4 text-right text-gray-500">{formatCurrency(delta.before)}</td>
+                        <td className="py-2 px-4 text-right text-gray-900">{formatCurrency(delta.after)}</td>
+                        <td className={`py-2 pl-4 text-right font-semibold ${delta.change > 0 ? 'text-red-600' : 'text-green-600'}`}>{signed(delta.change)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          {visibleLines.length > 0 && (
+            <>
+              <h4 className="text-sm font-semibold text-gray-700 mb-2">{t.lineChangesTitle}</h4>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <tbody className="divide-y divide-gray-100">
+                    {visibleLines.map((line, index) => (
+                      <tr key={`${line.before?.id ?? ''}|${line.after?.id ?? ''}|${index}`}>
+                        <td className="py-2 pr-4">
+                          <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${KIND_STYLES[line.kind]}`}>{t.lineChangeKinds[line.kind]}</span>
+                        </td>
+                        {lineCell(line)}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+          {unchangedCount > 0 && <p className="text-xs text-gray-400 mt-2">{unchangedCount} {t.unchangedLines}</p>}
+        </>
+      )}
+    </div>
+  );
+};
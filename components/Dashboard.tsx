@@ -1,60 +1,146 @@
-import React, { useMemo, useState } from 'react';
-import { AnalysisResult, Currency, Language, Transaction, Category } from '../types';
-import { TRANSLATIONS, EXCHANGE_RATE_MXN_TO_USD, EXCHANGE_RATE_USD_TO_MXN } from '../constants';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AnalysisResult, Currency, Language, Category, CategoryDefinition, ValidationIssue, ExtractionRegion, TransactionEditOp, CategoryRule, ExchangeRate, RateOverride, RateProvider, ExportFilters, ExportFormat, HeaderField, ReviewItem, ExpenseClass, ExpensePolicy, BillSplit, TaxSettings, Cfdi, HistoryEntry } from '../types';
+import { TRANSLATIONS } from '../constants';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend, BarChart, Bar, XAxis, YAxis, CartesianGrid } from 'recharts';
-import { Search, ArrowUpDown, Filter, Calendar, Download } from 'lucide-react';
+import { Search, Filter, Calendar, Download, AlertTriangle, Undo2, Redo2, Plus, ListChecks, Tags, ChevronDown, Loader2, FileText, ShieldCheck, Briefcase, Users, Receipt, FileCode, GitCompare } from 'lucide-react';
+import { ValidationIssues } from './ValidationIssues';
+import { ReconciliationPanel } from './ReconciliationPanel';
+import { TransactionTable } from './TransactionTable';
+import { RulesEditor } from './RulesEditor';
+import { TaxonomyEditor } from './TaxonomyEditor';
+import { ExchangeRatePanel } from './ExchangeRatePanel';
+import { PdfViewer } from './PdfViewer';
+import { ReviewQueue } from './ReviewQueue';
+import { AnomalyBadge } from './AnomalyBadge';
+import { StayTimeline } from './StayTimeline';
+import { ExpenseReportPanel } from './ExpenseReportPanel';
+import { BillSplitPanel } from './BillSplitPanel';
+import { TaxBreakdownPanel } from './TaxBreakdownPanel';
+import { CfdiPanel } from './CfdiPanel';
+import { ComparePanel } from './ComparePanel';
+import { amountAdjustments, createTransactionId } from '../services/transactionEdits';
+import { downloadBlob, ExportContext, exportFileName, serializeAnalysis, toCsv, toOfx, toQif } from '../services/exporters';
+import { toXlsx } from '../services/xlsxExporter';
+import { toExpenseReport, toPdfReport } from '../services/pdfReport';
+import { coerceCurrency } from '../services/analysisValidator';
+import { categoryColor, categoryLabel, categoryOptions, isInCategory, topLevelId } from '../services/taxonomy';
+import { findTransactionForText } from '../services/sourceLocation';
+import { buildReviewQueue } from '../services/confidence';
+import { detectAnomalies } from '../services/anomalies';
+import { evaluatePolicy, expenseTotals } from '../services/expensePolicy';
+import { buildTaxBreakdown } from '../services/mexicanTaxes';
+import { crossCheckCfdi } from '../services/cfdi';
+import { convertStay } from '../services/groupStay';
+import { EMPTY_BILL_SPLIT, setAllocation, settleBill, settlementToCsv, stayNights } from '../services/billSplit';
 
 interface Props {
   data: AnalysisResult;
+  issues: ValidationIssue[];
   language: Language;
   currency: Currency;
+  onReextractRegion?: (region: ExtractionRegion) => Promise<void>;
+  onEdit: (op: TransactionEditOp) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  rules: CategoryRule[];
+  onRulesChange: (rules: CategoryRule[]) => void;
+  taxonomy: CategoryDefinition[];
+  onTaxonomyChange: (taxonomy: CategoryDefinition[]) => void;
+  rates: RateProvider;
+  rateOverrides: RateOverride[];
+  onRateOverridesChange: (overrides: RateOverride[]) => void;
+  initialFilters?: ExportFilters; // Filters saved in a reopened JSON export
+  sourceFile?: File | null; // The uploaded PDF, shown next to the table
+  onApproveReview: (item: ReviewItem) => void;
+  expensePolicy: ExpensePolicy;
+  onExpensePolicyChange: (policy: ExpensePolicy) => void;
+  onClassifyExpense: (id: string, expenseClass: ExpenseClass, reimbursableAmount?: number) => void;
+  onBillSplitChange: (split: BillSplit) => void;
+  taxSettings: TaxSettings;
+  onTaxSettingsChange: (settings: TaxSettings) => void;
+  onCfdiChange: (cfdi: Cfdi | undefined) => void;
+  compareCandidates: HistoryEntry[]; // Saved analyses the open one can be compared with
   onReset: () => void;
 }
 
-// Define specific colors for each category to ensure consistency across charts and table
-// Colors chosen for accessibility and distinctness
-const CATEGORY_COLORS: Record<string, string> = {
-  [Category.FOOD_AND_BEVERAGE]: '#0D9488', // Teal (Combined Food & Drink)
-  [Category.ROOM]: '#3B82F6',      // Blue (Primary)
-  [Category.TAX]: '#EF4444',       // Red (Alert/Cost)
-  [Category.SERVICE]: '#8B5CF6',   // Violet (Distinct)
-  [Category.DISCOUNT]: '#F59E0B',  // Amber (Highlight/Savings)
-  [Category.OTHER]: '#64748B',     // Slate (Neutral)
-};
+export const Dashboard: React.FC<Props> = ({
+  data, issues, language, currency, onReextractRegion, onEdit, onUndo, onRedo, canUndo, canRedo, rules, onRulesChange, taxonomy, onTaxonomyChange, rates, rateOverrides, onRateOverridesChange, initialFilters, sourceFile, onApproveReview, expensePolicy, onExpensePolicyChange, onClassifyExpense, onBillSplitChange, taxSettings, onTaxSettingsChange, onCfdiChange, compareCandidates, onReset
+}) => {
+  const t = TRANSLATIONS[language];
+  const [searchTerm, setSearchTerm] = useState(initialFilters?.searchTerm ?? '');
+  const [categoryFilter, setCategoryFilter] = useState<string>(initialFilters?.categoryFilter ?? 'All');
+  const [startDate, setStartDate] = useState(initialFilters?.startDate ?? '');
+  const [endDate, setEndDate] = useState(initialFilters?.endDate ?? '');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showRules, setShowRules] = useState(false);
+  const [showTaxonomy, setShowTaxonomy] = useState(false);
+  const [exportMenuOpen, setExportMenuOpen] = useState(false);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [exportError, setExportError] = useState(false);
+  const [showPdf, setShowPdf] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [pdfNotice, setPdfNotice] = useState<string | null>(null);
+  const [showReview, setShowReview] = useState(false);
+  const [expenseMode, setExpenseMode] = useState(false);
+  const [downloadingExpenseReport, setDownloadingExpenseReport] = useState(false);
+  const [splitMode, setSplitMode] = useState(false);
+  const [showTaxes, setShowTaxes] = useState(false);
+  const [showCfdi, setShowCfdi] = useState(false);
+  const [showCompare, setShowCompare] = useState(false);
+  const pieChartRef = useRef<HTMLDivElement>(null);
+  const barChartRef = useRef<HTMLDivElement>(null);
 
-const DEFAULT_COLOR = '#9CA3AF'; // Gray (Fallback for unknown categories)
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y), unless the user is typing in a field
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (!(e.ctrlKey || e.metaKey) || ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey && canUndo) {
+        e.preventDefault();
+        onUndo();
+      } else if (((key === 'z' && e.shiftKey) || key === 'y') && canRedo) {
+        e.preventDefault();
+        onRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [canUndo, canRedo, onUndo, onRedo]);
 
-export const Dashboard: React.FC<Props> = ({ data, language, currency, onReset }) => {
-  const t = TRANSLATIONS[language];
-  const [searchTerm, setSearchTerm] = useState('');
-  const [categoryFilter, setCategoryFilter] = useState<string>('All');
-  const [startDate, setStartDate] = useState('');
-  const [endDate, setEndDate] = useState('');
-
-  // Helper to convert amounts based on selected currency preference vs detected currency
-  const convert = (amount: number) => {
-    // If detected is MXN and user wants USD
-    if (data.detectedCurrency.includes('MXN') && currency === Currency.USD) {
-      return amount * EXCHANGE_RATE_MXN_TO_USD;
-    }
-    // If detected is USD and user wants MXN
-    if (data.detectedCurrency.includes('USD') && currency === Currency.MXN) {
-      return amount * EXCHANGE_RATE_USD_TO_MXN;
-    }
-    // Same currency or undefined detected, return as is (assuming 1:1 for display if unknown)
-    return amount;
+  const documentCurrency = coerceCurrency(data.detectedCurrency);
+
+  // Converts an amount from its own currency to the selected one at the rate for `date`.
+  // Amounts in an unrecognized currency, or without any rate, are returned as they are.
+  const convertFrom = (amount: number, from: Currency | null, date?: string) => {
+    const rate = from ? rates.getRate(from, currency, date) : null;
+    return { amount: rate ? amount * rate.rate : amount, rate };
   };
 
-  // 1. Normalize transactions
-  const normalizedTransactions = useMemo(() => {
-    return data.transactions.map(tx => {
-      const convertedAmount = convert(tx.amount);
-      return {
-        ...tx,
-        convertedAmount
-      };
-    });
-  }, [data.transactions, currency]);
+  // Document-level amounts (printed total, reconciliation) use the rate at check-out.
+  const convert = (amount: number) => convertFrom(amount, documentCurrency, data.checkOut).amount;
+
+  // 1. Normalize transactions: each line is converted from its own currency at its own date.
+  // The total is the printed one, moved by whatever amount edits changed.
+  const { transactions: normalizedTransactions, spend: totalSpend } = useMemo(
+    () => convertStay(data, rates, currency),
+    [data, currency, rates]
+  );
+
+  // Every rate behind the figures on screen, and the currencies nothing could convert.
+  const { ratesUsed, unconvertedCurrencies } = useMemo(() => {
+    const used = new Map<string, ExchangeRate>();
+    const unconverted = new Set<string>();
+    const track = (rate: ExchangeRate | null, from: string) => {
+      if (rate) used.set(`${rate.from}-${rate.to}-${rate.source}-${rate.date ?? ''}`, rate);
+      else if (from && from !== currency) unconverted.add(from);
+    };
+    normalizedTransactions.forEach(tx => track(tx.rate, tx.currency));
+    track(convertFrom(data.totalAmount, documentCurrency, data.checkOut).rate, data.detectedCurrency);
+    return { ratesUsed: [...used.values()], unconvertedCurrencies: [...unconverted] };
+  }, [normalizedTransactions, data.totalAmount, data.checkOut, currency, rates]);
 
   // Helper to parse transaction date (DD/MM/YYYY)
   const parseTxDate = (dateStr: string) => {
@@ -81,7 +167,7 @@ export const Dashboard: React.FC<Props> = ({ data, language, currency, onReset }
     return normalizedTransactions.filter(tx => {
       const matchesSearch = tx.cleanName.toLowerCase().includes(searchTerm.toLowerCase()) || 
                             tx.originalDescription.toLowerCase().includes(searchTerm.toLowerCase());
-      const matchesCategory = categoryFilter === 'All' || tx.category === categoryFilter;
+      const matchesCategory = categoryFilter === 'All' || isInCategory(taxonomy, tx.category, categoryFilter);
       
       let matchesDate = true;
       if (start || end) {
@@ -99,9 +185,10 @@ export const Dashboard: React.FC<Props> = ({ data, language, currency, onReset }
 
       return matchesSearch && matchesCategory && matchesDate;
     });
-  }, [normalizedTransactions, searchTerm, categoryFilter, startDate, endDate]);
+  }, [normalizedTransactions, searchTerm, categoryFilter, startDate, endDate, taxonomy]);
 
-  const totalSpend = convert(data.totalAmount);
+  const edited = amountAdjustments(data).length > 0;
+  const totalRate = convertFrom(data.totalAmount, documentCurrency, data.checkOut).rate;
 
   // 3. Aggregate data for Charts. This data should only be affected by the date range,
   // not by the category or search filters, so the charts provide a stable overview.
@@ -127,19 +214,25 @@ export const Dashboard: React.FC<Props> = ({ data, language, currency, onReset }
       return matchesDate;
     });
 
-    const agg: Record<string, number> = {};
+    // The pie rolls subcategories up into their group; the bar chart keeps them apart.
+    const byGroup: Record<string, number> = {};
+    const byCategory: Record<string, number> = {};
     transactionsForCharts.forEach(tx => {
         const amt = Math.abs(tx.convertedAmount);
         if (amt !== 0) {
-            agg[tx.category] = (agg[tx.category] || 0) + amt;
+            const group = topLevelId(taxonomy, tx.category);
+            byGroup[group] = (byGroup[group] || 0) + amt;
+            byCategory[tx.category] = (byCategory[tx.category] || 0) + amt;
         }
     });
-    return Object.keys(agg).map(key => ({ name: key, value: agg[key] }));
-  }, [normalizedTransactions, startDate, endDate]);
+    const toEntries = (agg: Record<string, number>) =>
+      Object.keys(agg).map(id => ({ id, name: categoryLabel(taxonomy, id, language), value: agg[id] }));
+    return { groups: toEntries(byGroup), categories: toEntries(byCategory) };
+  }, [normalizedTransactions, startDate, endDate, taxonomy, language]);
 
   // Clone and sort for BarChart
   const topExpenses = useMemo(() => {
-    return [...chartData].sort((a, b) => b.value - a.value).slice(0, 5);
+    return [...chartData.categories].sort((a, b) => b.value - a.value).slice(0, 5);
   }, [chartData]);
 
   const formatCurrency = (val: number) => {
@@ -154,9 +247,9 @@ export const Dashboard: React.FC<Props> = ({ data, language, currency, onReset }
     // If activePayload is present, user clicked on a slice/bar
     if (state && state.activePayload && state.activePayload.length > 0) {
       const payload = state.activePayload[0].payload;
-      if (payload && payload.name) {
+      if (payload && payload.id) {
         // Toggle: if clicking the same category, reset to All
-        setCategoryFilter(prev => prev === payload.name ? 'All' : payload.name);
+        setCategoryFilter(prev => prev === payload.id ? 'All' : payload.id);
         return;
       }
     }
@@ -167,58 +260,317 @@ export const Dashboard: React.FC<Props> = ({ data, language, currency, onReset }
     }
   };
 
-  const handleExportCSV = () => {
-    // CSV Header
-    const headers = [t.date, t.cleanName, t.description, t.category, t.amount, 'Currency'];
-    
-    // CSV Rows
-    const rows = filteredTransactions.map(tx => [
-      tx.date,
-      `"${tx.cleanName.replace(/"/g, '""')}"`, // Escape quotes
-      `"${tx.originalDescription.replace(/"/g, '""')}"`,
-      tx.category,
-      tx.convertedAmount.toFixed(2),
-      currency
-    ]);
-
-    // Combine with BOM for Excel UTF-8 compatibility
-    const csvContent = "\uFEFF" + [
-      headers.join(','),
-      ...rows.map(row => row.join(','))
-    ].join('\n');
-
-    // Create Blob and Download
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.setAttribute('download', `${data.hotelName.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_export.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const exportContext = (): ExportContext => ({
+    result: data,
+    transactions: normalizedTransactions,
+    visibleTransactions: filteredTransactions,
+    filters: { searchTerm, categoryFilter, startDate, endDate },
+    currency,
+    rates,
+    totalSpend,
+    language,
+    taxonomy,
+    formatCurrency
+  });
+
+  const handleExport = async (format: ExportFormat) => {
+    setExportMenuOpen(false);
+    setExporting(format);
+    setExportError(false);
+    const context = exportContext();
+    try {
+      let blob: Blob;
+      switch (format) {
+        case ExportFormat.XLSX:
+          blob = await toXlsx(context);
+          break;
+        case ExportFormat.JSON:
+          blob = new Blob([serializeAnalysis(context)], { type: 'application/json' });
+          break;
+        case ExportFormat.OFX:
+          blob = new Blob([toOfx(context)], { type: 'application/x-ofx' });
+          break;
+        case ExportFormat.QIF:
+          blob = new Blob([toQif(context)], { type: 'application/qif' });
+          break;
+        case ExportFormat.PDF: {
+          const charts = [pieChartRef.current, barChartRef.current]
+            .map(container => container?.querySelector<SVGSVGElement>('svg.recharts-surface'))
+            .filter((svg): svg is SVGSVGElement => !!svg);
+          blob = await toPdfReport(context, charts);
+          break;
+        }
+        default:
+          blob = new Blob([toCsv(context)], { type: 'text/csv;charset=utf-8;' });
+      }
+      downloadBlob(blob, exportFileName(data, format));
+    } catch (err) {
+      console.error(err);
+      setExportError(true);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  // Expense-report mode: policy caps are converted to the selected currency at the check-out
+  // rate. Without one the cap is reported as unchecked rather than compared 1:1.
+  const expenseCapRate = convertFrom(1, expensePolicy.currency, data.checkOut).rate?.rate ?? null;
+  const policyViolations = useMemo(
+    () => evaluatePolicy(normalizedTransactions, expensePolicy, taxonomy, expenseCapRate),
+    [normalizedTransactions, expensePolicy, taxonomy, expenseCapRate]
+  );
+  const policyNotes = useMemo(() => {
+    const notes = new Map<string, string>();
+    policyViolations.forEach(violation => violation.transactionIds.forEach(id => {
+      const label = t.policyViolationKinds[violation.kind];
+      notes.set(id, notes.has(id) ? `${notes.get(id)} · ${label}` : label);
+    }));
+    return notes;
+  }, [policyViolations, t]);
+
+  const handleDownloadExpenseReport = async () => {
+    setDownloadingExpenseReport(true);
+    setExportError(false);
+    try {
+      const blob = await toExpenseReport(exportContext(), expensePolicy, policyViolations);
+      downloadBlob(blob, exportFileName(data, 'pdf', 'expense_report'));
+    } catch (err) {
+      console.error(err);
+      setExportError(true);
+    } finally {
+      setDownloadingExpenseReport(false);
+    }
+  };
+
+  const billSplit = data.billSplit ?? EMPTY_BILL_SPLIT;
+  const settlement = useMemo(
+    () => settleBill(normalizedTransactions, billSplit, data, taxonomy),
+    [normalizedTransactions, billSplit, data.checkIn, data.checkOut, taxonomy]
+  );
+
+  const handleExportSettlement = () => {
+    const csv = settlementToCsv(settlement, normalizedTransactions, currency, language);
+    downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8;' }), exportFileName(data, 'csv', 'settlement'));
+  };
+
+  const taxBreakdown = useMemo(
+    () => buildTaxBreakdown(normalizedTransactions, data, taxSettings, taxonomy),
+    [normalizedTransactions, data.hotelAddress, taxSettings, taxonomy]
+  );
+
+  const cfdiCheck = useMemo(
+    () => (data.cfdi ? crossCheckCfdi(data.cfdi, data, taxonomy) : null),
+    [data, taxonomy]
+  );
+
+  const showViewer = !!sourceFile && sourceFile.type === 'application/pdf' && showPdf;
+  const highlight = useMemo(
+    () => data.transactions.find(tx => tx.id === selectedId)?.location ?? null,
+    [data.transactions, selectedId]
+  );
+
+  const handleSelectRow = (id: string) => {
+    setSelectedId(id);
+    setPdfNotice(data.transactions.find(tx => tx.id === id)?.location ? null : t.pdfNoLocation);
+  };
+
+  // Selects a line, clearing the filters if they hide it.
+  const revealTransaction = (id: string) => {
+    if (!filteredTransactions.some(tx => tx.id === id)) {
+      setSearchTerm('');
+      setCategoryFilter('All');
+      setStartDate('');
+      setEndDate('');
+    }
+    setSelectedId(id);
+  };
+
+  const handlePdfTextSelect = (text: string, page: number) => {
+    const match = findTransactionForText(normalizedTransactions, text, page);
+    if (!match?.id) {
+      setPdfNotice(t.pdfNoMatch);
+      return;
+    }
+    setPdfNotice(null);
+    revealTransaction(match.id);
+  };
+
+  const anomalies = useMemo(
+    () => detectAnomalies(data.transactions, data, taxonomy),
+    [data.transactions, data.checkIn, data.checkOut, taxonomy]
+  );
+
+  const reviewQueue = useMemo(() => buildReviewQueue(data, taxonomy), [data, taxonomy]);
+  const { flaggedFields, reviewNotes } = useMemo(() => {
+    const describe = (item: ReviewItem) =>
+      [`${t.reviewConfidence}: ${Math.round(item.confidence * 100)}%`, ...item.reasons.map(reason => t.confidenceReasons[reason])].join(' · ');
+    const fields = new Map<HeaderField, string>();
+    const notes = new Map<string, string>();
+    reviewQueue.forEach(item => {
+      if (item.target.kind === 'header') fields.set(item.target.field, describe(item));
+      else notes.set(item.target.id, describe(item));
+    });
+    return { flaggedFields: fields, reviewNotes: notes };
+  }, [reviewQueue, t]);
+
+  // Header values waiting for review are marked, with the reasons on hover.
+  const headerValue = (field: HeaderField, className = '') => (
+    <span
+      className={`text-gray-900 font-semibold ${className} ${flaggedFields.has(field) ? 'bg-amber-100 text-amber-900 px-1 rounded cursor-help' : ''}`}
+      title={flaggedFields.get(field) ?? (field === 'hotelAddress' ? data.hotelAddress : undefined)}
+    >
+      {data[field]}
+    </span>
+  );
+
+  const handleAddRow = () => {
+    const id = createTransactionId();
+    onEdit({
+      type: 'add',
+      transaction: {
+        id,
+        date: data.checkOut || data.checkIn,
+        originalDescription: '',
+        cleanName: '',
+        amount: 0,
+        currency: data.detectedCurrency,
+        category: Category.OTHER
+      }
+    });
+    setEditingId(id);
   };
 
+  const toolbarButtonClass = 'inline-flex items-center gap-1 px-3 py-1.5 rounded-md text-sm font-medium transition-colors';
+  const idleButtonClass = 'bg-gray-50 text-gray-700 hover:bg-gray-100';
+  const toggleButtonClass = (active: boolean) => `${toolbarButtonClass} ${active ? 'bg-blue-600 text-white hover:bg-blue-700' : idleButtonClass}`;
+
   return (
-    <div className="w-full max-w-6xl mx-auto space-y-6">
+    <div className={`w-full ${showViewer ? 'max-w-7xl' : 'max-w-6xl'} mx-auto space-y-6`}>
       
       {/* Header Info - Updated Layout */}
       <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
         <div className="flex flex-col md:flex-row justify-between items-start mb-6 gap-4">
           <div className="flex-1">
-             <h2 className="text-3xl font-bold text-gray-800">{data.hotelName}</h2>
+             <h2 className="text-3xl font-bold text-gray-800">
+               <span className={flaggedFields.has('hotelName') ? 'bg-amber-100 px-1 rounded cursor-help' : ''} title={flaggedFields.get('hotelName')}>{data.hotelName}</span>
+             </h2>
              <div className="flex flex-wrap gap-2 mt-2">
-               <button 
-                 onClick={handleExportCSV}
-                 className="inline-flex items-center gap-2 px-3 py-1.5 bg-blue-50 text-blue-700 rounded-md text-sm font-medium hover:bg-blue-100 transition-colors"
+               <div className="relative">
+                 <button 
+                   onClick={() => setExportMenuOpen(prev => !prev)}
+                   disabled={exporting !== null}
+                   className="inline-flex items-center gap-2 px-3 py-1.5 bg-blue-50 text-blue-700 rounded-md text-sm font-medium hover:bg-blue-100 transition-colors disabled:opacity-60"
+                 >
+                   {exporting ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+                   {t.exportLabel}
+                   <ChevronDown size={14} />
+                 </button>
+                 {exportMenuOpen && (
+                   <ul className="absolute left-0 z-20 mt-1 w-56 bg-white border border-gray-200 rounded-lg shadow-lg py-1">
+                     {Object.values(ExportFormat).map(format => (
+                       <li key={format}>
+                         <button
+                           onClick={() => handleExport(format)}
+                           className="w-full text-left px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50"
+                         >
+                           {t.exportFormats[format]}
+                         </button>
+                       </li>
+                     ))}
+                   </ul>
+                 )}
+               </div>
+               <button
+                 onClick={onUndo}
+                 disabled={!canUndo}
+                 title={t.undo}
+                 className={`${toolbarButtonClass} ${idleButtonClass} disabled:opacity-40`}
+               >
+                 <Undo2 size={16} />
+                 {t.undo}
+               </button>
+               <button
+                 onClick={onRedo}
+                 disabled={!canRedo}
+                 title={t.redo}
+                 className={`${toolbarButtonClass} ${idleButtonClass} disabled:opacity-40`}
+               >
+                 <Redo2 size={16} />
+                 {t.redo}
+               </button>
+               <button
+                 onClick={() => setShowRules(prev => !prev)}
+                 className={toggleButtonClass(showRules)}
+               >
+                 <ListChecks size={16} />
+                 {t.rulesTitle}
+                 {rules.length > 0 && <span className="ml-1 text-xs opacity-75">({rules.filter(r => r.enabled).length})</span>}
+               </button>
+               <button
+                 onClick={() => setShowTaxonomy(prev => !prev)}
+                 className={toggleButtonClass(showTaxonomy)}
+               >
+                 <Tags size={16} />
+                 {t.categoriesTitle}
+               </button>
+               <button
+                 onClick={() => setExpenseMode(prev => !prev)}
+                 className={toggleButtonClass(expenseMode)}
                >
-                 <Download size={16} />
-                 {t.exportCSV}
+                 <Briefcase size={16} />
+                 {t.expenseModeLabel}
+               </button>
+               <button
+                 onClick={() => setSplitMode(prev => !prev)}
+                 className={toggleButtonClass(splitMode)}
+               >
+                 <Users size={16} />
+                 {t.splitBillLabel}
+               </button>
+               <button
+                 onClick={() => setShowTaxes(prev => !prev)}
+                 className={toggleButtonClass(showTaxes)}
+               >
+                 <Receipt size={16} />
+                 {t.taxesLabel}
+                 {taxBreakdown.discrepancies.length > 0 && <span className="ml-1 text-xs opacity-75">({taxBreakdown.discrepancies.length})</span>}
+               </button>
+               <button
+                 onClick={() => setShowCfdi(prev => !prev)}
+                 className={toggleButtonClass(showCfdi)}
+               >
+                 <FileCode size={16} />
+                 {t.cfdiLabel}
+                 {cfdiCheck && cfdiCheck.findings.length > 0 && <span className="ml-1 text-xs opacity-75">({cfdiCheck.findings.length})</span>}
+               </button>
+               <button
+                 onClick={() => setShowCompare(prev => !prev)}
+                 className={toggleButtonClass(showCompare)}
+               >
+                 <GitCompare size={16} />
+                 {t.compareLabel}
+               </button>
+               <button
+                 onClick={() => setShowReview(prev => !prev)}
+                 className={`${toolbarButtonClass} ${showReview ? 'bg-amber-500 text-white hover:bg-amber-600' : reviewQueue.length > 0 ? 'bg-amber-50 text-amber-800 hover:bg-amber-100' : idleButtonClass}`}
+               >
+                 <ShieldCheck size={16} />
+                 {t.reviewQueueTitle}
+                 {reviewQueue.length > 0 && <span className="ml-1 text-xs opacity-75">({reviewQueue.length})</span>}
                </button>
              </div>
           </div>
           <div className="text-right whitespace-nowrap">
             <p className="text-sm text-gray-500 uppercase tracking-wide">{t.totalSpend}</p>
             <p className="text-4xl font-extrabold text-blue-600">{formatCurrency(totalSpend)}</p>
+            <AnomalyBadge anomalies={anomalies} transactions={data.transactions} language={language} onShowLine={revealTransaction} />
+            {edited && <p className="text-xs text-amber-600 mt-1">{t.editedTotalNote}</p>}
+            {exportError && <p className="text-xs text-red-600 mt-1">{t.exportFailed}</p>}
+            {totalRate && totalRate.from !== totalRate.to && (
+              <p className="text-xs text-gray-500 mt-1">
+                1 {totalRate.from} = {totalRate.rate.toFixed(4)} {totalRate.to} · {t.rateSources[totalRate.source]}{totalRate.date ? ` ${totalRate.date}` : ''}
+              </p>
+            )}
           </div>
         </div>
         
@@ -226,43 +578,175 @@ export const Dashboard: React.FC<Props> = ({ data, language, currency, onReset }
             <div className="space-y-3">
                 <div className="flex justify-between border-b border-gray-200 pb-2">
                     <span className="text-gray-500 font-medium">{t.guest}</span>
-                    <span className="text-gray-900 font-semibold">{data.guestName}</span>
+                    {headerValue('guestName')}
                 </div>
                 <div className="flex justify-between border-b border-gray-200 pb-2">
                     <span className="text-gray-500 font-medium">{t.room}</span>
-                    <span className="text-gray-900 font-semibold">{data.roomNumber}</span>
+                    {headerValue('roomNumber')}
                 </div>
                 <div className="flex justify-between">
                     <span className="text-gray-500 font-medium">{t.folio}</span>
-                    <span className="text-gray-900 font-semibold">{data.confirmationNumber}</span>
+                    {headerValue('confirmationNumber')}
                 </div>
             </div>
             <div className="space-y-3">
                 <div className="flex justify-between border-b border-gray-200 pb-2">
                     <span className="text-gray-500 font-medium">{t.checkIn}</span>
-                    <span className="text-gray-900 font-semibold">{data.checkIn}</span>
+                    {headerValue('checkIn')}
                 </div>
                 <div className="flex justify-between border-b border-gray-200 pb-2">
                     <span className="text-gray-500 font-medium">{t.checkOut}</span>
-                    <span className="text-gray-900 font-semibold">{data.checkOut}</span>
+                    {headerValue('checkOut')}
                 </div>
                 <div className="flex justify-between">
                     <span className="text-gray-500 font-medium">{t.address}</span>
-                    <span className="text-gray-900 font-semibold truncate max-w-[200px]" title={data.hotelAddress}>{data.hotelAddress}</span>
+                    {headerValue('hotelAddress', 'truncate max-w-[200px]')}
                 </div>
             </div>
         </div>
       </div>
 
+      {/* Validation warnings: values the validator had to repair or drop */}
+      {issues.length > 0 && (
+        <div className="bg-amber-50 border-l-4 border-amber-400 p-4 rounded-md flex items-start text-amber-800">
+          <AlertTriangle className="text-amber-500 mr-3 mt-0.5 shrink-0" size={20} />
+          <div>
+            <p className="text-sm font-medium">{t.validationWarningsTitle}</p>
+            <ValidationIssues issues={issues} language={language} />
+          </div>
+        </div>
+      )}
+
+      {expenseMode && (
+        <ExpenseReportPanel
+          policy={expensePolicy}
+          violations={policyViolations}
+          totals={expenseTotals(normalizedTransactions)}
+          transactions={data.transactions}
+          language={language}
+          taxonomy={taxonomy}
+          formatCurrency={formatCurrency}
+          downloading={downloadingExpenseReport}
+          onPolicyChange={onExpensePolicyChange}
+          onShowLine={revealTransaction}
+          onDownload={handleDownloadExpenseReport}
+          onClose={() => setExpenseMode(false)}
+        />
+      )}
+
+      {splitMode && (
+        <BillSplitPanel
+          split={billSplit}
+          settlement={settlement}
+          stayNights={stayNights(data)}
+          language={language}
+          formatCurrency={formatCurrency}
+          onChange={onBillSplitChange}
+          onShowUnassigned={() => revealTransaction(settlement.unassignedIds[0])}
+          onExport={handleExportSettlement}
+          onClose={() => setSplitMode(false)}
+        />
+      )}
+
+      {showTaxes && (
+        <TaxBreakdownPanel
+          breakdown={taxBreakdown}
+          settings={taxSettings}
+          transactions={data.transactions}
+          language={language}
+          formatCurrency={formatCurrency}
+          onSettingsChange={onTaxSettingsChange}
+          onShowLine={revealTransaction}
+          onClose={() => setShowTaxes(false)}
+        />
+      )}
+
+      {showCfdi && (
+        <CfdiPanel
+          cfdi={data.cfdi}
+          check={cfdiCheck}
+          transactions={data.transactions}
+          folioCurrency={data.detectedCurrency}
+          language={language}
+          onAttach={onCfdiChange}
+          onShowLine={revealTransaction}
+          onClose={() => setShowCfdi(false)}
+        />
+      )}
+
+      {showCompare && (
+        <ComparePanel
+          current={data}
+          candidates={compareCandidates}
+          rules={rules}
+          taxonomy={taxonomy}
+          rates={rates}
+          currency={currency}
+          language={language}
+          formatCurrency={formatCurrency}
+          onShowLine={revealTransaction}
+          onClose={() => setShowCompare(false)}
+        />
+      )}
+
+      {showReview && (
+        <ReviewQueue
+          items={reviewQueue}
+          data={data}
+          language={language}
+          taxonomy={taxonomy}
+          onApprove={onApproveReview}
+          onShowLine={revealTransaction}
+          onClose={() => setShowReview(false)}
+        />
+      )}
+
+      {showRules && (
+        <RulesEditor
+          rules={rules}
+          transactions={data.transactions}
+          language={language}
+          taxonomy={taxonomy}
+          onChange={onRulesChange}
+          onClose={() => setShowRules(false)}
+        />
+      )}
+
+      {showTaxonomy && (
+        <TaxonomyEditor
+          taxonomy={taxonomy}
+          language={language}
+          onChange={onTaxonomyChange}
+          onClose={() => setShowTaxonomy(false)}
+        />
+      )}
+
+      <ExchangeRatePanel
+        ratesUsed={ratesUsed}
+        unconvertedCurrencies={unconvertedCurrencies}
+        overrides={rateOverrides}
+        language={language}
+        onOverridesChange={onRateOverridesChange}
+      />
+
+      {/* Printed total vs. sum of lines */}
+      <ReconciliationPanel
+        data={data}
+        rates={rates}
+        language={language}
+        formatAmount={(amount) => formatCurrency(convert(amount))}
+        onReextractRegion={onReextractRegion}
+      />
+
       {/* Charts Area */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200 flex flex-col items-center">
           <h3 className="text-lg font-semibold mb-4 w-full text-left">{t.categoryDistribution}</h3>
-          <div className="w-full h-64">
+          <div className="w-full h-64" ref={pieChartRef}>
             <ResponsiveContainer width="100%" height="100%">
               <PieChart>
                 <Pie
-                  data={chartData}
+                  data={chartData.groups}
                   cx="50%"
                   cy="50%"
                   innerRadius={60}
@@ -273,13 +757,13 @@ export const Dashboard: React.FC<Props> = ({ data, language, currency, onReset }
                   cursor="pointer"
                   onClick={(data, index, e) => handleChartClick({ activePayload: [{ payload: data }]})}
                 >
-                  {chartData.map((entry, index) => (
+                  {chartData.groups.map((entry, index) => (
                     <Cell 
                       key={`cell-${index}`} 
-                      fill={CATEGORY_COLORS[entry.name] || DEFAULT_COLOR} 
-                      stroke={categoryFilter === entry.name ? '#000' : 'none'}
+                      fill={categoryColor(taxonomy, entry.id)} 
+                      stroke={categoryFilter === entry.id ? '#000' : 'none'}
                       strokeWidth={2}
-                      opacity={categoryFilter === 'All' || categoryFilter === entry.name ? 1 : 0.3}
+                      opacity={categoryFilter === 'All' || isInCategory(taxonomy, categoryFilter, entry.id) ? 1 : 0.3}
                     />
                   ))}
                 </Pie>
@@ -293,7 +777,7 @@ export const Dashboard: React.FC<Props> = ({ data, language, currency, onReset }
 
         <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200 flex flex-col">
           <h3 className="text-lg font-semibold mb-4 w-full text-left">Top Expenses ( & Discounts )</h3>
-          <div className="w-full h-64">
+          <div className="w-full h-64" ref={barChartRef}>
              <ResponsiveContainer width="100%" height="100%">
                <BarChart 
                  data={topExpenses} 
@@ -313,10 +797,10 @@ export const Dashboard: React.FC<Props> = ({ data, language, currency, onReset }
                      {topExpenses.map((entry, index) => (
                        <Cell 
                          key={`cell-${index}`} 
-                         fill={CATEGORY_COLORS[entry.name] || DEFAULT_COLOR} 
-                         stroke={categoryFilter === entry.name ? '#000' : 'none'}
+                         fill={categoryColor(taxonomy, entry.id)} 
+                         stroke={categoryFilter === entry.id ? '#000' : 'none'}
                          strokeWidth={2}
-                         opacity={categoryFilter === 'All' || categoryFilter === entry.name ? 1 : 0.3}
+                         opacity={categoryFilter === 'All' || isInCategory(taxonomy, entry.id, categoryFilter) ? 1 : 0.3}
                        />
                      ))}
                   </Bar>
@@ -327,138 +811,154 @@ export const Dashboard: React.FC<Props> = ({ data, language, currency, onReset }
         </div>
       </div>
 
-      {/* Transactions Table */}
-      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
-        <div className="p-4 border-b border-gray-200 flex flex-col xl:flex-row gap-4 justify-between items-start xl:items-center bg-gray-50">
+      {/* Spend over the stay; brushing sets the date range filter */}
+      <StayTimeline
+        transactions={normalizedTransactions}
+        data={data}
+        language={language}
+        taxonomy={taxonomy}
+        formatCurrency={formatCurrency}
+        startDate={startDate}
+        endDate={endDate}
+        onRangeChange={(start, end) => {
+          setStartDate(start);
+          setEndDate(end);
+        }}
+      />
+
+      {/* Transactions Table, with the uploaded PDF beside it */}
+      <div className={showViewer ? 'grid grid-cols-1 lg:grid-cols-[minmax(0,3fr)_minmax(0,2fr)] gap-6 items-start' : ''}>
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          <div className="p-4 border-b border-gray-200 flex flex-col xl:flex-row gap-4 justify-between items-start xl:items-center bg-gray-50">
           
-          <div className="flex flex-col sm:flex-row items-start sm:items-center gap-4 w-full xl:w-auto">
-             <div className="flex items-center gap-2">
-                <h3 className="text-lg font-semibold whitespace-nowrap">{t.transactions}</h3>
-                {categoryFilter !== 'All' && (
-                  <span 
-                    className="text-xs px-2 py-1 rounded-full flex items-center gap-1 font-medium border"
-                    style={{ 
-                      backgroundColor: `${CATEGORY_COLORS[categoryFilter] || DEFAULT_COLOR}20`, 
-                      color: CATEGORY_COLORS[categoryFilter] || DEFAULT_COLOR,
-                      borderColor: `${CATEGORY_COLORS[categoryFilter] || DEFAULT_COLOR}40`
-                    }}
+            <div className="flex flex-col sm:flex-row items-start sm:items-center gap-4 w-full xl:w-auto">
+               <div className="flex items-center gap-2">
+                  <h3 className="text-lg font-semibold whitespace-nowrap">{t.transactions}</h3>
+                  <button
+                    onClick={handleAddRow}
+                    className="inline-flex items-center gap-1 px-2 py-1 text-xs font-medium text-blue-700 bg-blue-50 rounded-md hover:bg-blue-100 transition-colors whitespace-nowrap"
                   >
-                    {categoryFilter.split('/')[language === Language.ES ? 0 : 1]}
-                    <button onClick={() => setCategoryFilter('All')} className="font-bold ml-1 hover:opacity-75">×</button>
-                  </span>
-                )}
-             </div>
+                    <Plus size={14} />
+                    {t.addRow}
+                  </button>
+                  {sourceFile?.type === 'application/pdf' && (
+                    <button
+                      onClick={() => setShowPdf(prev => !prev)}
+                      className="inline-flex items-center gap-1 px-2 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-200 rounded-md hover:bg-gray-100 transition-colors whitespace-nowrap"
+                    >
+                      <FileText size={14} />
+                      {showPdf ? t.hidePdf : t.showPdf}
+                    </button>
+                  )}
+                  {categoryFilter !== 'All' && (
+                    <span 
+                      className="text-xs px-2 py-1 rounded-full flex items-center gap-1 font-medium border"
+                      style={{ 
+                        backgroundColor: `${categoryColor(taxonomy, categoryFilter)}20`, 
+                        color: categoryColor(taxonomy, categoryFilter),
+                        borderColor: `${categoryColor(taxonomy, categoryFilter)}40`
+                      }}
+                    >
+                      {categoryLabel(taxonomy, categoryFilter, language)}
+                      <button onClick={() => setCategoryFilter('All')} className="font-bold ml-1 hover:opacity-75">×</button>
+                    </span>
+                  )}
+               </div>
 
-             {/* Date Range Inputs */}
-             <div className="flex items-center gap-2 bg-white px-2 py-1.5 rounded-lg border border-gray-300 shadow-sm w-full sm:w-auto">
-                <Calendar size={16} className="text-gray-400" />
-                <div className="flex items-center gap-1">
-                   <div className="relative">
-                      <input 
-                        type="date" 
-                        className="text-xs border-none focus:ring-0 p-0 text-gray-600 w-[100px] outline-none"
-                        value={startDate}
-                        onChange={(e) => setStartDate(e.target.value)}
-                        placeholder={t.startDate}
-                        title={t.startDate}
-                      />
-                   </div>
-                   <span className="text-gray-400">-</span>
-                   <div className="relative">
-                      <input 
-                        type="date" 
-                        className="text-xs border-none focus:ring-0 p-0 text-gray-600 w-[100px] outline-none"
-                        value={endDate}
-                        onChange={(e) => setEndDate(e.target.value)}
-                        placeholder={t.endDate}
-                        title={t.endDate}
-                      />
-                   </div>
-                </div>
-                {(startDate || endDate) && (
-                   <button 
-                     onClick={() => { setStartDate(''); setEndDate(''); }} 
-                     className="text-gray-400 hover:text-gray-600 ml-1"
-                   >
-                     ×
-                   </button>
-                )}
-             </div>
-          </div>
-          
-          <div className="flex gap-2 w-full xl:w-auto flex-wrap sm:flex-nowrap">
-            <div className="relative flex-1 sm:min-w-[200px]">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={16} />
-              <input 
-                type="text" 
-                placeholder="Search..." 
-                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-              />
+               {/* Date Range Inputs */}
+               <div className="flex items-center gap-2 bg-white px-2 py-1.5 rounded-lg border border-gray-300 shadow-sm w-full sm:w-auto">
+                  <Calendar size={16} className="text-gray-400" />
+                  <div className="flex items-center gap-1">
+                     <div className="relative">
+                        <input 
+                          type="date" 
+                          className="text-xs border-none focus:ring-0 p-0 text-gray-600 w-[100px] outline-none"
+                          value={startDate}
+                          onChange={(e) => setStartDate(e.target.value)}
+                          placeholder={t.startDate}
+                          title={t.startDate}
+                        />
+                     </div>
+                     <span className="text-gray-400">-</span>
+                     <div className="relative">
+                        <input 
+                          type="date" 
+                          className="text-xs border-none focus:ring-0 p-0 text-gray-600 w-[100px] outline-none"
+                          value={endDate}
+                          onChange={(e) => setEndDate(e.target.value)}
+                          placeholder={t.endDate}
+                          title={t.endDate}
+                        />
+                     </div>
+                  </div>
+                  {(startDate || endDate) && (
+                     <button 
+                       onClick={() => { setStartDate(''); setEndDate(''); }} 
+                       className="text-gray-400 hover:text-gray-600 ml-1"
+                     >
+                       ×
+                     </button>
+                  )}
+               </div>
             </div>
+          
+            <div className="flex gap-2 w-full xl:w-auto flex-wrap sm:flex-nowrap">
+              <div className="relative flex-1 sm:min-w-[200px]">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={16} />
+                <input 
+                  type="text" 
+                  placeholder="Search..." 
+                  className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                />
+              </div>
             
-            <div className="relative">
-               <select 
-                  className="pl-3 pr-8 py-2 border border-gray-300 rounded-lg text-sm bg-white appearance-none focus:ring-2 focus:ring-blue-500 outline-none cursor-pointer w-full sm:w-auto"
-                  value={categoryFilter}
-                  onChange={(e) => setCategoryFilter(e.target.value)}
-               >
-                 <option value="All">All Categories</option>
-                 {Object.values(Category).map(cat => (
-                   <option key={cat} value={cat}>{cat}</option>
-                 ))}
-               </select>
-               <Filter className="absolute right-2 top-1/2 transform -translate-y-1/2 text-gray-400 pointer-events-none" size={14} />
+              <div className="relative">
+                 <select 
+                    className="pl-3 pr-8 py-2 border border-gray-300 rounded-lg text-sm bg-white appearance-none focus:ring-2 focus:ring-blue-500 outline-none cursor-pointer w-full sm:w-auto"
+                    value={categoryFilter}
+                    onChange={(e) => setCategoryFilter(e.target.value)}
+                 >
+                   <option value="All">{t.allCategories}</option>
+                   {categoryOptions(taxonomy, language).map(({ id, label, depth }) => (
+                     <option key={id} value={id}>{'\u00A0\u00A0'.repeat(depth)}{label}</option>
+                   ))}
+                 </select>
+                 <Filter className="absolute right-2 top-1/2 transform -translate-y-1/2 text-gray-400 pointer-events-none" size={14} />
+              </div>
             </div>
           </div>
-        </div>
 
-        <div className="overflow-x-auto">
-          <table className="w-full text-sm text-left">
-            <thead className="bg-gray-50 text-gray-600 font-medium border-b border-gray-200">
-              <tr>
-                <th className="px-6 py-3">{t.date}</th>
-                <th className="px-6 py-3">{t.cleanName}</th>
-                <th className="px-6 py-3 hidden md:table-cell">{t.description}</th>
-                <th className="px-6 py-3">{t.category}</th>
-                <th className="px-6 py-3 text-right">{t.amount}</th>
-              </tr>
-            </thead>
-            <tbody className="divide-y divide-gray-100">
-              {filteredTransactions.map((tx, idx) => {
-                const badgeColor = CATEGORY_COLORS[tx.category] || DEFAULT_COLOR;
-                
-                return (
-                  <tr key={idx} className="hover:bg-gray-50 transition-colors">
-                    <td className="px-6 py-3 whitespace-nowrap text-gray-500">{tx.date}</td>
-                    <td className="px-6 py-3 font-medium text-gray-900">{tx.cleanName}</td>
-                    <td className="px-6 py-3 text-gray-400 text-xs hidden md:table-cell truncate max-w-xs">{tx.originalDescription}</td>
-                    <td className="px-6 py-3">
-                      <span 
-                        className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium"
-                        style={{ 
-                          backgroundColor: `${badgeColor}20`, // 20 hex opacity = ~12% opacity
-                          color: badgeColor
-                        }}
-                      >
-                        {tx.category.split('/')[language === Language.ES ? 0 : 1]}
-                      </span>
-                    </td>
-                    <td className={`px-6 py-3 text-right font-medium ${tx.convertedAmount < 0 ? 'text-green-600' : 'text-gray-900'}`}>
-                      {formatCurrency(tx.convertedAmount)}
-                    </td>
-                  </tr>
-                );
-              })}
-            </tbody>
-          </table>
-          {filteredTransactions.length === 0 && (
-            <div className="p-8 text-center text-gray-500">
-              No transactions found matching your filters.
-            </div>
-          )}
+          <TransactionTable
+            transactions={filteredTransactions}
+            language={language}
+            taxonomy={taxonomy}
+            rules={rules}
+            editingId={editingId}
+            onEditingIdChange={setEditingId}
+            formatCurrency={formatCurrency}
+            onEdit={onEdit}
+            selectedId={selectedId}
+            onSelect={showViewer ? handleSelectRow : undefined}
+            reviewNotes={reviewNotes}
+            onClassify={expenseMode ? onClassifyExpense : undefined}
+            policyNotes={expenseMode ? policyNotes : undefined}
+            billSplit={splitMode ? { ...billSplit, onAllocate: (id, allocation) => onBillSplitChange(setAllocation(billSplit, id, allocation)) } : undefined}
+          />
         </div>
+
+        {showViewer && (
+          <div className="lg:sticky lg:top-20">
+            <PdfViewer
+              file={sourceFile!}
+              language={language}
+              highlight={highlight}
+              notice={pdfNotice}
+              onTextSelect={handlePdfTextSelect}
+            />
+          </div>
+        )}
       </div>
       
       <div className="flex justify-center pt-6 pb-12">
@@ -0,0 +1,301 @@
+import React, { useState } from 'react';
+import { Allocation, Category, CategoryDefinition, CategoryId, ConvertedTransaction, ExpenseClass, Language, Participant, TableColumn, TransactionEditOp, TransactionSnapshot } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { normalizeDate } from '../services/analysisValidator';
+import { changedFields } from '../services/transactionEdits';
+import { categoryLabel, categoryOptions, isInCategory } from '../services/taxonomy';
+import { expenseClassOf } from '../services/expensePolicy';
+import { AllocationCell } from './AllocationCell';
+import { Pencil, Trash2, Scissors, Check, X, Plus, Sparkles, ListChecks, User, ShieldAlert, AlertTriangle } from 'lucide-react';
+
+interface Props {
+  tx: ConvertedTransaction;
+  language: Language;
+  taxonomy: CategoryDefinition[];
+  columns: TableColumn[];
+  isEditing: boolean;
+  isSelected?: boolean;
+  onSelect?: () => void;
+  reviewNote?: string; // Why the line is waiting in the review queue
+  onClassify?: (expenseClass: ExpenseClass, reimbursableAmount?: number) => void; // Set in expense-report mode
+  policyNote?: string; // Policy exceptions the line is part of
+  billSplit?: { participants: Participant[]; allocation?: Allocation; onAllocate: (allocation: Allocation | null) => void }; // Set in split mode
+  color: string;
+  ruleName?: string;
+  formatCurrency: (val: number) => string;
+  onStartEdit: () => void;
+  onStopEdit: () => void;
+  onEdit: (op: TransactionEditOp) => void;
+}
+
+type SplitPart = { cleanName: string; category: CategoryId; amount: string };
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const EditableTransactionRow: React.FC<Props> = ({
+  tx, language, taxonomy, columns, isEditing, isSelected, onSelect, reviewNote, onClassify, policyNote, billSplit, color, ruleName, formatCurrency, onStartEdit, onStopEdit, onEdit
+}) => {
+  const t = TRANSLATIONS[language];
+  const [draft, setDraft] = useState({ date: tx.date, cleanName: tx.cleanName, category: tx.category, amount: String(tx.amount) });
+  const [splitParts, setSplitParts] = useState<SplitPart[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const changed = changedFields(tx);
+  const original = tx.edit?.original;
+  const auditTitle = original
+    ? `${t.originalValue}: ${original.date} · ${original.cleanName} · ${categoryLabel(taxonomy, original.category, language, true)} · ${original.amount.toFixed(2)}`
+    : t.editedMarker;
+
+  // Whether the category came from the model, a rule or the user
+  const source = tx.categorySource ?? 'model';
+  const SourceIcon = source === 'rule' ? ListChecks : source === 'user' ? User : Sparkles;
+  const sourceTitle = source === 'rule'
+    ? `${t.categoryFromRule}${ruleName ? `: ${ruleName}` : ''}`
+    : source === 'user' ? t.categoryFromUser : t.categoryFromModel;
+
+  const startEdit = () => {
+    setDraft({ date: tx.date, cleanName: tx.cleanName, category: tx.category, amount: String(tx.amount) });
+    setError(null);
+    onStartEdit();
+  };
+
+  const saveEdit = () => {
+    const date = normalizeDate(draft.date);
+    const amount = Number(draft.amount);
+    if (!date) return setError(t.invalidDate);
+    if (draft.amount.trim() === '' || !Number.isFinite(amount)) return setError(t.invalidAmount);
+
+    // Only send what changed, so untouched fields (e.g. a rule's category) stay as they are.
+    const values: TransactionSnapshot = { date, cleanName: draft.cleanName.trim(), category: draft.category, amount };
+    const patch: Partial<TransactionSnapshot> = {};
+    (Object.keys(values) as (keyof TransactionSnapshot)[]).forEach(field => {
+      if (values[field] !== tx[field]) (patch as Record<string, unknown>)[field] = values[field];
+    });
+    if (Object.keys(patch).length > 0 && tx.id) onEdit({ type: 'update', id: tx.id, patch });
+    onStopEdit();
+  };
+
+  // A row just added and left empty is dropped rather than kept as a 0 line.
+  const cancelEdit = () => {
+    if (tx.id && tx.edit?.kind === 'added' && tx.amount === 0 && !tx.cleanName) onEdit({ type: 'delete', id: tx.id });
+    onStopEdit();
+  };
+
+  const startSplit = () => {
+    const half = round2(tx.amount / 2);
+    setSplitParts([
+      { cleanName: tx.cleanName, category: tx.category, amount: String(half) },
+      { cleanName: tx.cleanName, category: tx.category, amount: String(round2(tx.amount - half)) }
+    ]);
+    setError(null);
+  };
+
+  const updatePart = (index: number, patch: Partial<SplitPart>) => {
+    setSplitParts(parts => parts && parts.map((p, i) => (i === index ? { ...p, ...patch } : p)));
+  };
+
+  const saveSplit = () => {
+    if (!splitParts || !tx.id) return;
+    const amounts = splitParts.map(p => Number(p.amount));
+    if (amounts.some(a => !Number.isFinite(a))) return setError(t.invalidAmount);
+    // Splitting must not change how much was charged.
+    if (Math.abs(amounts.reduce((s, a) => s + a, 0) - tx.amount) > 0.005) {
+      return setError(`${t.splitMustMatch} ${tx.amount.toFixed(2)}`);
+    }
+    onEdit({
+      type: 'split',
+      id: tx.id,
+      parts: splitParts.map((p, i) => ({ cleanName: p.cleanName.trim() || tx.cleanName, category: p.category, amount: amounts[i] }))
+    });
+    setSplitParts(null);
+  };
+
+  const inputClass = 'w-full px-2 py-1 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 outline-none';
+  const shows = (column: TableColumn) => columns.includes(column);
+  const categorySelectOptions = categoryOptions(taxonomy, language).map(({ id, label, depth }) => (
+    <option key={id} value={id}>{'\u00A0\u00A0'.repeat(depth)}{label}</option>
+  ));
+
+  if (isEditing) {
+    return (
+      <tr className="bg-blue-50">
+        {shows('date') && (
+          <td className="px-6 py-2">
+            <input className={`${inputClass} w-[110px]`} value={draft.date} placeholder="DD/MM/YYYY" onChange={e => setDraft({ ...draft, date: e.target.value })} />
+          </td>
+        )}
+        {shows('cleanName') && (
+          <td className="px-6 py-2">
+            <input className={inputClass} value={draft.cleanName} onChange={e => setDraft({ ...draft, cleanName: e.target.value })} />
+          </td>
+        )}
+        {shows('originalDescription') && (
+          <td className="px-6 py-2 text-gray-400 text-xs hidden md:table-cell truncate max-w-xs">{tx.originalDescription}</td>
+        )}
+        {shows('category') && (
+          <td className="px-6 py-2">
+            <select className={inputClass} value={draft.category} onChange={e => setDraft({ ...draft, category: e.target.value })}>
+              {categorySelectOptions}
+            </select>
+          </td>
+        )}
+        <td className="px-6 py-2 text-right">
+          <input
+            className={`${inputClass} text-right w-[110px]`}
+            type="number"
+            step="0.01"
+            value={draft.amount}
+            title={tx.currency}
+            onChange={e => setDraft({ ...draft, amount: e.target.value })}
+          />
+          {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+        </td>
+        {onClassify && <td></td>}
+        {billSplit && <td></td>}
+        <td className="px-4 py-2 whitespace-nowrap text-right">
+          <button onClick={saveEdit} className="p-1 text-green-600 hover:text-green-800" title={t.saveEdit}><Check size={16} /></button>
+          <button onClick={cancelEdit} className="p-1 text-gray-400 hover:text-gray-600" title={t.cancelEdit}><X size={16} /></button>
+        </td>
+      </tr>
+    );
+  }
+
+  return (
+    <>
+      <tr
+        data-tx-id={tx.id}
+        onClick={onSelect}
+        className={`transition-colors group ${isSelected ? 'bg-amber-50 hover:bg-amber-100' : 'hover:bg-gray-50'} ${onSelect ? 'cursor-pointer' : ''} ${reviewNote ? 'shadow-[inset_3px_0_0_#f59e0b]' : ''}`}
+      >
+        {shows('date') && (
+          <td className={`px-6 py-3 whitespace-nowrap text-gray-500 ${changed.includes('date') ? 'italic' : ''}`}>{tx.date}</td>
+        )}
+        {shows('cleanName') && (
+          <td className="px-6 py-3 font-medium text-gray-900">
+            <span className={changed.includes('cleanName') ? 'italic' : ''}>{tx.cleanName}</span>
+            {tx.edit && (
+              <span
+                className="ml-2 inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase bg-amber-100 text-amber-700 cursor-help"
+                title={auditTitle}
+              >
+                {tx.edit.kind === 'added' ? t.addedMarker : tx.edit.kind === 'split' ? t.splitMarker : t.editedMarker}
+              </span>
+            )}
+          </td>
+        )}
+        {shows('originalDescription') && (
+          <td className="px-6 py-3 text-gray-400 text-xs hidden md:table-cell truncate max-w-xs">{tx.originalDescription}</td>
+        )}
+        {shows('category') && (
+          <td className="px-6 py-3">
+            <span
+              className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium"
+              style={{
+                backgroundColor: `${color}20`, // 20 hex opacity = ~12% opacity
+                color
+              }}
+            >
+              {categoryLabel(taxonomy, tx.category, language)}
+            </span>
+            <span title={sourceTitle} className={`ml-1.5 inline-flex align-middle ${source === 'model' ? 'text-gray-300' : 'text-blue-500'}`}>
+              <SourceIcon size={12} />
+            </span>
+          </td>
+        )}
+        <td className={`px-6 py-3 text-right font-medium ${tx.convertedAmount < 0 ? 'text-green-600' : 'text-gray-900'} ${changed.includes('amount') ? 'italic' : ''}`}>
+          {reviewNote && (
+            <span title={reviewNote} className="mr-1.5 inline-flex align-middle text-amber-500 cursor-help"><ShieldAlert size={12} /></span>
+          )}
+          {formatCurrency(tx.convertedAmount)}
+          {tx.rate && tx.rate.from !== tx.rate.to && (
+            <span className="block text-[11px] font-normal text-gray-400" title={`${t.rateSources[tx.rate.source]}${tx.rate.date ? ` ${tx.rate.date}` : ''}`}>
+              {t.convertedFrom}: {tx.amount.toFixed(2)} {tx.currency} × {tx.rate.rate.toFixed(4)}
+            </span>
+          )}
+          {!tx.rate && tx.currency && (
+            <span className="block text-[11px] font-normal text-amber-600" title={t.noRateAvailable}>{tx.currency}</span>
+          )}
+        </td>
+        {onClassify && (
+          <td className="px-4 py-3 whitespace-nowrap" onClick={e => e.stopPropagation()}>
+            <div className="flex items-center gap-1">
+              <select
+                className="px-1 py-0.5 border border-gray-300 rounded text-xs bg-white focus:ring-2 focus:ring-blue-500 outline-none"
+                value={expenseClassOf(tx)}
+                onChange={e => onClassify(e.target.value as ExpenseClass)}
+              >
+                {(Object.keys(t.expenseClasses) as ExpenseClass[]).map(option => (
+                  <option key={option} value={option}>{t.expenseClasses[option]}</option>
+                ))}
+              </select>
+              {policyNote && (
+                <span title={policyNote} className="inline-flex text-red-500 cursor-help"><AlertTriangle size={12} /></span>
+              )}
+            </div>
+            {tx.expenseClass === 'split' && (
+              <input
+                key={tx.reimbursableAmount}
+                className="mt-1 w-[90px] px-1 py-0.5 border border-gray-300 rounded text-xs text-right focus:ring-2 focus:ring-blue-500 outline-none"
+                type="number"
+                step="0.01"
+                title={`${t.reimbursableAmountLabel} (${tx.currency})`}
+                defaultValue={tx.reimbursableAmount}
+                onBlur={e => {
+                  const amount = Number(e.target.value);
+                  if (e.target.value.trim() !== '' && Number.isFinite(amount)) onClassify('split', amount);
+                }}
+              />
+            )}
+          </td>
+        )}
+        {billSplit && (
+          <AllocationCell
+            allocation={billSplit.allocation}
+            participants={billSplit.participants}
+            sharedByDefault={isInCategory(taxonomy, tx.category, Category.ROOM) || isInCategory(taxonomy, tx.category, Category.TAX)}
+            language={language}
+            onAllocate={billSplit.onAllocate}
+          />
+        )}
+        <td className="px-4 py-3 whitespace-nowrap text-right opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+          <button onClick={startEdit} className="p-1 text-gray-400 hover:text-blue-600" title={t.editRow}><Pencil size={14} /></button>
+          <button onClick={startSplit} className="p-1 text-gray-400 hover:text-blue-600" title={t.splitRow}><Scissors size={14} /></button>
+          <button onClick={() => tx.id && onEdit({ type: 'delete', id: tx.id })} className="p-1 text-gray-400 hover:text-red-600" title={t.deleteRow}><Trash2 size={14} /></button>
+        </td>
+      </tr>
+      {splitParts && (
+        <tr className="bg-blue-50">
+          <td colSpan={columns.length + 1 + (onClassify ? 1 : 0) + (billSplit ? 1 : 0)} className="px-6 py-3">
+            <p className="text-xs font-medium text-gray-600 mb-2">{t.splitRow}: {tx.cleanName} ({tx.amount.toFixed(2)} {tx.currency})</p>
+            <div className="space-y-2">
+              {splitParts.map((part, index) => (
+                <div key={index} className="flex flex-wrap gap-2 items-center">
+                  <input className={`${inputClass} flex-1 min-w-[140px]`} value={part.cleanName} onChange={e => updatePart(index, { cleanName: e.target.value })} />
+                  <select className={`${inputClass} w-auto`} value={part.category} onChange={e => updatePart(index, { category: e.target.value })}>
+                    {categorySelectOptions}
+                  </select>
+                  <input className={`${inputClass} w-[110px] text-right`} type="number" step="0.01" value={part.amount} onChange={e => updatePart(index, { amount: e.target.value })} />
+                  {splitParts.length > 2 && (
+                    <button onClick={() => setSplitParts(splitParts.filter((_, i) => i !== index))} className="p-1 text-gray-400 hover:text-red-600"><X size={14} /></button>
+                  )}
+                </div>
+              ))}
+            </div>
+            {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+            <div className="flex gap-2 mt-3">
+              <button
+                onClick={() => setSplitParts([...splitParts, { cleanName: tx.cleanName, category: tx.category, amount: '0' }])}
+                className="inline-flex items-center gap-1 px-2 py-1 text-xs text-blue-700 hover:bg-blue-100 rounded"
+              >
+                <Plus size={12} /> {t.addSplitPart}
+              </button>
+              <div className="flex-1" />
+              <button onClick={() => setSplitParts(null)} className="px-3 py-1 text-xs text-gray-600 hover:bg-gray-100 rounded">{t.cancelEdit}</button>
+              <button onClick={saveSplit} className="px-3 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700">{t.saveEdit}</button>
+            </div>
+          </td>
+        </tr>
+      )}
+    </>
+  );
+};
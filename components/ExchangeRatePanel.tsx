@@ -0,0 +1,88 @@
+import React from 'react';
+import { Currency, ExchangeRate, Language, RateOverride, RateSource } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { ArrowRightLeft, AlertTriangle, X } from 'lucide-react';
+
+interface Props {
+  ratesUsed: ExchangeRate[];
+  unconvertedCurrencies: string[]; // Currencies that had no rate to the display currency
+  overrides: RateOverride[];
+  language: Language;
+  onOverridesChange: (overrides: RateOverride[]) => void;
+}
+
+const pairKey = (from: Currency, to: Currency) => `${from}-${to}`;
+
+export const ExchangeRatePanel: React.FC<Props> = ({ ratesUsed, unconvertedCurrencies, overrides, language, onOverridesChange }) => {
+  const t = TRANSLATIONS[language];
+
+  // Same-currency "conversions" are not worth listing.
+  const conversions = ratesUsed.filter(rate => rate.from !== rate.to);
+  if (conversions.length === 0 && unconvertedCurrencies.length === 0) return null;
+
+  const pairs = new Map<string, ExchangeRate[]>();
+  conversions.forEach(rate => {
+    const key = pairKey(rate.from, rate.to);
+    pairs.set(key, [...(pairs.get(key) ?? []), rate]);
+  });
+
+  const setOverride = (from: Currency, to: Currency, value: string) => {
+    const rate = Number(value);
+    const others = overrides.filter(o => !(o.from === from && o.to === to) && !(o.from === to && o.to === from));
+    onOverridesChange(value.trim() === '' || !Number.isFinite(rate) || rate <= 0 ? others : [...others, { from, to, rate }]);
+  };
+
+  const describeRate = (rate: ExchangeRate) =>
+    `${rate.rate.toFixed(4)} · ${t.rateSources[rate.source]}${rate.date ? ` ${rate.date}` : ''}`;
+
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-200">
+      <h3 className="text-sm font-semibold text-gray-700 flex items-center gap-2 mb-3">
+        <ArrowRightLeft size={16} className="text-gray-400" />
+        {t.exchangeRatesTitle}
+      </h3>
+      <ul className="space-y-2">
+        {[...pairs.values()].map(rates => {
+          const { from, to } = rates[0];
+          const override = rates.find(rate => rate.source === RateSource.OVERRIDE);
+          // Historical rates vary by day; show the range rather than every day.
+          const others = rates.filter(rate => rate.source !== RateSource.OVERRIDE);
+          const shown = others.length > 2 ? [others[0], others[others.length - 1]] : others;
+          return (
+            <li key={pairKey(from, to)} className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm">
+              <span className="font-medium text-gray-800 whitespace-nowrap">1 {from} → {to}</span>
+              <span className="text-gray-500 text-xs">
+                {override ? describeRate(override) : shown.map(describeRate).join(others.length > 2 ? ' … ' : ', ')}
+              </span>
+              <div className="flex-1" />
+              <label className="flex items-center gap-1 text-xs text-gray-500">
+                {t.rateOverride}
+                <input
+                  type="number"
+                  step="0.0001"
+                  min="0"
+                  className="w-24 px-2 py-0.5 border border-gray-300 rounded text-sm text-right focus:ring-2 focus:ring-blue-500 outline-none"
+                  key={override ? override.rate : 'none'}
+                  defaultValue={override ? Number(override.rate.toFixed(4)) : ''}
+                  onBlur={e => setOverride(from, to, e.target.value)}
+                  onKeyDown={e => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                />
+              </label>
+              {override && (
+                <button onClick={() => setOverride(from, to, '')} className="p-0.5 text-gray-400 hover:text-gray-600" title={t.clearOverride}>
+                  <X size={14} />
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      {unconvertedCurrencies.length > 0 && (
+        <p className="mt-3 text-xs text-amber-700 flex items-center gap-1">
+          <AlertTriangle size={14} className="shrink-0" />
+          {t.noRateAvailable} ({unconvertedCurrencies.join(', ')})
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,167 @@
+import React from 'react';
+import { CategoryDefinition, Currency, ExpensePolicy, Language, PolicyViolation, Transaction } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { coerceNumber } from '../services/analysisValidator';
+import { categoryOptions } from '../services/taxonomy';
+import { Briefcase, Download, Loader2, AlertTriangle, CheckCircle2, X } from 'lucide-react';
+
+interface Props {
+  policy: ExpensePolicy;
+  violations: PolicyViolation[];
+  totals: { reimbursable: number; personal: number; total: number };
+  transactions: Transaction[];
+  language: Language;
+  taxonomy: CategoryDefinition[];
+  formatCurrency: (val: number) => string;
+  downloading: boolean;
+  onPolicyChange: (policy: ExpensePolicy) => void;
+  onShowLine: (id: string) => void;
+  onDownload: () => void;
+  onClose: () => void;
+}
+
+export const ExpenseReportPanel: React.FC<Props> = ({
+  policy, violations, totals, transactions, language, taxonomy, formatCurrency, downloading, onPolicyChange, onShowLine, onDownload, onClose
+}) => {
+  const t = TRANSLATIONS[language];
+  const byId = new Map(transactions.map(tx => [tx.id, tx]));
+
+  const limitValue = (value: number | null) => (value === null ? '' : String(value));
+  const parseLimitInput = (value: string) => {
+    const parsed = value.trim() === '' ? null : coerceNumber(value);
+    return parsed !== null && parsed >= 0 ? parsed : null;
+  };
+
+  const toggleCategory = (id: string) => {
+    const disallowed = policy.disallowedCategories.includes(id)
+      ? policy.disallowedCategories.filter(other => other !== id)
+      : [...policy.disallowedCategories, id];
+    onPolicyChange({ ...policy, disallowedCategories: disallowed });
+  };
+
+  const inputClass = 'w-full px-2 py-1 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white';
+  const labelClass = 'block text-xs text-gray-500 mb-1';
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <Briefcase size={18} className="text-blue-600" /> {t.expenseModeLabel}
+        </h3>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onDownload}
+            disabled={downloading}
+            className="inline-flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-60"
+          >
+            {downloading ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />}
+            {t.downloadExpenseReport}
+          </button>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={18} /></button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 mb-6">
+        <div className="bg-blue-50 rounded-lg p-3">
+          <p className="text-xs text-gray-500 uppercase tracking-wide">{t.reimbursableTotal}</p>
+          <p className="text-xl font-bold text-blue-700">{formatCurrency(totals.reimbursable)}</p>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-3">
+          <p className="text-xs text-gray-500 uppercase tracking-wide">{t.personalTotal}</p>
+          <p className="text-xl font-bold text-gray-800">{formatCurrency(totals.personal)}</p>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-3">
+          <p className="text-xs text-gray-500 uppercase tracking-wide">{t.lineSum}</p>
+          <p className="text-xl font-bold text-gray-800">{formatCurrency(totals.total)}</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 mb-3">{t.policyTitle}</h4>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>{t.mealPerDiemLabel}</label>
+              <input
+                className={inputClass}
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder={t.noLimit}
+                value={limitValue(policy.mealPerDiem)}
+                onChange={e => onPolicyChange({ ...policy, mealPerDiem: parseLimitInput(e.target.value) })}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>{t.policyCurrencyLabel}</label>
+              <select
+                className={inputClass}
+                value={policy.currency}
+                onChange={e => onPolicyChange({ ...policy, currency: e.target.value as Currency })}
+              >
+                {Object.values(Currency).map(code => <option key={code} value={code}>{code}</option>)}
+              </select>
+            </div>
+            <div className="col-span-2">
+              <label className={labelClass}>{t.maxTipPercentLabel}</label>
+              <input
+                className={inputClass}
+                type="number"
+                min="0"
+                step="1"
+                placeholder={t.noLimit}
+                value={limitValue(policy.maxTipPercent)}
+                onChange={e => onPolicyChange({ ...policy, maxTipPercent: parseLimitInput(e.target.value) })}
+              />
+            </div>
+          </div>
+          <p className={`${labelClass} mt-3`}>{t.disallowedCategoriesLabel}</p>
+          <div className="max-h-40 overflow-y-auto border border-gray-200 rounded-md p-2 space-y-1">
+            {categoryOptions(taxonomy, language).map(({ id, label, depth }) => (
+              <label key={id} className="flex items-center gap-2 text-sm text-gray-700" style={{ paddingLeft: depth * 16 }}>
+                <input type="checkbox" checked={policy.disallowedCategories.includes(id)} onChange={() => toggleCategory(id)} />
+                {label}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 mb-3">{t.policyViolationsTitle}</h4>
+          {violations.length === 0 ? (
+            <p className="text-sm text-green-700 flex items-center gap-2"><CheckCircle2 size={16} /> {t.policyCompliant}</p>
+          ) : (
+            <ul className="space-y-3">
+              {violations.map(violation => (
+                <li key={violation.key} className="text-sm">
+                  <p className="flex items-start gap-2 text-red-700 font-medium">
+                    <AlertTriangle size={14} className="mt-0.5 shrink-0" />
+                    <span>
+                      {t.policyViolationKinds[violation.kind]}
+                      {violation.date && <span className="font-normal text-gray-500"> · {violation.date}</span>}
+                    </span>
+                    <span className="ml-auto whitespace-nowrap">
+                      {violation.kind === 'cap_not_convertible' ? `${policy.mealPerDiem} ${policy.currency}` : formatCurrency(violation.claimed)}
+                      {(violation.kind === 'meal_cap' || violation.kind === 'tip_limit') && <span className="font-normal text-gray-500"> / {formatCurrency(violation.limit)}</span>}
+                    </span>
+                  </p>
+                  <div className="ml-6 mt-1 flex flex-wrap gap-1">
+                    {violation.transactionIds.map(id => (
+                      <button
+                        key={id}
+                        onClick={() => onShowLine(id)}
+                        className="px-1.5 py-0.5 text-xs text-gray-700 bg-gray-100 rounded hover:bg-gray-200"
+                      >
+                        {byId.get(id)?.cleanName || id}
+                      </button>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
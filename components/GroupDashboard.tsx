@@ -0,0 +1,176 @@
+import React, { useMemo, useState } from 'react';
+import { BatchItem, BatchStatus, CategoryDefinition, Currency, GroupBreakdown, Language, RateProvider } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { summarizeGroup } from '../services/groupStay';
+import { totalsByCategory } from '../services/exporters';
+import { categoryColor, categoryLabel } from '../services/taxonomy';
+import { Users, Loader2, CheckCircle2, AlertCircle, Clock, FolderOpen } from 'lucide-react';
+
+interface Props {
+  items: BatchItem[];
+  language: Language;
+  currency: Currency;
+  rates: RateProvider;
+  taxonomy: CategoryDefinition[];
+  onOpenFolio: (id: string) => void;
+  onReset: () => void;
+}
+
+const STATUS_ICONS: Record<BatchStatus, React.ReactNode> = {
+  pending: <Clock size={16} className="text-gray-400" />,
+  analyzing: <Loader2 size={16} className="text-blue-600 animate-spin" />,
+  done: <CheckCircle2 size={16} className="text-green-600" />,
+  error: <AlertCircle size={16} className="text-red-500" />
+};
+
+export const GroupDashboard: React.FC<Props> = ({ items, language, currency, rates, taxonomy, onOpenFolio, onReset }) => {
+  const t = TRANSLATIONS[language];
+  const [breakdown, setBreakdown] = useState<GroupBreakdown>('roomNumber');
+
+  const summary = useMemo(() => summarizeGroup(items, breakdown, rates, currency), [items, breakdown, rates, currency]);
+  const categoryTotals = useMemo(() => totalsByCategory(summary.transactions, taxonomy), [summary, taxonomy]);
+  const finished = items.filter(item => item.status === 'done' || item.status === 'error').length;
+
+  const formatCurrency = (val: number) => {
+    return new Intl.NumberFormat(language === Language.ES ? 'es-MX' : 'en-US', {
+      style: 'currency',
+      currency: currency
+    }).format(val);
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+              <Users className="text-blue-600" size={24} /> {t.groupStayTitle}
+            </h2>
+            <p className="text-sm text-gray-500 mt-1">
+              {summary.folios.length} {t.foliosLabel.toLowerCase()} · {summary.rooms} {t.roomsLabel.toLowerCase()} · {summary.guests} {t.guestsLabel.toLowerCase()}
+            </p>
+            <button onClick={onReset} className="mt-2 text-sm text-blue-600 hover:text-blue-800 font-medium">
+              {t.reset}
+            </button>
+          </div>
+          <div className="text-right whitespace-nowrap">
+            <p className="text-sm text-gray-500 uppercase tracking-wide">{t.groupTotal}</p>
+            <p className="text-4xl font-extrabold text-blue-600">{formatCurrency(summary.total)}</p>
+          </div>
+        </div>
+      </div>
+
+      {/* Per-file progress */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-semibold">{t.foliosLabel}</h3>
+          <span className="text-sm text-gray-500">{finished} / {items.length} {t.batchProgress}</span>
+        </div>
+        <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden mb-4">
+          <div className="h-full bg-blue-600 transition-all" style={{ width: `${(finished / Math.max(items.length, 1)) * 100}%` }} />
+        </div>
+        <ul className="divide-y divide-gray-100 text-sm">
+          {items.map(item => (
+            <li key={item.id} className="py-2 flex flex-wrap items-center gap-3">
+              {STATUS_ICONS[item.status]}
+              <span className="font-medium text-gray-800 truncate max-w-[240px]" title={item.file.name}>{item.file.name}</span>
+              {item.result && (
+                <span className="text-gray-500">{item.result.guestName} · {t.room} {item.result.roomNumber || '—'}</span>
+              )}
+              {item.status === 'error' ? (
+                <span className="text-red-600 text-xs truncate flex-1" title={item.error}>{item.error}</span>
+              ) : (
+                <span className="text-xs text-gray-400 flex-1">
+                  {t.batchStatuses[item.status]}
+                  {item.status === 'analyzing' && item.progress && item.progress.ranges.length > 1 && (
+                    <> · {t.pagesLabel} {item.progress.ranges.filter(range => range.status === 'done').reduce((max, range) => Math.max(max, range.toPage), 0)} / {item.progress.totalPages}</>
+                  )}
+                </span>
+              )}
+              {item.status === 'done' && (
+                <button
+                  onClick={() => onOpenFolio(item.id)}
+                  className="inline-flex items-center gap-1 px-2 py-1 text-blue-700 rounded-md hover:bg-blue-50"
+                >
+                  <FolderOpen size={14} /> {t.openFolio}
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {summary.folios.length > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold">{t.breakdownBy}</h3>
+              <select
+                className="px-3 py-1.5 border border-gray-300 rounded-md text-sm bg-white focus:ring-2 focus:ring-blue-500 outline-none"
+                value={breakdown}
+                onChange={e => setBreakdown(e.target.value as GroupBreakdown)}
+              >
+                {(Object.keys(t.breakdownOptions) as GroupBreakdown[]).map(option => (
+                  <option key={option} value={option}>{t.breakdownOptions[option]}</option>
+                ))}
+              </select>
+            </div>
+            <div style={{ height: Math.max(160, summary.slices.length * 36) }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={summary.slices.map(slice => ({ name: slice.label, value: slice.spend }))} layout="vertical">
+                  <CartesianGrid strokeDasharray="3 3" horizontal={true} vertical={false} />
+                  <XAxis type="number" hide />
+                  <YAxis dataKey="name" type="category" width={140} tick={{ fontSize: 12 }} />
+                  <Tooltip formatter={(value: number) => formatCurrency(value)} />
+                  <Bar dataKey="value" fill="#3b82f6" radius={[0, 4, 4, 0]} barSize={20} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <table className="w-full text-sm text-left mt-4">
+              <tbody className="divide-y divide-gray-100">
+                {summary.slices.map(slice => (
+                  <React.Fragment key={slice.key}>
+                    <tr className="bg-gray-50">
+                      <td className="px-4 py-2 font-semibold text-gray-700" colSpan={2}>
+                        {t.breakdownOptions[breakdown]}: {slice.label}
+                      </td>
+                      <td className="px-4 py-2 text-right font-semibold text-gray-900">{formatCurrency(slice.spend)}</td>
+                    </tr>
+                    {slice.folios.map(folio => (
+                      <tr key={folio.id}>
+                        <td className="px-4 py-2 text-gray-600">
+                          {breakdown === 'roomNumber' ? folio.result.guestName : `${t.room} ${folio.result.roomNumber || '—'}`}
+                          <span className="ml-2 text-xs text-gray-400">{t.folio} {folio.result.confirmationNumber || '—'}</span>
+                        </td>
+                        <td className="px-4 py-2 text-right">
+                          <button onClick={() => onOpenFolio(folio.id)} className="text-xs text-blue-600 hover:text-blue-800">
+                            {t.openFolio}
+                          </button>
+                        </td>
+                        <td className="px-4 py-2 text-right text-gray-900">{formatCurrency(folio.spend)}</td>
+                      </tr>
+                    ))}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+            <h3 className="text-lg font-semibold mb-4">{t.amountByCategory}</h3>
+            <ul className="space-y-2 text-sm">
+              {categoryTotals.map(({ id, amount }) => (
+                <li key={id} className="flex items-center gap-2">
+                  <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: categoryColor(taxonomy, id) }} />
+                  <span className="flex-1 text-gray-700">{categoryLabel(taxonomy, id, language)}</span>
+                  <span className={amount < 0 ? 'text-green-600' : 'text-gray-900'}>{formatCurrency(amount)}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+import React, { useMemo, useState } from 'react';
+import { HistoryEntry, HistoryQuery, Language } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { normalizeTag, searchHistory } from '../services/historyStore';
+import { hasEdits } from '../services/transactionEdits';
+import { History, Search, Pencil, Trash2, FolderOpen, FileX, X } from 'lucide-react';
+
+interface Props {
+  entries: HistoryEntry[];
+  language: Language;
+  onOpen: (entry: HistoryEntry) => void;
+  onRename: (id: string, name: string) => void;
+  onTagsChange: (id: string, tags: string[]) => void;
+  onDelete: (id: string) => void;
+}
+
+export const HistoryPanel: React.FC<Props> = ({ entries, language, onOpen, onRename, onTagsChange, onDelete }) => {
+  const t = TRANSLATIONS[language];
+  const [query, setQuery] = useState<HistoryQuery>({ text: '', from: '', to: '' });
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [tagDrafts, setTagDrafts] = useState<Record<string, string>>({});
+
+  const visible = useMemo(() => searchHistory(entries, query), [entries, query]);
+  const locale = language === Language.ES ? 'es-MX' : 'en-US';
+
+  const commitRename = (entry: HistoryEntry) => {
+    const name = draftName.trim();
+    if (name && name !== entry.name) onRename(entry.id, name);
+    setRenamingId(null);
+  };
+
+  const addTag = (entry: HistoryEntry) => {
+    const tag = normalizeTag(tagDrafts[entry.id] ?? '');
+    if (tag && !entry.tags.includes(tag)) onTagsChange(entry.id, [...entry.tags, tag]);
+    setTagDrafts(prev => ({ ...prev, [entry.id]: '' }));
+  };
+
+  const inputClass = 'px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white';
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+      <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <History size={18} className="text-gray-400" /> {t.historyTitle}
+      </h3>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500">{t.historyEmpty}</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            <div className="relative flex-1 min-w-[200px]">
+              <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 text-gray-400" size={14} />
+              <input
+                type="text"
+                placeholder={t.historySearchPlaceholder}
+                className={`${inputClass} w-full pl-8`}
+                value={query.text}
+                onChange={e => setQuery(prev => ({ ...prev, text: e.target.value }))}
+              />
+            </div>
+            <label className="flex items-center gap-1 text-xs text-gray-500">
+              {t.historyFrom}
+              <input type="date" className={inputClass} value={query.from} onChange={e => setQuery(prev => ({ ...prev, from: e.target.value }))} />
+            </label>
+            <label className="flex items-center gap-1 text-xs text-gray-500">
+              {t.historyTo}
+              <input type="date" className={inputClass} value={query.to} onChange={e => setQuery(prev => ({ ...prev, to: e.target.value }))} />
+            </label>
+          </div>
+
+          {visible.length === 0 ? (
+            <p className="text-sm text-gray-500">{t.historyNoMatches}</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {visible.map(entry => (
+                <li key={entry.id} className="py-3 flex flex-wrap items-start gap-3">
+                  <div className="flex-1 min-w-[220px]">
+                    {renamingId === entry.id ? (
+                      <input
+                        autoFocus
+                        className={`${inputClass} w-full`}
+                        value={draftName}
+                        onChange={e => setDraftName(e.target.value)}
+                        onBlur={() => commitRename(entry)}
+                        onKeyDown={e => {
+                          if (e.key === 'Enter') commitRename(entry);
+                          if (e.key === 'Escape') setRenamingId(null);
+                        }}
+                      />
+                    ) : (
+                      <p className="font-medium text-gray-900 flex items-center gap-2">
+                        {entry.name}
+                        {hasEdits(entry.result) && <span className="text-xs font-normal text-amber-600">{t.editedMarker}</span>}
+                      </p>
+                    )}
+                    <p className="text-xs text-gray-500 mt-0.5">
+                      {entry.result.hotelName} · {t.folio} {entry.result.confirmationNumber || '—'} · {entry.result.checkIn} – {entry.result.checkOut}
+                    </p>
+                    <p className="text-xs text-gray-400 mt-0.5">
+                      {t.historyExtractedOn} {new Date(entry.extractedAt).toLocaleString(locale)} · {entry.model}
+                      {!entry.source && <span className="inline-flex items-center gap-0.5 ml-2"><FileX size={12} /> {t.historyNoSource}</span>}
+                    </p>
+                    <div className="flex flex-wrap items-center gap-1 mt-2">
+                      {entry.tags.map(tag => (
+                        <span key={tag} className="inline-flex items-center gap-0.5 px-2 py-0.5 rounded-full bg-blue-50 text-blue-700 text-xs">
+                          {tag}
+                          <button onClick={() => onTagsChange(entry.id, entry.tags.filter(other => other !== tag))} className="hover:text-blue-900">
+                            <X size={10} />
+                          </button>
+                        </span>
+                      ))}
+                      <input
+                        className="w-24 px-2 py-0.5 text-xs border border-transparent rounded-full hover:border-gray-200 focus:border-gray-300 outline-none"
+                        placeholder={t.historyAddTag}
+                        value={tagDrafts[entry.id] ?? ''}
+                        onChange={e => setTagDrafts(prev => ({ ...prev, [entry.id]: e.target.value }))}
+                        onKeyDown={e => e.key === 'Enter' && addTag(entry)}
+                        onBlur={() => addTag(entry)}
+                      />
+                    </div>
+                  </div>
+                  <p className="font-semibold text-gray-900 whitespace-nowrap">
+                    {entry.result.totalAmount.toFixed(2)} <span className="text-xs font-normal text-gray-500">{entry.result.detectedCurrency}</span>
+                  </p>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => onOpen(entry)}
+                      className="inline-flex items-center gap-1 px-3 py-1.5 bg-blue-50 text-blue-700 rounded-md text-sm font-medium hover:bg-blue-100 transition-colors"
+                    >
+                      <FolderOpen size={14} /> {t.historyOpen}
+                    </button>
+                    <button
+                      onClick={() => {
+                        setRenamingId(entry.id);
+                        setDraftName(entry.name);
+                      }}
+                      className="p-1.5 text-gray-400 hover:text-gray-700"
+                      title={t.historyRename}
+                    >
+                      <Pencil size={16} />
+                    </button>
+                    <button
+                      onClick={() => window.confirm(t.historyDeleteConfirm) && onDelete(entry.id)}
+                      className="p-1.5 text-gray-400 hover:text-red-600"
+                      title={t.historyDelete}
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
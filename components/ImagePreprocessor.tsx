@@ -0,0 +1,317 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CapturedImage, ImageAdjustments, ImageCrop, Language } from '../types';
+import { DEFAULT_IMAGE_MAX_DIMENSION, TRANSLATIONS } from '../constants';
+import {
+  DEFAULT_ADJUSTMENTS,
+  ImageTooLargeError,
+  buildStatementFromImages,
+  createCapturedImage,
+  estimateSkew,
+  loadBitmap,
+  renderAdjusted
+} from '../services/imagePreprocessing';
+import { Camera, RotateCcw, RotateCw, Wand2, Crop, Trash2, ChevronUp, ChevronDown, Play, X, Loader2 } from 'lucide-react';
+
+interface Props {
+  images: CapturedImage[];
+  language: Language;
+  onChange: (images: CapturedImage[]) => void;
+  onAnalyze: (statement: File) => void;
+  onCancel: () => void;
+}
+
+const THUMBNAIL_SIZE = 160;
+const EDITOR_SIZE = 900;
+const MAX_SKEW = 10;
+const MIN_CROP = 0.02; // Smaller drags are treated as clicks
+const RESOLUTIONS = [1200, 1600, DEFAULT_IMAGE_MAX_DIMENSION, 2600, 3200];
+
+interface Preview {
+  key: string; // Adjustments the preview was rendered with
+  url: string;
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const rectBetween = (a: { x: number; y: number }, b: { x: number; y: number }): ImageCrop => ({
+  x: Math.min(a.x, b.x),
+  y: Math.min(a.y, b.y),
+  width: Math.abs(a.x - b.x),
+  height: Math.abs(a.y - b.y)
+});
+
+export const ImagePreprocessor: React.FC<Props> = ({ images, language, onChange, onAnalyze, onCancel }) => {
+  const t = TRANSLATIONS[language];
+  const [selectedId, setSelectedId] = useState<string | null>(images[0]?.id ?? null);
+  const [maxDimension, setMaxDimension] = useState(DEFAULT_IMAGE_MAX_DIMENSION);
+  const [thumbnails, setThumbnails] = useState<Record<string, Preview>>({});
+  const [editorPreview, setEditorPreview] = useState<Preview | null>(null);
+  const [draftCrop, setDraftCrop] = useState<ImageCrop | null>(null);
+  const [preparing, setPreparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const bitmaps = useRef(new Map<string, ImageBitmap>());
+  const dragStart = useRef<{ x: number; y: number } | null>(null);
+
+  const selected = images.find(image => image.id === selectedId) ?? images[0];
+
+  const bitmapOf = async (image: CapturedImage) => {
+    let bitmap = bitmaps.current.get(image.id);
+    if (!bitmap) {
+      bitmap = await loadBitmap(image.file);
+      bitmaps.current.set(image.id, bitmap);
+    }
+    return bitmap;
+  };
+
+  // Thumbnails show the page as it will be sent: rotated, straightened and cropped.
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      for (const image of images) {
+        const key = JSON.stringify(image.adjustments);
+        if (thumbnails[image.id]?.key === key) continue;
+        const bitmap = await bitmapOf(image);
+        if (cancelled) return;
+        const url = renderAdjusted(bitmap, image.adjustments, THUMBNAIL_SIZE).toDataURL('image/jpeg', 0.8);
+        setThumbnails(prev => ({ ...prev, [image.id]: { key, url } }));
+      }
+    })().catch(err => console.error('Could not render photo preview:', err));
+    return () => { cancelled = true; };
+  }, [images]);
+
+  // The editor shows the uncropped image, so the crop can be drawn over all of it.
+  useEffect(() => {
+    if (!selected) return;
+    let cancelled = false;
+    const { rotation, skew } = selected.adjustments;
+    const key = `${selected.id}:${rotation}:${skew}`;
+    if (editorPreview?.key === key) return;
+    bitmapOf(selected).then(bitmap => {
+      if (cancelled) return;
+      const url = renderAdjusted(bitmap, selected.adjustments, EDITOR_SIZE, false).toDataURL('image/jpeg', 0.85);
+      setEditorPreview({ key, url });
+    }).catch(err => console.error('Could not render photo preview:', err));
+    return () => { cancelled = true; };
+  }, [selected?.id, selected?.adjustments.rotation, selected?.adjustments.skew]);
+
+  // Free decoded photos that were removed, and all of them on unmount.
+  useEffect(() => {
+    const ids = new Set(images.map(image => image.id));
+    bitmaps.current.forEach((bitmap, id) => {
+      if (!ids.has(id)) {
+        bitmap.close();
+        bitmaps.current.delete(id);
+      }
+    });
+  }, [images]);
+
+  useEffect(() => () => {
+    bitmaps.current.forEach(bitmap => bitmap.close());
+    bitmaps.current.clear();
+  }, []);
+
+  const updateAdjustments = (id: string, patch: Partial<ImageAdjustments>) => {
+    setError(null);
+    onChange(images.map(image => (image.id === id ? { ...image, adjustments: { ...image.adjustments, ...patch } } : image)));
+  };
+
+  // The crop is relative to the rotated image, so it no longer fits once the rotation changes.
+  const rotate = (image: CapturedImage, quarterTurns: number) => {
+    const rotation = (((image.adjustments.rotation + quarterTurns * 90) % 360) + 360) % 360 as ImageAdjustments['rotation'];
+    updateAdjustments(image.id, { rotation, crop: null });
+  };
+
+  const autoStraighten = async (image: CapturedImage) => {
+    const bitmap = await bitmapOf(image);
+    updateAdjustments(image.id, { skew: estimateSkew(bitmap, image.adjustments.rotation), crop: null });
+  };
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= images.length) return;
+    const next = [...images];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const remove = (id: string) => {
+    const next = images.filter(image => image.id !== id);
+    if (next.length === 0) {
+      onCancel();
+      return;
+    }
+    if (id === selected?.id) setSelectedId(next[0].id);
+    onChange(next);
+  };
+
+  const handleAddPhotos = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const added = Array.from(event.target.files ?? []).filter(file => file.type.startsWith('image/')).map(createCapturedImage);
+    event.target.value = '';
+    if (added.length > 0) onChange([...images, ...added]);
+  };
+
+  const pointerPosition = (event: React.PointerEvent<HTMLDivElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    return { x: clamp01((event.clientX - bounds.left) / bounds.width), y: clamp01((event.clientY - bounds.top) / bounds.height) };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragStart.current = pointerPosition(event);
+    setDraftCrop(null);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (dragStart.current) setDraftCrop(rectBetween(dragStart.current, pointerPosition(event)));
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStart.current || !selected) return;
+    const crop = rectBetween(dragStart.current, pointerPosition(event));
+    dragStart.current = null;
+    setDraftCrop(null);
+    if (crop.width >= MIN_CROP && crop.height >= MIN_CROP) updateAdjustments(selected.id, { crop });
+  };
+
+  const handleAnalyze = async () => {
+    setPreparing(true);
+    setError(null);
+    try {
+      onAnalyze(await buildStatementFromImages(images, maxDimension));
+    } catch (err) {
+      console.error('Could not prepare photos:', err);
+      setError(err instanceof ImageTooLargeError ? t.photosTooLarge : t.errorGeneric);
+    } finally {
+      setPreparing(false);
+    }
+  };
+
+  const shownCrop = draftCrop ?? selected?.adjustments.crop ?? null;
+  const buttonClass = 'p-2 rounded-md border border-gray-200 text-gray-600 hover:bg-gray-50 disabled:opacity-40';
+
+  return (
+    <div className="max-w-5xl mx-auto bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold flex items-center gap-2">
+            <Camera size={18} className="text-gray-400" /> {t.photosTitle}
+          </h3>
+          <p className="text-sm text-gray-500 mt-1">{t.photosHint}</p>
+        </div>
+        <button onClick={onCancel} className="text-gray-400 hover:text-gray-600" aria-label={t.cancelAnalysis}>
+          <X size={20} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-[200px_1fr] gap-6">
+        <ol className="space-y-3">
+          {images.map((image, index) => (
+            <li
+              key={image.id}
+              className={`rounded-lg border p-2 cursor-pointer ${image.id === selected?.id ? 'border-blue-500 ring-2 ring-blue-100' : 'border-gray-200'}`}
+              onClick={() => setSelectedId(image.id)}
+            >
+              <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
+                <span>{index + 1}</span>
+                <span className="flex gap-1" onClick={e => e.stopPropagation()}>
+                  <button onClick={() => move(index, -1)} disabled={index === 0} title={t.moveUp} className="disabled:opacity-30"><ChevronUp size={14} /></button>
+                  <button onClick={() => move(index, 1)} disabled={index === images.length - 1} title={t.moveDown} className="disabled:opacity-30"><ChevronDown size={14} /></button>
+                  <button onClick={() => remove(image.id)} title={t.removePhoto} className="text-red-500"><Trash2 size={14} /></button>
+                </span>
+              </div>
+              {thumbnails[image.id] ? (
+                <img src={thumbnails[image.id].url} alt={image.file.name} className="w-full rounded bg-gray-50" />
+              ) : (
+                <div className="h-24 flex items-center justify-center text-gray-300"><Loader2 size={16} className="animate-spin" /></div>
+              )}
+            </li>
+          ))}
+          <li>
+            <label className="flex items-center justify-center gap-2 rounded-lg border border-dashed border-gray-300 p-3 text-sm text-gray-500 cursor-pointer hover:bg-gray-50">
+              <Camera size={14} /> {t.addPhotos}
+              <input type="file" accept="image/jpeg,image/png,image/webp" capture="environment" multiple className="hidden" onChange={handleAddPhotos} />
+            </label>
+          </li>
+        </ol>
+
+        {selected && (
+          <div>
+            <div className="flex flex-wrap items-center gap-2 mb-3">
+              <button onClick={() => rotate(selected, -1)} title={t.rotateLeft} className={buttonClass}><RotateCcw size={16} /></button>
+              <button onClick={() => rotate(selected, 1)} title={t.rotateRight} className={buttonClass}><RotateCw size={16} /></button>
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                {t.straighten}
+                <input
+                  type="range"
+                  min={-MAX_SKEW}
+                  max={MAX_SKEW}
+                  step={0.25}
+                  value={selected.adjustments.skew}
+                  onChange={e => updateAdjustments(selected.id, { skew: Number(e.target.value), crop: null })}
+                />
+                <span className="w-12 text-xs text-gray-400 tabular-nums">{selected.adjustments.skew.toFixed(2)}°</span>
+              </label>
+              <button onClick={() => autoStraighten(selected)} className={`${buttonClass} flex items-center gap-1 text-sm`}>
+                <Wand2 size={14} /> {t.autoStraighten}
+              </button>
+              <button
+                onClick={() => updateAdjustments(selected.id, { crop: DEFAULT_ADJUSTMENTS.crop })}
+                disabled={!selected.adjustments.crop}
+                className={`${buttonClass} flex items-center gap-1 text-sm`}
+              >
+                <Crop size={14} /> {t.resetCrop}
+              </button>
+            </div>
+
+            <p className="text-xs text-gray-400 mb-2">{t.cropHint}</p>
+            <div
+              className="relative inline-block select-none touch-none cursor-crosshair bg-gray-50"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+            >
+              {editorPreview ? (
+                <img src={editorPreview.url} alt={selected.file.name} className="block max-h-[60vh] max-w-full" draggable={false} />
+              ) : (
+                <div className="h-64 w-48 flex items-center justify-center text-gray-300"><Loader2 size={20} className="animate-spin" /></div>
+              )}
+              {shownCrop && (
+                <div
+                  className="absolute border-2 border-blue-500 shadow-[0_0_0_9999px_rgba(0,0,0,0.35)] pointer-events-none"
+                  style={{
+                    left: `${shownCrop.x * 100}%`,
+                    top: `${shownCrop.y * 100}%`,
+                    width: `${shownCrop.width * 100}%`,
+                    height: `${shownCrop.height * 100}%`
+                  }}
+                />
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-end gap-3 mt-6 pt-4 border-t border-gray-100">
+        {error && <p className="text-sm text-red-600 mr-auto">{error}</p>}
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          {t.maxResolution}
+          <select
+            value={maxDimension}
+            onChange={e => { setMaxDimension(Number(e.target.value)); setError(null); }}
+            className="px-2 py-1.5 border border-gray-300 rounded-md text-sm bg-white"
+          >
+            {RESOLUTIONS.map(size => <option key={size} value={size}>{size}px</option>)}
+          </select>
+        </label>
+        <button
+          onClick={handleAnalyze}
+          disabled={preparing}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-60"
+        >
+          {preparing ? <Loader2 size={16} className="animate-spin" /> : <Play size={16} />}
+          {preparing ? t.preparingPhotos : t.analyzePhotos}
+        </button>
+      </div>
+    </div>
+  );
+};
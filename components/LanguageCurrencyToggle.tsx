@@ -27,13 +27,18 @@ export const LanguageCurrencyToggle: React.FC<Props> = ({
       
       <div className="w-px bg-gray-300 mx-2 h-6 self-center"></div>
 
-      <button
-        onClick={() => setCurrency(currency === Currency.MXN ? Currency.USD : Currency.MXN)}
-        className="flex items-center space-x-1 px-3 py-1 rounded-md hover:bg-gray-100 transition-colors text-sm font-medium text-gray-700"
-      >
+      <label className="flex items-center space-x-1 px-3 py-1 rounded-md hover:bg-gray-100 transition-colors text-sm font-medium text-gray-700 cursor-pointer">
         <DollarSign size={16} />
-        <span>{currency}</span>
-      </button>
+        <select
+          value={currency}
+          onChange={(e) => setCurrency(e.target.value as Currency)}
+          className="bg-transparent outline-none cursor-pointer"
+        >
+          {Object.values(Currency).map(code => (
+            <option key={code} value={code}>{code}</option>
+          ))}
+        </select>
+      </label>
     </div>
   );
 };
\ No newline at end of file
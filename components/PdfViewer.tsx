@@ -0,0 +1,171 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Language, SourceLocation } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { loadPdfJs } from '../services/pdfJs';
+import { FileText, Loader2 } from 'lucide-react';
+
+interface Props {
+  file: File;
+  language: Language;
+  highlight: SourceLocation | null; // Where the selected line is printed
+  notice?: string | null; // Shown above the pages, e.g. when the selection matched nothing
+  onTextSelect: (text: string, page: number) => void;
+}
+
+// Transparent text over the page image, so the PDF's text can be selected.
+interface TextSpan {
+  text: string;
+  left: number;
+  top: number;
+  fontSize: number;
+  scaleX: number;
+}
+
+interface RenderedPage {
+  pageNumber: number;
+  width: number;
+  height: number;
+  imageUrl: string;
+  spans: TextSpan[];
+}
+
+const HIGHLIGHT_HEIGHT = 0.025; // Of the page height, about one printed line
+
+export const PdfViewer: React.FC<Props> = ({ file, language, highlight, notice, onTextSelect }) => {
+  const t = TRANSLATIONS[language];
+  const [pages, setPages] = useState<RenderedPage[]>([]);
+  const [failed, setFailed] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
+  const pageRefs = useRef(new Map<number, HTMLDivElement>());
+
+  // Pages are rendered once, at the width the viewer has when the file is opened.
+  useEffect(() => {
+    let cancelled = false;
+    const urls: string[] = [];
+    setPages([]);
+    setFailed(false);
+
+    (async () => {
+      const pdfjs = await loadPdfJs();
+      const doc = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+      const displayWidth = Math.max(320, (containerRef.current?.clientWidth ?? 640) - 24);
+      const measure = document.createElement('canvas').getContext('2d')!;
+
+      for (let pageNumber = 1; pageNumber <= doc.numPages && !cancelled; pageNumber++) {
+        const page = await doc.getPage(pageNumber);
+        const viewport = page.getViewport({ scale: displayWidth / page.getViewport({ scale: 1 }).width });
+        const pixelRatio = window.devicePixelRatio || 1;
+
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.floor(viewport.width * pixelRatio);
+        canvas.height = Math.floor(viewport.height * pixelRatio);
+        await page.render({ canvas, viewport, transform: pixelRatio === 1 ? undefined : [pixelRatio, 0, 0, pixelRatio, 0, 0] }).promise;
+        const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve));
+        if (!blob || cancelled) break;
+        const imageUrl = URL.createObjectURL(blob);
+        urls.push(imageUrl);
+
+        const content = await page.getTextContent();
+        const spans: TextSpan[] = [];
+        content.items.forEach(item => {
+          if (!('str' in item) || !item.str.trim()) return;
+          const [, , c, d, left, baseline] = pdfjs.Util.transform(viewport.transform, item.transform);
+          const fontSize = Math.hypot(c, d);
+          measure.font = `${fontSize}px sans-serif`;
+          const measured = measure.measureText(item.str).width;
+          spans.push({
+            text: item.str,
+            left,
+            top: baseline - fontSize,
+            fontSize,
+            scaleX: measured > 0 ? (item.width * viewport.scale) / measured : 1
+          });
+        });
+
+        const rendered: RenderedPage = { pageNumber, width: viewport.width, height: viewport.height, imageUrl, spans };
+        setPages(prev => [...prev, rendered]);
+      }
+      await doc.destroy();
+    })().catch(err => {
+      console.error('Could not display PDF:', err);
+      if (!cancelled) setFailed(true);
+    });
+
+    return () => {
+      cancelled = true;
+      urls.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [file]);
+
+  // Brings the selected line into view once its page has rendered.
+  const highlightedPageReady = highlight ? pages.some(page => page.pageNumber === highlight.page) : false;
+  useEffect(() => {
+    if (!highlight || !highlightedPageReady) return;
+    const target = highlightRef.current ?? pageRefs.current.get(highlight.page);
+    target?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [highlight, highlightedPageReady]);
+
+  const handleMouseUp = () => {
+    const selection = window.getSelection();
+    const text = selection?.toString().trim();
+    if (!selection || !text) return;
+    const anchor = selection.anchorNode instanceof Element ? selection.anchorNode : selection.anchorNode?.parentElement;
+    const page = Number(anchor?.closest<HTMLElement>('[data-page]')?.dataset.page);
+    if (page) onTextSelect(text, page);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="px-4 py-3 border-b border-gray-200 bg-gray-50">
+        <h3 className="text-sm font-semibold flex items-center gap-2 truncate" title={file.name}>
+          <FileText size={16} className="text-gray-400 shrink-0" /> {file.name}
+        </h3>
+        <p className="text-xs text-gray-500 mt-1">{notice ?? t.pdfSelectHint}</p>
+      </div>
+      <div ref={containerRef} className="max-h-[75vh] overflow-y-auto bg-gray-100 p-3 space-y-3" onMouseUp={handleMouseUp}>
+        {failed ? (
+          <p className="p-6 text-sm text-center text-gray-500">{t.pdfUnavailable}</p>
+        ) : pages.length === 0 ? (
+          <div className="h-64 flex items-center justify-center text-gray-400"><Loader2 className="animate-spin" /></div>
+        ) : (
+          pages.map(page => {
+            const isHighlighted = highlight?.page === page.pageNumber;
+            return (
+              <div
+                key={page.pageNumber}
+                ref={element => {
+                  if (element) pageRefs.current.set(page.pageNumber, element);
+                  else pageRefs.current.delete(page.pageNumber);
+                }}
+                data-page={page.pageNumber}
+                className={`relative mx-auto bg-white shadow ${isHighlighted && highlight?.y === undefined ? 'ring-2 ring-amber-400' : ''}`}
+                style={{ width: page.width, height: page.height }}
+              >
+                <img src={page.imageUrl} alt="" className="absolute inset-0 w-full h-full select-none" draggable={false} />
+                <div className="absolute inset-0 overflow-hidden leading-none">
+                  {page.spans.map((span, index) => (
+                    <span
+                      key={index}
+                      className="absolute whitespace-pre text-transparent origin-top-left cursor-text selection:bg-blue-300/40"
+                      style={{ left: span.left, top: span.top, fontSize: span.fontSize, fontFamily: 'sans-serif', transform: `scaleX(${span.scaleX})` }}
+                    >
+                      {span.text}
+                    </span>
+                  ))}
+                </div>
+                {isHighlighted && highlight?.y !== undefined && (
+                  <div
+                    ref={highlightRef}
+                    className="absolute inset-x-0 bg-amber-300/40 border-y-2 border-amber-400 pointer-events-none"
+                    style={{ top: `${(highlight.y - HIGHLIGHT_HEIGHT / 2) * 100}%`, height: `${HIGHLIGHT_HEIGHT * 100}%` }}
+                  />
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useMemo, useState } from 'react';
+import { AnalysisResult, ExtractionRegion, Language, MismatchCause, RateProvider } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { reconcile } from '../services/reconciliation';
+import { CheckCircle2, AlertTriangle, RefreshCw, Loader2 } from 'lucide-react';
+
+interface Props {
+  data: AnalysisResult;
+  rates: RateProvider;
+  language: Language;
+  formatAmount: (amount: number) => string;
+  // Undefined when the active extractor cannot re-read part of a document
+  onReextractRegion?: (region: ExtractionRegion) => Promise<void>;
+}
+
+export const ReconciliationPanel: React.FC<Props> = ({ data, rates, language, formatAmount, onReextractRegion }) => {
+  const t = TRANSLATIONS[language];
+  const reconciliation = useMemo(() => reconcile(data, rates), [data, rates]);
+  const [pendingRegion, setPendingRegion] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  const handleReextract = async (region: ExtractionRegion) => {
+    if (!onReextractRegion) return;
+    setPendingRegion(`${region.fromDate}-${region.toDate}`);
+    setFailed(false);
+    try {
+      await onReextractRegion(region);
+    } catch (err) {
+      console.error(err);
+      setFailed(true);
+    } finally {
+      setPendingRegion(null);
+    }
+  };
+
+  const { printedTotal, lineSum, difference, balanced, findings } = reconciliation;
+
+  return (
+    <div className={`bg-white p-6 rounded-xl shadow-sm border ${balanced ? 'border-gray-200' : 'border-amber-300'}`}>
+      <div className="flex items-center gap-2 mb-4">
+        {balanced
+          ? <CheckCircle2 className="text-green-600" size={20} />
+          : <AlertTriangle className="text-amber-500" size={20} />}
+        <h3 className="text-lg font-semibold">{t.reconciliationTitle}</h3>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 bg-gray-50 p-4 rounded-lg border border-gray-100 text-sm">
+        <div>
+          <p className="text-gray-500">{t.printedTotal}</p>
+          <p className="font-semibold text-gray-900">{formatAmount(printedTotal)}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">{t.lineSum}</p>
+          <p className="font-semibold text-gray-900">{formatAmount(lineSum)}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">{t.difference}</p>
+          <p className={`font-semibold ${balanced ? 'text-green-600' : 'text-amber-600'}`}>{formatAmount(difference)}</p>
+        </div>
+      </div>
+
+      {balanced && <p className="text-sm text-gray-500 mt-3">{t.reconciled}</p>}
+      {findings.length > 0 && (
+        <div className="mt-4">
+          {!balanced && <p className="text-sm font-medium text-gray-700 mb-2">{t.likelyCauses}</p>}
+          <ul className="space-y-2">
+            {findings.map((finding, idx) => {
+              const regionKey = finding.region ? `${finding.region.fromDate}-${finding.region.toDate}` : null;
+              const unconvertible = finding.cause === MismatchCause.UNCONVERTED_LINE;
+              return (
+                <li key={`${finding.cause}-${idx}`} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 rounded-lg border border-amber-100 bg-amber-50 text-sm">
+                  <div>
+                    <p className="font-medium text-amber-900">
+                      {t.mismatchCauses[finding.cause]}
+                      {!unconvertible && <span className="ml-2 text-amber-700 font-normal">({formatAmount(finding.explainedAmount)})</span>}
+                    </p>
+                    {finding.transactionIndexes.map(index => {
+                      const tx = data.transactions[index];
+                      // Lines in another currency are shown as printed, not as folio amounts.
+                      const asPrinted = tx && tx.currency && tx.currency !== data.detectedCurrency;
+                      return tx && (
+                        <p key={index} className="text-xs text-amber-800">
+                          {tx.date} · {tx.originalDescription} · {asPrinted ? `${tx.amount.toFixed(2)} ${tx.currency}` : formatAmount(tx.amount)}
+                        </p>
+                      );
+                    })}
+                    {finding.region && (
+                      <p className="text-xs text-amber-700">
+                        {t.suspectRegion}: {finding.region.fromDate === finding.region.toDate
+                          ? finding.region.fromDate
+                          : `${finding.region.fromDate} – ${finding.region.toDate}`}
+                      </p>
+                    )}
+                  </div>
+                  {finding.region && onReextractRegion && (
+                    <button
+                      onClick={() => handleReextract(finding.region!)}
+                      disabled={pendingRegion !== null}
+                      className="inline-flex items-center gap-2 px-3 py-1.5 bg-white border border-amber-300 text-amber-800 rounded-md text-xs font-medium hover:bg-amber-100 transition-colors disabled:opacity-50 whitespace-nowrap"
+                    >
+                      {pendingRegion === regionKey ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+                      {pendingRegion === regionKey ? t.reextracting : t.reextractRegion}
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+          {failed && <p className="text-xs text-red-600 mt-2">{t.reextractFailed}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { AnalysisResult, CategoryDefinition, Language, ReviewItem } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { categoryLabel } from '../services/taxonomy';
+import { ShieldCheck, ChevronLeft, ChevronRight, Check, Crosshair, X } from 'lucide-react';
+
+interface Props {
+  items: ReviewItem[];
+  data: AnalysisResult;
+  language: Language;
+  taxonomy: CategoryDefinition[];
+  onApprove: (item: ReviewItem) => void;
+  onShowLine: (id: string) => void;
+  onClose: () => void;
+}
+
+// Steps through the low-confidence fields and lines one at a time. Approving an item drops
+// it from `items`, so the same position then shows the next one.
+export const ReviewQueue: React.FC<Props> = ({ items, data, language, taxonomy, onApprove, onShowLine, onClose }) => {
+  const t = TRANSLATIONS[language];
+  const [position, setPosition] = useState(0);
+  const index = Math.min(position, items.length - 1);
+  const item = items[index];
+  const target = item?.target;
+  const tx = target?.kind === 'transaction' ? data.transactions.find(other => other.id === target.id) : undefined;
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-amber-200">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <ShieldCheck size={18} className="text-amber-500" /> {t.reviewQueueTitle}
+          {items.length > 0 && <span className="text-sm font-normal text-gray-500">{index + 1} {t.reviewPosition} {items.length}</span>}
+        </h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={18} /></button>
+      </div>
+
+      {!item ? (
+        <p className="text-sm text-gray-500">{t.reviewQueueEmpty}</p>
+      ) : (
+        <>
+          <div className="rounded-lg bg-amber-50 border border-amber-100 p-4">
+            {item.target.kind === 'header' ? (
+              <p className="text-sm">
+                <span className="text-gray-500">{t.headerFieldLabels[item.target.field]}: </span>
+                <span className="font-semibold text-gray-900">{String(data[item.target.field] ?? '') || '—'}</span>
+              </p>
+            ) : tx && (
+              <div className="text-sm space-y-1">
+                <p className="font-semibold text-gray-900">{tx.date || '—'} · {tx.cleanName || '—'}</p>
+                <p className="text-gray-500 text-xs">{tx.originalDescription}</p>
+                <p>
+                  <span className={tx.amount < 0 ? 'text-green-700' : 'text-gray-900'}>{tx.amount.toFixed(2)} {tx.currency}</span>
+                  <span className="text-gray-400"> · {categoryLabel(taxonomy, tx.category, language, true)}</span>
+                </p>
+              </div>
+            )}
+            <p className="text-xs text-gray-500 mt-3">{t.reviewConfidence}: {Math.round(item.confidence * 100)}%</p>
+            <ul className="mt-1 text-xs text-amber-800 list-disc list-inside">
+              {item.reasons.map(reason => <li key={reason}>{t.confidenceReasons[reason]}</li>)}
+            </ul>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 mt-4">
+            <button
+              onClick={() => setPosition(Math.max(0, index - 1))}
+              disabled={index === 0}
+              className="inline-flex items-center gap-1 px-3 py-1.5 text-sm text-gray-700 bg-gray-50 rounded-md hover:bg-gray-100 disabled:opacity-40"
+            >
+              <ChevronLeft size={14} /> {t.reviewPrevious}
+            </button>
+            <button
+              onClick={() => setPosition(Math.min(items.length - 1, index + 1))}
+              disabled={index === items.length - 1}
+              className="inline-flex items-center gap-1 px-3 py-1.5 text-sm text-gray-700 bg-gray-50 rounded-md hover:bg-gray-100 disabled:opacity-40"
+            >
+              {t.reviewNext} <ChevronRight size={14} />
+            </button>
+            {tx?.id && (
+              <button
+                onClick={() => onShowLine(tx.id!)}
+                className="inline-flex items-center gap-1 px-3 py-1.5 text-sm text-blue-700 bg-blue-50 rounded-md hover:bg-blue-100"
+              >
+                <Crosshair size={14} /> {t.reviewShowLine}
+              </button>
+            )}
+            <div className="flex-1" />
+            <button
+              onClick={() => onApprove(item)}
+              className="inline-flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700"
+            >
+              <Check size={14} /> {t.reviewApprove}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
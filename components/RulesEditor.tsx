@@ -0,0 +1,179 @@
+import React, { useRef, useState } from 'react';
+import { CategoryDefinition, CategoryRule, Language, Transaction } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { createRule, matchesRule, parseRulesJson, patternError, serializeRules } from '../services/categoryRules';
+import { coerceNumber } from '../services/analysisValidator';
+import { categoryOptions } from '../services/taxonomy';
+import { downloadBlob } from '../services/exporters';
+import { Plus, Trash2, ChevronUp, ChevronDown, Upload, Download, X } from 'lucide-react';
+
+interface Props {
+  rules: CategoryRule[];
+  transactions: Transaction[]; // Used to preview how many lines each rule catches
+  language: Language;
+  taxonomy: CategoryDefinition[];
+  onChange: (rules: CategoryRule[]) => void;
+  onClose: () => void;
+}
+
+export const RulesEditor: React.FC<Props> = ({ rules, transactions, language, taxonomy, onChange, onClose }) => {
+  const t = TRANSLATIONS[language];
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const update = (id: string, patch: Partial<CategoryRule>) => {
+    onChange(rules.map(rule => (rule.id === id ? { ...rule, ...patch } : rule)));
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...rules];
+    const [rule] = next.splice(index, 1);
+    next.splice(index + offset, 0, rule);
+    onChange(next);
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([serializeRules(rules)], { type: 'application/json' }), 'category_rules.json');
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseRulesJson(await file.text(), taxonomy);
+      // Imported rules replace existing ones with the same id and are appended otherwise.
+      const importedIds = new Set(imported.map(rule => rule.id));
+      onChange([...rules.filter(rule => !importedIds.has(rule.id)), ...imported]);
+      setImportError(null);
+    } catch (err) {
+      console.error(err);
+      setImportError(`${t.rulesImportError} ${(err as Error).message}`);
+    }
+  };
+
+  const amountValue = (value: number | undefined) => (value === undefined ? '' : String(value));
+  const parseAmountInput = (value: string) => (value.trim() === '' ? undefined : coerceNumber(value) ?? undefined);
+
+  const inputClass = 'w-full px-2 py-1 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white';
+  const labelClass = 'block text-xs text-gray-500 mb-1';
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h3 className="text-lg font-semibold">{t.rulesTitle}</h3>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => onChange([...rules, createRule()])}
+            className="inline-flex items-center gap-1 px-3 py-1.5 bg-blue-50 text-blue-700 rounded-md text-sm font-medium hover:bg-blue-100 transition-colors"
+          >
+            <Plus size={16} /> {t.addRule}
+          </button>
+          <button
+            onClick={() => fileInput.current?.click()}
+            className="inline-flex items-center gap-1 px-3 py-1.5 bg-gray-50 text-gray-700 rounded-md text-sm font-medium hover:bg-gray-100 transition-colors"
+          >
+            <Upload size={16} /> {t.importRules}
+          </button>
+          <input ref={fileInput} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+          <button
+            onClick={handleExport}
+            disabled={rules.length === 0}
+            className="inline-flex items-center gap-1 px-3 py-1.5 bg-gray-50 text-gray-700 rounded-md text-sm font-medium hover:bg-gray-100 transition-colors disabled:opacity-40"
+          >
+            <Download size={16} /> {t.exportRules}
+          </button>
+          <button onClick={onClose} className="p-1.5 text-gray-400 hover:text-gray-600" title={t.cancelEdit}>
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+
+      {importError && <p className="text-sm text-red-600 mb-3">{importError}</p>}
+
+      {rules.length === 0 ? (
+        <p className="text-sm text-gray-500">{t.noRules}</p>
+      ) : (
+        <ol className="space-y-3">
+          {rules.map((rule, index) => {
+            const error = patternError(rule);
+            const matchCount = transactions.filter(tx => tx.categorySource !== 'user' && matchesRule(tx, rule)).length;
+            return (
+              <li key={rule.id} className={`p-4 rounded-lg border ${rule.enabled ? 'border-gray-200 bg-gray-50' : 'border-gray-100 bg-white opacity-60'}`}>
+                <div className="flex flex-wrap items-center gap-2 mb-3">
+                  <span className="text-xs font-mono text-gray-400">#{index + 1}</span>
+                  <input
+                    className={`${inputClass} flex-1 min-w-[160px]`}
+                    placeholder={t.ruleName}
+                    value={rule.name}
+                    onChange={e => update(rule.id, { name: e.target.value })}
+                  />
+                  <label className="flex items-center gap-1 text-xs text-gray-600">
+                    <input type="checkbox" checked={rule.enabled} onChange={e => update(rule.id, { enabled: e.target.checked })} />
+                    {t.ruleEnabled}
+                  </label>
+                  <span className="text-xs text-gray-500">{matchCount} {t.ruleMatches}</span>
+                  <button onClick={() => move(index, -1)} disabled={index === 0} className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"><ChevronUp size={16} /></button>
+                  <button onClick={() => move(index, 1)} disabled={index === rules.length - 1} className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"><ChevronDown size={16} /></button>
+                  <button onClick={() => onChange(rules.filter(r => r.id !== rule.id))} className="p-1 text-gray-400 hover:text-red-600" title={t.deleteRow}><Trash2 size={16} /></button>
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  <div>
+                    <label className={labelClass}>{t.ruleField}</label>
+                    <select className={inputClass} value={rule.field} onChange={e => update(rule.id, { field: e.target.value as CategoryRule['field'] })}>
+                      <option value="any">{t.fieldAny}</option>
+                      <option value="originalDescription">{t.description}</option>
+                      <option value="cleanName">{t.cleanName}</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className={labelClass}>{t.ruleContains}</label>
+                    <input className={inputClass} value={rule.contains ?? ''} onChange={e => update(rule.id, { contains: e.target.value })} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>{t.rulePattern}</label>
+                    <input
+                      className={`${inputClass} font-mono ${error ? 'border-red-400' : ''}`}
+                      value={rule.pattern ?? ''}
+                      title={error ?? undefined}
+                      onChange={e => update(rule.id, { pattern: e.target.value || undefined })}
+                    />
+                    {error && <p className="text-xs text-red-600 mt-1">{t.invalidPattern}</p>}
+                  </div>
+                  <div>
+                    <label className={labelClass}>{t.ruleSign}</label>
+                    <select
+                      className={inputClass}
+                      value={rule.sign ?? ''}
+                      onChange={e => update(rule.id, { sign: (e.target.value || undefined) as CategoryRule['sign'] })}
+                    >
+                      <option value="">{t.signAny}</option>
+                      <option value="positive">{t.signPositive}</option>
+                      <option value="negative">{t.signNegative}</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className={labelClass}>{t.ruleMinAmount}</label>
+                    <input className={inputClass} type="number" step="0.01" value={amountValue(rule.minAmount)} onChange={e => update(rule.id, { minAmount: parseAmountInput(e.target.value) })} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>{t.ruleMaxAmount}</label>
+                    <input className={inputClass} type="number" step="0.01" value={amountValue(rule.maxAmount)} onChange={e => update(rule.id, { maxAmount: parseAmountInput(e.target.value) })} />
+                  </div>
+                  <div className="col-span-2">
+                    <label className={labelClass}>{t.ruleCategory}</label>
+                    <select className={inputClass} value={rule.category} onChange={e => update(rule.id, { category: e.target.value })}>
+                      {categoryOptions(taxonomy, language).map(({ id, label, depth }) => (
+                        <option key={id} value={id}>{'\u00A0\u00A0'.repeat(depth)}{label}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,139 @@
+import React, { useMemo } from 'react';
+import { AnalysisResult, CategoryDefinition, ConvertedTransaction, Language } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Brush } from 'recharts';
+import { buildStayTimeline, fromInputDate, toInputDate } from '../services/stayTimeline';
+import { parseCanonicalDate } from '../services/analysisValidator';
+import { categoryColor, categoryLabel } from '../services/taxonomy';
+
+interface Props {
+  transactions: ConvertedTransaction[]; // Every line, unfiltered
+  data: AnalysisResult;
+  language: Language;
+  taxonomy: CategoryDefinition[];
+  formatCurrency: (val: number) => string;
+  startDate: string; // YYYY-MM-DD, as in the date range filter
+  endDate: string;
+  onRangeChange: (startDate: string, endDate: string) => void;
+}
+
+export const StayTimeline: React.FC<Props> = ({
+  transactions, data, language, taxonomy, formatCurrency, startDate, endDate, onRangeChange
+}) => {
+  const t = TRANSLATIONS[language];
+  const timeline = useMemo(
+    () => buildStayTimeline(transactions, data, taxonomy),
+    [transactions, data.checkIn, data.checkOut, taxonomy]
+  );
+  const { days, groups, nights, averageDailyIncidentals } = timeline;
+
+  // The brush shows the date filter; days the filter cuts off fall outside its handles.
+  const time = (canonical: string) => parseCanonicalDate(canonical)?.getTime() ?? 0;
+  const start = startDate ? time(fromInputDate(startDate)) : null;
+  const end = endDate ? time(fromInputDate(endDate)) : null;
+  const firstIndex = start === null ? 0 : Math.max(0, days.findIndex(day => time(day.date) >= start));
+  const lastFound = end === null ? -1 : days.map(day => time(day.date) <= end).lastIndexOf(true);
+  const lastIndex = end === null || lastFound === -1 ? days.length - 1 : Math.max(firstIndex, lastFound);
+
+  const handleBrushChange = ({ startIndex, endIndex }: { startIndex: number; endIndex: number }) => {
+    if (startIndex === 0 && endIndex === days.length - 1) return onRangeChange('', '');
+    onRangeChange(toInputDate(days[startIndex].date), toInputDate(days[endIndex].date));
+  };
+
+  if (days.length === 0) return null;
+
+  const chartData = days.map(day => ({ ...day, label: day.date.slice(0, 5) }));
+  const totals = nights.reduce(
+    (sum, night) => ({
+      room: sum.room + night.room,
+      taxes: sum.taxes + night.taxes,
+      incidentals: sum.incidentals + night.incidentals,
+      credits: sum.credits + night.credits,
+      total: sum.total + night.total
+    }),
+    { room: 0, taxes: 0, incidentals: 0, credits: 0, total: 0 }
+  );
+  const showCredits = nights.some(night => night.credits !== 0);
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+      <div className="flex flex-wrap items-baseline justify-between gap-2 mb-4">
+        <h3 className="text-lg font-semibold">{t.timelineTitle}</h3>
+        <p className="text-sm text-gray-500">
+          {t.averageDailyIncidentals}: <span className="font-semibold text-gray-900">{formatCurrency(averageDailyIncidentals)}</span>
+        </p>
+      </div>
+      <div className="w-full h-72">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={chartData} stackOffset="sign">
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+            <YAxis tick={{ fontSize: 12 }} width={70} tickFormatter={(value: number) => formatCurrency(value)} />
+            <Tooltip formatter={(value: number) => formatCurrency(value)} labelFormatter={(_, payload) => payload?.[0]?.payload?.date ?? ''} />
+            <Legend />
+            {groups.map(group => (
+              <Bar
+                key={group}
+                stackId="day"
+                dataKey={(day: typeof chartData[number]) => day.byGroup[group] ?? 0}
+                name={categoryLabel(taxonomy, group, language)}
+                fill={categoryColor(taxonomy, group)}
+              />
+            ))}
+            {days.length > 1 && (
+              <Brush
+                dataKey="label"
+                height={24}
+                stroke="#3b82f6"
+                startIndex={firstIndex}
+                endIndex={lastIndex}
+                onChange={handleBrushChange}
+              />
+            )}
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+      {days.length > 1 && <p className="text-xs text-gray-400 mt-2 text-center">{t.timelineBrushHint}</p>}
+
+      {nights.length > 0 && (
+        <div className="mt-6 overflow-x-auto">
+          <h4 className="text-sm font-semibold text-gray-700 mb-2">{t.nightlyBreakdownTitle}</h4>
+          <table className="w-full text-sm">
+            <thead className="text-gray-500 border-b border-gray-200">
+              <tr>
+                <th className="py-2 pr-4 text-left font-medium">{t.nightLabel}</th>
+                <th className="py-2 px-4 text-right font-medium">{t.roomRate}</th>
+                <th className="py-2 px-4 text-right font-medium">{t.taxesLabel}</th>
+                <th className="py-2 px-4 text-right font-medium">{t.incidentalsLabel}</th>
+                {showCredits && <th className="py-2 px-4 text-right font-medium">{t.creditsLabel}</th>}
+                <th className="py-2 pl-4 text-right font-medium">{t.nightsTotal}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {nights.map(night => (
+                <tr key={night.date}>
+                  <td className="py-2 pr-4 text-gray-600">{night.date}</td>
+                  <td className="py-2 px-4 text-right">{formatCurrency(night.room)}</td>
+                  <td className="py-2 px-4 text-right">{formatCurrency(night.taxes)}</td>
+                  <td className="py-2 px-4 text-right">{formatCurrency(night.incidentals)}</td>
+                  {showCredits && <td className="py-2 px-4 text-right text-green-600">{formatCurrency(night.credits)}</td>}
+                  <td className="py-2 pl-4 text-right font-medium">{formatCurrency(night.total)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="border-t border-gray-200 font-semibold">
+              <tr>
+                <td className="py-2 pr-4">{t.nightsTotal}</td>
+                <td className="py-2 px-4 text-right">{formatCurrency(totals.room)}</td>
+                <td className="py-2 px-4 text-right">{formatCurrency(totals.taxes)}</td>
+                <td className="py-2 px-4 text-right">{formatCurrency(totals.incidentals)}</td>
+                {showCredits && <td className="py-2 px-4 text-right text-green-600">{formatCurrency(totals.credits)}</td>}
+                <td className="py-2 pl-4 text-right">{formatCurrency(totals.total)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,173 @@
+import React from 'react';
+import { Language, TaxBreakdown, TaxSettings, Transaction } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { coerceNumber } from '../services/analysisValidator';
+import { Receipt, AlertTriangle, CheckCircle2, X } from 'lucide-react';
+
+interface Props {
+  breakdown: TaxBreakdown;
+  settings: TaxSettings;
+  transactions: Transaction[];
+  language: Language;
+  formatCurrency: (val: number) => string;
+  onSettingsChange: (settings: TaxSettings) => void;
+  onShowLine: (id: string) => void;
+  onClose: () => void;
+}
+
+export const TaxBreakdownPanel: React.FC<Props> = ({
+  breakdown, settings, transactions, language, formatCurrency, onSettingsChange, onShowLine, onClose
+}) => {
+  const t = TRANSLATIONS[language];
+  const byId = new Map(transactions.map(tx => [tx.id, tx]));
+
+  const parseRate = (value: string) => {
+    const parsed = coerceNumber(value);
+    return parsed !== null && parsed >= 0 && parsed <= 100 ? parsed : null;
+  };
+
+  const setIshRate = (value: string) => {
+    const rate = parseRate(value);
+    if (rate === null || !breakdown.state) return;
+    onSettingsChange({ ...settings, ishRates: { ...settings.ishRates, [breakdown.state]: rate } });
+  };
+
+  const inputClass = 'w-full px-2 py-1 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white';
+  const labelClass = 'block text-xs text-gray-500 mb-1';
+  const difference = (expected: number, charged: number) => {
+    const diff = charged - expected;
+    return <span className={Math.abs(diff) >= 0.01 ? 'text-red-600' : 'text-gray-400'}>{formatCurrency(diff)}</span>;
+  };
+  const charged = (kind: 'iva' | 'ish', amount: number) =>
+    breakdown.notItemized.includes(kind) ? <span className="text-gray-400">{t.taxNotItemized}</span> : formatCurrency(amount);
+  const chargedDifference = (kind: 'iva' | 'ish', expected: number, amount: number) =>
+    breakdown.notItemized.includes(kind) ? <span className="text-gray-400">—</span> : difference(expected, amount);
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <Receipt size={18} className="text-blue-600" /> {t.taxBreakdownTitle}
+        </h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={18} /></button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 mb-6 max-w-xl">
+        <div>
+          <label className={labelClass}>{t.taxStateLabel}</label>
+          <select
+            className={inputClass}
+            value={settings.state ?? ''}
+            onChange={e => onSettingsChange({ ...settings, state: e.target.value || null })}
+          >
+            <option value="">{t.taxStateAuto}{!settings.state && breakdown.state ? ` (${breakdown.state})` : ''}</option>
+            {Object.keys(settings.ishRates).sort().map(state => <option key={state} value={state}>{state}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>{t.ivaRateLabel}</label>
+          <input
+            key={settings.ivaRate}
+            className={inputClass}
+            type="number"
+            min="0"
+            max="100"
+            step="0.01"
+            defaultValue={settings.ivaRate}
+            onBlur={e => {
+              const rate = parseRate(e.target.value);
+              if (rate !== null) onSettingsChange({ ...settings, ivaRate: rate });
+            }}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>{t.ishRateLabel}</label>
+          <input
+            key={`${breakdown.state}:${breakdown.ishRate}`}
+            className={inputClass}
+            type="number"
+            min="0"
+            max="100"
+            step="0.01"
+            disabled={!breakdown.state}
+            defaultValue={breakdown.ishRate}
+            onBlur={e => setIshRate(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="text-gray-500 border-b border-gray-200">
+            <tr>
+              <th className="py-2 pr-4 text-left font-medium"></th>
+              <th className="py-2 px-3 text-right font-medium">{t.taxableBase}</th>
+              <th className="py-2 px-3 text-right font-medium">{t.taxKinds.iva} · {t.expectedLabel}</th>
+              <th className="py-2 px-3 text-right font-medium">{t.taxKinds.iva} · {t.chargedLabel}</th>
+              <th className="py-2 px-3 text-right font-medium">{t.differenceLabel}</th>
+              <th className="py-2 px-3 text-right font-medium">{t.taxKinds.ish} · {t.expectedLabel}</th>
+              <th className="py-2 px-3 text-right font-medium">{t.taxKinds.ish} · {t.chargedLabel}</th>
+              <th className="py-2 pl-3 text-right font-medium">{t.differenceLabel}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {breakdown.scopes.map(row => (
+              <tr key={row.scope}>
+                <td className="py-2 pr-4 text-gray-900">{t.taxScopes[row.scope]}</td>
+                <td className="py-2 px-3 text-right">{formatCurrency(row.base)}</td>
+                <td className="py-2 px-3 text-right">{formatCurrency(row.ivaExpected)}</td>
+                <td className="py-2 px-3 text-right">{charged('iva', row.ivaCharged)}</td>
+                <td className="py-2 px-3 text-right">{chargedDifference('iva', row.ivaExpected, row.ivaCharged)}</td>
+                <td className="py-2 px-3 text-right">{formatCurrency(row.ishExpected)}</td>
+                <td className="py-2 px-3 text-right">{charged('ish', row.ishCharged)}</td>
+                <td className="py-2 pl-3 text-right">{chargedDifference('ish', row.ishExpected, row.ishCharged)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap gap-6 mt-4 text-sm">
+        <p className="text-gray-500">
+          {t.creditableIva}: <span className="font-semibold text-gray-900">{formatCurrency(breakdown.creditableIva)}</span>
+        </p>
+        {breakdown.otherTaxIds.length > 0 && (
+          <p className="text-gray-500">
+            {t.otherTaxesLabel}: <span className="font-semibold text-gray-900">{formatCurrency(breakdown.otherTaxes)}</span>
+          </p>
+        )}
+      </div>
+
+      <h4 className="text-sm font-semibold text-gray-700 mt-6 mb-3">{t.taxDiscrepanciesTitle}</h4>
+      {breakdown.discrepancies.length === 0 ? (
+        <p className="text-sm text-green-700 flex items-center gap-2"><CheckCircle2 size={16} /> {t.taxesMatch}</p>
+      ) : (
+        <ul className="space-y-3">
+          {breakdown.discrepancies.map(discrepancy => (
+            <li key={discrepancy.key} className="text-sm">
+              <p className="flex items-start gap-2 text-red-700 font-medium">
+                <AlertTriangle size={14} className="mt-0.5 shrink-0" />
+                <span>{t.taxKinds[discrepancy.kind]} · {t.taxScopes[discrepancy.scope]}</span>
+                <span className="ml-auto whitespace-nowrap">
+                  {formatCurrency(discrepancy.charged)}
+                  <span className="font-normal text-gray-500"> / {formatCurrency(discrepancy.expected)}</span>
+                </span>
+              </p>
+              <div className="ml-6 mt-1 flex flex-wrap gap-1">
+                {discrepancy.transactionIds.map(id => (
+                  <button
+                    key={id}
+                    onClick={() => onShowLine(id)}
+                    className="px-1.5 py-0.5 text-xs text-gray-700 bg-gray-100 rounded hover:bg-gray-200"
+                  >
+                    {byId.get(id)?.cleanName || id}
+                  </button>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { CategoryDefinition, Language } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { categoryOptions, createCategory, findCategory } from '../services/taxonomy';
+import { Plus, Trash2, X } from 'lucide-react';
+
+interface Props {
+  taxonomy: CategoryDefinition[];
+  language: Language;
+  onChange: (taxonomy: CategoryDefinition[]) => void;
+  onClose: () => void;
+}
+
+const NEW_CATEGORY_COLOR = '#EC4899';
+
+export const TaxonomyEditor: React.FC<Props> = ({ taxonomy, language, onChange, onClose }) => {
+  const t = TRANSLATIONS[language];
+  const [draft, setDraft] = useState({ es: '', en: '', color: NEW_CATEGORY_COLOR, parentId: '' });
+
+  const update = (id: string, patch: Partial<CategoryDefinition>) => {
+    onChange(taxonomy.map(cat => (cat.id === id ? { ...cat, ...patch } : cat)));
+  };
+
+  // Removing a group removes its custom subcategories with it. Lines still pointing at a
+  // removed id show the raw id until they are recategorized.
+  const remove = (id: string) => {
+    onChange(taxonomy.filter(cat => cat.id !== id && !(cat.custom && cat.parentId === id)));
+  };
+
+  const handleAdd = () => {
+    const es = draft.es.trim();
+    const en = draft.en.trim();
+    if (!es && !en) return;
+    const created = createCategory(
+      { [Language.ES]: es || en, [Language.EN]: en || es },
+      draft.color,
+      draft.parentId || undefined
+    );
+    onChange([...taxonomy, created]);
+    setDraft({ es: '', en: '', color: NEW_CATEGORY_COLOR, parentId: '' });
+  };
+
+  const inputClass = 'w-full px-2 py-1 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white';
+  const labelClass = 'block text-xs text-gray-500 mb-1';
+  const topLevel = taxonomy.filter(cat => !cat.parentId);
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold">{t.categoriesTitle}</h3>
+        <button onClick={onClose} className="p-1.5 text-gray-400 hover:text-gray-600" title={t.cancelEdit}>
+          <X size={18} />
+        </button>
+      </div>
+
+      <ul className="divide-y divide-gray-100 border border-gray-100 rounded-lg mb-4">
+        {categoryOptions(taxonomy, language).map(({ id, depth }) => {
+          const cat = findCategory(taxonomy, id)!;
+          return (
+            <li key={id} className="flex items-center gap-3 px-3 py-2" style={{ paddingLeft: `${12 + depth * 24}px` }}>
+              {cat.custom ? (
+                <>
+                  <input type="color" value={cat.color} onChange={e => update(id, { color: e.target.value })} className="h-6 w-6 border-0 p-0 bg-transparent cursor-pointer" />
+                  <input
+                    className={`${inputClass} max-w-[180px]`}
+                    value={cat.labels[Language.ES]}
+                    title={t.labelEs}
+                    onChange={e => update(id, { labels: { ...cat.labels, [Language.ES]: e.target.value } })}
+                  />
+                  <input
+                    className={`${inputClass} max-w-[180px]`}
+                    value={cat.labels[Language.EN]}
+                    title={t.labelEn}
+                    onChange={e => update(id, { labels: { ...cat.labels, [Language.EN]: e.target.value } })}
+                  />
+                  <div className="flex-1" />
+                  <button onClick={() => remove(id)} className="p-1 text-gray-400 hover:text-red-600" title={t.deleteRow}><Trash2 size={14} /></button>
+                </>
+              ) : (
+                <>
+                  <span className="h-4 w-4 rounded-full shrink-0" style={{ backgroundColor: cat.color }} />
+                  <span className="text-sm text-gray-800">{cat.labels[language]}</span>
+                  <div className="flex-1" />
+                  <span className="text-xs text-gray-400">{t.builtInCategory}</span>
+                </>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end bg-gray-50 p-4 rounded-lg border border-gray-100">
+        <div>
+          <label className={labelClass}>{t.labelEs}</label>
+          <input className={inputClass} value={draft.es} onChange={e => setDraft({ ...draft, es: e.target.value })} />
+        </div>
+        <div>
+          <label className={labelClass}>{t.labelEn}</label>
+          <input className={inputClass} value={draft.en} onChange={e => setDraft({ ...draft, en: e.target.value })} />
+        </div>
+        <div>
+          <label className={labelClass}>{t.parentCategory}</label>
+          <select className={inputClass} value={draft.parentId} onChange={e => setDraft({ ...draft, parentId: e.target.value })}>
+            <option value="">{t.noParent}</option>
+            {topLevel.map(cat => (
+              <option key={cat.id} value={cat.id}>{cat.labels[language]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>{t.categoryColorLabel}</label>
+          <input type="color" value={draft.color} onChange={e => setDraft({ ...draft, color: e.target.value })} className="h-8 w-full border border-gray-300 rounded bg-white cursor-pointer" />
+        </div>
+        <button
+          onClick={handleAdd}
+          disabled={!draft.es.trim() && !draft.en.trim()}
+          className="inline-flex items-center justify-center gap-1 px-3 py-1.5 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 transition-colors disabled:opacity-40"
+        >
+          <Plus size={16} /> {t.addCategory}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,233 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Allocation, BillSplit, CategoryDefinition, CategoryRule, ConvertedTransaction, ExpenseClass, Language, SortKey, TableColumn, TableGroupBy, TransactionEditOp } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { categoryColor } from '../services/taxonomy';
+import {
+  ALL_COLUMNS, buildTableRows, groupTransactions, loadVisibleColumns, saveVisibleColumns, sortTransactions, toggleSortKey
+} from '../services/transactionTable';
+import { useVirtualRows } from '../hooks/useVirtualRows';
+import { EditableTransactionRow } from './EditableTransactionRow';
+import { ArrowUpDown, ArrowUp, ArrowDown, ChevronDown, ChevronRight, Columns3, Layers } from 'lucide-react';
+
+interface Props {
+  transactions: ConvertedTransaction[]; // Already filtered
+  language: Language;
+  taxonomy: CategoryDefinition[];
+  rules: CategoryRule[];
+  editingId: string | null;
+  onEditingIdChange: (id: string | null) => void;
+  formatCurrency: (val: number) => string;
+  onEdit: (op: TransactionEditOp) => void;
+  selectedId?: string | null; // Line located in the PDF viewer or the review queue
+  onSelect?: (id: string) => void;
+  reviewNotes?: Map<string, string>; // Lines waiting in the review queue, by id
+  onClassify?: (id: string, expenseClass: ExpenseClass, reimbursableAmount?: number) => void; // Set in expense-report mode
+  policyNotes?: Map<string, string>; // Policy exceptions, by line id
+  billSplit?: BillSplit & { onAllocate: (id: string, allocation: Allocation | null) => void }; // Set in split mode
+}
+
+const ROW_HEIGHT = 49; // Height of a view-mode row, in px
+const VIRTUALIZE_AFTER = 80; // Smaller tables render every row
+
+export const TransactionTable: React.FC<Props> = ({
+  transactions, language, taxonomy, rules, editingId, onEditingIdChange, formatCurrency, onEdit, selectedId, onSelect, reviewNotes, onClassify, policyNotes, billSplit
+}) => {
+  const t = TRANSLATIONS[language];
+  const [sortKeys, setSortKeys] = useState<SortKey[]>([]);
+  const [groupBy, setGroupBy] = useState<TableGroupBy>('none');
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [columns, setColumns] = useState<TableColumn[]>(loadVisibleColumns);
+  const [showColumnChooser, setShowColumnChooser] = useState(false);
+
+  useEffect(() => {
+    saveVisibleColumns(columns);
+  }, [columns]);
+
+  const rows = useMemo(() => {
+    const sorted = sortTransactions(transactions, sortKeys, taxonomy, language);
+    const groups = groupTransactions(sorted, groupBy, sortKeys, taxonomy, language);
+    return buildTableRows(sorted, groups, collapsed);
+  }, [transactions, sortKeys, groupBy, collapsed, taxonomy, language]);
+
+  const { containerRef, onScroll, enabled, start, end, paddingTop, paddingBottom } = useVirtualRows(rows.length, ROW_HEIGHT, VIRTUALIZE_AFTER);
+
+  // A line picked from the PDF may be outside the rendered window; scroll the window to it
+  // first, then bring the row itself into view.
+  useEffect(() => {
+    if (!selectedId) return;
+    const index = rows.findIndex(row => row.kind === 'transaction' && row.tx.id === selectedId);
+    const container = containerRef.current;
+    if (index === -1 || !container) return;
+    if (enabled && (index < start || index >= end)) container.scrollTop = Math.max(0, index * ROW_HEIGHT - container.clientHeight / 2);
+    requestAnimationFrame(() => {
+      container.querySelector(`[data-tx-id="${CSS.escape(selectedId)}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    });
+  }, [selectedId]);
+
+  const toggleColumn = (column: TableColumn) => {
+    setColumns(prev => (prev.includes(column) ? prev.filter(c => c !== column) : ALL_COLUMNS.filter(c => c === column || prev.includes(c))));
+  };
+
+  const toggleGroup = (key: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const headerLabels: Record<TableColumn, string> = {
+    date: t.date,
+    cleanName: t.cleanName,
+    originalDescription: t.description,
+    category: t.category,
+    amount: t.amount
+  };
+
+  const renderHeader = (column: TableColumn) => {
+    const index = sortKeys.findIndex(key => key.column === column);
+    const key = sortKeys[index];
+    const Icon = !key ? ArrowUpDown : key.direction === 'asc' ? ArrowUp : ArrowDown;
+    return (
+      <th
+        key={column}
+        className={`px-6 py-3 ${column === 'originalDescription' ? 'hidden md:table-cell' : ''} ${column === 'amount' ? 'text-right' : ''}`}
+        aria-sort={!key ? 'none' : key.direction === 'asc' ? 'ascending' : 'descending'}
+      >
+        <button
+          onClick={e => setSortKeys(prev => toggleSortKey(prev, column, e.shiftKey))}
+          title={t.sortHint}
+          className={`inline-flex items-center gap-1 hover:text-gray-900 ${key ? 'text-gray-900' : ''}`}
+        >
+          {headerLabels[column]}
+          <Icon size={12} className={key ? 'text-blue-600' : 'text-gray-300'} />
+          {key && sortKeys.length > 1 && <span className="text-[10px] text-blue-600">{index + 1}</span>}
+        </button>
+      </th>
+    );
+  };
+
+  // Group rows span every column before the amount so the subtotal lines up with it.
+  const leadingColumns = columns.filter(column => column !== 'amount').length;
+
+  return (
+    <>
+      <div className="px-4 py-2 border-b border-gray-200 flex flex-wrap items-center gap-3 text-sm">
+        <label className="flex items-center gap-1 text-gray-600">
+          <Layers size={14} className="text-gray-400" />
+          <span className="sr-only">{t.groupByLabel}</span>
+          <select
+            className="px-2 py-1 border border-gray-300 rounded-md text-sm bg-white focus:ring-2 focus:ring-blue-500 outline-none"
+            value={groupBy}
+            onChange={e => {
+              setGroupBy(e.target.value as TableGroupBy);
+              setCollapsed(new Set());
+            }}
+          >
+            {(Object.keys(t.groupByOptions) as TableGroupBy[]).map(option => (
+              <option key={option} value={option}>{t.groupByOptions[option]}</option>
+            ))}
+          </select>
+        </label>
+        <div className="relative">
+          <button
+            onClick={() => setShowColumnChooser(prev => !prev)}
+            className="inline-flex items-center gap-1 px-2 py-1 text-gray-600 rounded-md hover:bg-gray-100"
+          >
+            <Columns3 size={14} className="text-gray-400" />
+            {t.columnsLabel}
+          </button>
+          {showColumnChooser && (
+            <div className="absolute z-20 mt-1 w-48 bg-white border border-gray-200 rounded-lg shadow-lg p-2 space-y-1">
+              {ALL_COLUMNS.map(column => (
+                <label key={column} className="flex items-center gap-2 px-1 py-0.5 text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={columns.includes(column)}
+                    // Amount is always shown, and at least one other column stays for group labels
+                    disabled={column === 'amount' || (columns.includes(column) && leadingColumns === 1)}
+                    onChange={() => toggleColumn(column)}
+                  />
+                  {headerLabels[column]}
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+        <span className="text-xs text-gray-400 ml-auto">{transactions.length} {t.lineCount}</span>
+      </div>
+
+      <div
+        ref={containerRef}
+        onScroll={onScroll}
+        className={`overflow-x-auto ${enabled ? 'max-h-[70vh] overflow-y-auto' : ''}`}
+      >
+        <table className="w-full text-sm text-left">
+          <thead className={`bg-gray-50 text-gray-600 font-medium border-b border-gray-200 ${enabled ? 'sticky top-0 z-10' : ''}`}>
+            <tr>
+              {columns.map(renderHeader)}
+              {onClassify && <th className="px-4 py-3">{t.expenseColumn}</th>}
+              {billSplit && <th className="px-4 py-3">{t.allocationColumn}</th>}
+              <th className="px-4 py-3"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {paddingTop > 0 && <tr style={{ height: paddingTop }} aria-hidden />}
+            {rows.slice(start, end).map((row, idx) => row.kind === 'group' ? (
+              <tr key={`group-${row.group.key}`} className="bg-gray-50">
+                <td colSpan={leadingColumns} className="px-4 py-2">
+                  <button onClick={() => toggleGroup(row.group.key)} className="inline-flex items-center gap-1 font-semibold text-gray-700">
+                    {row.collapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+                    {groupBy === 'category' && (
+                      <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: categoryColor(taxonomy, row.group.key) }} />
+                    )}
+                    {row.group.label}
+                    <span className="ml-1 text-xs font-normal text-gray-400">({row.group.transactions.length})</span>
+                  </button>
+                </td>
+                <td className={`px-6 py-2 text-right font-semibold ${row.group.subtotal < 0 ? 'text-green-600' : 'text-gray-900'}`}>
+                  {formatCurrency(row.group.subtotal)}
+                </td>
+                {onClassify && <td></td>}
+                {billSplit && <td></td>}
+                <td></td>
+              </tr>
+            ) : (
+              <EditableTransactionRow
+                key={row.tx.id ?? `${start + idx}`}
+                tx={row.tx}
+                language={language}
+                taxonomy={taxonomy}
+                columns={columns}
+                isEditing={editingId !== null && editingId === row.tx.id}
+                isSelected={!!selectedId && selectedId === row.tx.id}
+                onSelect={onSelect && row.tx.id ? () => onSelect(row.tx.id!) : undefined}
+                reviewNote={row.tx.id ? reviewNotes?.get(row.tx.id) : undefined}
+                onClassify={onClassify && row.tx.id ? (expenseClass, amount) => onClassify(row.tx.id!, expenseClass, amount) : undefined}
+                policyNote={row.tx.id ? policyNotes?.get(row.tx.id) : undefined}
+                billSplit={billSplit && row.tx.id ? {
+                  participants: billSplit.participants,
+                  allocation: billSplit.allocations[row.tx.id],
+                  onAllocate: allocation => billSplit.onAllocate(row.tx.id!, allocation)
+                } : undefined}
+                color={categoryColor(taxonomy, row.tx.category)}
+                ruleName={row.tx.categoryRuleId ? rules.find(r => r.id === row.tx.categoryRuleId)?.name : undefined}
+                formatCurrency={formatCurrency}
+                onStartEdit={() => onEditingIdChange(row.tx.id ?? null)}
+                onStopEdit={() => onEditingIdChange(null)}
+                onEdit={onEdit}
+              />
+            ))}
+            {paddingBottom > 0 && <tr style={{ height: paddingBottom }} aria-hidden />}
+          </tbody>
+        </table>
+        {transactions.length === 0 && (
+          <div className="p-8 text-center text-gray-500">
+            {t.noTransactionsFound}
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
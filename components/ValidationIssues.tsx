@@ -0,0 +1,28 @@
+import React from 'react';
+import { Language, ValidationIssue } from '../types';
+import { TRANSLATIONS } from '../constants';
+
+interface Props {
+  issues: ValidationIssue[];
+  language: Language;
+}
+
+// Field-level list of what the validator repaired or rejected, e.g. "transactions[3].amount — Invalid amount: 'N/A'"
+export const ValidationIssues: React.FC<Props> = ({ issues, language }) => {
+  const t = TRANSLATIONS[language];
+
+  return (
+    <ul className="mt-1 space-y-0.5 text-xs">
+      {issues.map((issue, idx) => (
+        <li key={`${issue.field}-${idx}`}>
+          <span className="font-mono">{issue.field}</span>
+          {' — '}
+          {t.validationMessages[issue.code]}
+          {issue.value !== undefined && issue.value !== '' && (
+            <span className="opacity-75">: "{issue.value}"</span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
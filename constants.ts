@@ -1,4 +1,4 @@
-import { Language, Translation } from './types';
+import { Currency, ExportFormat, ExtractorBackend, Language, MismatchCause, RateSource, Translation, ValidationIssueCode } from './types';
 
 export const TRANSLATIONS: Record<Language, Translation> = {
   [Language.ES]: {
@@ -15,6 +15,202 @@ export const TRANSLATIONS: Record<Language, Translation> = {
     category: "Categoría",
     cleanName: "Nombre Comercial",
     errorGeneric: "Ocurrió un error al procesar el archivo. Por favor intente de nuevo.",
+    errorTooLarge: "El archivo supera el tamaño máximo de 10MB.",
+    errorRateLimited: "Demasiadas solicitudes. Espera un momento e intenta de nuevo.",
+    cancelAnalysis: "Cancelar análisis",
+    uploadFormats: "PDF, JPG, PNG o WebP · máx. 10MB",
+    usePhotos: "Tomar fotos del folio",
+    mixedUploadError: "Selecciona PDFs o fotos, no ambos a la vez.",
+    unsupportedFileError: "Formato no compatible. Usa PDF, JPG, PNG o WebP.",
+    photosTitle: "Fotos del folio",
+    photosHint: "Ordena las fotos como las páginas del folio. Arrastra sobre la vista previa para recortar.",
+    addPhotos: "Agregar fotos",
+    rotateLeft: "Girar a la izquierda",
+    rotateRight: "Girar a la derecha",
+    straighten: "Enderezar",
+    autoStraighten: "Automático",
+    cropHint: "Arrastra para recortar",
+    resetCrop: "Quitar recorte",
+    removePhoto: "Quitar foto",
+    moveUp: "Subir",
+    moveDown: "Bajar",
+    maxResolution: "Resolución máxima",
+    analyzePhotos: "Analizar fotos",
+    preparingPhotos: "Preparando fotos...",
+    photosTooLarge: "Las fotos siguen superando 10MB. Reduce la resolución máxima o recorta más.",
+    pagesProgress: "páginas analizadas",
+    pagesLabel: "Págs.",
+    showPdf: "Ver PDF",
+    hidePdf: "Ocultar PDF",
+    pdfSelectHint: "Haz clic en una línea para ubicarla en el PDF, o selecciona texto del PDF para encontrar su línea.",
+    pdfNoLocation: "No se sabe en qué parte del PDF está esta línea.",
+    pdfNoMatch: "Ninguna línea coincide con el texto seleccionado.",
+    pdfUnavailable: "No se pudo mostrar el PDF.",
+    headerFieldLabels: {
+      hotelName: "Hotel",
+      hotelAddress: "Dirección",
+      guestName: "Huésped",
+      roomNumber: "Habitación",
+      checkIn: "Llegada",
+      checkOut: "Salida",
+      confirmationNumber: "Folio",
+      detectedCurrency: "Moneda"
+    },
+    reviewQueueTitle: "Por revisar",
+    reviewQueueEmpty: "No queda nada por revisar.",
+    reviewApprove: "Aprobar",
+    reviewPrevious: "Anterior",
+    reviewNext: "Siguiente",
+    reviewShowLine: "Ver en la tabla",
+    reviewConfidence: "Confianza",
+    reviewPosition: "de",
+    confidenceReasons: {
+      model_uncertain: "La IA no está segura de esta lectura",
+      missing_value: "Falta el valor",
+      stay_dates_reversed: "La salida es anterior a la llegada",
+      outside_stay: "Fecha fuera de la estancia",
+      sign_mismatch: "El signo del monto no corresponde a la categoría",
+      zero_amount: "Monto en cero"
+    },
+    anomaliesBadge: "alertas",
+    anomaliesTitle: "Cargos que conviene revisar",
+    anomalyKinds: {
+      duplicate: "Cargo duplicado",
+      near_duplicate: "Posible cargo duplicado",
+      outside_stay: "Cargo fuera de las fechas de estancia",
+      service_and_tip: "Cargo por servicio y propina en la misma cuenta",
+      unusual_amount: "Monto muy superior a lo habitual en este concepto",
+      discount_not_applied: "Descuento mencionado pero no aplicado"
+    },
+    timelineTitle: "Gasto por día",
+    timelineBrushHint: "Arrastra los extremos de la barra inferior para filtrar por fechas",
+    nightlyBreakdownTitle: "Desglose por noche",
+    nightLabel: "Noche",
+    roomRate: "Tarifa",
+    taxesLabel: "Impuestos",
+    incidentalsLabel: "Consumos",
+    creditsLabel: "Descuentos",
+    nightsTotal: "Total",
+    averageDailyIncidentals: "Consumos promedio por noche",
+    expenseModeLabel: "Reporte de gastos",
+    expenseColumn: "Gasto",
+    expenseClasses: {
+      reimbursable: "Reembolsable",
+      personal: "Personal",
+      split: "Dividido"
+    },
+    reimbursableAmountLabel: "Parte reembolsable",
+    reimbursableTotal: "Reembolsable",
+    personalTotal: "Personal",
+    policyTitle: "Política de gastos",
+    policyCurrencyLabel: "Moneda de los topes",
+    mealPerDiemLabel: "Tope diario de alimentos",
+    maxTipPercentLabel: "Propina máxima (% de los alimentos del día)",
+    disallowedCategoriesLabel: "Categorías no reembolsables",
+    noLimit: "Sin límite",
+    policyViolationsTitle: "Excepciones a la política",
+    policyCompliant: "Todos los cargos reembolsables cumplen la política.",
+    policyViolationKinds: {
+      meal_cap: "Alimentos por encima del tope diario",
+      tip_limit: "Propina por encima del límite",
+      disallowed_category: "Categoría no reembolsable",
+      cap_not_convertible: "Sin tipo de cambio para el tope diario de alimentos; no se comprobó"
+    },
+    downloadExpenseReport: "Descargar reporte",
+    expenseReportTitle: "Reporte de gastos de viaje",
+    employeeSignature: "Firma del empleado",
+    approverSignature: "Firma de quien aprueba",
+    splitBillLabel: "Dividir cuenta",
+    participantsTitle: "Participantes o centros de costo",
+    addParticipant: "Agregar participante",
+    participantNamePlaceholder: "Nombre o centro de costo",
+    participantNights: "Noches",
+    roomBasisLabel: "Habitación e impuestos sin asignar",
+    roomBasisOptions: {
+      nights: "Según noches",
+      equal: "En partes iguales"
+    },
+    allocationColumn: "Paga",
+    allocationAuto: "Automático",
+    allocationUnassigned: "Sin asignar",
+    allocationEqual: "Partes iguales",
+    allocationPercent: "Porcentajes",
+    percentMustTotal: "Los porcentajes deben sumar 100",
+    invalidPercentLines: "Líneas sin asignar porque sus porcentajes no suman 100",
+    settlementTitle: "Liquidación",
+    settlementTotal: "Total a pagar",
+    otherCharges: "Otros",
+    unassignedLabel: "Sin asignar",
+    exportSettlement: "Exportar liquidación",
+    noParticipants: "Agrega al menos un participante para dividir la cuenta.",
+    taxBreakdownTitle: "Desglose de impuestos",
+    taxStateLabel: "Estado",
+    taxStateAuto: "Según la dirección",
+    ivaRateLabel: "Tasa de IVA (%)",
+    ishRateLabel: "Tasa de ISH (%)",
+    taxableBase: "Base gravable",
+    expectedLabel: "Esperado",
+    chargedLabel: "Cobrado",
+    differenceLabel: "Diferencia",
+    taxScopes: { room: "Habitación", food_beverage: "Alimentos y bebidas", other: "Otros cargos" },
+    taxKinds: { iva: "IVA", ish: "ISH" },
+    creditableIva: "IVA acreditable",
+    otherTaxesLabel: "Otros impuestos y derechos",
+    taxDiscrepanciesTitle: "Diferencias",
+    taxesMatch: "Los impuestos cobrados coinciden con las tasas.",
+    taxNotItemized: "No desglosado",
+    cfdiLabel: "CFDI",
+    cfdiTitle: "Factura (CFDI)",
+    attachCfdi: "Adjuntar XML",
+    replaceCfdi: "Reemplazar XML",
+    removeCfdi: "Quitar",
+    cfdiImportError: "No se pudo leer el CFDI.",
+    cfdiParseErrors: {
+      invalid_xml: "El archivo no es un XML válido.",
+      not_cfdi: "El archivo no es un CFDI.",
+      missing_total: "El CFDI no tiene total."
+    },
+    noCfdi: "Adjunta el XML del CFDI de la estancia para compararlo con el folio.",
+    cfdiIssuer: "Emisor",
+    cfdiReceiver: "Receptor",
+    rfcLabel: "RFC",
+    taxRegimeLabel: "Régimen fiscal",
+    cfdiUseLabel: "Uso del CFDI",
+    postalCodeLabel: "Código postal",
+    cfdiUuid: "Folio fiscal (UUID)",
+    cfdiConcepts: "Conceptos",
+    cfdiTotalLabel: "Total del CFDI",
+    folioTotalLabel: "Total del folio",
+    cfdiFindingsTitle: "Diferencias con el folio",
+    cfdiMatchesFolio: "El CFDI coincide con el folio.",
+    cfdiFindingKinds: {
+      confirmation_not_found: "El número de confirmación no aparece en el CFDI",
+      currency_mismatch: "El CFDI está en otra moneda",
+      total_mismatch: "El total no coincide",
+      tax_mismatch: "Los impuestos no coinciden",
+      concept_unmatched: "Concepto sin cargos en el folio",
+      charges_not_invoiced: "Cargos del folio que no están facturados",
+      invalid_rfc: "RFC con formato inválido",
+      generic_receiver: "Factura a público en general (RFC genérico)"
+    },
+    compareLabel: "Comparar",
+    compareTitle: "Comparar estados de cuenta",
+    compareWith: "Comparar con",
+    compareChooseHistory: "Elige un análisis guardado…",
+    compareOpenFile: "Abrir exportación JSON",
+    compareSwap: "Invertir",
+    compareBefore: "Antes",
+    compareAfter: "Después",
+    compareCurrent: "actual",
+    compareNoChanges: "Los dos estados de cuenta son iguales.",
+    compareHint: "Elige otro estado de cuenta de la misma estancia, por ejemplo el folio previo a la salida o uno corregido.",
+    headerChangesTitle: "Datos del encabezado",
+    categoryChangesTitle: "Cambio por categoría",
+    lineChangesTitle: "Cargos",
+    lineChangeKinds: { added: "Nuevo", removed: "Eliminado", changed: "Modificado", unchanged: "Sin cambios" },
+    netChange: "Cambio neto",
+    unchangedLines: "cargos sin cambios",
+    totalAmountLabel: "Total",
     reset: "Analizar otro archivo",
     guest: "Huésped",
     room: "Habitación",
@@ -24,7 +220,164 @@ export const TRANSLATIONS: Record<Language, Translation> = {
     address: "Dirección",
     startDate: "Desde",
     endDate: "Hasta",
-    exportCSV: "Exportar a CSV"
+    exportLabel: "Exportar",
+    exportFormats: {
+      [ExportFormat.CSV]: "CSV (vista actual)",
+      [ExportFormat.XLSX]: "Excel (.xlsx)",
+      [ExportFormat.JSON]: "JSON (reabrir después)",
+      [ExportFormat.OFX]: "OFX (contabilidad)",
+      [ExportFormat.QIF]: "QIF (contabilidad)",
+      [ExportFormat.PDF]: "Reporte PDF"
+    },
+    validationErrorTitle: "El documento no se pudo leer correctamente",
+    validationWarningsTitle: "Observaciones de la extracción",
+    validationMessages: {
+      [ValidationIssueCode.NOT_AN_OBJECT]: "La respuesta no tiene el formato esperado",
+      [ValidationIssueCode.MISSING_FIELD]: "Falta el dato",
+      [ValidationIssueCode.INVALID_NUMBER]: "Monto no válido",
+      [ValidationIssueCode.INVALID_DATE]: "Fecha no reconocida",
+      [ValidationIssueCode.UNKNOWN_CATEGORY]: "Categoría desconocida, se asignó Otros",
+      [ValidationIssueCode.DROPPED_TRANSACTION]: "Línea descartada por estar incompleta",
+      [ValidationIssueCode.INVALID_SAVED_DATA]: "Dato guardado no válido, se descartó"
+    },
+    reconciliationTitle: "Conciliación del Total",
+    printedTotal: "Total impreso",
+    lineSum: "Suma de líneas",
+    difference: "Diferencia",
+    reconciled: "La suma de las líneas coincide con el total impreso.",
+    likelyCauses: "Causas probables",
+    mismatchCauses: {
+      [MismatchCause.MISSING_PAGE]: "Falta una página o líneas del estado de cuenta",
+      [MismatchCause.DUPLICATE_LINE]: "Línea extraída dos veces",
+      [MismatchCause.SUBTOTAL_ROW]: "Un subtotal se tomó como cargo",
+      [MismatchCause.SIGN_ERROR]: "Un abono se registró como cargo (signo invertido)",
+      [MismatchCause.UNCONVERTED_LINE]: "Líneas en otra moneda sin tipo de cambio; no se sumaron",
+      [MismatchCause.UNKNOWN]: "No se identificó una causa única"
+    },
+    suspectRegion: "Región sospechosa",
+    reextractRegion: "Volver a extraer esta región",
+    reextracting: "Extrayendo...",
+    reextractFailed: "No se pudo volver a extraer la región.",
+    editRow: "Editar",
+    saveEdit: "Guardar",
+    cancelEdit: "Cancelar",
+    deleteRow: "Eliminar",
+    splitRow: "Dividir cargo",
+    addSplitPart: "Agregar parte",
+    splitMustMatch: "Las partes deben sumar",
+    addRow: "Agregar línea",
+    undo: "Deshacer",
+    redo: "Rehacer",
+    editedMarker: "Editado",
+    addedMarker: "Agregado",
+    splitMarker: "Dividido",
+    originalValue: "Valor extraído",
+    invalidDate: "Fecha no válida (DD/MM/AAAA)",
+    invalidAmount: "Monto no válido",
+    editedTotalNote: "Total impreso ajustado por los importes editados",
+    rulesTitle: "Reglas de Categorización",
+    addRule: "Agregar regla",
+    ruleName: "Nombre",
+    ruleField: "Buscar en",
+    fieldAny: "Cualquier campo",
+    ruleContains: "Contiene",
+    rulePattern: "Expresión regular",
+    ruleMinAmount: "Monto mínimo",
+    ruleMaxAmount: "Monto máximo",
+    ruleSign: "Signo",
+    signAny: "Cualquiera",
+    signPositive: "Cargos (+)",
+    signNegative: "Abonos (−)",
+    ruleCategory: "Asignar categoría",
+    ruleEnabled: "Activa",
+    ruleMatches: "coincidencias",
+    invalidPattern: "Expresión regular no válida",
+    noRules: "No hay reglas. Las categorías provienen del modelo.",
+    importRules: "Importar JSON",
+    exportRules: "Exportar JSON",
+    rulesImportError: "El archivo no contiene reglas válidas.",
+    categoryFromModel: "Categoría asignada por el modelo",
+    categoryFromRule: "Categoría asignada por la regla",
+    categoryFromUser: "Categoría asignada manualmente",
+    categoriesTitle: "Categorías",
+    addCategory: "Agregar categoría",
+    labelEs: "Nombre (ES)",
+    labelEn: "Nombre (EN)",
+    categoryColorLabel: "Color",
+    parentCategory: "Dentro de",
+    noParent: "— Categoría principal —",
+    builtInCategory: "Predefinida",
+    allCategories: "Todas las categorías",
+    exchangeRatesTitle: "Tipos de cambio",
+    rateSources: {
+      [RateSource.OVERRIDE]: "ajuste manual",
+      [RateSource.HISTORICAL]: "histórico",
+      [RateSource.MANUAL]: "tabla fija",
+      [RateSource.IDENTITY]: "misma moneda"
+    },
+    rateOverride: "Ajustar tipo de cambio",
+    clearOverride: "Quitar ajuste",
+    noRateAvailable: "Sin tipo de cambio: se muestra el monto original",
+    convertedFrom: "Original",
+    openSavedAnalysis: "Abrir un análisis guardado (.json)",
+    importAnalysisError: "El archivo no es una exportación JSON válida de este analizador.",
+    summarySheet: "Resumen",
+    currencyColumn: "Moneda",
+    originalAmountColumn: "Importe original",
+    originalCurrencyColumn: "Moneda original",
+    rateColumn: "Tipo de cambio",
+    rateSourceColumn: "Origen del tipo de cambio",
+    reportGeneratedOn: "Generado el",
+    reportPage: "Página",
+    filtersApplied: "Filtros aplicados",
+    noFilters: "Ninguno",
+    amountByCategory: "Monto por categoría",
+    exportFailed: "No se pudo generar la exportación.",
+    sortHint: "Clic para ordenar; Shift+clic para agregar otro criterio",
+    groupByLabel: "Agrupar",
+    groupByOptions: {
+      none: "Sin agrupar",
+      date: "Por fecha",
+      cleanName: "Por comercio",
+      category: "Por categoría"
+    },
+    columnsLabel: "Columnas",
+    lineCount: "líneas",
+    noTransactionsFound: "No se encontraron transacciones con estos filtros.",
+    historyTitle: "Historial",
+    historySearchPlaceholder: "Buscar por huésped, hotel, folio o etiqueta...",
+    historyFrom: "Desde",
+    historyTo: "Hasta",
+    historyEmpty: "Los estados de cuenta que analices se guardarán aquí, en este navegador.",
+    historyNoMatches: "Ningún análisis coincide con la búsqueda.",
+    historyOpen: "Abrir",
+    historyRename: "Renombrar",
+    historyDelete: "Eliminar",
+    historyDeleteConfirm: "¿Eliminar este análisis y su PDF del historial?",
+    historyAddTag: "+ etiqueta",
+    historyExtractedOn: "Extraído el",
+    historyNoSource: "Sin PDF",
+    historyUnavailable: "El historial local no está disponible en este navegador.",
+    batchUploadHint: "Selecciona varios folios para una estancia de grupo",
+    groupStayTitle: "Estancia de grupo",
+    batchProgress: "analizados",
+    batchStatuses: {
+      pending: "En espera",
+      analyzing: "Analizando",
+      done: "Listo",
+      error: "Error"
+    },
+    breakdownBy: "Desglose por",
+    breakdownOptions: {
+      roomNumber: "Habitación",
+      guestName: "Huésped"
+    },
+    foliosLabel: "Folios",
+    roomsLabel: "Habitaciones",
+    guestsLabel: "Huéspedes",
+    openFolio: "Ver folio",
+    backToGroup: "Volver al grupo",
+    groupTotal: "Total del grupo"
   },
   [Language.EN]: {
     title: "Hotel Statement Analyzer",
@@ -40,6 +393,202 @@ export const TRANSLATIONS: Record<Language, Translation> = {
     category: "Category",
     cleanName: "Merchant Name",
     errorGeneric: "An error occurred while processing the file. Please try again.",
+    errorTooLarge: "The file is larger than the 10MB limit.",
+    errorRateLimited: "Too many requests. Wait a moment and try again.",
+    cancelAnalysis: "Cancel analysis",
+    uploadFormats: "PDF, JPG, PNG or WebP · max 10MB",
+    usePhotos: "Take photos of the folio",
+    mixedUploadError: "Select PDFs or photos, not both at once.",
+    unsupportedFileError: "Unsupported format. Use PDF, JPG, PNG or WebP.",
+    photosTitle: "Folio photos",
+    photosHint: "Order the photos like the folio's pages. Drag over the preview to crop.",
+    addPhotos: "Add photos",
+    rotateLeft: "Rotate left",
+    rotateRight: "Rotate right",
+    straighten: "Straighten",
+    autoStraighten: "Auto",
+    cropHint: "Drag to crop",
+    resetCrop: "Remove crop",
+    removePhoto: "Remove photo",
+    moveUp: "Move up",
+    moveDown: "Move down",
+    maxResolution: "Max resolution",
+    analyzePhotos: "Analyze photos",
+    preparingPhotos: "Preparing photos...",
+    photosTooLarge: "The photos are still over 10MB. Lower the max resolution or crop tighter.",
+    pagesProgress: "pages analyzed",
+    pagesLabel: "Pp.",
+    showPdf: "Show PDF",
+    hidePdf: "Hide PDF",
+    pdfSelectHint: "Click a line to find it in the PDF, or select text in the PDF to find its line.",
+    pdfNoLocation: "It is not known where in the PDF this line is printed.",
+    pdfNoMatch: "No line matches the selected text.",
+    pdfUnavailable: "The PDF could not be displayed.",
+    headerFieldLabels: {
+      hotelName: "Hotel",
+      hotelAddress: "Address",
+      guestName: "Guest",
+      roomNumber: "Room",
+      checkIn: "Check In",
+      checkOut: "Check Out",
+      confirmationNumber: "Folio",
+      detectedCurrency: "Currency"
+    },
+    reviewQueueTitle: "Needs review",
+    reviewQueueEmpty: "Nothing left to review.",
+    reviewApprove: "Approve",
+    reviewPrevious: "Previous",
+    reviewNext: "Next",
+    reviewShowLine: "Show in table",
+    reviewConfidence: "Confidence",
+    reviewPosition: "of",
+    confidenceReasons: {
+      model_uncertain: "The AI is unsure of this reading",
+      missing_value: "Value is missing",
+      stay_dates_reversed: "Check-out is before check-in",
+      outside_stay: "Date is outside the stay",
+      sign_mismatch: "Amount sign does not fit the category",
+      zero_amount: "Amount is zero"
+    },
+    anomaliesBadge: "alerts",
+    anomaliesTitle: "Charges worth checking",
+    anomalyKinds: {
+      duplicate: "Duplicate charge",
+      near_duplicate: "Possible duplicate charge",
+      outside_stay: "Charge dated outside the stay",
+      service_and_tip: "Service charge and tip on the same check",
+      unusual_amount: "Far above the usual amount for this merchant",
+      discount_not_applied: "Discount mentioned but not applied"
+    },
+    timelineTitle: "Spend by day",
+    timelineBrushHint: "Drag the handles of the lower bar to filter by date",
+    nightlyBreakdownTitle: "Per-night breakdown",
+    nightLabel: "Night",
+    roomRate: "Room rate",
+    taxesLabel: "Taxes",
+    incidentalsLabel: "Incidentals",
+    creditsLabel: "Credits",
+    nightsTotal: "Total",
+    averageDailyIncidentals: "Average daily incidentals",
+    expenseModeLabel: "Expense report",
+    expenseColumn: "Expense",
+    expenseClasses: {
+      reimbursable: "Reimbursable",
+      personal: "Personal",
+      split: "Split"
+    },
+    reimbursableAmountLabel: "Reimbursable part",
+    reimbursableTotal: "Reimbursable",
+    personalTotal: "Personal",
+    policyTitle: "Expense policy",
+    policyCurrencyLabel: "Currency of the caps",
+    mealPerDiemLabel: "Daily meal cap",
+    maxTipPercentLabel: "Max tip (% of the day's meals)",
+    disallowedCategoriesLabel: "Non-reimbursable categories",
+    noLimit: "No limit",
+    policyViolationsTitle: "Policy exceptions",
+    policyCompliant: "Every reimbursable charge is within policy.",
+    policyViolationKinds: {
+      meal_cap: "Meals above the daily cap",
+      tip_limit: "Tip above the limit",
+      disallowed_category: "Non-reimbursable category",
+      cap_not_convertible: "No exchange rate for the daily meal cap; it was not checked"
+    },
+    downloadExpenseReport: "Download report",
+    expenseReportTitle: "Travel expense report",
+    employeeSignature: "Employee signature",
+    approverSignature: "Approver signature",
+    splitBillLabel: "Split bill",
+    participantsTitle: "Participants or cost centers",
+    addParticipant: "Add participant",
+    participantNamePlaceholder: "Name or cost center",
+    participantNights: "Nights",
+    roomBasisLabel: "Unassigned room and tax lines",
+    roomBasisOptions: {
+      nights: "By nights stayed",
+      equal: "Equally"
+    },
+    allocationColumn: "Paid by",
+    allocationAuto: "Automatic",
+    allocationUnassigned: "Unassigned",
+    allocationEqual: "Equal shares",
+    allocationPercent: "Percentages",
+    percentMustTotal: "Percentages must add up to 100",
+    invalidPercentLines: "Lines left unassigned because their percentages do not add up to 100",
+    settlementTitle: "Settlement",
+    settlementTotal: "Amount due",
+    otherCharges: "Other",
+    unassignedLabel: "Unassigned",
+    exportSettlement: "Export settlement",
+    noParticipants: "Add at least one participant to split the bill.",
+    taxBreakdownTitle: "Tax breakdown",
+    taxStateLabel: "State",
+    taxStateAuto: "From the address",
+    ivaRateLabel: "IVA rate (%)",
+    ishRateLabel: "ISH rate (%)",
+    taxableBase: "Taxable base",
+    expectedLabel: "Expected",
+    chargedLabel: "Charged",
+    differenceLabel: "Difference",
+    taxScopes: { room: "Room", food_beverage: "Food & beverage", other: "Other charges" },
+    taxKinds: { iva: "IVA (VAT)", ish: "ISH (lodging tax)" },
+    creditableIva: "Creditable IVA",
+    otherTaxesLabel: "Other taxes and fees",
+    taxDiscrepanciesTitle: "Discrepancies",
+    taxesMatch: "Taxes charged match the rates.",
+    taxNotItemized: "Not itemized",
+    cfdiLabel: "CFDI",
+    cfdiTitle: "Invoice (CFDI)",
+    attachCfdi: "Attach XML",
+    replaceCfdi: "Replace XML",
+    removeCfdi: "Remove",
+    cfdiImportError: "Could not read the CFDI.",
+    cfdiParseErrors: {
+      invalid_xml: "File is not valid XML.",
+      not_cfdi: "File is not a CFDI.",
+      missing_total: "The CFDI has no total."
+    },
+    noCfdi: "Attach the stay's CFDI XML to compare it with the folio.",
+    cfdiIssuer: "Issuer",
+    cfdiReceiver: "Receiver",
+    rfcLabel: "RFC",
+    taxRegimeLabel: "Tax regime",
+    cfdiUseLabel: "CFDI use",
+    postalCodeLabel: "Postal code",
+    cfdiUuid: "Fiscal folio (UUID)",
+    cfdiConcepts: "Concepts",
+    cfdiTotalLabel: "CFDI total",
+    folioTotalLabel: "Folio total",
+    cfdiFindingsTitle: "Differences with the folio",
+    cfdiMatchesFolio: "The CFDI matches the folio.",
+    cfdiFindingKinds: {
+      confirmation_not_found: "The confirmation number does not appear in the CFDI",
+      currency_mismatch: "The CFDI is in another currency",
+      total_mismatch: "Totals do not match",
+      tax_mismatch: "Taxes do not match",
+      concept_unmatched: "Concept with no charges in the folio",
+      charges_not_invoiced: "Folio charges missing from the invoice",
+      invalid_rfc: "RFC is not well formed",
+      generic_receiver: "Invoiced to the general public (generic RFC)"
+    },
+    compareLabel: "Compare",
+    compareTitle: "Compare statements",
+    compareWith: "Compare with",
+    compareChooseHistory: "Pick a saved analysis…",
+    compareOpenFile: "Open JSON export",
+    compareSwap: "Swap",
+    compareBefore: "Before",
+    compareAfter: "After",
+    compareCurrent: "current",
+    compareNoChanges: "Both statements are the same.",
+    compareHint: "Pick another statement of the same stay, such as the pre-checkout folio or a revised one.",
+    headerChangesTitle: "Header fields",
+    categoryChangesTitle: "Change by category",
+    lineChangesTitle: "Charges",
+    lineChangeKinds: { added: "Added", removed: "Removed", changed: "Changed", unchanged: "Unchanged" },
+    netChange: "Net change",
+    unchangedLines: "unchanged charges",
+    totalAmountLabel: "Total",
     reset: "Analyze another file",
     guest: "Guest",
     room: "Room",
@@ -49,9 +598,187 @@ export const TRANSLATIONS: Record<Language, Translation> = {
     address: "Address",
     startDate: "From",
     endDate: "To",
-    exportCSV: "Export to CSV"
+    exportLabel: "Export",
+    exportFormats: {
+      [ExportFormat.CSV]: "CSV (current view)",
+      [ExportFormat.XLSX]: "Excel (.xlsx)",
+      [ExportFormat.JSON]: "JSON (reopen later)",
+      [ExportFormat.OFX]: "OFX (accounting)",
+      [ExportFormat.QIF]: "QIF (accounting)",
+      [ExportFormat.PDF]: "PDF report"
+    },
+    validationErrorTitle: "The document could not be read correctly",
+    validationWarningsTitle: "Extraction notes",
+    validationMessages: {
+      [ValidationIssueCode.NOT_AN_OBJECT]: "The response is not in the expected format",
+      [ValidationIssueCode.MISSING_FIELD]: "Missing value",
+      [ValidationIssueCode.INVALID_NUMBER]: "Invalid amount",
+      [ValidationIssueCode.INVALID_DATE]: "Unrecognized date",
+      [ValidationIssueCode.UNKNOWN_CATEGORY]: "Unknown category, assigned to Other",
+      [ValidationIssueCode.DROPPED_TRANSACTION]: "Line dropped because it was incomplete",
+      [ValidationIssueCode.INVALID_SAVED_DATA]: "Saved data is not valid and was discarded"
+    },
+    reconciliationTitle: "Total Reconciliation",
+    printedTotal: "Printed total",
+    lineSum: "Sum of lines",
+    difference: "Difference",
+    reconciled: "The sum of the lines matches the printed total.",
+    likelyCauses: "Likely causes",
+    mismatchCauses: {
+      [MismatchCause.MISSING_PAGE]: "A page or lines of the statement are missing",
+      [MismatchCause.DUPLICATE_LINE]: "A line was extracted twice",
+      [MismatchCause.SUBTOTAL_ROW]: "A subtotal row was taken as a charge",
+      [MismatchCause.SIGN_ERROR]: "A credit (Abono) was recorded as a charge",
+      [MismatchCause.UNCONVERTED_LINE]: "Lines in another currency with no exchange rate; not added",
+      [MismatchCause.UNKNOWN]: "No single cause identified"
+    },
+    suspectRegion: "Suspect region",
+    reextractRegion: "Re-extract this region",
+    reextracting: "Extracting...",
+    reextractFailed: "The region could not be re-extracted.",
+    editRow: "Edit",
+    saveEdit: "Save",
+    cancelEdit: "Cancel",
+    deleteRow: "Delete",
+    splitRow: "Split charge",
+    addSplitPart: "Add part",
+    splitMustMatch: "Parts must add up to",
+    addRow: "Add line",
+    undo: "Undo",
+    redo: "Redo",
+    editedMarker: "Edited",
+    addedMarker: "Added",
+    splitMarker: "Split",
+    originalValue: "Extracted value",
+    invalidDate: "Invalid date (DD/MM/YYYY)",
+    invalidAmount: "Invalid amount",
+    editedTotalNote: "Printed total adjusted for edited amounts",
+    rulesTitle: "Categorization Rules",
+    addRule: "Add rule",
+    ruleName: "Name",
+    ruleField: "Match on",
+    fieldAny: "Any field",
+    ruleContains: "Contains",
+    rulePattern: "Regular expression",
+    ruleMinAmount: "Min amount",
+    ruleMaxAmount: "Max amount",
+    ruleSign: "Sign",
+    signAny: "Any",
+    signPositive: "Charges (+)",
+    signNegative: "Credits (−)",
+    ruleCategory: "Assign category",
+    ruleEnabled: "Enabled",
+    ruleMatches: "matches",
+    invalidPattern: "Invalid regular expression",
+    noRules: "No rules yet. Categories come from the model.",
+    importRules: "Import JSON",
+    exportRules: "Export JSON",
+    rulesImportError: "The file does not contain valid rules.",
+    categoryFromModel: "Category assigned by the model",
+    categoryFromRule: "Category assigned by rule",
+    categoryFromUser: "Category set manually",
+    categoriesTitle: "Categories",
+    addCategory: "Add category",
+    labelEs: "Name (ES)",
+    labelEn: "Name (EN)",
+    categoryColorLabel: "Color",
+    parentCategory: "Under",
+    noParent: "— Top-level category —",
+    builtInCategory: "Built-in",
+    allCategories: "All Categories",
+    exchangeRatesTitle: "Exchange rates",
+    rateSources: {
+      [RateSource.OVERRIDE]: "your override",
+      [RateSource.HISTORICAL]: "historical",
+      [RateSource.MANUAL]: "fixed table",
+      [RateSource.IDENTITY]: "same currency"
+    },
+    rateOverride: "Override rate",
+    clearOverride: "Clear override",
+    noRateAvailable: "No rate available: amount shown unconverted",
+    convertedFrom: "Original",
+    openSavedAnalysis: "Open a saved analysis (.json)",
+    importAnalysisError: "The file is not a valid JSON export from this analyzer.",
+    summarySheet: "Summary",
+    currencyColumn: "Currency",
+    originalAmountColumn: "Original Amount",
+    originalCurrencyColumn: "Original Currency",
+    rateColumn: "Rate",
+    rateSourceColumn: "Rate source",
+    reportGeneratedOn: "Generated on",
+    reportPage: "Page",
+    filtersApplied: "Filters applied",
+    noFilters: "None",
+    amountByCategory: "Amount by category",
+    exportFailed: "The export could not be generated.",
+    sortHint: "Click to sort; Shift+click to add another sort",
+    groupByLabel: "Group",
+    groupByOptions: {
+      none: "No grouping",
+      date: "By date",
+      cleanName: "By merchant",
+      category: "By category"
+    },
+    columnsLabel: "Columns",
+    lineCount: "lines",
+    noTransactionsFound: "No transactions found matching your filters.",
+    historyTitle: "History",
+    historySearchPlaceholder: "Search by guest, hotel, folio or tag...",
+    historyFrom: "From",
+    historyTo: "To",
+    historyEmpty: "Statements you analyze are saved here, in this browser.",
+    historyNoMatches: "No saved analysis matches your search.",
+    historyOpen: "Open",
+    historyRename: "Rename",
+    historyDelete: "Delete",
+    historyDeleteConfirm: "Delete this analysis and its PDF from the history?",
+    historyAddTag: "+ tag",
+    historyExtractedOn: "Extracted on",
+    historyNoSource: "No PDF",
+    historyUnavailable: "Local history is not available in this browser.",
+    batchUploadHint: "Select several folios for a group stay",
+    groupStayTitle: "Group stay",
+    batchProgress: "analyzed",
+    batchStatuses: {
+      pending: "Waiting",
+      analyzing: "Analyzing",
+      done: "Done",
+      error: "Error"
+    },
+    breakdownBy: "Breakdown by",
+    breakdownOptions: {
+      roomNumber: "Room",
+      guestName: "Guest"
+    },
+    foliosLabel: "Folios",
+    roomsLabel: "Rooms",
+    guestsLabel: "Guests",
+    openFolio: "Open folio",
+    backToGroup: "Back to group",
+    groupTotal: "Group total"
   }
 };
 
-export const EXCHANGE_RATE_MXN_TO_USD = 0.058; // Example static rate
-export const EXCHANGE_RATE_USD_TO_MXN = 17.20; // Example static rate
\ No newline at end of file
+// Fallback rates, in MXN per unit of each currency, used when no historical rate covers a date.
+export const MANUAL_EXCHANGE_RATES: Record<Currency, number> = {
+  [Currency.MXN]: 1,
+  [Currency.USD]: 17.20, // Example static rate
+  [Currency.EUR]: 18.70, // Example static rate
+  [Currency.CAD]: 12.60  // Example static rate
+};
+export const HISTORICAL_RATES_URL = '/rates/historical.json'; // Daily rates served from public/
+
+// Which StatementExtractor backs the upload flow. Set EXTRACTOR_BACKEND in .env.local
+// to 'fixture' or 'pdf-text' to run without a Gemini key.
+export const EXTRACTOR_BACKEND = (process.env.EXTRACTOR_BACKEND || ExtractorBackend.GEMINI) as ExtractorBackend;
+export const GEMINI_MODEL = 'gemini-3-flash-preview';
+export const ANALYZE_API_URL = '/api/analyze'; // Served by server/index.ts, proxied by Vite in development
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+export const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+export const DEFAULT_IMAGE_MAX_DIMENSION = 2000; // px, longest side of each page after preprocessing
+export const ANALYZE_MAX_RETRIES = 3; // After a network error, 429 or 5xx from the analysis API
+export const ANALYZE_RETRY_BASE_MS = 1000;
+export const BATCH_CONCURRENCY = 3; // Folios analyzed at once in a multi-file upload
+export const LOW_CONFIDENCE_THRESHOLD = 0.7; // Fields and lines below this go to the review queue
+export const PAGES_PER_CHUNK = 4; // Longer PDFs are sent to the model this many pages at a time
+export const FIXTURE_BASE_URL = '/fixtures'; // Recorded AnalysisResult JSON served from public/
@@ -0,0 +1,55 @@
+import { useCallback, useState } from 'react';
+
+const MAX_HISTORY = 100;
+
+interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+/**
+ * useState with an undo/redo stack. `set` records a history entry; `reset` replaces the
+ * value and forgets the history (e.g. when a new statement is loaded).
+ */
+export const useUndoable = <T,>(initial: T) => {
+  const [history, setHistory] = useState<History<T>>({ past: [], present: initial, future: [] });
+
+  const set = useCallback((next: T | ((prev: T) => T)) => {
+    setHistory(h => {
+      const value = typeof next === 'function' ? (next as (prev: T) => T)(h.present) : next;
+      if (Object.is(value, h.present)) return h;
+      return { past: [...h.past, h.present].slice(-MAX_HISTORY), present: value, future: [] };
+    });
+  }, []);
+
+  const reset = useCallback((value: T) => {
+    setHistory({ past: [], present: value, future: [] });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(h => h.past.length === 0 ? h : {
+      past: h.past.slice(0, -1),
+      present: h.past[h.past.length - 1],
+      future: [h.present, ...h.future]
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(h => h.future.length === 0 ? h : {
+      past: [...h.past, h.present],
+      present: h.future[0],
+      future: h.future.slice(1)
+    });
+  }, []);
+
+  return {
+    value: history.present,
+    set,
+    reset,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0
+  };
+};
@@ -0,0 +1,40 @@
+import { UIEvent, useCallback, useEffect, useRef, useState } from 'react';
+
+const OVERSCAN = 8;
+
+/**
+ * Windowing for a scrollable table body. Rows are assumed to be about `rowHeight` tall;
+ * rows that are taller (an open editor, a split form) only shift the window slightly.
+ * Below `threshold` rows everything is rendered and the padding is zero.
+ */
+export const useVirtualRows = (count: number, rowHeight: number, threshold: number) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(600);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const onScroll = useCallback((e: UIEvent<HTMLDivElement>) => setScrollTop(e.currentTarget.scrollTop), []);
+
+  if (count <= threshold) {
+    return { containerRef, onScroll, enabled: false, start: 0, end: count, paddingTop: 0, paddingBottom: 0 };
+  }
+
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - OVERSCAN);
+  const end = Math.min(count, Math.ceil((scrollTop + viewportHeight) / rowHeight) + OVERSCAN);
+  return {
+    containerRef,
+    onScroll,
+    enabled: true,
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: (count - end) * rowHeight
+  };
+};
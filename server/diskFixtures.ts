@@ -0,0 +1,12 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import type { FixtureLoader } from "../services/fixtureExtractor";
+
+// Reads recorded model responses from `dir/<key>.json`, the layout of public/fixtures.
+export const createDiskFixtureLoader = (dir: string): FixtureLoader => async key => {
+  try {
+    return JSON.parse(await readFile(path.join(dir, `${key}.json`), 'utf8'));
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,121 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { AnalysisResult, CategoryDefinition, ExtractionRegion, HeaderField } from "../types";
+import { GEMINI_MODEL } from "../constants";
+import { taxonomyPromptGuide } from "../services/taxonomy";
+
+const CONFIDENCE_FIELDS: HeaderField[] = ['hotelName', 'hotelAddress', 'guestName', 'roomNumber', 'checkIn', 'checkOut', 'confirmationNumber', 'detectedCurrency'];
+
+// Schema for structured output, shared by full and region extraction
+export const buildResponseSchema = (taxonomy: CategoryDefinition[]) => ({
+  type: Type.OBJECT,
+  properties: {
+    hotelName: { type: Type.STRING, description: "Name of the hotel found in the header" },
+    hotelAddress: { type: Type.STRING, description: "Address of the hotel" },
+    guestName: { type: Type.STRING, description: "Name of the guest" },
+    roomNumber: { type: Type.STRING, description: "Room number" },
+    checkIn: { type: Type.STRING, description: "Arrival date (DD/MM/YYYY)" },
+    checkOut: { type: Type.STRING, description: "Departure date (DD/MM/YYYY)" },
+    confirmationNumber: { type: Type.STRING, description: "Folio or confirmation number" },
+    detectedCurrency: { type: Type.STRING, description: "ISO code of the statement currency (MXN, USD, EUR, CAD)" },
+    transactions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          date: { type: Type.STRING },
+          originalDescription: { type: Type.STRING },
+          cleanName: { 
+            type: Type.STRING, 
+            description: "Simplified commercial name. Remove dates, transaction codes, room numbers. E.g., 'REST EL PATIO 23423' -> 'El Patio'" 
+          },
+          amount: { type: Type.NUMBER },
+          category: { 
+            type: Type.STRING, 
+            enum: taxonomy.map(cat => cat.id),
+            description: "Category id. Use the most specific subcategory that fits. 'Dersan' or 'ISH' are tax." 
+          },
+          currency: { type: Type.STRING, description: "ISO code of this line's currency when it differs from the statement's (e.g. a USD charge on an MXN folio)" },
+          location: {
+            type: Type.OBJECT,
+            description: "Where the line is printed in the PDF",
+            properties: {
+              page: { type: Type.INTEGER, description: "1-based page number" },
+              y: { type: Type.NUMBER, description: "Vertical position of the line on the page, from 0 (top edge) to 1 (bottom edge)" }
+            },
+            required: ["page", "y"]
+          },
+          confidence: { type: Type.NUMBER, description: "How sure you are, from 0 to 1, that this line's date, description and amount were read correctly" }
+        },
+        required: ["date", "originalDescription", "cleanName", "amount", "category", "location", "confidence"]
+      }
+    },
+    totalAmount: { type: Type.NUMBER },
+    fieldConfidence: {
+      type: Type.OBJECT,
+      description: "How sure you are, from 0 to 1, of each header field",
+      properties: Object.fromEntries(CONFIDENCE_FIELDS.map(field => [field, { type: Type.NUMBER }])),
+      required: CONFIDENCE_FIELDS
+    }
+  },
+  required: ["hotelName", "guestName", "transactions", "totalAmount"]
+});
+
+export const buildSystemInstruction = (taxonomy: CategoryDefinition[]) => `
+  You are an expert financial analyst for hotel operations.
+  Your task is to extract transaction data and header details from a hotel account statement PDF with perfect accuracy.
+
+  CRITICAL RULES:
+  1. Header Information: Extract Hotel Name, Address, Guest Name, Room Number, Folio/Confirmation number accurately from the top of the document. For dates like Check-In and Check-Out, convert formats like '19-01-26' to a standard 'DD/MM/YYYY' format (e.g., '19/01/2026').
+  2. Transactions: Extract the Date, Description, and Amount for each line item in the main table.
+  3. 'cleanName': From the original description, create a simplified commercial name. Remove dates, transaction codes, room numbers, and any other non-essential text. For example, 'REST EL PATIO 23423' should become 'El Patio'.
+  4. 'category': Categorize strictly into one of these ids, choosing a subcategory (indented) over its parent whenever it fits:
+${taxonomyPromptGuide(taxonomy)}
+  5. Amounts: Handle negative numbers correctly for the 'amount' field. Credits and discounts must be negative.
+  6. Currency: Accurately detect the currency of the document as an ISO code (MXN, USD, EUR, CAD). Lines printed in a different currency (e.g. a charge in USD on a peso folio) must carry their own 'currency'; never convert amounts yourself.
+  7. Total Amount: This is the most important field. Find the final total printed on the statement (e.g., 'Total MxN', 'Total Charges'). Use this value for the 'totalAmount' field. THIS IS THE SOURCE OF TRUTH AND IS MORE ACCURATE THAN MANUALLY SUMMING THE TRANSACTION LINES. For example, if the document shows 'Total MxN 25,224.10', you must use 25224.10.
+  8. Location: For every transaction, give the page it is printed on ('location.page', counting from 1) and its approximate vertical position on that page ('location.y', 0 at the top edge, 1 at the bottom edge), so the line can be found in the PDF.
+  9. Confidence: Rate how sure you are of each transaction ('confidence') and each header field ('fieldConfidence'), from 0 to 1. Use low values for blurry, cut-off, handwritten or ambiguous text and for values you had to guess; never inflate them.
+`;
+
+export const ANALYZE_PROMPT = "Analyze this hotel statement PDF and extract the data according to the JSON schema.";
+
+// Narrows a re-extraction to the lines the reconciliation panel flagged.
+export const regionPrompt = (region: ExtractionRegion) => `
+  Analyze this hotel statement PDF and extract the data according to the JSON schema,
+  but ONLY include transaction lines dated from ${region.fromDate} to ${region.toDate} (inclusive).
+  Read those lines again carefully: include every charge on every page, include each line exactly once,
+  do not include subtotal, balance or carried-forward rows, and make sure credits ('Abonos') are negative.
+`;
+
+export interface GeminiRequest {
+  data: string; // Base64 document
+  mimeType: string;
+  taxonomy: CategoryDefinition[];
+  region?: ExtractionRegion;
+}
+
+// Runs the extraction prompt against Gemini. Validation happens in the browser, on the
+// output of every extractor backend, so the parsed JSON is returned as it is.
+export const generateAnalysis = async (apiKey: string, { data, mimeType, taxonomy, region }: GeminiRequest): Promise<AnalysisResult> => {
+  const ai = new GoogleGenAI({ apiKey });
+  const response = await ai.models.generateContent({
+    model: GEMINI_MODEL,
+    contents: {
+      parts: [
+        { inlineData: { mimeType, data } },
+        { text: region ? regionPrompt(region) : ANALYZE_PROMPT }
+      ]
+    },
+    config: {
+      systemInstruction: buildSystemInstruction(taxonomy),
+      responseMimeType: "application/json",
+      responseSchema: buildResponseSchema(taxonomy)
+    }
+  });
+
+  const text = response.text;
+  if (!text) {
+    throw new Error("No response from AI");
+  }
+  return JSON.parse(text) as AnalysisResult;
+};
@@ -0,0 +1,156 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import path from "node:path";
+import { AnalyzeRequest, CategoryDefinition } from "../types";
+import { ANALYZE_API_URL, FIXTURE_BASE_URL, MAX_UPLOAD_BYTES } from "../constants";
+import { DEFAULT_TAXONOMY } from "../services/taxonomy";
+import { createFixtureExtractor } from "../services/fixtureExtractor";
+import { createDiskFixtureLoader } from "./diskFixtures";
+import { generateAnalysis } from "./geminiAnalyzer";
+import { createRateLimiter } from "./rateLimiter";
+
+// .env.local is shared with Vite; it is optional when the variables come from the environment.
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No file
+}
+
+const PORT = Number(process.env.PORT) || 8787;
+const API_KEY = process.env.GEMINI_API_KEY;
+// Replays recorded fixtures instead of calling Gemini, for local work without a key.
+const STUB = process.env.ANALYZE_STUB === '1' || process.env.ANALYZE_STUB === 'true';
+const RATE_LIMIT_PER_MINUTE = Number(process.env.RATE_LIMIT_PER_MINUTE) || 10;
+// Behind a reverse proxy every request comes from the proxy; trust its X-Forwarded-For.
+const TRUST_PROXY = process.env.TRUST_PROXY === '1' || process.env.TRUST_PROXY === 'true';
+
+// Base64 inflates the PDF by 4/3; the rest covers the taxonomy and the other fields.
+const MAX_BODY_BYTES = Math.ceil(MAX_UPLOAD_BYTES * 4 / 3) + 512 * 1024;
+const FIXTURES_DIR = path.resolve('public', FIXTURE_BASE_URL.replace(/^\//, ''));
+
+class HttpError extends Error {
+  status: number;
+  headers: Record<string, string>;
+
+  constructor(status: number, message: string, headers: Record<string, string> = {}) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.headers = headers;
+  }
+}
+
+const limiter = createRateLimiter(RATE_LIMIT_PER_MINUTE, 60_000);
+
+const stubExtractor = createFixtureExtractor(createDiskFixtureLoader(FIXTURES_DIR));
+
+const clientOf = (req: IncomingMessage) => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (TRUST_PROXY && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+  return req.socket.remoteAddress ?? 'unknown';
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+// Reads the body, refusing it as soon as it passes the limit instead of buffering it all.
+const readBody = (req: IncomingMessage) => new Promise<string>((resolve, reject) => {
+  if (Number(req.headers['content-length']) > MAX_BODY_BYTES) {
+    reject(new HttpError(413, 'Request body too large'));
+    return;
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      // Later chunks are discarded; the 413 is sent without waiting for them.
+      reject(new HttpError(413, 'Request body too large'));
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+const isTaxonomy = (value: unknown): value is CategoryDefinition[] =>
+  Array.isArray(value) && value.length > 0 && value.every(cat => typeof cat?.id === 'string' && typeof cat?.labels === 'object');
+
+const parseRequest = (raw: string): AnalyzeRequest => {
+  let body: Partial<AnalyzeRequest>;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    throw new HttpError(400, 'Body is not valid JSON');
+  }
+  if (typeof body?.data !== 'string' || body.data.length === 0) throw new HttpError(400, 'Missing document data');
+  if (body.mimeType !== 'application/pdf') throw new HttpError(415, 'Only PDF documents are accepted');
+  if (Buffer.byteLength(body.data, 'base64') > MAX_UPLOAD_BYTES) {
+    throw new HttpError(413, `Document larger than ${MAX_UPLOAD_BYTES / 1024 / 1024}MB`);
+  }
+  if (body.taxonomy !== undefined && !isTaxonomy(body.taxonomy)) throw new HttpError(400, 'Invalid taxonomy');
+  if (body.region !== undefined && (typeof body.region?.fromDate !== 'string' || typeof body.region?.toDate !== 'string')) {
+    throw new HttpError(400, 'Invalid region');
+  }
+  if (body.pages !== undefined && !(Number.isInteger(body.pages?.fromPage) && Number.isInteger(body.pages?.toPage))) {
+    throw new HttpError(400, 'Invalid page range');
+  }
+  return { fileName: String(body.fileName ?? 'statement.pdf'), mimeType: body.mimeType, data: body.data, taxonomy: body.taxonomy, region: body.region, pages: body.pages };
+};
+
+const handleAnalyze = async (req: IncomingMessage, res: ServerResponse) => {
+  const retryAfter = limiter.hit(clientOf(req));
+  if (retryAfter > 0) {
+    throw new HttpError(429, 'Too many requests', { 'Retry-After': String(retryAfter) });
+  }
+
+  const request = parseRequest(await readBody(req));
+  if (STUB) {
+    // Recordings hold the whole folio, so a split PDF gets its lines with the first range
+    // only; later ranges repeat the header and total, as their pages would.
+    const recorded = await stubExtractor.extract({ name: request.fileName } as File);
+    sendJson(res, 200, request.pages && request.pages.fromPage > 1 ? { ...recorded, transactions: [] } : recorded);
+    return;
+  }
+  if (!API_KEY) {
+    throw new HttpError(500, 'GEMINI_API_KEY is not configured on the server');
+  }
+
+  try {
+    const result = await generateAnalysis(API_KEY, {
+      data: request.data,
+      mimeType: request.mimeType,
+      taxonomy: request.taxonomy ?? DEFAULT_TAXONOMY,
+      region: request.region
+    });
+    sendJson(res, 200, result);
+  } catch (err) {
+    console.error('Gemini API Error:', err);
+    throw new HttpError(502, 'The analysis service failed');
+  }
+};
+
+const server = createServer(async (req, res) => {
+  try {
+    if (req.url === ANALYZE_API_URL && req.method === 'POST') {
+      await handleAnalyze(req, res);
+    } else if (req.url === ANALYZE_API_URL) {
+      throw new HttpError(405, 'Method not allowed', { Allow: 'POST' });
+    } else {
+      throw new HttpError(404, 'Not found');
+    }
+  } catch (err) {
+    if (err instanceof HttpError) {
+      sendJson(res, err.status, { error: err.message }, err.headers);
+    } else {
+      console.error(err);
+      sendJson(res, 500, { error: 'Internal error' });
+    }
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Analysis API on http://localhost:${PORT}${ANALYZE_API_URL} (${STUB ? 'stub: replaying fixtures' : 'Gemini'})`);
+});
@@ -0,0 +1,32 @@
+export interface RateLimiter {
+  // Records a request from `client`. Returns 0 when it is allowed, otherwise the seconds
+  // until the client may try again.
+  hit: (client: string, now?: number) => number;
+}
+
+/**
+ * Sliding-window limit of `limit` requests per `windowMs` for each client. Timestamps older
+ * than the window are dropped on every hit, so memory stays bounded by active clients.
+ */
+export const createRateLimiter = (limit: number, windowMs: number): RateLimiter => {
+  const hits = new Map<string, number[]>();
+
+  return {
+    hit: (client, now = Date.now()) => {
+      const recent = (hits.get(client) ?? []).filter(time => now - time < windowMs);
+      if (recent.length >= limit) {
+        hits.set(client, recent);
+        return Math.ceil((recent[0] + windowMs - now) / 1000);
+      }
+      recent.push(now);
+      hits.set(client, recent);
+      // Forget idle clients now and then rather than on a timer.
+      if (hits.size > 1000) {
+        for (const [key, times] of hits) {
+          if (times.every(time => now - time >= windowMs)) hits.delete(key);
+        }
+      }
+      return 0;
+    }
+  };
+};
@@ -0,0 +1,11 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { coerceNumber } from './analysisValidator';
+
+test('printed amounts are read with their sign wherever the currency symbol sits', () => {
+  assert.equal(coerceNumber('$ -1,234.50'), -1234.5);
+  assert.equal(coerceNumber('-$1,234.50'), -1234.5);
+  assert.equal(coerceNumber('$ 1,234.50'), 1234.5);
+  assert.equal(coerceNumber('(MXN 1,234.50)'), -1234.5);
+  assert.equal(coerceNumber('1.234,50 MXN-'), -1234.5);
+});
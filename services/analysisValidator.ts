@@ -0,0 +1,270 @@
+import { AnalysisResult, Category, CategoryDefinition, Currency, CategoryId, HeaderField, SourceLocation, Transaction, ValidationIssue, ValidationIssueCode } from "../types";
+import { createTransactionId } from "./transactionEdits";
+import { DEFAULT_TAXONOMY, resolveCategory } from "./taxonomy";
+
+const MONTHS: Record<string, number> = {
+  ene: 1, jan: 1, feb: 2, mar: 3, abr: 4, apr: 4, may: 5, jun: 6,
+  jul: 7, ago: 8, aug: 8, sep: 9, set: 9, oct: 10, nov: 11, dic: 12, dec: 12
+};
+
+const HEADER_FIELDS: readonly HeaderField[] = ['hotelName', 'hotelAddress', 'guestName', 'roomNumber', 'checkIn', 'checkOut', 'confirmationNumber', 'detectedCurrency'];
+const REQUIRED_HEADER_FIELDS: readonly string[] = ['hotelName', 'guestName'];
+
+export class AnalysisValidationError extends Error {
+  issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super(`Extraction failed validation: ${issues.map(i => `${i.field} (${i.code})`).join(', ')}`);
+    this.name = 'AnalysisValidationError';
+    this.issues = issues;
+  }
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Normalizes any date the model or a parser may produce to the canonical DD/MM/YYYY form.
+ * Accepts DD/MM/YY(YY) with '/', '-' or '.' separators, ISO dates (with or without a time
+ * part) and month names such as '19-ENE-26'. Day-first is assumed unless the second
+ * number can only be a day. Returns null when the input is not a real calendar date.
+ */
+export const normalizeDate = (raw: string): string | null => {
+  const value = raw.trim();
+  let day: number, month: number, year: number;
+
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T\s].*)?$/);
+  const numeric = value.match(/^(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{2}|\d{4})$/);
+  const named = value.match(/^(\d{1,2})[\s\/\-.]+([a-záé]{3})[a-záé]*\.?[\s\/\-.,]+(\d{2}|\d{4})$/i);
+
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (numeric) {
+    [day, month, year] = [Number(numeric[1]), Number(numeric[2]), Number(numeric[3])];
+    if (month > 12 && day <= 12) [day, month] = [month, day];
+  } else if (named && MONTHS[named[2].toLowerCase()]) {
+    [day, month, year] = [Number(named[1]), MONTHS[named[2].toLowerCase()], Number(named[3])];
+  } else {
+    return null;
+  }
+
+  if (year < 100) year += 2000;
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return formatCanonicalDate(date);
+};
+
+// Parses a canonical DD/MM/YYYY date (as produced by normalizeDate) into a local Date.
+export const parseCanonicalDate = (value: string): Date | null => {
+  const match = value?.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  if (!match) return null;
+  return new Date(Number(match[3]), Number(match[2]) - 1, Number(match[1]));
+};
+
+export const formatCanonicalDate = (date: Date) =>
+  `${pad(date.getDate())}/${pad(date.getMonth() + 1)}/${date.getFullYear()}`;
+
+/**
+ * Coerces printed amounts to numbers: '1,234.50', '$ 1,234.50', '1.234,50', '(1,234.50)'
+ * and '1,234.50-' are all understood. Parentheses and a trailing minus mean a credit. The
+ * sign is read once currency symbols and spaces are gone, so '$ -1.00' and '-$1.00' agree.
+ */
+export const coerceNumber = (raw: unknown): number | null => {
+  if (typeof raw === 'number') return Number.isFinite(raw) ? raw : null;
+  if (typeof raw !== 'string') return null;
+
+  let value = raw.replace(/[^\d.,()-]/g, '');
+  const negative = /^-|^\(.*\)$|-$/.test(value);
+  value = value.replace(/[^\d.,]/g, '');
+  if (!value) return null;
+
+  const lastComma = value.lastIndexOf(',');
+  const lastDot = value.lastIndexOf('.');
+  if (lastComma > lastDot && (lastDot !== -1 || /,\d{2}$/.test(value))) {
+    // Decimal comma: '1.234,50' or '234,50'
+    value = value.replace(/\./g, '').replace(',', '.');
+  } else {
+    value = value.replace(/,/g, '');
+  }
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) return null;
+  return negative ? -parsed : parsed;
+};
+
+// Accepts category ids as well as labels in either language ('Food & Beverage', 'alimentos y bebidas').
+export const coerceCategory = (raw: unknown, taxonomy: CategoryDefinition[] = DEFAULT_TAXONOMY): CategoryId | null =>
+  resolveCategory(taxonomy, raw);
+
+const asString = (raw: unknown) => (typeof raw === 'string' ? raw.trim() : raw == null ? '' : String(raw).trim());
+
+// Where a line is printed only serves the PDF viewer, so an unusable location is dropped
+// without reporting an issue.
+const coerceLocation = (raw: unknown): SourceLocation | undefined => {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const { page, y } = raw as Record<string, unknown>;
+  const pageNumber = coerceNumber(page);
+  if (pageNumber === null || !Number.isInteger(pageNumber) || pageNumber < 1) return undefined;
+  const position = coerceNumber(y);
+  return position === null ? { page: pageNumber } : { page: pageNumber, y: Math.min(1, Math.max(0, position)) };
+};
+
+// The model's confidence, from 0 to 1; anything else is ignored.
+const coerceConfidence = (raw: unknown): number | undefined => {
+  const value = coerceNumber(raw);
+  return value === null ? undefined : Math.min(1, Math.max(0, value));
+};
+
+const describe = (raw: unknown) => (typeof raw === 'string' ? raw : JSON.stringify(raw));
+
+const CURRENCY_ALIASES: Record<string, Currency> = {
+  'MXN': Currency.MXN, 'MX$': Currency.MXN, 'M.N.': Currency.MXN, 'MN': Currency.MXN, 'PESOS': Currency.MXN,
+  'USD': Currency.USD, 'US$': Currency.USD, 'U.S.D.': Currency.USD, 'DLS': Currency.USD, 'DOLARES': Currency.USD, 'DÓLARES': Currency.USD,
+  'EUR': Currency.EUR, '€': Currency.EUR, 'EUROS': Currency.EUR,
+  'CAD': Currency.CAD, 'C$': Currency.CAD, 'CA$': Currency.CAD
+};
+
+/**
+ * Maps the currency a statement or line prints ('MXN', 'US$', '€', 'M.N.') to a Currency.
+ * A bare '$' is ambiguous between pesos and dollars, so it resolves to null like any
+ * unrecognized value and callers fall back to the document's currency.
+ */
+export const coerceCurrency = (raw: unknown): Currency | null => {
+  if (typeof raw !== 'string') return null;
+  const value = raw.trim().toUpperCase();
+  if (!value) return null;
+  if (CURRENCY_ALIASES[value]) return CURRENCY_ALIASES[value];
+  const code = value.match(/\b(MXN|USD|EUR|CAD)\b/);
+  return code ? (code[1] as Currency) : null;
+};
+
+/**
+ * Coerces a list of extracted lines the way validateAnalysisResult does. Lines without a
+ * usable amount are dropped and reported as errors under `field`.
+ */
+export const validateTransactions = (
+  entries: unknown[],
+  field: string,
+  documentCurrency: string,
+  taxonomy: CategoryDefinition[] = DEFAULT_TAXONOMY
+): { transactions: Transaction[]; issues: ValidationIssue[] } => {
+  const issues: ValidationIssue[] = [];
+  const warn = (path: string, code: ValidationIssueCode, value?: unknown) =>
+    issues.push({ field: path, code, severity: 'warning', value: value === undefined ? undefined : describe(value) });
+  const fail = (path: string, code: ValidationIssueCode, value?: unknown) =>
+    issues.push({ field: path, code, severity: 'error', value: value === undefined ? undefined : describe(value) });
+
+  const transactions: Transaction[] = [];
+  entries.forEach((entry, index) => {
+    const path = `${field}[${index}]`;
+    if (!entry || typeof entry !== 'object') {
+      fail(path, ValidationIssueCode.DROPPED_TRANSACTION, entry);
+      return;
+    }
+    const tx = entry as Record<string, unknown>;
+
+    const amount = coerceNumber(tx.amount);
+    if (amount === null) {
+      fail(`${path}.amount`, ValidationIssueCode.INVALID_NUMBER, tx.amount);
+      return;
+    }
+
+    const rawDate = asString(tx.date);
+    const date = rawDate ? normalizeDate(rawDate) : null;
+    if (!date) warn(`${path}.date`, rawDate ? ValidationIssueCode.INVALID_DATE : ValidationIssueCode.MISSING_FIELD, rawDate || undefined);
+
+    let category = coerceCategory(tx.category, taxonomy);
+    if (!category) {
+      warn(`${path}.category`, ValidationIssueCode.UNKNOWN_CATEGORY, tx.category ?? '');
+      category = Category.OTHER;
+    }
+
+    const originalDescription = asString(tx.originalDescription);
+    transactions.push({
+      id: asString(tx.id) || createTransactionId(),
+      date: date ?? '',
+      originalDescription,
+      cleanName: asString(tx.cleanName) || originalDescription,
+      amount,
+      // Lines without a recognizable currency of their own are in the document's currency.
+      currency: coerceCurrency(tx.currency) ?? documentCurrency,
+      category,
+      location: coerceLocation(tx.location),
+      confidence: coerceConfidence(tx.confidence)
+    });
+  });
+  return { transactions, issues };
+};
+
+/**
+ * Checks and normalizes an extraction before it reaches the Dashboard. Numbers are coerced,
+ * every date is brought to DD/MM/YYYY and categories outside the taxonomy become Category.OTHER.
+ * Problems that were repaired are reported as warnings; lines that could not be used are
+ * dropped and reported as errors. Throws AnalysisValidationError when nothing usable remains.
+ */
+export const validateAnalysisResult = (
+  raw: unknown,
+  taxonomy: CategoryDefinition[] = DEFAULT_TAXONOMY
+): { result: AnalysisResult; issues: ValidationIssue[] } => {
+  const issues: ValidationIssue[] = [];
+  const warn = (field: string, code: ValidationIssueCode, value?: unknown) =>
+    issues.push({ field, code, severity: 'warning', value: value === undefined ? undefined : describe(value) });
+  const fail = (field: string, code: ValidationIssueCode, value?: unknown) =>
+    issues.push({ field, code, severity: 'error', value: value === undefined ? undefined : describe(value) });
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    fail('result', ValidationIssueCode.NOT_AN_OBJECT, raw);
+    throw new AnalysisValidationError(issues);
+  }
+  const input = raw as Record<string, unknown>;
+
+  if (!Array.isArray(input.transactions)) {
+    fail('transactions', ValidationIssueCode.MISSING_FIELD);
+    throw new AnalysisValidationError(issues);
+  }
+
+  const header = {} as Record<HeaderField, string>;
+  HEADER_FIELDS.forEach(field => {
+    header[field] = asString(input[field]);
+    if (!header[field] && REQUIRED_HEADER_FIELDS.includes(field)) {
+      warn(field, ValidationIssueCode.MISSING_FIELD);
+    }
+  });
+
+  (['checkIn', 'checkOut'] as const).forEach(field => {
+    if (!header[field]) return;
+    const normalized = normalizeDate(header[field]);
+    if (!normalized) warn(field, ValidationIssueCode.INVALID_DATE, header[field]);
+    header[field] = normalized ?? '';
+  });
+
+  // '$' and other ambiguous symbols are kept as printed; the Dashboard then shows amounts unconverted.
+  header.detectedCurrency = coerceCurrency(header.detectedCurrency) ?? header.detectedCurrency;
+
+  const lines = validateTransactions(input.transactions, 'transactions', header.detectedCurrency, taxonomy);
+  const transactions = lines.transactions;
+  issues.push(...lines.issues);
+
+  const lineSum = transactions.reduce((sum, tx) => sum + tx.amount, 0);
+  let totalAmount = coerceNumber(input.totalAmount);
+  if (totalAmount === null) {
+    warn('totalAmount', ValidationIssueCode.INVALID_NUMBER, input.totalAmount ?? '');
+    totalAmount = lineSum;
+  }
+
+  if (transactions.length === 0 && input.transactions.length > 0) {
+    throw new AnalysisValidationError(issues);
+  }
+
+  const fieldConfidence: Partial<Record<HeaderField, number>> = {};
+  if (input.fieldConfidence && typeof input.fieldConfidence === 'object') {
+    HEADER_FIELDS.forEach(field => {
+      const confidence = coerceConfidence((input.fieldConfidence as Record<string, unknown>)[field]);
+      if (confidence !== undefined) fieldConfidence[field] = confidence;
+    });
+  }
+
+  return {
+    result: { ...header, transactions, totalAmount, ...(Object.keys(fieldConfidence).length > 0 ? { fieldConfidence } : {}) },
+    issues
+  };
+};
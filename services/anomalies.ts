@@ -0,0 +1,176 @@
+import { AnalysisResult, Anomaly, AnomalyKind, Category, CategoryDefinition, Transaction } from "../types";
+import { parseCanonicalDate } from "./analysisValidator";
+import { DEFAULT_TAXONOMY, isInCategory } from "./taxonomy";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Near duplicates: amounts within 2% and descriptions sharing most of their words.
+const NEAR_DUPLICATE_AMOUNT_RATIO = 0.02;
+const NEAR_DUPLICATE_SIMILARITY = 0.6;
+// A description charged on this many dates is a nightly charge, not a repeat.
+const RECURRING_DATES = 3;
+
+// A merchant needs this many lines before one of them can stand out, by this factor over the others' median.
+const UNUSUAL_MIN_LINES = 3;
+const UNUSUAL_FACTOR = 3;
+
+// Patterns run on normalized text: lower case, no accents.
+const SERVICE_CHARGE_PATTERN = /\b(service charge|cargo (por|de) servicio|servicio incluido|srv chg)\b/;
+const TIP_PATTERN = /\b(propinas?|tips?|gratuity|gratificacion)\b/;
+const DISCOUNT_PATTERN = /\b(descuento|discount|promo|promocion|cortesia|complimentary|2x1)\b/;
+const CHECK_NUMBER_PATTERN = /\b(?:cheque|check|chk|ticket|cuenta|cta)\s*(?:no\.?|#)?\s*(\d{3,})/;
+
+const KIND_ORDER: AnomalyKind[] = ['duplicate', 'near_duplicate', 'outside_stay', 'service_and_tip', 'unusual_amount', 'discount_not_applied'];
+
+interface Line {
+  tx: Transaction & { id: string };
+  index: number;
+  day: number | null; // Days since epoch
+  text: string;
+  words: Set<string>;
+  checkNumber?: string;
+}
+
+const normalize = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+const similarity = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return 0;
+  const shared = [...a].filter(word => b.has(word)).length;
+  return shared / (a.size + b.size - shared);
+};
+
+// Whether a line is a tip, judging by its printed or cleaned-up description.
+export const isTipLine = (tx: Transaction) => TIP_PATTERN.test(normalize(`${tx.originalDescription} ${tx.cleanName}`));
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Merges overlapping pairs into groups, so three copies of a charge make one flag.
+const groupPairs = (pairs: [Line, Line][]): Line[][] => {
+  const groups: Set<Line>[] = [];
+  pairs.forEach(([a, b]) => {
+    const matching = groups.filter(group => group.has(a) || group.has(b));
+    const merged = new Set<Line>([a, b, ...matching.flatMap(group => [...group])]);
+    matching.forEach(group => groups.splice(groups.indexOf(group), 1));
+    groups.push(merged);
+  });
+  return groups.map(group => [...group].sort((a, b) => a.index - b.index));
+};
+
+const isDuplicatePair = (a: Line, b: Line) => a.day === b.day && a.text === b.text && a.tx.amount === b.tx.amount;
+
+const isNearDuplicatePair = (a: Line, b: Line, recurring: Set<string>, taxonomy: CategoryDefinition[]) => {
+  if (a.day === null || b.day === null || isDuplicatePair(a, b)) return false;
+  if (a.checkNumber && b.checkNumber && a.checkNumber !== b.checkNumber) return false;
+  if (Math.abs(a.tx.amount - b.tx.amount) > NEAR_DUPLICATE_AMOUNT_RATIO * Math.max(a.tx.amount, b.tx.amount)) return false;
+  if (a.text !== b.text && similarity(a.words, b.words) < NEAR_DUPLICATE_SIMILARITY) return false;
+  if (a.day === b.day) return true;
+  // On consecutive days the same charge is usually nightly (room, taxes, resort fee).
+  const nightly = (line: Line) =>
+    recurring.has(line.text) || isInCategory(taxonomy, line.tx.category, Category.ROOM) || isInCategory(taxonomy, line.tx.category, Category.TAX);
+  return Math.abs(a.day - b.day) === 1 && !nightly(a) && !nightly(b);
+};
+
+/**
+ * Flags charges a guest is likely to dispute: exact and near duplicates, charges dated
+ * outside the stay, a service charge plus a tip on the same check, amounts far above
+ * the norm for their merchant, and discounts that were mentioned but never applied.
+ * Lines without an id cannot be linked and are skipped.
+ */
+export const detectAnomalies = (
+  transactions: Transaction[],
+  stay: Pick<AnalysisResult, 'checkIn' | 'checkOut'>,
+  taxonomy: CategoryDefinition[] = DEFAULT_TAXONOMY
+): Anomaly[] => {
+  const lines: Line[] = [];
+  transactions.forEach((tx, index) => {
+    if (!tx.id) return;
+    const text = normalize(tx.originalDescription || tx.cleanName);
+    const date = parseCanonicalDate(tx.date);
+    lines.push({
+      tx: tx as Line['tx'],
+      index,
+      day: date ? Math.round(date.getTime() / DAY_MS) : null,
+      text,
+      words: new Set(text.split(/[^a-z0-9]+/).filter(word => word.length >= 2 && !/^\d+$/.test(word))),
+      checkNumber: text.match(CHECK_NUMBER_PATTERN)?.[1]
+    });
+  });
+  const isCredit = (line: Line) => isInCategory(taxonomy, line.tx.category, Category.DISCOUNT);
+  const charges = lines.filter(line => line.tx.amount > 0 && !isCredit(line));
+
+  const found: { kind: AnomalyKind; lines: Line[] }[] = [];
+  const add = (kind: AnomalyKind, group: Line[]) => found.push({ kind, lines: group });
+
+  // Duplicates and near duplicates
+  const datesByText = new Map<string, Set<number | null>>();
+  charges.forEach(line => datesByText.set(line.text, (datesByText.get(line.text) ?? new Set()).add(line.day)));
+  const recurring = new Set([...datesByText].filter(([, dates]) => dates.size >= RECURRING_DATES).map(([text]) => text));
+  const duplicatePairs: [Line, Line][] = [];
+  const nearPairs: [Line, Line][] = [];
+  charges.forEach((a, i) => charges.slice(i + 1).forEach(b => {
+    if (isDuplicatePair(a, b)) duplicatePairs.push([a, b]);
+    else if (isNearDuplicatePair(a, b, recurring, taxonomy)) nearPairs.push([a, b]);
+  }));
+  groupPairs(duplicatePairs).forEach(group => add('duplicate', group));
+  groupPairs(nearPairs).forEach(group => add('near_duplicate', group));
+
+  // Charges outside check-in..check-out, when the stay dates make sense
+  const checkIn = parseCanonicalDate(stay.checkIn);
+  const checkOut = parseCanonicalDate(stay.checkOut);
+  const firstDay = checkIn ? Math.round(checkIn.getTime() / DAY_MS) : null;
+  const lastDay = checkOut ? Math.round(checkOut.getTime() / DAY_MS) : null;
+  if (firstDay === null || lastDay === null || firstDay <= lastDay) {
+    charges.forEach(line => {
+      if (line.day === null) return;
+      if ((firstDay !== null && line.day < firstDay) || (lastDay !== null && line.day > lastDay)) add('outside_stay', [line]);
+    });
+  }
+
+  // A service charge and a tip on the same check (or, without check numbers, the same day)
+  const byCheck = new Map<string, Line[]>();
+  charges.forEach(line => {
+    const key = line.checkNumber ? `check:${line.checkNumber}` : `day:${line.day}`;
+    byCheck.set(key, [...(byCheck.get(key) ?? []), line]);
+  });
+  byCheck.forEach(group => {
+    const service = group.filter(line => SERVICE_CHARGE_PATTERN.test(line.text));
+    const tips = group.filter(line => TIP_PATTERN.test(line.text) && !service.includes(line));
+    if (service.length > 0 && tips.length > 0) add('service_and_tip', [...service, ...tips].sort((a, b) => a.index - b.index));
+  });
+
+  // Amounts far above the rest of the same merchant's lines
+  const byMerchant = new Map<string, Line[]>();
+  charges.forEach(line => {
+    const merchant = normalize(line.tx.cleanName) || line.text;
+    byMerchant.set(merchant, [...(byMerchant.get(merchant) ?? []), line]);
+  });
+  byMerchant.forEach(group => {
+    if (group.length < UNUSUAL_MIN_LINES) return;
+    group.forEach(line => {
+      const norm = median(group.filter(other => other !== line).map(other => other.tx.amount));
+      if (line.tx.amount > UNUSUAL_FACTOR * norm) add('unusual_amount', [line]);
+    });
+  });
+
+  // Discount lines that took nothing off, and charges promising a discount with no credit that day
+  lines.forEach(line => {
+    if (isCredit(line) && line.tx.amount >= 0) add('discount_not_applied', [line]);
+  });
+  charges.forEach(line => {
+    if (!DISCOUNT_PATTERN.test(line.text)) return;
+    const credited = lines.some(other => other.tx.amount < 0 && other.day === line.day);
+    if (!credited) add('discount_not_applied', [line]);
+  });
+
+  return found
+    .sort((a, b) => KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) || a.lines[0].index - b.lines[0].index)
+    .map(({ kind, lines: group }) => {
+      const transactionIds = group.map(line => line.tx.id);
+      return { key: `${kind}:${transactionIds.join(',')}`, kind, transactionIds };
+    });
+};
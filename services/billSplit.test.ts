@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BillSplit, ConvertedTransaction } from '../types';
+import { settleBill } from './billSplit';
+
+const line = (id: string, amount: number) =>
+  ({ id, date: '01/01/2024', originalDescription: 'Spa', cleanName: 'Spa', amount, convertedAmount: amount, currency: 'MXN', category: 'other', rate: null }) as ConvertedTransaction;
+
+const stay = { checkIn: '01/01/2024', checkOut: '03/01/2024' };
+
+const splitWith = (shares: Record<string, number>): BillSplit => ({
+  participants: [{ id: 'ana', name: 'Ana' }, { id: 'luis', name: 'Luis' }],
+  allocations: { a: { mode: 'percent', shares } },
+  roomBasis: 'nights'
+});
+
+test('percentages that add up to 100 divide the line', () => {
+  const settlement = settleBill([line('a', 200)], splitWith({ ana: 75, luis: 25 }), stay);
+  assert.deepEqual(settlement.participants.map(row => row.total), [150, 50]);
+  assert.deepEqual(settlement.invalidIds, []);
+});
+
+test('percentages that do not add up to 100 leave the line unassigned', () => {
+  const settlement = settleBill([line('a', 200)], splitWith({ ana: 60, luis: 60 }), stay);
+  assert.deepEqual(settlement.participants.map(row => row.total), [0, 0]);
+  assert.equal(settlement.unassigned, 200);
+  assert.deepEqual(settlement.invalidIds, ['a']);
+});
@@ -0,0 +1,161 @@
+import {
+  Allocation, AnalysisResult, BillSplit, Category, CategoryDefinition, ConvertedTransaction, Currency, Language,
+  Participant, ParticipantSettlement, Settlement
+} from "../types";
+import { TRANSLATIONS } from "../constants";
+import { parseCanonicalDate } from "./analysisValidator";
+import { csvCell } from "./exporters";
+import { DEFAULT_TAXONOMY, isInCategory } from "./taxonomy";
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const EMPTY_BILL_SPLIT: BillSplit = { participants: [], allocations: {}, roomBasis: 'nights' };
+
+export const createParticipant = (name = ''): Participant => ({
+  id: `participant-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  name
+});
+
+/**
+ * Divides `amount` in proportion to `weights`, working in cents and giving the leftover
+ * cents to the largest remainders, so the parts always add up to the amount.
+ */
+export const divideAmount = (amount: number, weights: number[]): number[] => {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (totalWeight <= 0) return weights.map(() => 0);
+  const cents = Math.round(amount * 100);
+  const exact = weights.map(weight => (cents * weight) / totalWeight);
+  const parts = exact.map(Math.floor);
+  const leftover = cents - parts.reduce((sum, part) => sum + part, 0);
+  exact
+    .map((value, index) => ({ index, remainder: value - parts[index] }))
+    .sort((a, b) => b.remainder - a.remainder)
+    .slice(0, leftover)
+    .forEach(({ index }) => parts[index]++);
+  return parts.map(part => part / 100);
+};
+
+const allocationPercentTotal = (allocation: Allocation) =>
+  allocation.mode === 'percent' ? Object.values(allocation.shares).reduce((sum, share) => sum + share, 0) : 100;
+
+// Percentages that do not add up to 100 would hand out more or less than the line.
+export const isAllocationValid = (allocation: Allocation) => Math.abs(allocationPercentTotal(allocation) - 100) <= 0.005;
+
+export const stayNights = (stay: Pick<AnalysisResult, 'checkIn' | 'checkOut'>) => {
+  const checkIn = parseCanonicalDate(stay.checkIn);
+  const checkOut = parseCanonicalDate(stay.checkOut);
+  if (!checkIn || !checkOut) return 1;
+  return Math.max(1, Math.round((checkOut.getTime() - checkIn.getTime()) / (24 * 60 * 60 * 1000)));
+};
+
+// Each participant's weight in an allocation; participants it does not name weigh nothing.
+const allocationWeights = (allocation: Allocation, participants: Participant[]) => participants.map(participant => {
+  switch (allocation.mode) {
+    case 'whole':
+      return allocation.participantId === participant.id ? 1 : 0;
+    case 'equal':
+      return allocation.participantIds.includes(participant.id) ? 1 : 0;
+    case 'percent':
+      return Math.max(0, allocation.shares[participant.id] ?? 0);
+  }
+});
+
+/**
+ * Each participant's share of the folio. Lines follow their allocation; room and tax lines
+ * without one are shared by nights stayed or equally, and any other line without one, or
+ * with percentages that do not add up to 100, is left unassigned. Amounts are the converted ones.
+ */
+export const settleBill = (
+  transactions: ConvertedTransaction[],
+  split: BillSplit,
+  stay: Pick<AnalysisResult, 'checkIn' | 'checkOut'>,
+  taxonomy: CategoryDefinition[] = DEFAULT_TAXONOMY
+): Settlement => {
+  const { participants } = split;
+  const nights = stayNights(stay);
+  const rows: ParticipantSettlement[] = participants.map(participant => ({ participant, room: 0, taxes: 0, other: 0, total: 0, lines: [] }));
+  const unassignedIds: string[] = [];
+  const invalidIds: string[] = [];
+  let unassigned = 0;
+
+  transactions.forEach(tx => {
+    if (!tx.id) return;
+    const isRoom = isInCategory(taxonomy, tx.category, Category.ROOM);
+    const isTax = isInCategory(taxonomy, tx.category, Category.TAX);
+    const allocation = split.allocations[tx.id];
+    const valid = !allocation || isAllocationValid(allocation);
+    if (!valid) invalidIds.push(tx.id);
+    let weights = allocation && valid ? allocationWeights(allocation, participants) : null;
+    if (!allocation && (isRoom || isTax) && participants.length > 0) {
+      weights = participants.map(participant => (split.roomBasis === 'equal' ? 1 : Math.max(0, participant.nights ?? nights)));
+    }
+    if (!weights || weights.every(weight => weight === 0)) {
+      unassigned += tx.convertedAmount;
+      unassignedIds.push(tx.id);
+      return;
+    }
+    divideAmount(tx.convertedAmount, weights).forEach((amount, index) => {
+      if (weights![index] === 0) return;
+      const row = rows[index];
+      if (isRoom) row.room += amount;
+      else if (isTax) row.taxes += amount;
+      else row.other += amount;
+      row.total += amount;
+      row.lines.push({ id: tx.id!, amount });
+    });
+  });
+
+  return {
+    participants: rows.map(row => ({ ...row, room: round2(row.room), taxes: round2(row.taxes), other: round2(row.other), total: round2(row.total) })),
+    unassigned: round2(unassigned),
+    unassignedIds,
+    invalidIds,
+    total: round2(transactions.reduce((sum, tx) => sum + tx.convertedAmount, 0))
+  };
+};
+
+export const setAllocation = (split: BillSplit, id: string, allocation: Allocation | null): BillSplit => {
+  const allocations = { ...split.allocations };
+  if (allocation) allocations[id] = allocation;
+  else delete allocations[id];
+  return { ...split, allocations };
+};
+
+// Drops a participant and their part of every allocation; allocations left naming nobody are removed.
+export const removeParticipant = (split: BillSplit, participantId: string): BillSplit => {
+  const allocations: Record<string, Allocation> = {};
+  Object.entries(split.allocations).forEach(([id, allocation]) => {
+    if (allocation.mode === 'whole') {
+      if (allocation.participantId !== participantId) allocations[id] = allocation;
+    } else if (allocation.mode === 'equal') {
+      const participantIds = allocation.participantIds.filter(other => other !== participantId);
+      if (participantIds.length > 0) allocations[id] = { mode: 'equal', participantIds };
+    } else {
+      const { [participantId]: _removed, ...shares } = allocation.shares;
+      if (Object.keys(shares).length > 0) allocations[id] = { mode: 'percent', shares };
+    }
+  });
+  return { ...split, participants: split.participants.filter(participant => participant.id !== participantId), allocations };
+};
+
+// The settlement on its own: a summary per participant, then the lines behind each share.
+export const settlementToCsv = (settlement: Settlement, transactions: ConvertedTransaction[], currency: Currency, language: Language) => {
+  const t = TRANSLATIONS[language];
+  const byId = new Map(transactions.map(tx => [tx.id, tx]));
+  const summary = [
+    [t.participantsTitle, t.roomRate, t.taxesLabel, t.otherCharges, t.settlementTotal, t.currencyColumn].join(','),
+    ...settlement.participants.map(row =>
+      [csvCell(row.participant.name), row.room.toFixed(2), row.taxes.toFixed(2), row.other.toFixed(2), row.total.toFixed(2), currency].join(',')
+    ),
+    ...(settlement.unassigned !== 0 ? [[csvCell(t.unassignedLabel), '', '', '', settlement.unassigned.toFixed(2), currency].join(',')] : []),
+    [csvCell(t.settlementTotal), '', '', '', settlement.total.toFixed(2), currency].join(',')
+  ];
+  const detail = [
+    [t.participantsTitle, t.date, t.cleanName, t.amount, t.currencyColumn].join(','),
+    ...settlement.participants.flatMap(row => row.lines.map(line => {
+      const tx = byId.get(line.id);
+      return [csvCell(row.participant.name), tx?.date ?? '', csvCell(tx?.cleanName ?? ''), line.amount.toFixed(2), currency].join(',');
+    }))
+  ];
+  return "\uFEFF" + [...summary, '', ...detail].join('\n');
+};
@@ -0,0 +1,124 @@
+import { AnalysisResult, Category, CategoryDefinition, CategoryRule, Transaction } from "../types";
+import { coerceCategory, coerceNumber } from "./analysisValidator";
+import { DEFAULT_TAXONOMY } from "./taxonomy";
+
+const RULES_STORAGE_KEY = 'vidanta.categoryRules';
+
+export class RulesImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RulesImportError';
+  }
+}
+
+export const createRule = (): CategoryRule => ({
+  id: `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  name: '',
+  enabled: true,
+  field: 'any',
+  contains: '',
+  category: Category.OTHER
+});
+
+// Null when the rule has no pattern or the pattern is valid; the error message otherwise.
+export const patternError = (rule: CategoryRule): string | null => {
+  if (!rule.pattern) return null;
+  try {
+    new RegExp(rule.pattern, 'i');
+    return null;
+  } catch (err) {
+    return (err as Error).message;
+  }
+};
+
+export const matchesRule = (tx: Transaction, rule: CategoryRule): boolean => {
+  const texts = rule.field === 'any' ? [tx.originalDescription, tx.cleanName] : [tx[rule.field]];
+
+  if (rule.contains) {
+    const needle = rule.contains.toLowerCase();
+    if (!texts.some(text => text.toLowerCase().includes(needle))) return false;
+  }
+  if (rule.pattern) {
+    if (patternError(rule)) return false;
+    const regex = new RegExp(rule.pattern, 'i');
+    if (!texts.some(text => regex.test(text))) return false;
+  }
+  if (rule.minAmount !== undefined && tx.amount < rule.minAmount) return false;
+  if (rule.maxAmount !== undefined && tx.amount > rule.maxAmount) return false;
+  if (rule.sign === 'positive' && tx.amount <= 0) return false;
+  if (rule.sign === 'negative' && tx.amount >= 0) return false;
+
+  // A rule without any condition would recategorize everything.
+  return Boolean(rule.contains || rule.pattern || rule.minAmount !== undefined || rule.maxAmount !== undefined || rule.sign);
+};
+
+/**
+ * Applies the rules on top of the extracted categories. Categories the user set by hand are
+ * left alone; every other line gets the first matching enabled rule's category, or keeps
+ * the model's. The input is not mutated, so rules can be re-run whenever they change.
+ */
+export const applyCategoryRules = (result: AnalysisResult, rules: CategoryRule[]): AnalysisResult => {
+  const active = rules.filter(rule => rule.enabled);
+  if (active.length === 0) return result;
+
+  return {
+    ...result,
+    transactions: result.transactions.map(tx => {
+      if (tx.categorySource === 'user') return tx;
+      const rule = active.find(r => matchesRule(tx, r));
+      return rule ? { ...tx, category: rule.category, categorySource: 'rule', categoryRuleId: rule.id } : tx;
+    })
+  };
+};
+
+const optionalNumber = (raw: unknown) => (raw === undefined || raw === null || raw === '' ? undefined : coerceNumber(raw) ?? undefined);
+
+// Accepts an exported rules file (a bare array or { rules: [...] }) and rejects anything
+// that is not a usable rule rather than importing it half-way.
+export const parseRulesJson = (text: string, taxonomy: CategoryDefinition[] = DEFAULT_TAXONOMY): CategoryRule[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new RulesImportError('File is not valid JSON.');
+  }
+  const list = Array.isArray(parsed) ? parsed : (parsed as { rules?: unknown })?.rules;
+  if (!Array.isArray(list)) throw new RulesImportError('Expected an array of rules.');
+
+  return list.map((entry, index) => {
+    const raw = (entry ?? {}) as Record<string, unknown>;
+    const defaults = createRule();
+    const category = coerceCategory(raw.category, taxonomy);
+    if (!category) throw new RulesImportError(`Rule ${index + 1} has an unknown category.`);
+    const rule: CategoryRule = {
+      id: typeof raw.id === 'string' && raw.id ? raw.id : defaults.id,
+      name: typeof raw.name === 'string' ? raw.name : '',
+      enabled: raw.enabled !== false,
+      field: raw.field === 'originalDescription' || raw.field === 'cleanName' ? raw.field : 'any',
+      contains: typeof raw.contains === 'string' ? raw.contains : undefined,
+      pattern: typeof raw.pattern === 'string' ? raw.pattern : undefined,
+      minAmount: optionalNumber(raw.minAmount),
+      maxAmount: optionalNumber(raw.maxAmount),
+      sign: raw.sign === 'positive' || raw.sign === 'negative' ? raw.sign : undefined,
+      category
+    };
+    if (patternError(rule)) throw new RulesImportError(`Rule ${index + 1} has an invalid pattern.`);
+    return rule;
+  });
+};
+
+export const serializeRules = (rules: CategoryRule[]) => JSON.stringify({ version: 1, rules }, null, 2);
+
+export const loadRules = (taxonomy: CategoryDefinition[] = DEFAULT_TAXONOMY): CategoryRule[] => {
+  try {
+    const stored = localStorage.getItem(RULES_STORAGE_KEY);
+    return stored ? parseRulesJson(stored, taxonomy) : [];
+  } catch (err) {
+    console.warn('Ignoring stored category rules:', err);
+    return [];
+  }
+};
+
+export const saveRules = (rules: CategoryRule[]) => {
+  localStorage.setItem(RULES_STORAGE_KEY, serializeRules(rules));
+};
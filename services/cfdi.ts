@@ -0,0 +1,248 @@
+import {
+  AnalysisResult, Category, CategoryDefinition, Cfdi, CfdiConcept, CfdiConceptMatch, CfdiCrossCheck, CfdiFinding, CfdiParseFailure, CfdiParty,
+  CfdiTax, TaxKind, TaxScope, Transaction
+} from "../types";
+import { coerceCurrency } from "./analysisValidator";
+import { isTipLine } from "./anomalies";
+import { TOTAL_TOLERANCE } from "./reconciliation";
+import { chargeScopeOf, scopeHintOfText, taxKindOfText } from "./mexicanTaxes";
+import { DEFAULT_TAXONOMY, isInCategory } from "./taxonomy";
+
+export class CfdiParseError extends Error {
+  reason: CfdiParseFailure;
+
+  constructor(reason: CfdiParseFailure) {
+    super(`CFDI could not be read: ${reason}`);
+    this.name = 'CfdiParseError';
+    this.reason = reason;
+  }
+}
+
+// SAT tax codes: 001 ISR, 002 IVA, 003 IEPS.
+const SAT_IVA = '002';
+
+// Persons: 4 letters, companies: 3; then the date of birth or incorporation and a 3-character check.
+const RFC_PATTERN = /^[A-ZÑ&]{3,4}\d{6}[A-Z\d]{3}$/;
+// Public-in-general and foreign receivers; such invoices cannot be deducted.
+const GENERIC_RFCS = new Set(['XAXX010101000', 'XEXX010101000']);
+
+// ClaveProdServ families: 9011 hotels and lodging, 9010 restaurants and catering, 50 food and beverage products.
+const PRODUCT_CODE_SCOPES: [RegExp, TaxScope][] = [[/^9011/, 'room'], [/^9010/, 'food_beverage'], [/^50/, 'food_beverage']];
+
+const PAYMENT_PATTERN = /\b(pago|payment|abono|dep[oó]sito|deposit|anticipo|tarjeta|card)\b/i;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// Elements are matched by local name, so any namespace prefix (cfdi:, implocal:, tfd:) works.
+const childrenNamed = (element: Element, name: string) => Array.from(element.children).filter(child => child.localName === name);
+const firstNamed = (element: Element, name: string) => childrenNamed(element, name)[0] ?? null;
+const descendantsNamed = (element: Element, name: string) => Array.from(element.getElementsByTagNameNS('*', name));
+
+const attr = (element: Element | null, name: string) => element?.getAttribute(name)?.trim() ?? '';
+const numberAttr = (element: Element | null, name: string): number | null => {
+  const value = attr(element, name);
+  if (!value) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const federalTax = (traslado: Element): CfdiTax => {
+  const rate = numberAttr(traslado, 'TasaOCuota');
+  return {
+    kind: attr(traslado, 'Impuesto') === SAT_IVA ? 'iva' : 'other',
+    base: numberAttr(traslado, 'Base'),
+    rate: rate === null ? null : round2(rate * 100),
+    amount: numberAttr(traslado, 'Importe') ?? 0 // Exempt lines carry no amount
+  };
+};
+
+// The implocal complement, where states' taxes such as ISH are declared.
+const localTaxes = (root: Element): CfdiTax[] =>
+  descendantsNamed(root, 'TrasladosLocales').map(traslado => ({
+    kind: taxKindOfText(attr(traslado, 'ImpLocTrasladado')) === 'ish' ? 'ish' : 'other',
+    base: null,
+    rate: numberAttr(traslado, 'TasadeTraslado'),
+    amount: numberAttr(traslado, 'Importe') ?? 0
+  }));
+
+const party = (element: Element | null, role: 'issuer' | 'receiver'): CfdiParty => ({
+  rfc: attr(element, 'Rfc').toUpperCase(),
+  name: attr(element, 'Nombre'),
+  taxRegime: attr(element, role === 'issuer' ? 'RegimenFiscal' : 'RegimenFiscalReceptor'),
+  ...(role === 'receiver' ? { cfdiUse: attr(element, 'UsoCFDI'), postalCode: attr(element, 'DomicilioFiscalReceptor') } : {})
+});
+
+const canonicalDate = (iso: string) => {
+  const match = iso.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  return match ? `${match[3]}/${match[2]}/${match[1]}` : '';
+};
+
+/**
+ * Reads a CFDI 3.3 or 4.0 XML: header, issuer and receiver, concepts with their taxes, and
+ * the invoice's tax totals including local taxes. Needs a DOM (browser) for DOMParser.
+ */
+export const parseCfdi = (xml: string): Cfdi => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new CfdiParseError('invalid_xml');
+  const root = doc.documentElement;
+  if (root.localName !== 'Comprobante') throw new CfdiParseError('not_cfdi');
+  const total = numberAttr(root, 'Total');
+  if (total === null) throw new CfdiParseError('missing_total');
+
+  const concepts: CfdiConcept[] = descendantsNamed(root, 'Concepto').map(concept => ({
+    productCode: attr(concept, 'ClaveProdServ'),
+    description: attr(concept, 'Descripcion'),
+    quantity: numberAttr(concept, 'Cantidad') ?? 1,
+    unitValue: numberAttr(concept, 'ValorUnitario') ?? 0,
+    amount: numberAttr(concept, 'Importe') ?? 0,
+    discount: numberAttr(concept, 'Descuento') ?? 0,
+    identification: attr(concept, 'NoIdentificacion') || undefined,
+    taxes: descendantsNamed(concept, 'Traslado').map(federalTax)
+  }));
+
+  // Invoice-level totals sit in the Impuestos element directly under Comprobante.
+  const totals = firstNamed(root, 'Impuestos');
+  const federal = totals ? descendantsNamed(totals, 'Traslado').map(federalTax) : concepts.flatMap(concept => concept.taxes);
+
+  const addenda = firstNamed(root, 'Addenda');
+  const addendaValues = addenda
+    ? [addenda.textContent ?? '', ...Array.from(addenda.getElementsByTagName('*')).flatMap(element => Array.from(element.attributes).filter(a => !a.name.startsWith('xmlns')).map(a => a.value))]
+    : [];
+
+  return {
+    version: attr(root, 'Version') || attr(root, 'version'),
+    uuid: attr(descendantsNamed(root, 'TimbreFiscalDigital')[0] ?? null, 'UUID') || null,
+    series: attr(root, 'Serie'),
+    folio: attr(root, 'Folio'),
+    date: canonicalDate(attr(root, 'Fecha')),
+    currency: attr(root, 'Moneda').toUpperCase(),
+    exchangeRate: numberAttr(root, 'TipoCambio'),
+    subtotal: numberAttr(root, 'SubTotal') ?? 0,
+    discount: numberAttr(root, 'Descuento') ?? 0,
+    total,
+    issuer: party(firstNamed(root, 'Emisor'), 'issuer'),
+    receiver: party(firstNamed(root, 'Receptor'), 'receiver'),
+    concepts,
+    taxes: [...federal, ...localTaxes(root)],
+    references: [
+      ...concepts.flatMap(concept => [concept.identification ?? '', concept.description]),
+      ...addendaValues
+    ].map(value => value.trim()).filter(Boolean)
+  };
+};
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+const isArrayOf = <T>(value: unknown, check: (item: unknown) => item is T): value is T[] => Array.isArray(value) && value.every(check);
+
+const isParty = (value: unknown): value is CfdiParty =>
+  isObject(value) && isString(value.rfc) && isString(value.name) && isString(value.taxRegime)
+  && (value.cfdiUse === undefined || isString(value.cfdiUse))
+  && (value.postalCode === undefined || isString(value.postalCode));
+
+const isTax = (value: unknown): value is CfdiTax =>
+  isObject(value) && (value.kind === 'iva' || value.kind === 'ish' || value.kind === 'other') && isNumber(value.amount)
+  && (value.base === null || isNumber(value.base)) && (value.rate === null || isNumber(value.rate));
+
+const isConcept = (value: unknown): value is CfdiConcept =>
+  isObject(value) && isString(value.productCode) && isString(value.description)
+  && isNumber(value.quantity) && isNumber(value.unitValue) && isNumber(value.amount) && isNumber(value.discount)
+  && (value.identification === undefined || isString(value.identification))
+  && isArrayOf(value.taxes, isTax);
+
+/** Checks a CFDI read back from a saved analysis, since the cross-check and panel use it as is. */
+export const isCfdi = (value: unknown): value is Cfdi =>
+  isObject(value) && isString(value.version) && (value.uuid === null || isString(value.uuid))
+  && isString(value.series) && isString(value.folio) && isString(value.date) && isString(value.currency)
+  && (value.exchangeRate === null || isNumber(value.exchangeRate))
+  && isNumber(value.subtotal) && isNumber(value.discount) && isNumber(value.total)
+  && isParty(value.issuer) && isParty(value.receiver)
+  && isArrayOf(value.concepts, isConcept) && isArrayOf(value.taxes, isTax) && isArrayOf(value.references, isString);
+
+const compact = (text: string) => text.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const conceptScope = (concept: CfdiConcept): TaxScope | null =>
+  PRODUCT_CODE_SCOPES.find(([pattern]) => pattern.test(concept.productCode))?.[1] ?? scopeHintOfText(concept.description);
+
+const taxTotal = (taxes: CfdiTax[], kind: TaxKind) => round2(taxes.filter(tax => tax.kind === kind).reduce((sum, tax) => sum + tax.amount, 0));
+
+const sumAmounts = (lines: Transaction[]) => round2(lines.reduce((sum, tx) => sum + tx.amount, 0));
+
+/**
+ * Compares an invoice with the folio it should cover. Amounts are compared in the folio's own
+ * currency, so an invoice in another currency is only checked for identity and RFCs. Each
+ * concept is matched to one charge of the same amount, or else to all the remaining charges
+ * of its scope (room, F&B...) when they add up to it. Tips and payments are not invoiced.
+ */
+export const crossCheckCfdi = (
+  cfdi: Cfdi,
+  result: AnalysisResult,
+  taxonomy: CategoryDefinition[] = DEFAULT_TAXONOMY
+): CfdiCrossCheck => {
+  const findings: CfdiFinding[] = [];
+  const near = (a: number, b: number) => Math.abs(a - b) <= TOTAL_TOLERANCE;
+
+  const confirmation = compact(result.confirmationNumber);
+  const confirmationMatched = confirmation
+    ? [`${cfdi.series}${cfdi.folio}`, cfdi.folio, ...cfdi.references].some(reference => compact(reference).includes(confirmation))
+    : null;
+  if (confirmationMatched === false) {
+    findings.push({ key: 'confirmation_not_found', kind: 'confirmation_not_found', detail: result.confirmationNumber, transactionIds: [] });
+  }
+
+  [cfdi.issuer.rfc, cfdi.receiver.rfc].forEach(rfc => {
+    if (!RFC_PATTERN.test(rfc)) findings.push({ key: `invalid_rfc:${rfc}`, kind: 'invalid_rfc', detail: rfc, transactionIds: [] });
+  });
+  if (GENERIC_RFCS.has(cfdi.receiver.rfc)) {
+    findings.push({ key: 'generic_receiver', kind: 'generic_receiver', detail: cfdi.receiver.rfc, transactionIds: [] });
+  }
+
+  const lines = result.transactions.filter(tx => tx.id);
+  const taxLines = lines.filter(tx => isInCategory(taxonomy, tx.category, Category.TAX));
+  const charges = lines.filter(tx =>
+    !isInCategory(taxonomy, tx.category, Category.TAX) && !isTipLine(tx) && !(tx.amount < 0 && PAYMENT_PATTERN.test(tx.originalDescription))
+  );
+  const folioTotal = sumAmounts([...charges, ...taxLines]);
+
+  const folioCurrency = coerceCurrency(result.detectedCurrency);
+  const cfdiCurrency = coerceCurrency(cfdi.currency);
+  if (folioCurrency && cfdiCurrency && folioCurrency !== cfdiCurrency) {
+    findings.push({ key: 'currency_mismatch', kind: 'currency_mismatch', detail: `${cfdi.currency} / ${folioCurrency}`, transactionIds: [] });
+    return { confirmationMatched, folioTotal, concepts: cfdi.concepts.map((_, conceptIndex) => ({ conceptIndex, transactionIds: [] })), findings };
+  }
+
+  if (!near(folioTotal, cfdi.total)) {
+    findings.push({ key: 'total_mismatch', kind: 'total_mismatch', expected: folioTotal, actual: cfdi.total, transactionIds: [] });
+  }
+
+  (['iva', 'ish'] as const).forEach(kind => {
+    const folioLines = taxLines.filter(tx => taxKindOfText(`${tx.originalDescription} ${tx.cleanName}`) === kind);
+    const charged = sumAmounts(folioLines);
+    const invoiced = taxTotal(cfdi.taxes, kind);
+    if (!near(charged, invoiced)) {
+      findings.push({ key: `tax_mismatch:${kind}`, kind: 'tax_mismatch', detail: kind.toUpperCase(), expected: charged, actual: invoiced, transactionIds: folioLines.map(tx => tx.id!) });
+    }
+  });
+
+  const claimed = new Set<string>();
+  const concepts: CfdiConceptMatch[] = cfdi.concepts.map((concept, conceptIndex) => {
+    const net = round2(concept.amount - concept.discount);
+    const scope = conceptScope(concept);
+    const open = charges.filter(tx => !claimed.has(tx.id!) && (!scope || chargeScopeOf(tx, taxonomy) === scope));
+    const single = open.find(tx => near(tx.amount, net));
+    const matched = single ? [single] : scope && open.length > 0 && near(sumAmounts(open), net) ? open : [];
+    matched.forEach(tx => claimed.add(tx.id!));
+    if (matched.length === 0) {
+      findings.push({ key: `concept_unmatched:${conceptIndex}`, kind: 'concept_unmatched', detail: concept.description, actual: net, transactionIds: [] });
+    }
+    return { conceptIndex, transactionIds: matched.map(tx => tx.id!) };
+  });
+
+  const notInvoiced = charges.filter(tx => !claimed.has(tx.id!) && tx.amount > 0);
+  if (notInvoiced.length > 0) {
+    findings.push({ key: 'charges_not_invoiced', kind: 'charges_not_invoiced', expected: sumAmounts(notInvoiced), transactionIds: notInvoiced.map(tx => tx.id!) });
+  }
+
+  return { confirmationMatched, folioTotal, concepts, findings };
+};
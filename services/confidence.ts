@@ -0,0 +1,99 @@
+import { AnalysisResult, Category, CategoryDefinition, ConfidenceReason, HeaderField, ReviewItem, Transaction } from "../types";
+import { LOW_CONFIDENCE_THRESHOLD } from "../constants";
+import { parseCanonicalDate } from "./analysisValidator";
+import { DEFAULT_TAXONOMY, isInCategory } from "./taxonomy";
+
+// Fields checked for review, in the order the queue shows them.
+const REVIEWED_HEADER_FIELDS: HeaderField[] = ['hotelName', 'guestName', 'roomNumber', 'checkIn', 'checkOut', 'confirmationNumber', 'detectedCurrency'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Deposits are often posted the day before arrival and late charges the day after departure.
+const STAY_TOLERANCE_DAYS = 1;
+
+// Highest confidence a field or line can keep once a cross-check fails.
+const CHECK_CEILINGS: Record<Exclude<ConfidenceReason, 'model_uncertain'>, number> = {
+  missing_value: 0.2,
+  stay_dates_reversed: 0.4,
+  sign_mismatch: 0.4,
+  outside_stay: 0.5,
+  zero_amount: 0.6
+};
+
+interface Assessment {
+  confidence: number;
+  reasons: ConfidenceReason[];
+}
+
+/**
+ * Combines the model's own confidence (1 when the backend gives none) with the ceilings of
+ * the cross-checks that failed; the lowest wins.
+ */
+const combine = (modelConfidence: number | undefined, failedChecks: Exclude<ConfidenceReason, 'model_uncertain'>[]): Assessment => {
+  const model = modelConfidence ?? 1;
+  const reasons: ConfidenceReason[] = model < LOW_CONFIDENCE_THRESHOLD ? ['model_uncertain', ...failedChecks] : [...failedChecks];
+  return { confidence: Math.min(model, ...failedChecks.map(check => CHECK_CEILINGS[check])), reasons };
+};
+
+const stayOf = (result: AnalysisResult) => {
+  const checkIn = parseCanonicalDate(result.checkIn);
+  const checkOut = parseCanonicalDate(result.checkOut);
+  return { checkIn, checkOut, reversed: !!checkIn && !!checkOut && checkOut.getTime() < checkIn.getTime() };
+};
+
+export const assessHeaderField = (result: AnalysisResult, field: HeaderField): Assessment => {
+  const failed: Exclude<ConfidenceReason, 'model_uncertain'>[] = [];
+  if (!String(result[field] ?? '').trim()) failed.push('missing_value');
+  if ((field === 'checkIn' || field === 'checkOut') && stayOf(result).reversed) failed.push('stay_dates_reversed');
+  return combine(result.fieldConfidence?.[field], failed);
+};
+
+export const assessTransaction = (
+  result: AnalysisResult,
+  tx: Transaction,
+  taxonomy: CategoryDefinition[] = DEFAULT_TAXONOMY
+): Assessment => {
+  const failed: Exclude<ConfidenceReason, 'model_uncertain'>[] = [];
+  const date = parseCanonicalDate(tx.date);
+  if (!date) {
+    failed.push('missing_value');
+  } else {
+    const { checkIn, checkOut, reversed } = stayOf(result);
+    const tolerance = STAY_TOLERANCE_DAYS * DAY_MS;
+    if (!reversed && ((checkIn && date.getTime() < checkIn.getTime() - tolerance) || (checkOut && date.getTime() > checkOut.getTime() + tolerance))) {
+      failed.push('outside_stay');
+    }
+  }
+  // Credits belong to the discount category and nothing else is negative.
+  const isCredit = isInCategory(taxonomy, tx.category, Category.DISCOUNT);
+  if ((isCredit && tx.amount > 0) || (!isCredit && tx.amount < 0)) failed.push('sign_mismatch');
+  if (tx.amount === 0) failed.push('zero_amount');
+  return combine(tx.confidence, failed);
+};
+
+/**
+ * Header fields and lines whose confidence is below the threshold and that nobody has
+ * approved yet. Lines a user edited count as reviewed.
+ */
+export const buildReviewQueue = (
+  result: AnalysisResult,
+  taxonomy: CategoryDefinition[] = DEFAULT_TAXONOMY,
+  threshold: number = LOW_CONFIDENCE_THRESHOLD
+): ReviewItem[] => {
+  const approved = new Set(result.reviewedFields ?? []);
+  const header: ReviewItem[] = REVIEWED_HEADER_FIELDS
+    .filter(field => !approved.has(field))
+    .map(field => ({ key: `header:${field}`, target: { kind: 'header' as const, field }, ...assessHeaderField(result, field) }));
+  const lines: ReviewItem[] = result.transactions
+    .filter(tx => tx.id && !tx.reviewed && !tx.edit)
+    .map(tx => ({ key: `tx:${tx.id}`, target: { kind: 'transaction' as const, id: tx.id! }, ...assessTransaction(result, tx, taxonomy) }));
+  return [...header, ...lines].filter(item => item.confidence < threshold);
+};
+
+// Marks an item as checked by a user; it leaves the queue but keeps its values.
+export const approveReviewItem = (result: AnalysisResult, item: ReviewItem): AnalysisResult => {
+  const { target } = item;
+  if (target.kind === 'header') {
+    return { ...result, reviewedFields: [...new Set([...(result.reviewedFields ?? []), target.field])] };
+  }
+  return { ...result, transactions: result.transactions.map(tx => (tx.id === target.id ? { ...tx, reviewed: true } : tx)) };
+};
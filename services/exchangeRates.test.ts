@@ -0,0 +1,12 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Currency, RateSource } from '../types';
+import { createHistoricalRateProvider, createManualRateProvider } from './exchangeRates';
+
+test('same-currency requests get the identity source from every provider', () => {
+  const historical = createHistoricalRateProvider({ base: Currency.MXN, rates: { '2024-01-01': { [Currency.USD]: 17 } } });
+  const identity = { from: Currency.USD, to: Currency.USD, rate: 1, source: RateSource.IDENTITY };
+  assert.deepEqual(historical.getRate(Currency.USD, Currency.USD, '01/01/2024'), identity);
+  assert.deepEqual(createManualRateProvider().getRate(Currency.USD, Currency.USD), identity);
+  assert.equal(historical.getRate(Currency.USD, Currency.MXN, '02/01/2024')?.source, RateSource.HISTORICAL);
+});
@@ -0,0 +1,113 @@
+import { Currency, ExchangeRate, RateOverride, RateProvider, RateSource } from "../types";
+import { HISTORICAL_RATES_URL, MANUAL_EXCHANGE_RATES } from "../constants";
+import { coerceCurrency, formatCanonicalDate, normalizeDate, parseCanonicalDate } from "./analysisValidator";
+
+const OVERRIDES_STORAGE_KEY = 'vidanta.rateOverrides';
+
+// A historical rate older than this (weekends, holidays) is still used; beyond it the
+// table has a gap and the next provider is asked instead.
+const MAX_HISTORICAL_AGE_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Every provider answers a same-currency request the same way, without a table or a date.
+const identity = (currency: Currency): ExchangeRate => ({ from: currency, to: currency, rate: 1, source: RateSource.IDENTITY });
+
+// Cross rate through a table that prices every currency in the same base.
+const crossRate = (table: Partial<Record<Currency, number>>, from: Currency, to: Currency) => {
+  const fromValue = table[from];
+  const toValue = table[to];
+  return fromValue && toValue ? fromValue / toValue : null;
+};
+
+export const createManualRateProvider = (table: Record<Currency, number> = MANUAL_EXCHANGE_RATES): RateProvider => ({
+  source: RateSource.MANUAL,
+  getRate: (from, to) => {
+    if (from === to) return identity(from);
+    const rate = crossRate(table, from, to);
+    return rate === null ? null : { from, to, rate, source: RateSource.MANUAL };
+  }
+});
+
+// Shape of public/rates/historical.json: for each day, units of `base` per unit of each currency.
+export interface HistoricalRatesFile {
+  base: Currency;
+  rates: Record<string, Partial<Record<Currency, number>>>;
+}
+
+/**
+ * Answers with the most recent published rate on or before the transaction date. Dates
+ * outside the file (or too far past its last entry) return null.
+ */
+export const createHistoricalRateProvider = (file: HistoricalRatesFile): RateProvider => {
+  const days = Object.entries(file.rates)
+    .map(([day, table]) => {
+      const date = normalizeDate(day);
+      return { time: date ? parseCanonicalDate(date)!.getTime() : NaN, table: { ...table, [file.base]: 1 } };
+    })
+    .filter(day => !Number.isNaN(day.time))
+    .sort((a, b) => a.time - b.time);
+
+  return {
+    source: RateSource.HISTORICAL,
+    getRate: (from, to, date) => {
+      if (from === to) return identity(from);
+      const txDate = date ? parseCanonicalDate(date) : null;
+      if (!txDate) return null;
+      const time = txDate.getTime();
+      const day = [...days].reverse().find(d => d.time <= time);
+      if (!day || time - day.time > MAX_HISTORICAL_AGE_DAYS * DAY_MS) return null;
+      const rate = crossRate(day.table, from, to);
+      return rate === null ? null : { from, to, rate, source: RateSource.HISTORICAL, date: formatCanonicalDate(new Date(day.time)) };
+    }
+  };
+};
+
+export const fetchHistoricalRates = async (url: string = HISTORICAL_RATES_URL): Promise<HistoricalRatesFile | null> => {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const file = await response.json();
+    return file && file.base && file.rates ? file : null;
+  } catch (err) {
+    console.warn('Historical exchange rates unavailable:', err);
+    return null;
+  }
+};
+
+// An override for USD→MXN also answers MXN→USD with the inverse rate.
+export const createOverrideRateProvider = (overrides: RateOverride[]): RateProvider => ({
+  source: RateSource.OVERRIDE,
+  getRate: (from, to) => {
+    const direct = overrides.find(o => o.from === from && o.to === to);
+    if (direct) return { from, to, rate: direct.rate, source: RateSource.OVERRIDE };
+    const inverse = overrides.find(o => o.from === to && o.to === from);
+    return inverse ? { from, to, rate: 1 / inverse.rate, source: RateSource.OVERRIDE } : null;
+  }
+});
+
+// Asks each provider in turn and keeps the first answer.
+export const chainRateProviders = (providers: RateProvider[]): RateProvider => ({
+  source: providers[0]?.source ?? RateSource.MANUAL,
+  getRate: (from, to, date) => {
+    for (const provider of providers) {
+      const rate = provider.getRate(from, to, date);
+      if (rate) return rate;
+    }
+    return null;
+  }
+});
+
+export const loadRateOverrides = (): RateOverride[] => {
+  try {
+    const stored = localStorage.getItem(OVERRIDES_STORAGE_KEY);
+    const parsed: RateOverride[] = stored ? JSON.parse(stored) : [];
+    return parsed.filter(o => coerceCurrency(o.from) && coerceCurrency(o.to) && Number.isFinite(o.rate) && o.rate > 0);
+  } catch (err) {
+    console.warn('Ignoring stored exchange rate overrides:', err);
+    return [];
+  }
+};
+
+export const saveRateOverrides = (overrides: RateOverride[]) => {
+  localStorage.setItem(OVERRIDES_STORAGE_KEY, JSON.stringify(overrides));
+};
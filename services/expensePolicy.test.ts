@@ -0,0 +1,21 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AnalysisResult } from '../types';
+import { clampReimbursableAmounts, classifyExpense } from './expensePolicy';
+import { applyTransactionEdit } from './transactionEdits';
+
+const result = {
+  transactions: [{ id: 'a', date: '01/01/2024', originalDescription: 'Cena', cleanName: 'Cena', amount: 100, category: 'food_beverage' }],
+  totalAmount: 100
+} as AnalysisResult;
+
+test('a split line keeps its part clamped to the amount', () => {
+  const split = classifyExpense(result, 'a', 'split', 250);
+  assert.equal(split.transactions[0].reimbursableAmount, 100);
+});
+
+test('lowering the amount of a split line clamps its reimbursable part again', () => {
+  const split = classifyExpense(result, 'a', 'split', 80);
+  const edited = clampReimbursableAmounts(applyTransactionEdit(split, { type: 'update', id: 'a', patch: { amount: 50 } }));
+  assert.equal(edited.transactions[0].reimbursableAmount, 50);
+});
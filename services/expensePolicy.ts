@@ -0,0 +1,141 @@
+import { AnalysisResult, Category, CategoryDefinition, ConvertedTransaction, Currency, ExpenseClass, ExpensePolicy, PolicyViolation } from "../types";
+import { coerceCurrency } from "./analysisValidator";
+import { isTipLine } from "./anomalies";
+import { DEFAULT_TAXONOMY, isInCategory } from "./taxonomy";
+
+const POLICY_STORAGE_KEY = 'vidanta.expensePolicy';
+
+export const DEFAULT_EXPENSE_POLICY: ExpensePolicy = {
+  currency: Currency.MXN,
+  mealPerDiem: 1500,
+  maxTipPercent: 15,
+  disallowedCategories: [Category.MINIBAR]
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const coerceLimit = (raw: unknown): number | null =>
+  typeof raw === 'number' && Number.isFinite(raw) && raw >= 0 ? raw : null;
+
+export const loadExpensePolicy = (taxonomy: CategoryDefinition[] = DEFAULT_TAXONOMY): ExpensePolicy => {
+  try {
+    const stored = localStorage.getItem(POLICY_STORAGE_KEY);
+    if (!stored) return DEFAULT_EXPENSE_POLICY;
+    const parsed = JSON.parse(stored);
+    return {
+      currency: coerceCurrency(parsed.currency) ?? DEFAULT_EXPENSE_POLICY.currency,
+      mealPerDiem: coerceLimit(parsed.mealPerDiem),
+      maxTipPercent: coerceLimit(parsed.maxTipPercent),
+      disallowedCategories: Array.isArray(parsed.disallowedCategories)
+        ? parsed.disallowedCategories.filter((id: unknown) => taxonomy.some(cat => cat.id === id))
+        : DEFAULT_EXPENSE_POLICY.disallowedCategories
+    };
+  } catch (err) {
+    console.warn('Ignoring stored expense policy:', err);
+    return DEFAULT_EXPENSE_POLICY;
+  }
+};
+
+export const saveExpensePolicy = (policy: ExpensePolicy) => {
+  localStorage.setItem(POLICY_STORAGE_KEY, JSON.stringify(policy));
+};
+
+export const expenseClassOf = (tx: { expenseClass?: ExpenseClass }): ExpenseClass => tx.expenseClass ?? 'reimbursable';
+
+// The company's part of a line, converted like the line itself.
+export const reimbursablePart = (tx: ConvertedTransaction) => {
+  const expenseClass = expenseClassOf(tx);
+  if (expenseClass === 'personal') return 0;
+  if (expenseClass === 'split') {
+    return tx.amount === 0 ? 0 : round2(((tx.reimbursableAmount ?? 0) / tx.amount) * tx.convertedAmount);
+  }
+  return tx.convertedAmount;
+};
+
+export const expenseTotals = (transactions: ConvertedTransaction[]) => {
+  const reimbursable = round2(transactions.reduce((sum, tx) => sum + reimbursablePart(tx), 0));
+  const total = round2(transactions.reduce((sum, tx) => sum + tx.convertedAmount, 0));
+  return { reimbursable, personal: round2(total - reimbursable), total };
+};
+
+/**
+ * Checks the reimbursable part of each line against the policy: lines in a disallowed
+ * category, days whose meals exceed the per diem, and days whose tips exceed the allowed
+ * share of that day's meals. `capRate` converts the policy's caps to the lines' currency;
+ * when it is null the meal cap cannot be compared and is reported as unchecked instead.
+ */
+export const evaluatePolicy = (
+  transactions: ConvertedTransaction[],
+  policy: ExpensePolicy,
+  taxonomy: CategoryDefinition[] = DEFAULT_TAXONOMY,
+  capRate: number | null = 1
+): PolicyViolation[] => {
+  const claimed = transactions
+    .filter(tx => tx.id)
+    .map(tx => ({ tx, amount: reimbursablePart(tx) }))
+    .filter(({ amount }) => amount > 0);
+  const violations: PolicyViolation[] = [];
+
+  // Disallowed lines are flagged once and left out of the daily limits.
+  const allowed = claimed.filter(({ tx, amount }) => {
+    if (!policy.disallowedCategories.some(id => isInCategory(taxonomy, tx.category, id))) return true;
+    violations.push({ key: `disallowed_category:${tx.id}`, kind: 'disallowed_category', transactionIds: [tx.id!], claimed: amount, limit: 0 });
+    return false;
+  });
+
+  const days = new Map<string, { meals: typeof claimed; tips: typeof claimed }>();
+  allowed.forEach(line => {
+    const day = days.get(line.tx.date) ?? { meals: [], tips: [] };
+    if (isTipLine(line.tx)) day.tips.push(line);
+    else if (isInCategory(taxonomy, line.tx.category, Category.FOOD_AND_BEVERAGE)) day.meals.push(line);
+    days.set(line.tx.date, day);
+  });
+  const sum = (lines: typeof claimed) => round2(lines.reduce((total, line) => total + line.amount, 0));
+  if (policy.mealPerDiem !== null && capRate === null) {
+    violations.push({ key: 'cap_not_convertible', kind: 'cap_not_convertible', transactionIds: [], claimed: 0, limit: 0 });
+  }
+
+  days.forEach(({ meals, tips }, date) => {
+    const mealTotal = sum(meals);
+    if (policy.mealPerDiem !== null && capRate !== null && mealTotal > policy.mealPerDiem * capRate + 0.005) {
+      violations.push({
+        key: `meal_cap:${date}`,
+        kind: 'meal_cap',
+        transactionIds: meals.map(line => line.tx.id!),
+        date,
+        claimed: mealTotal,
+        limit: round2(policy.mealPerDiem * capRate)
+      });
+    }
+    const tipTotal = sum(tips);
+    const tipLimit = policy.maxTipPercent === null ? null : round2((mealTotal * policy.maxTipPercent) / 100);
+    if (tipLimit !== null && tipTotal > tipLimit + 0.005) {
+      violations.push({ key: `tip_limit:${date}`, kind: 'tip_limit', transactionIds: tips.map(line => line.tx.id!), date, claimed: tipTotal, limit: tipLimit });
+    }
+  });
+  return violations;
+};
+
+const clampToAmount = (part: number, amount: number) =>
+  round2(amount >= 0 ? Math.min(Math.max(part, 0), amount) : Math.max(Math.min(part, 0), amount));
+
+// Sets how a line is claimed. Split lines keep the company's part, clamped to the line's amount.
+export const classifyExpense = (result: AnalysisResult, id: string, expenseClass: ExpenseClass, reimbursableAmount?: number): AnalysisResult => ({
+  ...result,
+  transactions: result.transactions.map(tx => {
+    if (tx.id !== id) return tx;
+    if (expenseClass !== 'split') return { ...tx, expenseClass, reimbursableAmount: undefined };
+    const part = reimbursableAmount ?? tx.reimbursableAmount ?? round2(tx.amount / 2);
+    return { ...tx, expenseClass, reimbursableAmount: clampToAmount(part, tx.amount) };
+  })
+});
+
+// After an amount edit or a split, a line's company part may no longer fit in it.
+export const clampReimbursableAmounts = (result: AnalysisResult): AnalysisResult => ({
+  ...result,
+  transactions: result.transactions.map(tx =>
+    tx.reimbursableAmount === undefined || clampToAmount(tx.reimbursableAmount, tx.amount) === tx.reimbursableAmount
+      ? tx
+      : { ...tx, reimbursableAmount: clampToAmount(tx.reimbursableAmount, tx.amount) }
+  )
+});
@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ValidationIssueCode } from '../types';
+import { parseAnalysisExport } from './exporters';
+
+const line = { id: 'a', date: '01/01/2024', originalDescription: 'Minibar', cleanName: 'Minibar', amount: 100, category: 'food_beverage' };
+
+const exportOf = (result: Record<string, unknown>) =>
+  JSON.stringify({ format: 'vidanta-analysis', version: 1, currency: 'MXN', result: { totalAmount: 100, detectedCurrency: 'MXN', transactions: [line], ...result } });
+
+const savedDataIssues = (issues: { field: string; code: ValidationIssueCode }[]) =>
+  issues.filter(issue => issue.code === ValidationIssueCode.INVALID_SAVED_DATA).map(issue => issue.field);
+
+test('a null line is reported instead of thrown', () => {
+  const { analysis, issues } = parseAnalysisExport(exportOf({ transactions: [line, null] }));
+  assert.equal(analysis.result.transactions.length, 1);
+  assert.ok(issues.some(issue => issue.field === 'transactions[1]' && issue.code === ValidationIssueCode.DROPPED_TRANSACTION));
+});
+
+test('removed lines that are not a list are dropped with a warning', () => {
+  const { analysis, issues } = parseAnalysisExport(exportOf({ removedTransactions: {} }));
+  assert.equal(analysis.result.removedTransactions, undefined);
+  assert.deepEqual(savedDataIssues(issues), ['removedTransactions']);
+});
+
+test('a malformed edit is dropped and the line kept', () => {
+  const edit = { kind: 'edited', original: { ...line, amount: 'abc' } };
+  const { analysis, issues } = parseAnalysisExport(exportOf({ transactions: [{ ...line, edit, categorySource: 'user' }] }));
+  assert.equal(analysis.result.transactions[0].edit, undefined);
+  assert.equal(analysis.result.transactions[0].categorySource, 'user');
+  assert.deepEqual(savedDataIssues(issues), ['transactions[0].edit']);
+});
+
+test('a valid edit is carried over', () => {
+  const edit = { kind: 'edited', original: { date: line.date, cleanName: line.cleanName, category: line.category, amount: 80 } };
+  const { analysis, issues } = parseAnalysisExport(exportOf({ transactions: [{ ...line, edit }] }));
+  assert.deepEqual(analysis.result.transactions[0].edit, edit);
+  assert.deepEqual(savedDataIssues(issues), []);
+});
+
+test('an unknown expense class and an out-of-range reimbursable part are dropped', () => {
+  const { analysis, issues } = parseAnalysisExport(exportOf({
+    transactions: [{ ...line, expenseClass: 'company' }, { ...line, id: 'b', expenseClass: 'split', reimbursableAmount: 150 }, { ...line, id: 'c', expenseClass: 'split', reimbursableAmount: 'half' }]
+  }));
+  assert.deepEqual(analysis.result.transactions.map(tx => [tx.expenseClass, tx.reimbursableAmount]), [[undefined, undefined], ['split', undefined], ['split', undefined]]);
+  assert.deepEqual(savedDataIssues(issues), ['transactions[0].expenseClass', 'transactions[1].reimbursableAmount', 'transactions[2].reimbursableAmount']);
+});
+
+test('a bill split with percentages off 100 is dropped like a malformed one', () => {
+  const billSplit = { participants: [{ id: 'p', name: 'Ana' }], allocations: { a: { mode: 'percent', shares: { p: 80 } } }, roomBasis: 'nights' };
+  const { analysis, issues } = parseAnalysisExport(exportOf({ billSplit }));
+  assert.equal(analysis.result.billSplit, undefined);
+  assert.deepEqual(savedDataIssues(issues), ['billSplit']);
+});
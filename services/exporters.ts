@@ -0,0 +1,360 @@
+import {
+  AnalysisExport, AnalysisResult, BillSplit, CategoryDefinition, CategorySource, ConvertedTransaction, Currency, ExpenseClass, ExportFilters,
+  Language, RateProvider, Transaction, TransactionEdit, TransactionSnapshot, ValidationIssue, ValidationIssueCode
+} from "../types";
+import { TRANSLATIONS } from "../constants";
+import { coerceCurrency, coerceNumber, normalizeDate, parseCanonicalDate, validateAnalysisResult, validateTransactions } from "./analysisValidator";
+import { isCfdi } from "./cfdi";
+import { categoryLabel, DEFAULT_TAXONOMY, topLevelId } from "./taxonomy";
+import { changedFields } from "./transactionEdits";
+
+const EXPORT_FORMAT_ID = 'vidanta-analysis';
+const EXPORT_VERSION = 1;
+
+export class AnalysisImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AnalysisImportError';
+  }
+}
+
+// Everything an exporter may need, as the Dashboard currently shows it.
+export interface ExportContext {
+  result: AnalysisResult; // Complete result, category rules applied
+  transactions: ConvertedTransaction[]; // Every line, converted to `currency`
+  visibleTransactions: ConvertedTransaction[]; // The lines that pass `filters`
+  filters: ExportFilters;
+  currency: Currency;
+  rates: RateProvider;
+  totalSpend: number; // In `currency`, as shown in the Dashboard header
+  language: Language;
+  taxonomy: CategoryDefinition[];
+  formatCurrency: (amount: number) => string;
+}
+
+export const NO_FILTERS: ExportFilters = { searchTerm: '', categoryFilter: 'All', startDate: '', endDate: '' };
+
+export const exportFileName = (result: AnalysisResult, extension: string, suffix = 'export') =>
+  `${result.hotelName.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_${suffix}.${extension}`;
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.setAttribute('download', fileName);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// 'Minibar · 19/01/2026 – 21/01/2026 · "patio"', for report headers.
+export const describeFilters = (filters: ExportFilters, taxonomy: CategoryDefinition[], language: Language) => {
+  const t = TRANSLATIONS[language];
+  const isoToCanonical = (iso: string) => normalizeDate(iso) ?? iso;
+  const parts: string[] = [];
+  if (filters.categoryFilter !== 'All') parts.push(categoryLabel(taxonomy, filters.categoryFilter, language, true));
+  if (filters.startDate || filters.endDate) {
+    parts.push(`${filters.startDate ? isoToCanonical(filters.startDate) : '…'} – ${filters.endDate ? isoToCanonical(filters.endDate) : '…'}`);
+  }
+  if (filters.searchTerm.trim()) parts.push(`"${filters.searchTerm.trim()}"`);
+  return parts.length > 0 ? parts.join(' · ') : t.noFilters;
+};
+
+// Converted totals per top-level category, largest first, for summaries and the PDF legend.
+export const totalsByCategory = (transactions: ConvertedTransaction[], taxonomy: CategoryDefinition[]) => {
+  const totals = new Map<string, number>();
+  transactions.forEach(tx => {
+    const group = topLevelId(taxonomy, tx.category);
+    totals.set(group, (totals.get(group) ?? 0) + tx.convertedAmount);
+  });
+  return [...totals.entries()].map(([id, amount]) => ({ id, amount })).sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount));
+};
+
+export const csvCell = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+// The table as currently filtered; the other formats export the whole stay.
+export const toCsv = ({ visibleTransactions, currency, taxonomy, language }: ExportContext) => {
+  const t = TRANSLATIONS[language];
+  const headers = [t.date, t.cleanName, t.description, t.category, t.amount, t.currencyColumn, t.originalAmountColumn, t.originalCurrencyColumn, t.rateColumn, t.editedMarker, t.originalValue];
+
+  const rows = visibleTransactions.map(tx => [
+    tx.date,
+    csvCell(tx.cleanName),
+    csvCell(tx.originalDescription),
+    csvCell(categoryLabel(taxonomy, tx.category, language, true)),
+    tx.convertedAmount.toFixed(2),
+    currency,
+    tx.amount.toFixed(2),
+    tx.currency,
+    tx.rate ? `${tx.rate.rate.toFixed(6)} (${tx.rate.source}${tx.rate.date ? ` ${tx.rate.date}` : ''})` : '',
+    tx.edit ? tx.edit.kind : '',
+    // Extracted values of the fields the user changed, e.g. "amount=1450.5; category=other"
+    csvCell(changedFields(tx).map(field => `${field}=${tx.edit!.original![field]}`).join('; '))
+  ]);
+
+  // BOM for Excel UTF-8 compatibility
+  return "\uFEFF" + [headers.join(','), ...rows.map(row => row.join(','))].join('\n');
+};
+
+export const serializeAnalysis = ({ result, filters, currency }: ExportContext): string => {
+  const payload: AnalysisExport = {
+    format: EXPORT_FORMAT_ID,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    currency,
+    filters,
+    result
+  };
+  return JSON.stringify(payload, null, 2);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isAllocation = (value: unknown): boolean => {
+  if (!isRecord(value)) return false;
+  switch (value.mode) {
+    case 'whole': return typeof value.participantId === 'string';
+    case 'equal': return Array.isArray(value.participantIds) && value.participantIds.every(id => typeof id === 'string');
+    case 'percent': {
+      if (!isRecord(value.shares)) return false;
+      const shares = Object.values(value.shares);
+      // Like the settlement, percentages must add up to 100.
+      return shares.every(share => typeof share === 'number' && Number.isFinite(share))
+        && Math.abs((shares as number[]).reduce((sum, share) => sum + share, 0) - 100) <= 0.005;
+    }
+    default: return false;
+  }
+};
+
+// A saved split is used as is by the settlement, so a malformed one is dropped whole.
+const isBillSplit = (value: unknown): value is BillSplit =>
+  isRecord(value)
+  && Array.isArray(value.participants)
+  && value.participants.every(p => isRecord(p) && typeof p.id === 'string' && typeof p.name === 'string'
+    && (p.nights === undefined || (typeof p.nights === 'number' && Number.isFinite(p.nights))))
+  && isRecord(value.allocations)
+  && Object.values(value.allocations).every(isAllocation)
+  && (value.roomBasis === 'nights' || value.roomBasis === 'equal');
+
+const CATEGORY_SOURCES: CategorySource[] = ['model', 'rule', 'user'];
+const EXPENSE_CLASSES: ExpenseClass[] = ['reimbursable', 'personal', 'split'];
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isSnapshot = (value: unknown): value is TransactionSnapshot =>
+  isRecord(value) && typeof value.date === 'string' && typeof value.cleanName === 'string'
+  && typeof value.category === 'string' && isFiniteNumber(value.amount);
+
+// Undo and revert put `original` back, and the total reads the extracted amounts.
+const isEdit = (value: unknown): value is TransactionEdit =>
+  isRecord(value)
+  && (value.kind === 'added' ? value.original === null
+    : value.kind === 'edited' ? isSnapshot(value.original)
+    : value.kind === 'split' && (value.original === null || isSnapshot(value.original)))
+  && (value.splitFrom === undefined || typeof value.splitFrom === 'string')
+  && (value.extractedAmount === undefined || isFiniteNumber(value.extractedAmount));
+
+// What a saved line carries beyond what validation knows about. Each field is checked on
+// its own; a malformed one is dropped with a warning and the line is kept.
+const savedLineState = (entry: Record<string, unknown>, path: string, issues: ValidationIssue[]): Partial<Transaction> => {
+  const state: Partial<Transaction> = {};
+  const keep = <K extends keyof Transaction>(key: K, valid: (value: unknown) => boolean) => {
+    const value = entry[key];
+    if (value === undefined) return;
+    if (valid(value)) {
+      state[key] = value as Transaction[K];
+    } else {
+      issues.push({ field: `${path}.${key}`, code: ValidationIssueCode.INVALID_SAVED_DATA, severity: 'warning', value: JSON.stringify(value) });
+    }
+  };
+  keep('categorySource', value => CATEGORY_SOURCES.includes(value as CategorySource));
+  keep('categoryRuleId', value => typeof value === 'string');
+  keep('edit', isEdit);
+  keep('reviewed', value => typeof value === 'boolean');
+  keep('expenseClass', value => EXPENSE_CLASSES.includes(value as ExpenseClass));
+  // The company's part of a split line lies between zero and the line's amount.
+  const amount = coerceNumber(entry.amount);
+  keep('reimbursableAmount', value => isFiniteNumber(value) && amount !== null && value >= Math.min(0, amount) && value <= Math.max(0, amount));
+  return state;
+};
+
+/**
+ * Reads a JSON export back. The result goes through the same validation as a fresh
+ * extraction; the edit audit trail and category sources, which validation does not know
+ * about, are checked and carried over by line id.
+ */
+export const parseAnalysisExport = (
+  text: string,
+  taxonomy: CategoryDefinition[] = DEFAULT_TAXONOMY
+): { analysis: AnalysisExport; issues: ValidationIssue[] } => {
+  let parsed: Partial<AnalysisExport>;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new AnalysisImportError('File is not valid JSON.');
+  }
+  if (parsed?.format !== EXPORT_FORMAT_ID || !parsed.result) {
+    throw new AnalysisImportError('File is not an analysis export.');
+  }
+  if (parsed.version !== EXPORT_VERSION) {
+    throw new AnalysisImportError(`Unsupported export version ${parsed.version}.`);
+  }
+
+  const { result, issues } = validateAnalysisResult(parsed.result, taxonomy);
+  // Removed lines feed the total and undo, so they are validated like the others.
+  const removed = Array.isArray(parsed.result.removedTransactions)
+    ? validateTransactions(parsed.result.removedTransactions, 'removedTransactions', result.detectedCurrency, taxonomy)
+    : null;
+  issues.push(...(removed?.issues ?? []));
+  if (parsed.result.removedTransactions !== undefined && !removed) {
+    issues.push({ field: 'removedTransactions', code: ValidationIssueCode.INVALID_SAVED_DATA, severity: 'warning' });
+  }
+
+  const billSplit = parsed.result.billSplit === undefined || isBillSplit(parsed.result.billSplit) ? parsed.result.billSplit : undefined;
+  if (parsed.result.billSplit !== undefined && !billSplit) {
+    issues.push({ field: 'billSplit', code: ValidationIssueCode.INVALID_SAVED_DATA, severity: 'warning' });
+  }
+  const cfdi = isCfdi(parsed.result.cfdi) ? parsed.result.cfdi : undefined;
+  if (parsed.result.cfdi !== undefined && !cfdi) {
+    issues.push({ field: 'cfdi', code: ValidationIssueCode.INVALID_SAVED_DATA, severity: 'warning' });
+  }
+
+  // Entries validation dropped are skipped here; it has already reported them.
+  const saved = new Map<string, Partial<Transaction>>();
+  (['transactions', 'removedTransactions'] as const).forEach(field => {
+    const entries: unknown = parsed.result![field];
+    if (!Array.isArray(entries)) return;
+    entries.forEach((entry, index) => {
+      if (isRecord(entry) && typeof entry.id === 'string') saved.set(entry.id, savedLineState(entry, `${field}[${index}]`, issues));
+    });
+  });
+  const restore = (tx: Transaction): Transaction => ({ ...tx, ...saved.get(tx.id) });
+
+  return {
+    analysis: {
+      format: EXPORT_FORMAT_ID,
+      version: EXPORT_VERSION,
+      exportedAt: typeof parsed.exportedAt === 'string' ? parsed.exportedAt : '',
+      currency: coerceCurrency(parsed.currency) ?? Currency.MXN,
+      filters: { ...NO_FILTERS, ...parsed.filters },
+      result: {
+        ...result,
+        transactions: result.transactions.map(restore),
+        removedTransactions: removed && removed.transactions.length > 0 ? removed.transactions.map(restore) : undefined,
+        reviewedFields: Array.isArray(parsed.result.reviewedFields) ? parsed.result.reviewedFields : undefined,
+        billSplit,
+        cfdi
+      }
+    },
+    issues
+  };
+};
+
+// Amount of a line in the statement's own currency. Lines in another currency are converted
+// at the line's rate, since OFX/QIF accounts hold a single currency.
+const inDocumentCurrency = (tx: Transaction, documentCurrency: Currency | null, rates: RateProvider) => {
+  const from = coerceCurrency(tx.currency);
+  if (!documentCurrency || !from || from === documentCurrency) return { amount: tx.amount, rate: null };
+  const rate = rates.getRate(from, documentCurrency, tx.date);
+  return { amount: rate ? tx.amount * rate.rate : tx.amount, rate };
+};
+
+const lineDate = (tx: Transaction, result: AnalysisResult) => parseCanonicalDate(tx.date) ?? parseCanonicalDate(result.checkOut) ?? new Date();
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const ofxDate = (date: Date) => `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+
+// OFX 1.x is SGML in a single-byte charset; accents are dropped rather than garbled.
+const ofxText = (value: string, maxLength = 255) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\x20-\x7E]/g, '?')
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').slice(0, maxLength);
+
+/**
+ * The stay as a credit-card style OFX statement: the folio is the account, charges are
+ * debits and credits/discounts are credits. Lines in a foreign currency keep their own
+ * amount and carry the conversion rate in a CURRENCY aggregate.
+ */
+export const toOfx = ({ result, rates }: ExportContext) => {
+  const documentCurrency = coerceCurrency(result.detectedCurrency);
+  const currency = documentCurrency ?? Currency.MXN;
+  const end = parseCanonicalDate(result.checkOut) ?? new Date();
+  const start = parseCanonicalDate(result.checkIn)
+    ?? new Date(Math.min(end.getTime(), ...result.transactions.map(tx => lineDate(tx, result).getTime())));
+  const balance = result.transactions.reduce((sum, tx) => sum + inDocumentCurrency(tx, documentCurrency, rates).amount, 0);
+
+  const entries = result.transactions.map((tx, index) => {
+    const from = coerceCurrency(tx.currency);
+    const { rate } = inDocumentCurrency(tx, documentCurrency, rates);
+    return [
+      '<STMTTRN>',
+      `<TRNTYPE>${tx.amount < 0 ? 'CREDIT' : 'DEBIT'}`,
+      `<DTPOSTED>${ofxDate(lineDate(tx, result))}`,
+      `<TRNAMT>${(-tx.amount).toFixed(2)}`,
+      `<FITID>${ofxText(tx.id ?? `${result.confirmationNumber}-${index + 1}`, 255)}`,
+      `<NAME>${ofxText(tx.cleanName || tx.originalDescription, 32)}`,
+      `<MEMO>${ofxText(tx.originalDescription)}`,
+      ...(rate && from ? ['<CURRENCY>', `<CURRATE>${rate.rate.toFixed(6)}`, `<CURSYM>${from}`, '</CURRENCY>'] : []),
+      '</STMTTRN>'
+    ].join('\n');
+  });
+
+  return [
+    'OFXHEADER:100',
+    'DATA:OFXSGML',
+    'VERSION:102',
+    'SECURITY:NONE',
+    'ENCODING:USASCII',
+    'CHARSET:1252',
+    'COMPRESSION:NONE',
+    'OLDFILEUID:NONE',
+    'NEWFILEUID:NONE',
+    '',
+    '<OFX>',
+    '<SIGNONMSGSRSV1><SONRS>',
+    '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+    `<DTSERVER>${ofxDate(new Date())}`,
+    '<LANGUAGE>SPA',
+    '</SONRS></SIGNONMSGSRSV1>',
+    '<CREDITCARDMSGSRSV1><CCSTMTTRNRS>',
+    '<TRNUID>1',
+    '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+    '<CCSTMTRS>',
+    `<CURDEF>${currency}`,
+    `<CCACCTFROM><ACCTID>${ofxText(result.confirmationNumber || result.roomNumber || 'FOLIO', 22)}</CCACCTFROM>`,
+    '<BANKTRANLIST>',
+    `<DTSTART>${ofxDate(start)}`,
+    `<DTEND>${ofxDate(end)}`,
+    ...entries,
+    '</BANKTRANLIST>',
+    `<LEDGERBAL><BALAMT>${(-balance).toFixed(2)}<DTASOF>${ofxDate(end)}</LEDGERBAL>`,
+    '</CCSTMTRS>',
+    '</CCSTMTTRNRS></CREDITCARDMSGSRSV1>',
+    '</OFX>',
+    ''
+  ].join('\n');
+};
+
+// QIF has no currency field, so every amount is given in the statement's currency and the
+// category path uses QIF's 'Parent:Child' form.
+export const toQif = ({ result, rates, taxonomy, language }: ExportContext) => {
+  const documentCurrency = coerceCurrency(result.detectedCurrency);
+  const qifCategory = (id: string) => categoryLabel(taxonomy, id, language, true).replace(/\s*›\s*/g, ':');
+
+  const entries = result.transactions.map(tx => {
+    const date = lineDate(tx, result);
+    const { amount, rate } = inDocumentCurrency(tx, documentCurrency, rates);
+    const memo = rate ? `${tx.originalDescription} (${tx.amount.toFixed(2)} ${tx.currency} @ ${rate.rate.toFixed(4)})` : tx.originalDescription;
+    return [
+      `D${pad(date.getMonth() + 1)}/${pad(date.getDate())}/${date.getFullYear()}`,
+      `T${(-amount).toFixed(2)}`,
+      `P${tx.cleanName || tx.originalDescription}`,
+      `M${memo}`,
+      `L${qifCategory(tx.category)}`,
+      '^'
+    ].join('\n');
+  });
+
+  return ['!Type:CCard', ...entries, ''].join('\n');
+};
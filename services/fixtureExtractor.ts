@@ -0,0 +1,35 @@
+import { AnalysisResult, ExtractorBackend } from "../types";
+import { FIXTURE_BASE_URL } from "../constants";
+import type { StatementExtractor } from "./statementExtractor";
+
+// Resolves a fixture key to its recorded JSON, or null when no recording exists.
+export type FixtureLoader = (key: string) => Promise<unknown | null>;
+
+export const DEFAULT_FIXTURE_KEY = 'default';
+
+const fetchFixture: FixtureLoader = async (key) => {
+  const response = await fetch(`${FIXTURE_BASE_URL}/${encodeURIComponent(key)}.json`);
+  if (!response.ok) return null;
+  return response.json();
+};
+
+// 'Folio 1234.pdf' -> 'folio-1234'
+export const fixtureKeyForFile = (fileName: string) =>
+  fileName.replace(/\.[^.]+$/, '').trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+/**
+ * Replays recorded AnalysisResult JSON instead of calling a model. A recording named after
+ * the uploaded file wins; otherwise the default recording is returned.
+ */
+export const createFixtureExtractor = (loadFixture: FixtureLoader = fetchFixture): StatementExtractor => ({
+  backend: ExtractorBackend.FIXTURE,
+  model: 'recorded fixture',
+  extract: async (file: File) => {
+    const key = fixtureKeyForFile(file.name);
+    const recorded = (await loadFixture(key)) ?? (await loadFixture(DEFAULT_FIXTURE_KEY));
+    if (!recorded) {
+      throw new Error(`No recorded fixture found for "${key}" or "${DEFAULT_FIXTURE_KEY}".`);
+    }
+    return recorded as AnalysisResult;
+  }
+});
@@ -1,5 +1,23 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { AnalysisResult, Category } from "../types";
+import { AnalysisResult, AnalyzeRequest, ExtractionRegion, ExtractorBackend } from "../types";
+import { ANALYZE_API_URL, ANALYZE_MAX_RETRIES, ANALYZE_RETRY_BASE_MS, GEMINI_MODEL } from "../constants";
+import type { ExtractOptions, StatementExtractor } from "./statementExtractor";
+import { DEFAULT_TAXONOMY } from "./taxonomy";
+import { getCachedResult, putCachedResult, resultCacheKey } from "./resultCache";
+import { withRetry } from "./retry";
+import { extractByPageRanges } from "./pdfChunking";
+
+// A non-2xx answer from /api/analyze. `status` tells size (413) and rate (429) limits apart.
+export class AnalyzeApiError extends Error {
+  status: number;
+  retryAfterSeconds?: number;
+
+  constructor(status: number, message: string, retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'AnalyzeApiError';
+    this.status = status;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
 
 const parsePdf = async (file: File): Promise<string> => {
   return new Promise((resolve, reject) => {
@@ -15,116 +33,72 @@ const parsePdf = async (file: File): Promise<string> => {
   });
 };
 
-export const analyzeStatement = async (file: File): Promise<AnalysisResult> => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("API_KEY environment variable is missing.");
-  }
+// Network failures, rate limiting and an unavailable upstream may pass on their own; other
+// server errors, such as a missing API key, would fail the same way again.
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+const isRetryable = (err: unknown) =>
+  err instanceof TypeError || (err instanceof AnalyzeApiError && RETRYABLE_STATUSES.has(err.status));
 
-  const base64Data = await parsePdf(file);
-  const ai = new GoogleGenAI({ apiKey });
+// The prompt, schema and API key live on the server (server/geminiAnalyzer.ts); the
+// browser only sends the document and the categories it may use.
+const postAnalysis = async (body: AnalyzeRequest, signal?: AbortSignal): Promise<AnalysisResult> => {
+  const response = await fetch(ANALYZE_API_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal
+  });
+  const payload = await response.json().catch(() => null);
 
-  // Define the schema for structured output
-  const responseSchema = {
-    type: Type.OBJECT,
-    properties: {
-      hotelName: { type: Type.STRING, description: "Name of the hotel found in the header" },
-      hotelAddress: { type: Type.STRING, description: "Address of the hotel" },
-      guestName: { type: Type.STRING, description: "Name of the guest" },
-      roomNumber: { type: Type.STRING, description: "Room number" },
-      checkIn: { type: Type.STRING, description: "Arrival date (DD/MM/YYYY)" },
-      checkOut: { type: Type.STRING, description: "Departure date (DD/MM/YYYY)" },
-      confirmationNumber: { type: Type.STRING, description: "Folio or confirmation number" },
-      detectedCurrency: { type: Type.STRING, description: "Currency symbol or code detected (MXN, USD, $)" },
-      transactions: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            date: { type: Type.STRING },
-            originalDescription: { type: Type.STRING },
-            cleanName: { 
-              type: Type.STRING, 
-              description: "Simplified commercial name. Remove dates, transaction codes, room numbers. E.g., 'REST EL PATIO 23423' -> 'El Patio'" 
-            },
-            amount: { type: Type.NUMBER },
-            category: { 
-              type: Type.STRING, 
-              enum: Object.values(Category),
-              description: "Categorize based on description. 'Dersan' or 'ISH' are Impuestos/Tax." 
-            },
-            currency: { type: Type.STRING }
-          },
-          required: ["date", "originalDescription", "cleanName", "amount", "category"]
-        }
-      },
-      totalAmount: { type: Type.NUMBER }
-    },
-    required: ["hotelName", "guestName", "transactions", "totalAmount"]
-  };
+  if (!response.ok) {
+    const retryAfter = Number(response.headers.get('Retry-After'));
+    throw new AnalyzeApiError(response.status, payload?.error ?? response.statusText, retryAfter || undefined);
+  }
+  return payload as AnalysisResult;
+};
 
-  const systemInstruction = `
-    You are an expert financial analyst for hotel operations.
-    Your task is to extract transaction data and header details from a hotel account statement PDF with perfect accuracy.
+/**
+ * Answers from the result cache when this exact PDF was already analyzed with the same
+ * categories; otherwise calls the API, retrying transient failures with backoff.
+ */
+const requestAnalysis = async (file: File, options: ExtractOptions, region?: ExtractionRegion, pages?: AnalyzeRequest['pages']): Promise<AnalysisResult> => {
+  const taxonomy = options.taxonomy ?? DEFAULT_TAXONOMY;
+  const cacheKey = await resultCacheKey(file, taxonomy, region);
+  const cached = await getCachedResult(cacheKey);
+  if (cached) return cached;
 
-    CRITICAL RULES:
-    1. Header Information: Extract Hotel Name, Address, Guest Name, Room Number, Folio/Confirmation number accurately from the top of the document. For dates like Check-In and Check-Out, convert formats like '19-01-26' to a standard 'DD/MM/YYYY' format (e.g., '19/01/2026').
-    2. Transactions: Extract the Date, Description, and Amount for each line item in the main table.
-    3. 'cleanName': From the original description, create a simplified commercial name. Remove dates, transaction codes, room numbers, and any other non-essential text. For example, 'REST EL PATIO 23423' should become 'El Patio'.
-    4. 'category': Categorize strictly into:
-       - Alimentos y Bebidas/Food & Beverage (Restaurants, Breakfast, Dinner, Bar, Lobby Bar, Minibar, Room Service Food)
-       - Habitación/Room (Room charge, Upgrades, Early check-in)
-       - Impuestos/Tax (Look specifically for 'Dersan', 'ISH', 'IVA', 'TUA', or generic tax descriptions)
-       - Descuento/Discount (Any negative values, credits, or items labeled 'Abonos')
-       - Servicio/Service (Tips, Laundry, Spa, Telephone, Transport, Valet Parking)
-       - Otros/Other (Any other charge)
-    5. Amounts: Handle negative numbers correctly for the 'amount' field. Credits and discounts must be negative.
-    6. Currency: Accurately detect the currency of the document (e.g., MXN, USD).
-    7. Total Amount: This is the most important field. Find the final total printed on the statement (e.g., 'Total MxN', 'Total Charges'). Use this value for the 'totalAmount' field. THIS IS THE SOURCE OF TRUTH AND IS MORE ACCURATE THAN MANUALLY SUMMING THE TRANSACTION LINES. For example, if the document shows 'Total MxN 25,224.10', you must use 25224.10.
-  `;
+  const body: AnalyzeRequest = {
+    fileName: file.name,
+    mimeType: file.type,
+    data: await parsePdf(file),
+    taxonomy,
+    region,
+    pages
+  };
 
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: file.type,
-              data: base64Data
-            }
-          },
-          {
-            text: "Analyze this hotel statement PDF and extract the data according to the JSON schema."
-          }
-        ]
-      },
-      config: {
-        systemInstruction: systemInstruction,
-        responseMimeType: "application/json",
-        responseSchema: responseSchema
-      }
-    });
+  const result = await withRetry(() => postAnalysis(body, options.signal), {
+    retries: ANALYZE_MAX_RETRIES,
+    baseDelayMs: ANALYZE_RETRY_BASE_MS,
+    isRetryable,
+    requestedDelayMs: err => (err instanceof AnalyzeApiError && err.retryAfterSeconds ? err.retryAfterSeconds * 1000 : undefined),
+    signal: options.signal,
+    onRetry: (attempt, delay, err) => console.warn(`Analysis attempt ${attempt} failed, retrying in ${Math.round(delay)}ms:`, err)
+  });
+  await putCachedResult(cacheKey, result);
+  return result;
+};
 
-    const text = response.text;
-    if (!text) {
-        throw new Error("No response from AI");
-    }
-    
-    const result = JSON.parse(text) as AnalysisResult;
-    
-    // Data validation and correction: Ensure the dashboard total matches the extracted PDF total.
-    // The dashboard recalculates spend, so we pass the authoritative total from the PDF.
-    // If the model's summed transactions don't match its extracted total, this ensures the UI is still correct.
-    const transactionSum = result.transactions.reduce((sum, tx) => sum + tx.amount, 0);
-    if (Math.abs(transactionSum - result.totalAmount) > 1) { // Allow for small rounding diffs
-        console.warn(`Sum of transactions (${transactionSum}) does not match the extracted total amount (${result.totalAmount}). The extracted total will be used.`);
-    }
+// Long folios are sent a few pages at a time, so the last pages are not lost to the model's
+// context; each page range is cached on its own.
+export const analyzeStatement = (file: File, options: ExtractOptions = {}): Promise<AnalysisResult> =>
+  extractByPageRanges(file, options, (chunk, pages) => requestAnalysis(chunk, options, undefined, pages));
 
-    return result;
+export const analyzeStatementRegion = (file: File, region: ExtractionRegion, options: ExtractOptions = {}): Promise<AnalysisResult> =>
+  requestAnalysis(file, options, region);
 
-  } catch (error) {
-    console.error("Gemini API Error:", error);
-    throw error;
-  }
+export const geminiExtractor: StatementExtractor = {
+  backend: ExtractorBackend.GEMINI,
+  model: GEMINI_MODEL,
+  extract: analyzeStatement,
+  extractRegion: analyzeStatementRegion
 };
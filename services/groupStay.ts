@@ -0,0 +1,81 @@
+import { AnalysisResult, BatchItem, ConvertedTransaction, Currency, GroupBreakdown, RateProvider } from "../types";
+import { coerceCurrency } from "./analysisValidator";
+import { amountAdjustments } from "./transactionEdits";
+
+export interface FolioSummary {
+  id: string; // BatchItem id
+  result: AnalysisResult;
+  transactions: ConvertedTransaction[];
+  spend: number;
+}
+
+export interface GroupSlice {
+  key: string;
+  label: string;
+  folios: FolioSummary[];
+  spend: number;
+}
+
+export interface GroupSummary {
+  folios: FolioSummary[];
+  slices: GroupSlice[];
+  transactions: ConvertedTransaction[]; // Every line of every folio, for category totals
+  total: number;
+  rooms: number;
+  guests: number;
+}
+
+/**
+ * The figures the single-folio Dashboard shows: lines converted at their own date, and a
+ * spend that is the printed total at check-out moved by whatever amount edits changed.
+ */
+export const convertStay = (result: AnalysisResult, rates: RateProvider, currency: Currency) => {
+  const documentCurrency = coerceCurrency(result.detectedCurrency);
+  const convert = (amount: number, from: Currency | null, date?: string) => {
+    const rate = from ? rates.getRate(from, currency, date) : null;
+    return { amount: rate ? amount * rate.rate : amount, rate };
+  };
+  const transactions: ConvertedTransaction[] = result.transactions.map(tx => {
+    const { amount: convertedAmount, rate } = convert(tx.amount, coerceCurrency(tx.currency) ?? documentCurrency, tx.date);
+    return { ...tx, convertedAmount, rate };
+  });
+  const spend = amountAdjustments(result).reduce(
+    (sum, { tx, delta }) => sum + convert(delta, coerceCurrency(tx.currency) ?? documentCurrency, tx.date).amount,
+    convert(result.totalAmount, documentCurrency, result.checkOut).amount
+  );
+  return { transactions, spend };
+};
+
+const sliceKey = (value: string) => value.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Aggregates the analyzed folios of a batch, split by room or by guest, largest spend first.
+export const summarizeGroup = (
+  items: BatchItem[],
+  breakdown: GroupBreakdown,
+  rates: RateProvider,
+  currency: Currency
+): GroupSummary => {
+  const folios = items
+    .filter(item => item.status === 'done' && item.result)
+    .map(item => ({ id: item.id, result: item.result!, ...convertStay(item.result!, rates, currency) }));
+
+  const slices = new Map<string, GroupSlice>();
+  folios.forEach(folio => {
+    const value = folio.result[breakdown];
+    const key = sliceKey(value);
+    const slice = slices.get(key) ?? { key, label: value.trim() || '—', folios: [], spend: 0 };
+    slice.folios.push(folio);
+    slice.spend += folio.spend;
+    slices.set(key, slice);
+  });
+
+  const distinct = (field: GroupBreakdown) => new Set(folios.map(folio => sliceKey(folio.result[field])).filter(Boolean)).size;
+  return {
+    folios,
+    slices: [...slices.values()].sort((a, b) => b.spend - a.spend),
+    transactions: folios.flatMap(folio => folio.transactions),
+    total: folios.reduce((sum, folio) => sum + folio.spend, 0),
+    rooms: distinct('roomNumber'),
+    guests: distinct('guestName')
+  };
+};
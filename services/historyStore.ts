@@ -0,0 +1,85 @@
+import { AnalysisResult, ExtractorBackend, HistoryEntry, HistoryQuery, ValidationIssue } from "../types";
+import { parseCanonicalDate } from "./analysisValidator";
+import { HISTORY_STORE, withStore } from "./localDb";
+
+export class HistoryStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HistoryStoreError';
+  }
+}
+
+export const createHistoryEntry = (
+  result: AnalysisResult,
+  issues: ValidationIssue[],
+  backend: ExtractorBackend,
+  model: string,
+  file: File | null
+): HistoryEntry => {
+  const now = new Date().toISOString();
+  return {
+    id: `analysis-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    name: [result.guestName, result.hotelName].filter(Boolean).join(' · ') || file?.name || now.slice(0, 10),
+    tags: [],
+    extractedAt: now,
+    updatedAt: now,
+    backend,
+    model,
+    result,
+    issues,
+    source: file ? { name: file.name, type: file.type, data: file } : null
+  };
+};
+
+// Newest extraction first.
+export const listHistory = async (): Promise<HistoryEntry[]> => {
+  const entries = await withStore<HistoryEntry[]>(HISTORY_STORE, 'readonly', store => store.getAll());
+  return entries.sort((a, b) => b.extractedAt.localeCompare(a.extractedAt));
+};
+
+export const putHistoryEntry = (entry: HistoryEntry) => withStore(HISTORY_STORE, 'readwrite', store => store.put(entry));
+
+// Applies a patch to a stored entry and bumps its updatedAt. Returns the stored entry.
+export const updateHistoryEntry = async (
+  id: string,
+  patch: Partial<Pick<HistoryEntry, 'name' | 'tags' | 'result'>>
+): Promise<HistoryEntry> => {
+  const current = await withStore<HistoryEntry | undefined>(HISTORY_STORE, 'readonly', store => store.get(id));
+  if (!current) throw new HistoryStoreError(`No saved analysis with id "${id}"`);
+  const next = { ...current, ...patch, updatedAt: new Date().toISOString() };
+  await putHistoryEntry(next);
+  return next;
+};
+
+export const deleteHistoryEntry = (id: string) => withStore(HISTORY_STORE, 'readwrite', store => store.delete(id));
+
+// Rebuilds the uploaded File so region re-extraction keeps working after a reopen.
+export const sourceFileOf = (entry: HistoryEntry): File | null =>
+  entry.source ? new File([entry.source.data], entry.source.name, { type: entry.source.type }) : null;
+
+export const normalizeTag = (tag: string) => tag.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const isoToTime = (iso: string) => (iso ? new Date(`${iso}T00:00:00`).getTime() : NaN);
+
+/**
+ * Text matches name, guest, hotel, folio and tags, ignoring case and accents. The date
+ * range keeps stays that overlap it; stays with unreadable dates only pass an open range.
+ */
+export const searchHistory = (entries: HistoryEntry[], query: HistoryQuery): HistoryEntry[] => {
+  const fold = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+  const terms = fold(query.text).split(/\s+/).filter(Boolean);
+  const from = isoToTime(query.from);
+  const to = isoToTime(query.to);
+
+  return entries.filter(entry => {
+    const { result } = entry;
+    const haystack = fold([entry.name, result.guestName, result.hotelName, result.confirmationNumber, ...entry.tags].join(' '));
+    if (!terms.every(term => haystack.includes(term))) return false;
+
+    if (Number.isNaN(from) && Number.isNaN(to)) return true;
+    const checkIn = parseCanonicalDate(result.checkIn)?.getTime();
+    const checkOut = parseCanonicalDate(result.checkOut)?.getTime() ?? checkIn;
+    if (checkIn === undefined || checkOut === undefined) return false;
+    return (Number.isNaN(from) || checkOut >= from) && (Number.isNaN(to) || checkIn <= to);
+  });
+};
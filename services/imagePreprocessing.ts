@@ -0,0 +1,138 @@
+import { CapturedImage, ImageAdjustments } from "../types";
+import { MAX_UPLOAD_BYTES } from "../constants";
+
+export const DEFAULT_ADJUSTMENTS: ImageAdjustments = { rotation: 0, skew: 0, crop: null };
+
+const JPEG_QUALITIES = [0.85, 0.7, 0.55, 0.4];
+const SKEW_RANGE = 8; // Degrees searched either way by estimateSkew
+const SKEW_STEP = 0.25;
+const SKEW_SAMPLE_WIDTH = 600;
+
+export class ImageTooLargeError extends Error {
+  constructor(bytes: number) {
+    super(`Stitched statement is ${(bytes / 1024 / 1024).toFixed(1)}MB, over the ${MAX_UPLOAD_BYTES / 1024 / 1024}MB limit`);
+    this.name = 'ImageTooLargeError';
+  }
+}
+
+export const createCapturedImage = (file: File): CapturedImage => ({
+  id: `image-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  file,
+  adjustments: DEFAULT_ADJUSTMENTS
+});
+
+// Decodes with the photo's EXIF orientation applied, so phone shots start upright.
+export const loadBitmap = (file: File) => createImageBitmap(file, { imageOrientation: 'from-image' });
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Size of the box holding a width x height image rotated by `degrees`.
+const rotatedSize = (width: number, height: number, degrees: number) => {
+  const cos = Math.abs(Math.cos(toRadians(degrees)));
+  const sin = Math.abs(Math.sin(toRadians(degrees)));
+  return { width: width * cos + height * sin, height: width * sin + height * cos };
+};
+
+/**
+ * Applies rotation, skew and crop, then scales so the longest side is at most
+ * `maxDimension`. The image is rotated at the final scale, so a full-size photo is never
+ * drawn rotated at full resolution. Corners uncovered by the rotation are white.
+ */
+export const renderAdjusted = (
+  source: CanvasImageSource & { width: number; height: number },
+  adjustments: ImageAdjustments,
+  maxDimension: number,
+  applyCrop = true
+): HTMLCanvasElement => {
+  const angle = adjustments.rotation + adjustments.skew;
+  const full = rotatedSize(source.width, source.height, angle);
+  const crop = applyCrop && adjustments.crop ? adjustments.crop : { x: 0, y: 0, width: 1, height: 1 };
+  const scale = Math.min(1, maxDimension / Math.max(full.width * crop.width, full.height * crop.height));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(full.width * crop.width * scale));
+  canvas.height = Math.max(1, Math.round(full.height * crop.height * scale));
+  const context = canvas.getContext('2d')!;
+  context.fillStyle = '#FFFFFF';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  // Move the crop's corner to the origin, then draw the rotated image around the box center.
+  context.translate(-crop.x * full.width * scale, -crop.y * full.height * scale);
+  context.translate((full.width * scale) / 2, (full.height * scale) / 2);
+  context.rotate(toRadians(angle));
+  context.drawImage(source, (-source.width * scale) / 2, (-source.height * scale) / 2, source.width * scale, source.height * scale);
+  return canvas;
+};
+
+/**
+ * Estimates the fine rotation that makes the text lines horizontal: the angle at which the
+ * dark pixels' row histogram is most peaked (lines and gaps clearly apart). Works on the
+ * image as currently rotated by quarter turns; crop and skew are ignored.
+ */
+export const estimateSkew = (source: CanvasImageSource & { width: number; height: number }, rotation: ImageAdjustments['rotation']) => {
+  const canvas = renderAdjusted(source, { rotation, skew: 0, crop: null }, SKEW_SAMPLE_WIDTH);
+  const { data, width, height } = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+
+  const points: [number, number][] = [];
+  for (let y = 0; y < height; y += 2) {
+    for (let x = 0; x < width; x += 2) {
+      const i = (y * width + x) * 4;
+      if (data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114 < 128) points.push([x - width / 2, y - height / 2]);
+    }
+  }
+  if (points.length < 50) return 0;
+
+  let best = { angle: 0, score: -1 };
+  for (let angle = -SKEW_RANGE; angle <= SKEW_RANGE; angle += SKEW_STEP) {
+    const sin = Math.sin(toRadians(angle));
+    const cos = Math.cos(toRadians(angle));
+    const rows = new Map<number, number>();
+    points.forEach(([x, y]) => {
+      const row = Math.round(x * sin + y * cos);
+      rows.set(row, (rows.get(row) ?? 0) + 1);
+    });
+    let score = 0;
+    rows.forEach(count => { score += count * count; });
+    if (score > best.score) best = { angle, score };
+  }
+  return best.angle;
+};
+
+const canvasToJpeg = (canvas: HTMLCanvasElement, quality: number) => canvas.toDataURL('image/jpeg', quality);
+
+// 1px = 0.75pt, i.e. pages are laid out at 96 dpi
+const pageFormat = (page: HTMLCanvasElement): [number, number] => [page.width * 0.75, page.height * 0.75];
+const pageOrientation = (page: HTMLCanvasElement) => (page.width > page.height ? 'landscape' : 'portrait');
+
+/**
+ * Stitches the pages into one PDF, one photo per page, so every backend and the analysis
+ * API receive a regular statement. JPEG quality drops step by step until the file fits
+ * the upload limit.
+ */
+export const imagesToPdf = async (pages: HTMLCanvasElement[], fileName: string): Promise<File> => {
+  const { jsPDF } = await import('jspdf');
+  let size = 0;
+  for (const quality of JPEG_QUALITIES) {
+    const doc = new jsPDF({ unit: 'pt', format: pageFormat(pages[0]), orientation: pageOrientation(pages[0]) });
+    pages.forEach((page, index) => {
+      const format = pageFormat(page);
+      if (index > 0) doc.addPage(format, pageOrientation(page));
+      doc.addImage(canvasToJpeg(page, quality), 'JPEG', 0, 0, format[0], format[1]);
+    });
+    const blob = doc.output('blob');
+    size = blob.size;
+    if (size <= MAX_UPLOAD_BYTES) return new File([blob], fileName, { type: 'application/pdf' });
+  }
+  throw new ImageTooLargeError(size);
+};
+
+// Renders every captured image with its adjustments and stitches them into one PDF.
+export const buildStatementFromImages = async (images: CapturedImage[], maxDimension: number): Promise<File> => {
+  const pages: HTMLCanvasElement[] = [];
+  for (const image of images) {
+    const bitmap = await loadBitmap(image.file);
+    pages.push(renderAdjusted(bitmap, image.adjustments, maxDimension));
+    bitmap.close();
+  }
+  const baseName = images[0]?.file.name.replace(/\.[^.]+$/, '') || 'folio';
+  return imagesToPdf(pages, `${baseName}.pdf`);
+};
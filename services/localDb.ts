@@ -0,0 +1,52 @@
+// The app's IndexedDB database. Each version adds its stores, so older databases upgrade
+// in place without losing data.
+const DB_NAME = 'vidanta';
+const DB_VERSION = 2;
+
+export const HISTORY_STORE = 'analyses';
+export const RESULT_CACHE_STORE = 'resultCache';
+
+export class LocalDbError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LocalDbError';
+  }
+}
+
+export const requestToPromise = <T,>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(new LocalDbError(request.error?.message ?? 'IndexedDB request failed'));
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new LocalDbError('IndexedDB is not available'));
+  }
+  if (!dbPromise) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = event => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        db.createObjectStore(HISTORY_STORE, { keyPath: 'id' }).createIndex('extractedAt', 'extractedAt');
+      }
+      if (event.oldVersion < 2) {
+        db.createObjectStore(RESULT_CACHE_STORE, { keyPath: 'key' }).createIndex('storedAt', 'storedAt');
+      }
+    };
+    dbPromise = requestToPromise(request);
+    // A failed open (private mode, blocked storage) may succeed on a later attempt.
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+export const withStore = async <T,>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return requestToPromise(run(db.transaction(storeName, mode).objectStore(storeName)));
+};
@@ -0,0 +1,257 @@
+import {
+  AnalysisResult, Category, CategoryDefinition, ConvertedTransaction, TaxBreakdown, TaxDiscrepancy, TaxKind, TaxLink, TaxScope,
+  TaxScopeSummary, TaxSettings, Transaction
+} from "../types";
+import { isTipLine } from "./anomalies";
+import { DEFAULT_TAXONOMY, isInCategory } from "./taxonomy";
+
+const TAX_SETTINGS_STORAGE_KEY = 'vidanta.taxSettings';
+
+// Hotels round tax per night or per check, so allow a peso or half a percent, whichever is larger.
+export const TAX_TOLERANCE = 1;
+const TAX_RELATIVE_TOLERANCE = 0.005;
+
+export const DEFAULT_IVA_RATE = 16;
+
+// State lodging tax rates, in percent. Starting points only: states change them often.
+export const DEFAULT_ISH_RATES: Record<string, number> = {
+  'Baja California Sur': 4,
+  'Ciudad de México': 3.5,
+  'Guerrero': 3,
+  'Jalisco': 3,
+  'Nayarit': 5,
+  'Quintana Roo': 5,
+  'Sinaloa': 3,
+  'Sonora': 2
+};
+
+export const DEFAULT_TAX_SETTINGS: TaxSettings = { ivaRate: DEFAULT_IVA_RATE, state: null, ishRates: DEFAULT_ISH_RATES };
+
+// Tried in order on the normalized address; Nuevo Vallarta is in Nayarit, Puerto Vallarta in Jalisco.
+const STATE_PATTERNS: [string, RegExp][] = [
+  ['Nayarit', /\b(nayarit|nuevo vallarta|bahia de banderas|punta mita)\b/],
+  ['Quintana Roo', /\b(quintana roo|cancun|playa del carmen|riviera maya|tulum|cozumel)\b/],
+  ['Baja California Sur', /\b(baja california sur|b\.? ?c\.? ?s|los cabos|cabo san lucas|san jose del cabo)\b/],
+  ['Guerrero', /\b(guerrero|acapulco|ixtapa|zihuatanejo)\b/],
+  ['Sonora', /\b(sonora|puerto penasco|hermosillo)\b/],
+  ['Sinaloa', /\b(sinaloa|mazatlan)\b/],
+  ['Jalisco', /\b(jalisco|puerto vallarta|guadalajara)\b/],
+  ['Ciudad de México', /\b(ciudad de mexico|cdmx)\b/]
+];
+
+// Patterns run on normalized text: lower case, no accents. ISH is tried before IVA, since
+// "IVA hospedaje" is IVA on lodging but "impuesto sobre hospedaje" is ISH.
+const ISH_PATTERN = /\b(ish|impuesto (sobre|al|de) hospedaje|lodging tax|occupancy tax)\b/;
+const IVA_PATTERN = /\b(iva|vat|impuesto al valor agregado)\b/;
+const ROOM_HINT_PATTERN = /\b(hab|habitacion|hospedaje|alojamiento|room|lodging)\b/;
+const FOOD_HINT_PATTERN = /\b(alimentos?|bebidas?|a&b|ayb|f&b|food|beverages?|restaurante?|bar|consumos?)\b/;
+
+const SCOPES: TaxScope[] = ['room', 'food_beverage', 'other'];
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const normalize = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+const coerceRate = (raw: unknown): number | null =>
+  typeof raw === 'number' && Number.isFinite(raw) && raw >= 0 && raw <= 100 ? raw : null;
+
+export const loadTaxSettings = (): TaxSettings => {
+  try {
+    const stored = localStorage.getItem(TAX_SETTINGS_STORAGE_KEY);
+    if (!stored) return DEFAULT_TAX_SETTINGS;
+    const parsed = JSON.parse(stored);
+    const ishRates = { ...DEFAULT_ISH_RATES };
+    if (parsed.ishRates && typeof parsed.ishRates === 'object') {
+      Object.entries(parsed.ishRates).forEach(([state, rate]) => {
+        const coerced = coerceRate(rate);
+        if (coerced !== null) ishRates[state] = coerced;
+      });
+    }
+    return {
+      ivaRate: coerceRate(parsed.ivaRate) ?? DEFAULT_IVA_RATE,
+      state: typeof parsed.state === 'string' && parsed.state in ishRates ? parsed.state : null,
+      ishRates
+    };
+  } catch (err) {
+    console.warn('Ignoring stored tax settings:', err);
+    return DEFAULT_TAX_SETTINGS;
+  }
+};
+
+export const saveTaxSettings = (settings: TaxSettings) => {
+  localStorage.setItem(TAX_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const detectState = (address: string): string | null => {
+  const text = normalize(address);
+  return STATE_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0] ?? null;
+};
+
+const lineText = (tx: ConvertedTransaction) => normalize(`${tx.originalDescription} ${tx.cleanName}`);
+
+export const taxKindOfText = (text: string): TaxKind => {
+  const normalized = normalize(text);
+  if (ISH_PATTERN.test(normalized)) return 'ish';
+  return IVA_PATTERN.test(normalized) ? 'iva' : 'other';
+};
+
+export const taxKindOf = (tx: ConvertedTransaction): TaxKind => taxKindOfText(lineText(tx));
+
+// The scope a description names, if any: "IVA alimentos", "Hospedaje"...
+export const scopeHintOfText = (text: string): TaxScope | null => {
+  const normalized = normalize(text);
+  if (FOOD_HINT_PATTERN.test(normalized)) return 'food_beverage';
+  return ROOM_HINT_PATTERN.test(normalized) ? 'room' : null;
+};
+
+const scopeHintOf = (tx: ConvertedTransaction) => scopeHintOfText(lineText(tx));
+
+export const chargeScopeOf = (tx: Transaction, taxonomy: CategoryDefinition[] = DEFAULT_TAXONOMY): TaxScope => {
+  if (isInCategory(taxonomy, tx.category, Category.ROOM)) return 'room';
+  return isInCategory(taxonomy, tx.category, Category.FOOD_AND_BEVERAGE) ? 'food_beverage' : 'other';
+};
+
+type Line = ConvertedTransaction & { id: string };
+type BaseLine = { tx: Line; scope: TaxScope };
+
+const sumOf = (lines: BaseLine[]) => lines.reduce((sum, line) => sum + line.tx.convertedAmount, 0);
+
+/**
+ * Links each IVA and ISH line to the charges it was levied on, then compares what was charged
+ * with the configured rates, per scope. A tax line is matched to charges of the same day when
+ * there are any (nightly postings), otherwise to the stay's charges it has not yet been matched
+ * against (a single posting at check-out). Without a hint in its description, an IVA line goes
+ * to whichever scope, or all of them together, its amount fits best. A discount reduces the
+ * base of the scope its category or description names; tips and other credits are not taxable.
+ * A kind with no tax line at all is reported as not itemized rather than as a discrepancy.
+ */
+export const buildTaxBreakdown = (
+  transactions: ConvertedTransaction[],
+  result: Pick<AnalysisResult, 'hotelAddress'>,
+  settings: TaxSettings,
+  taxonomy: CategoryDefinition[] = DEFAULT_TAXONOMY
+): TaxBreakdown => {
+  const state = settings.state ?? detectState(result.hotelAddress);
+  const ivaRate = settings.ivaRate;
+  const ishRate = state ? settings.ishRates[state] ?? 0 : 0;
+  const rateOf = (kind: 'iva' | 'ish') => (kind === 'iva' ? ivaRate : ishRate) / 100;
+
+  const lines = transactions.filter((tx): tx is Line => !!tx.id);
+  const taxLines = lines.filter(tx => isInCategory(taxonomy, tx.category, Category.TAX));
+  // Discount lines are also where payments land, so only those naming a scope are netted.
+  const discountScope = (tx: Line): TaxScope | null => {
+    const scope = chargeScopeOf(tx, taxonomy);
+    return scope !== 'other' ? scope : scopeHintOf(tx);
+  };
+  const bases: BaseLine[] = lines
+    .filter(tx => !isInCategory(taxonomy, tx.category, Category.TAX) && !isTipLine(tx))
+    .map(tx => ({ tx, scope: isInCategory(taxonomy, tx.category, Category.DISCOUNT) ? discountScope(tx) : chargeScopeOf(tx, taxonomy) }))
+    .filter((line): line is BaseLine => !!line.scope && (line.scope !== 'other' || line.tx.convertedAmount > 0));
+
+  const linked = { iva: new Set<string>(), ish: new Set<string>() };
+  const links: TaxLink[] = [];
+  const otherTaxIds: string[] = [];
+  let otherTaxes = 0;
+
+  taxLines.forEach(tx => {
+    const kind = taxKindOf(tx);
+    if (kind === 'other') {
+      otherTaxes += tx.convertedAmount;
+      otherTaxIds.push(tx.id);
+      links.push({ taxId: tx.id, kind, scope: null, baseIds: [], base: 0, expected: null, charged: tx.convertedAmount });
+      return;
+    }
+    const hint = kind === 'ish' ? 'room' : scopeHintOf(tx);
+    const candidates: TaxScope[][] = hint ? [[hint]] : [...SCOPES.map(scope => [scope]), SCOPES];
+    const open = (scopes: TaxScope[]) => bases.filter(line => scopes.includes(line.scope) && !linked[kind].has(line.tx.id));
+    const sameDay = candidates.map(scopes => open(scopes).filter(line => line.tx.date === tx.date));
+    const pools = sameDay.some(pool => pool.length > 0) ? sameDay : candidates.map(open);
+
+    let best: { scopes: TaxScope[]; pool: BaseLine[]; expected: number } | null = null;
+    for (const [index, scopes] of candidates.entries()) {
+      const pool = pools[index];
+      if (pool.length === 0) continue;
+      const expected = round2(sumOf(pool) * rateOf(kind));
+      if (!best || Math.abs(expected - tx.convertedAmount) < Math.abs(best.expected - tx.convertedAmount)) {
+        best = { scopes, pool, expected };
+      }
+    }
+
+    if (!best) {
+      links.push({ taxId: tx.id, kind, scope: hint ?? 'other', baseIds: [], base: 0, expected: 0, charged: tx.convertedAmount });
+      return;
+    }
+    const { scopes, pool, expected } = best;
+    pool.forEach(line => linked[kind].add(line.tx.id));
+    links.push({
+      taxId: tx.id,
+      kind,
+      scope: scopes.length === 1 ? scopes[0] : null,
+      baseIds: pool.map(line => line.tx.id),
+      base: round2(sumOf(pool)),
+      expected,
+      charged: tx.convertedAmount
+    });
+  });
+
+  // Tax matched across scopes is shared between them in proportion to their part of its base.
+  const scopeById = new Map(bases.map(line => [line.tx.id, line]));
+  const chargedIn = (scope: TaxScope, kind: 'iva' | 'ish') => links
+    .filter(link => link.kind === kind)
+    .reduce((sum, link) => {
+      if (link.scope) return link.scope === scope ? sum + link.charged : sum;
+      const inScope = link.baseIds.reduce((part, id) => {
+        const line = scopeById.get(id);
+        return line && line.scope === scope ? part + line.tx.convertedAmount : part;
+      }, 0);
+      return link.base === 0 ? sum : sum + link.charged * (inScope / link.base);
+    }, 0);
+
+  const scopes: TaxScopeSummary[] = SCOPES.map(scope => {
+    const base = round2(sumOf(bases.filter(line => line.scope === scope)));
+    return {
+      scope,
+      base,
+      ivaExpected: round2(base * rateOf('iva')),
+      ivaCharged: round2(chargedIn(scope, 'iva')),
+      ishExpected: scope === 'room' ? round2(base * rateOf('ish')) : 0,
+      ishCharged: round2(chargedIn(scope, 'ish'))
+    };
+  });
+
+  // Tax-inclusive folios have no IVA or ISH line to check against.
+  const notItemized = (['iva', 'ish'] as const).filter(kind => !links.some(link => link.kind === kind));
+
+  const discrepancies: TaxDiscrepancy[] = [];
+  scopes.forEach(summary => {
+    ([['iva', summary.ivaExpected, summary.ivaCharged], ['ish', summary.ishExpected, summary.ishCharged]] as const).forEach(([kind, expected, charged]) => {
+      if (notItemized.includes(kind)) return;
+      if (Math.abs(charged - expected) <= Math.max(TAX_TOLERANCE, Math.abs(expected) * TAX_RELATIVE_TOLERANCE)) return;
+      const taxIds = links
+        .filter(link => link.kind === kind && (link.scope === summary.scope || link.baseIds.some(id => scopeById.get(id)?.scope === summary.scope)))
+        .map(link => link.taxId);
+      discrepancies.push({
+        key: `${kind}:${summary.scope}`,
+        scope: summary.scope,
+        kind,
+        expected,
+        charged,
+        transactionIds: taxIds.length > 0 ? taxIds : bases.filter(line => line.scope === summary.scope).map(line => line.tx.id)
+      });
+    });
+  });
+
+  return {
+    state,
+    ivaRate,
+    ishRate,
+    scopes,
+    links,
+    otherTaxes: round2(otherTaxes),
+    otherTaxIds,
+    creditableIva: round2(links.filter(link => link.kind === 'iva').reduce((sum, link) => sum + link.charged, 0)),
+    notItemized,
+    discrepancies
+  };
+};
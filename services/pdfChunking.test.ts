@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PDFDocument } from 'pdf-lib';
+import { AnalysisResult, PageRangeProgress, Transaction } from '../types';
+import { extractByPageRanges, mergeChunkResults, splitPdf } from './pdfChunking';
+import { resultCacheKey } from './resultCache';
+import { DEFAULT_TAXONOMY } from './taxonomy';
+
+const samplePdf = async (pageCount: number) => {
+  const doc = await PDFDocument.create();
+  for (let page = 1; page <= pageCount; page++) doc.addPage().drawText(`Page ${page}`);
+  return new File([await doc.save()], 'folio.pdf', { type: 'application/pdf' });
+};
+
+test('splitting the same PDF twice gives chunks with the same cache keys', async () => {
+  const file = await samplePdf(6);
+  const keys = async () => Promise.all((await splitPdf(file, 4)).map(chunk => resultCacheKey(chunk.file, DEFAULT_TAXONOMY)));
+  const first = await keys();
+  await new Promise(resolve => setTimeout(resolve, 1100)); // Past a PDF date's one-second resolution
+  assert.equal(first.length, 2);
+  assert.deepEqual(await keys(), first);
+});
+
+test('consecutive ranges share their boundary page', async () => {
+  const ranges = async (pageCount: number) => (await splitPdf(await samplePdf(pageCount), 4)).map(({ fromPage, toPage }) => [fromPage, toPage]);
+  assert.deepEqual(await ranges(4), [[1, 4]]);
+  assert.deepEqual(await ranges(5), [[1, 4], [4, 5]]);
+  assert.deepEqual(await ranges(10), [[1, 4], [4, 7], [7, 10]]);
+});
+
+const minibar = (id: string, page: number) =>
+  ({ id, date: '02/01/2024', originalDescription: 'Minibar', cleanName: 'Minibar', amount: 80, category: 'food_beverage', location: { page } }) as Transaction;
+const resultWith = (transactions: Transaction[]) => ({ transactions, totalAmount: 0 }) as unknown as AnalysisResult;
+
+test('the shared page is taken once and identical charges elsewhere are kept', () => {
+  const merged = mergeChunkResults(
+    [resultWith([minibar('a', 3), minibar('b', 4)]), resultWith([minibar('b2', 4), minibar('c', 5)])],
+    [{ fromPage: 1, toPage: 4 }, { fromPage: 4, toPage: 5 }]
+  );
+  assert.deepEqual(merged.transactions.map(tx => tx.id), ['a', 'b', 'c']);
+});
+
+test('a range that fails is marked as failed', async () => {
+  const statuses: PageRangeProgress['status'][][] = [];
+  const failing = extractByPageRanges(await samplePdf(6), { onProgress: progress => statuses.push(progress.ranges.map(range => range.status)) }, async (_, pages) => {
+    if (pages?.fromPage === 4) throw new Error('model unavailable');
+    return resultWith([]);
+  });
+  await assert.rejects(failing, /model unavailable/);
+  assert.deepEqual(statuses[statuses.length - 1], ['done', 'error']);
+});
@@ -0,0 +1,148 @@
+import { AnalysisResult, HeaderField, PageRangeProgress, Transaction, ValidationIssueCode } from "../types";
+import { PAGES_PER_CHUNK } from "../constants";
+import type { ExtractOptions } from "./statementExtractor";
+import { AnalysisValidationError } from "./analysisValidator";
+import { abortError, isAbortError } from "./retry";
+
+const HEADER_FIELDS: HeaderField[] = [
+  'hotelName', 'hotelAddress', 'guestName', 'roomNumber', 'checkIn', 'checkOut', 'confirmationNumber', 'detectedCurrency'
+];
+
+// A page range cut out of a larger PDF; pages are 1-based and inclusive. Each range after
+// the first starts on the page the one before it ended on.
+export interface PdfChunk {
+  file: File;
+  fromPage: number;
+  toPage: number;
+}
+
+/**
+ * Splits a PDF into documents of at most `pagesPerChunk` pages, consecutive ones sharing a
+ * page so a line printed across a page break is seen whole. A PDF that already fits is
+ * returned as its only chunk, untouched. Chunks keep the original file name, since that is
+ * what recordings and the history know the folio by, and carry no creation or modification
+ * date, so the same page range always has the same bytes and hits the result cache.
+ */
+export const splitPdf = async (file: File, pagesPerChunk: number = PAGES_PER_CHUNK): Promise<PdfChunk[]> => {
+  const { PDFDocument } = await import('pdf-lib');
+  const source = await PDFDocument.load(await file.arrayBuffer(), { ignoreEncryption: true });
+  const pageCount = source.getPageCount();
+  if (pageCount <= pagesPerChunk) return [{ file, fromPage: 1, toPage: pageCount }];
+
+  const sharedPages = pagesPerChunk > 1 ? 1 : 0;
+  const chunks: PdfChunk[] = [];
+  for (let start = 0; ; start += pagesPerChunk - sharedPages) {
+    const end = Math.min(start + pagesPerChunk, pageCount);
+    const indices = Array.from({ length: end - start }, (_, offset) => start + offset);
+    const chunk = await PDFDocument.create({ updateMetadata: false });
+    (await chunk.copyPages(source, indices)).forEach(page => chunk.addPage(page));
+    chunks.push({
+      file: new File([await chunk.save()], file.name, { type: 'application/pdf' }),
+      fromPage: start + 1,
+      toPage: end
+    });
+    if (end === pageCount) return chunks;
+  }
+};
+
+// Raw model output is not validated yet, so every field is read defensively.
+const lineKey = (tx: Transaction) =>
+  [String(tx?.date ?? ''), String(tx?.originalDescription ?? '').trim().toLowerCase(), Number(tx?.amount)].join('|');
+
+// Lines at the start of `next` that repeat the end of `previous`, for ranges whose lines
+// carry no page number to tell the shared page's lines apart.
+const overlapLength = (previous: Transaction[], next: Transaction[]) => {
+  for (let length = Math.min(previous.length, next.length); length > 0; length--) {
+    const tail = previous.slice(-length).map(lineKey);
+    if (next.slice(0, length).every((tx, index) => lineKey(tx) === tail[index])) return length;
+  }
+  return 0;
+};
+
+/**
+ * Joins the extractions of consecutive page ranges into one result. Header fields come from
+ * the first range that has them (usually the first page), the lines of a page two ranges
+ * share are taken from the first of them only, and the total is the last range's:
+ * intermediate pages only print running subtotals. Page numbers must already count from
+ * the start of the whole PDF.
+ */
+export const mergeChunkResults = (results: AnalysisResult[], chunks: Pick<PdfChunk, 'fromPage' | 'toPage'>[]): AnalysisResult => {
+  const linesOf = (result: AnalysisResult): Transaction[] => (Array.isArray(result?.transactions) ? result.transactions : []);
+  const transactions = results.flatMap((result, index) => {
+    const lines = linesOf(result);
+    const sharedPage = index > 0 && chunks[index - 1].toPage === chunks[index].fromPage ? chunks[index].fromPage : null;
+    if (sharedPage === null) return lines;
+    if (lines.every(tx => typeof tx?.location?.page === 'number')) return lines.filter(tx => tx.location!.page !== sharedPage);
+    return lines.slice(overlapLength(linesOf(results[index - 1]), lines));
+  });
+
+  // Each field keeps the model's confidence from the range it was taken from.
+  const header = {} as Pick<AnalysisResult, HeaderField>;
+  const fieldConfidence: Partial<Record<HeaderField, number>> = {};
+  HEADER_FIELDS.forEach(field => {
+    const source = results.find(result => typeof result?.[field] === 'string' && result[field].trim());
+    header[field] = source?.[field] ?? '';
+    if (source?.fieldConfidence?.[field] !== undefined) fieldConfidence[field] = source.fieldConfidence[field];
+  });
+
+  return { ...header, transactions, totalAmount: results[results.length - 1]?.totalAmount, fieldConfidence };
+};
+
+// Page numbers in a chunk's result count from the chunk's first page; makes them count
+// from the start of the whole PDF.
+const offsetPages = (result: AnalysisResult, offset: number): AnalysisResult => {
+  if (offset === 0 || !Array.isArray(result?.transactions)) return result;
+  return {
+    ...result,
+    transactions: result.transactions.map(tx =>
+      typeof tx?.location?.page === 'number' ? { ...tx, location: { ...tx.location, page: tx.location.page + offset } } : tx
+    )
+  };
+};
+
+/**
+ * Extracts a PDF one page range at a time with `extractChunk`, reporting each range's
+ * status through `options.onProgress`, and merges the results. Ranges run one after the
+ * other so a long folio does not use up the analysis rate limit on its own. A PDF that
+ * cannot be split (damaged or encrypted) is extracted whole.
+ */
+export const extractByPageRanges = async (
+  file: File,
+  options: ExtractOptions,
+  // `pages` is only given when the PDF was actually split
+  extractChunk: (chunk: File, pages?: Pick<PdfChunk, 'fromPage' | 'toPage'>) => Promise<AnalysisResult>
+): Promise<AnalysisResult> => {
+  let chunks: PdfChunk[];
+  try {
+    chunks = await splitPdf(file);
+  } catch (err) {
+    console.warn(`Could not split ${file.name}, extracting it whole:`, err);
+    return extractChunk(file);
+  }
+
+  const ranges: PageRangeProgress[] = chunks.map(({ fromPage, toPage }) => ({ fromPage, toPage, status: 'pending' }));
+  const setStatus = (index: number, status: PageRangeProgress['status']) => {
+    ranges[index] = { ...ranges[index], status };
+    options.onProgress?.({ totalPages: chunks[chunks.length - 1].toPage, ranges: [...ranges] });
+  };
+
+  const results: AnalysisResult[] = [];
+  for (const [index, chunk] of chunks.entries()) {
+    if (options.signal?.aborted) throw abortError();
+    setStatus(index, 'analyzing');
+    const pages = chunks.length > 1 ? { fromPage: chunk.fromPage, toPage: chunk.toPage } : undefined;
+    try {
+      const result = await extractChunk(chunk.file, pages);
+      // A range without a list of lines would merge into a folio silently missing its pages.
+      if (chunks.length > 1 && !Array.isArray(result?.transactions)) {
+        throw new AnalysisValidationError([{ field: 'transactions', code: ValidationIssueCode.MISSING_FIELD, severity: 'error', value: `${chunk.fromPage}-${chunk.toPage}` }]);
+      }
+      results.push(offsetPages(result, chunk.fromPage - 1));
+    } catch (err) {
+      if (!isAbortError(err)) setStatus(index, 'error');
+      throw err;
+    }
+    setStatus(index, 'done');
+  }
+  return results.length === 1 ? results[0] : mergeChunkResults(results, chunks);
+};
@@ -0,0 +1,8 @@
+// Loads pdf.js on first use. Its parser runs in a worker, served from the same CDN as the module.
+export const loadPdfJs = async () => {
+  const pdfjs = await import('pdfjs-dist');
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = `https://esm.sh/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
+  }
+  return pdfjs;
+};
@@ -0,0 +1,387 @@
+import { AnalysisResult, ExpensePolicy, Language, PolicyViolation } from "../types";
+import { TRANSLATIONS } from "../constants";
+import { categoryColor, categoryLabel } from "./taxonomy";
+import { describeFilters, ExportContext, totalsByCategory } from "./exporters";
+import { expenseClassOf, expenseTotals, reimbursablePart } from "./expensePolicy";
+import { amountAdjustments } from "./transactionEdits";
+
+const LOGO_URL = '/vidanta-logo.png';
+const BRAND_COLOR = '#2563EB'; // Tailwind blue-600, as in the app's navbar
+const PAGE_MARGIN = 40;
+const HEADER_HEIGHT = 56;
+const FOOTER_HEIGHT = 28;
+const ROW_HEIGHT = 18;
+
+type PngImage = { dataUrl: string; width: number; height: number };
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error(`Could not load image ${src.slice(0, 60)}`));
+  image.src = src;
+});
+
+// Rasterizes an image (or SVG) at `scale` on a white background, since PDF viewers show
+// transparent PNGs inconsistently.
+const rasterize = (image: HTMLImageElement, width: number, height: number, scale = 2): PngImage => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const context = canvas.getContext('2d')!;
+  context.fillStyle = '#FFFFFF';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return { dataUrl: canvas.toDataURL('image/png'), width, height };
+};
+
+// Captures a rendered Recharts chart. Its SVG is self-contained apart from the page font.
+export const chartToPng = async (svg: SVGSVGElement): Promise<PngImage> => {
+  const { width, height } = svg.getBoundingClientRect();
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  clone.style.fontFamily = 'Helvetica, Arial, sans-serif';
+  const url = URL.createObjectURL(new Blob([new XMLSerializer().serializeToString(clone)], { type: 'image/svg+xml' }));
+  try {
+    return rasterize(await loadImage(url), width, height);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const loadLogo = async (): Promise<PngImage | null> => {
+  try {
+    const image = await loadImage(LOGO_URL);
+    return rasterize(image, image.naturalWidth, image.naturalHeight, 1);
+  } catch (err) {
+    console.warn('Report logo unavailable:', err);
+    return null;
+  }
+};
+
+type ReportDoc = InstanceType<typeof import('jspdf').jsPDF>;
+
+interface ReportPage {
+  doc: ReportDoc;
+  pageWidth: number;
+  contentWidth: number;
+  bottom: number; // Lowest baseline above the footer
+  y: number; // Baseline of the next line
+  ensureSpace: (height: number) => void;
+  newPage: () => void;
+  setBody: (size?: number, style?: 'normal' | 'bold', color?: string) => void;
+}
+
+// An A4 document with the branded header on every page. jsPDF is only loaded when a report is requested.
+const createReport = async (title: string): Promise<ReportPage> => {
+  const { jsPDF } = await import('jspdf');
+  const logo = await loadLogo();
+  const doc = new jsPDF({ unit: 'pt', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const bottom = doc.internal.pageSize.getHeight() - FOOTER_HEIGHT - PAGE_MARGIN / 2;
+
+  const drawBrandHeader = () => {
+    doc.setFillColor(BRAND_COLOR);
+    doc.rect(0, 0, pageWidth, HEADER_HEIGHT, 'F');
+    let textX = PAGE_MARGIN;
+    if (logo) {
+      const logoHeight = HEADER_HEIGHT - 20;
+      const logoWidth = (logo.width / logo.height) * logoHeight;
+      doc.addImage(logo.dataUrl, 'PNG', PAGE_MARGIN, 10, logoWidth, logoHeight);
+      textX += logoWidth + 12;
+    }
+    doc.setTextColor('#FFFFFF');
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(14);
+    doc.text(title, textX, HEADER_HEIGHT / 2 + 5);
+    page.y = HEADER_HEIGHT + 24;
+  };
+
+  const page: ReportPage = {
+    doc,
+    pageWidth,
+    contentWidth: pageWidth - PAGE_MARGIN * 2,
+    bottom,
+    y: 0,
+    newPage: () => {
+      doc.addPage();
+      drawBrandHeader();
+    },
+    ensureSpace: height => {
+      if (page.y + height > page.bottom) page.newPage();
+    },
+    setBody: (size = 10, style = 'normal', color = '#111827') => {
+      doc.setFont('helvetica', style);
+      doc.setFontSize(size);
+      doc.setTextColor(color);
+    }
+  };
+  drawBrandHeader();
+  return page;
+};
+
+// Hotel name and address, then label/value pairs in two columns.
+const drawStayHeader = (page: ReportPage, result: AnalysisResult, details: [string, string][]) => {
+  const { doc, contentWidth, setBody } = page;
+  setBody(20, 'bold');
+  doc.text(result.hotelName, PAGE_MARGIN, page.y);
+  page.y += 16;
+  setBody(9, 'normal', '#6B7280');
+  doc.text(doc.splitTextToSize(result.hotelAddress, contentWidth), PAGE_MARGIN, page.y);
+  page.y += 22;
+
+  const columnWidth = contentWidth / 2;
+  details.forEach(([label, value], index) => {
+    const x = PAGE_MARGIN + (index % 2) * columnWidth;
+    setBody(9, 'normal', '#6B7280');
+    doc.text(label, x, page.y);
+    setBody(10, 'bold');
+    doc.text(doc.splitTextToSize(value || '—', columnWidth - 100)[0], x + 90, page.y);
+    if (index % 2 === 1) page.y += ROW_HEIGHT;
+  });
+  if (details.length % 2 === 1) page.y += ROW_HEIGHT;
+};
+
+// Footer on every page once the page count is known.
+const finishReport = ({ doc, pageWidth, setBody }: ReportPage, language: Language): Blob => {
+  const t = TRANSLATIONS[language];
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const pageCount = doc.getNumberOfPages();
+  const generated = `${t.reportGeneratedOn} ${new Date().toLocaleString(language === Language.ES ? 'es-MX' : 'en-US')}`;
+  for (let number = 1; number <= pageCount; number++) {
+    doc.setPage(number);
+    setBody(8, 'normal', '#9CA3AF');
+    doc.text(generated, PAGE_MARGIN, pageHeight - PAGE_MARGIN / 2);
+    doc.text(`${t.reportPage} ${number} / ${pageCount}`, pageWidth - PAGE_MARGIN, pageHeight - PAGE_MARGIN / 2, { align: 'right' });
+  }
+  return doc.output('blob');
+};
+
+interface TableColumn {
+  label: string;
+  x: number;
+  width: number;
+  align?: 'right';
+}
+
+// Rows of a table, repeating the column header on every page and striping every other row.
+const drawTable = (page: ReportPage, columns: TableColumn[], rows: { cells: string[]; color?: string; amountColor?: string }[]) => {
+  const { doc, contentWidth, setBody } = page;
+  const drawHeader = () => {
+    doc.setFillColor('#F3F4F6');
+    doc.rect(PAGE_MARGIN, page.y - 12, contentWidth, ROW_HEIGHT, 'F');
+    setBody(9, 'bold', '#4B5563');
+    columns.forEach(col => doc.text(col.label, col.x + (col.align ? -4 : 4), page.y, col.align ? { align: col.align } : undefined));
+    page.y += ROW_HEIGHT;
+  };
+
+  drawHeader();
+  rows.forEach((row, index) => {
+    if (page.y + ROW_HEIGHT > page.bottom) {
+      page.newPage();
+      drawHeader();
+    }
+    if (index % 2 === 1) {
+      doc.setFillColor('#F9FAFB');
+      doc.rect(PAGE_MARGIN, page.y - 12, contentWidth, ROW_HEIGHT, 'F');
+    }
+    row.cells.forEach((cell, i) => {
+      const col = columns[i];
+      setBody(9, 'normal', col.align ? row.amountColor ?? row.color ?? '#111827' : row.color ?? '#111827');
+      if (col.align) doc.text(cell, col.x - 4, page.y, { align: col.align });
+      else doc.text(doc.splitTextToSize(cell, col.width - 8)[0] ?? '', col.x + 4, page.y);
+    });
+    page.y += ROW_HEIGHT;
+  });
+};
+
+/**
+ * A4 report: branded header on every page, the stay's header data and totals, the charts
+ * as shown in the Dashboard, per-category amounts and every transaction, with page numbers.
+ */
+export const toPdfReport = async (ctx: ExportContext, charts: SVGSVGElement[] = []): Promise<Blob> => {
+  const { result, transactions, currency, taxonomy, language, formatCurrency } = ctx;
+  const t = TRANSLATIONS[language];
+  const [page, chartImages] = await Promise.all([createReport(t.title), Promise.all(charts.map(chartToPng))]);
+  const { doc, pageWidth, contentWidth, ensureSpace, setBody } = page;
+
+  // Stay header
+  drawStayHeader(page, result, [
+    [t.guest, result.guestName], [t.checkIn, result.checkIn],
+    [t.room, result.roomNumber], [t.checkOut, result.checkOut],
+    [t.folio, result.confirmationNumber], [t.filtersApplied, describeFilters(ctx.filters, taxonomy, language)]
+  ]);
+
+  page.y += 10;
+  setBody(9, 'normal', '#6B7280');
+  doc.text(t.totalSpend.toUpperCase(), PAGE_MARGIN, page.y);
+  setBody(22, 'bold', BRAND_COLOR);
+  doc.text(formatCurrency(ctx.totalSpend), PAGE_MARGIN, page.y + 24);
+  setBody(9, 'normal', '#6B7280');
+  doc.text(`${t.printedTotal}: ${result.totalAmount.toFixed(2)} ${result.detectedCurrency}`, pageWidth - PAGE_MARGIN, page.y + 24, { align: 'right' });
+  page.y += 48;
+
+  // Charts side by side, sharing the content width
+  if (chartImages.length > 0) {
+    const slotWidth = contentWidth / chartImages.length;
+    const heights = chartImages.map(img => Math.min(180, (img.height / img.width) * (slotWidth - 10)));
+    ensureSpace(Math.max(...heights));
+    chartImages.forEach((img, index) => {
+      const height = heights[index];
+      const width = (img.width / img.height) * height;
+      doc.addImage(img.dataUrl, 'PNG', PAGE_MARGIN + index * slotWidth, page.y, width, height);
+    });
+    page.y += Math.max(...heights) + 16;
+  }
+
+  // Amount by category, with the chart colors as the legend
+  ensureSpace(ROW_HEIGHT * 2);
+  setBody(12, 'bold');
+  doc.text(t.amountByCategory, PAGE_MARGIN, page.y);
+  page.y += ROW_HEIGHT;
+  totalsByCategory(transactions, taxonomy).forEach(({ id, amount }) => {
+    ensureSpace(ROW_HEIGHT);
+    doc.setFillColor(categoryColor(taxonomy, id));
+    doc.circle(PAGE_MARGIN + 4, page.y - 3, 4, 'F');
+    setBody(10);
+    doc.text(categoryLabel(taxonomy, id, language), PAGE_MARGIN + 16, page.y);
+    doc.text(formatCurrency(amount), PAGE_MARGIN + 260, page.y, { align: 'right' });
+    page.y += ROW_HEIGHT;
+  });
+  page.y += 12;
+
+  // Transactions
+  ensureSpace(ROW_HEIGHT * 3);
+  setBody(12, 'bold');
+  doc.text(t.transactions, PAGE_MARGIN, page.y);
+  page.y += ROW_HEIGHT;
+  drawTable(
+    page,
+    [
+      { label: t.date, x: PAGE_MARGIN, width: 62 },
+      { label: t.cleanName, x: PAGE_MARGIN + 62, width: 200 },
+      { label: t.category, x: PAGE_MARGIN + 262, width: 140 },
+      { label: `${t.amount} (${currency})`, x: pageWidth - PAGE_MARGIN, width: 110, align: 'right' }
+    ],
+    transactions.map(tx => ({
+      cells: [tx.date, `${tx.cleanName}${tx.edit ? ' *' : ''}`, categoryLabel(taxonomy, tx.category, language), formatCurrency(tx.convertedAmount)],
+      color: tx.edit ? '#B45309' : undefined,
+      amountColor: tx.convertedAmount < 0 ? '#16A34A' : '#111827'
+    }))
+  );
+
+  if (transactions.some(tx => tx.edit)) {
+    ensureSpace(ROW_HEIGHT);
+    setBody(8, 'normal', '#B45309');
+    const note = amountAdjustments(result).length > 0 ? ` · ${t.editedTotalNote}` : '';
+    doc.text(`* ${t.editedMarker}${note}`, PAGE_MARGIN, page.y + 4);
+  }
+
+  return finishReport(page, language);
+};
+
+/**
+ * Expense report for submission: the folio header, reimbursable and personal totals, the
+ * policy and its exceptions, every line with its claimed part, and signature lines.
+ */
+export const toExpenseReport = async (ctx: ExportContext, policy: ExpensePolicy, violations: PolicyViolation[]): Promise<Blob> => {
+  const { result, transactions, currency, taxonomy, language, formatCurrency } = ctx;
+  const t = TRANSLATIONS[language];
+  const page = await createReport(t.expenseReportTitle);
+  const { doc, pageWidth, contentWidth, ensureSpace, setBody } = page;
+
+  drawStayHeader(page, result, [
+    [t.guest, result.guestName], [t.checkIn, result.checkIn],
+    [t.room, result.roomNumber], [t.checkOut, result.checkOut],
+    [t.folio, result.confirmationNumber]
+  ]);
+
+  // Totals
+  const totals = expenseTotals(transactions);
+  page.y += 10;
+  const third = contentWidth / 3;
+  ([[t.reimbursableTotal, totals.reimbursable, BRAND_COLOR], [t.personalTotal, totals.personal, '#111827'], [t.lineSum, totals.total, '#111827']] as const)
+    .forEach(([label, amount, color], index) => {
+      setBody(9, 'normal', '#6B7280');
+      doc.text(label.toUpperCase(), PAGE_MARGIN + index * third, page.y);
+      setBody(18, 'bold', color);
+      doc.text(formatCurrency(amount), PAGE_MARGIN + index * third, page.y + 22);
+    });
+  page.y += 44;
+
+  // Policy and its exceptions
+  setBody(12, 'bold');
+  doc.text(t.policyTitle, PAGE_MARGIN, page.y);
+  page.y += ROW_HEIGHT;
+  setBody(9, 'normal', '#4B5563');
+  [
+    `${t.mealPerDiemLabel}: ${policy.mealPerDiem === null ? t.noLimit : `${policy.mealPerDiem} ${policy.currency}`}`,
+    `${t.maxTipPercentLabel}: ${policy.maxTipPercent === null ? t.noLimit : `${policy.maxTipPercent}%`}`,
+    `${t.disallowedCategoriesLabel}: ${policy.disallowedCategories.map(id => categoryLabel(taxonomy, id, language, true)).join(', ') || '—'}`
+  ].forEach(line => {
+    ensureSpace(ROW_HEIGHT);
+    doc.text(doc.splitTextToSize(line, contentWidth)[0], PAGE_MARGIN, page.y);
+    page.y += ROW_HEIGHT - 4;
+  });
+  page.y += 8;
+
+  ensureSpace(ROW_HEIGHT * 2);
+  setBody(12, 'bold');
+  doc.text(t.policyViolationsTitle, PAGE_MARGIN, page.y);
+  page.y += ROW_HEIGHT;
+  if (violations.length === 0) {
+    setBody(9, 'normal', '#16A34A');
+    doc.text(t.policyCompliant, PAGE_MARGIN, page.y);
+    page.y += ROW_HEIGHT;
+  }
+  const byId = new Map(transactions.map(tx => [tx.id, tx]));
+  violations.forEach(violation => {
+    ensureSpace(ROW_HEIGHT);
+    const lines = violation.transactionIds.map(id => byId.get(id)?.cleanName).filter(Boolean).join(', ');
+    const amounts = violation.kind === 'cap_not_convertible'
+      ? `${policy.mealPerDiem} ${policy.currency}`
+      : violation.kind === 'disallowed_category'
+        ? formatCurrency(violation.claimed)
+        : `${formatCurrency(violation.claimed)} / ${formatCurrency(violation.limit)}`;
+    setBody(9, 'normal', '#B91C1C');
+    doc.text(doc.splitTextToSize(`${t.policyViolationKinds[violation.kind]}${violation.date ? ` (${violation.date})` : ''}: ${lines}`, contentWidth - 150)[0], PAGE_MARGIN, page.y);
+    doc.text(amounts, pageWidth - PAGE_MARGIN, page.y, { align: 'right' });
+    page.y += ROW_HEIGHT;
+  });
+  page.y += 12;
+
+  // Lines
+  ensureSpace(ROW_HEIGHT * 3);
+  setBody(12, 'bold');
+  doc.text(t.transactions, PAGE_MARGIN, page.y);
+  page.y += ROW_HEIGHT;
+  drawTable(
+    page,
+    [
+      { label: t.date, x: PAGE_MARGIN, width: 62 },
+      { label: t.cleanName, x: PAGE_MARGIN + 62, width: 170 },
+      { label: t.expenseColumn, x: PAGE_MARGIN + 232, width: 80 },
+      { label: `${t.amount} (${currency})`, x: pageWidth - PAGE_MARGIN - 100, width: 90, align: 'right' },
+      { label: t.reimbursableTotal, x: pageWidth - PAGE_MARGIN, width: 100, align: 'right' }
+    ],
+    transactions.map(tx => ({
+      cells: [tx.date, tx.cleanName, t.expenseClasses[expenseClassOf(tx)], formatCurrency(tx.convertedAmount), formatCurrency(reimbursablePart(tx))],
+      color: expenseClassOf(tx) === 'personal' ? '#9CA3AF' : undefined
+    }))
+  );
+
+  // Signatures
+  ensureSpace(80);
+  page.y += 56;
+  const half = contentWidth / 2;
+  [t.employeeSignature, t.approverSignature].forEach((label, index) => {
+    const x = PAGE_MARGIN + index * half;
+    doc.setDrawColor('#9CA3AF');
+    doc.line(x, page.y, x + half - 30, page.y);
+    setBody(9, 'normal', '#6B7280');
+    doc.text(label, x, page.y + 12);
+  });
+
+  return finishReport(page, language);
+};
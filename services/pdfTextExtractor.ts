@@ -0,0 +1,168 @@
+import { AnalysisResult, Category, ExtractorBackend, SourceLocation, Transaction } from "../types";
+import type { StatementExtractor } from "./statementExtractor";
+import { coerceCurrency, coerceNumber, normalizeDate } from "./analysisValidator";
+import { loadPdfJs } from "./pdfJs";
+
+// Text items whose baselines are this close (in PDF units) belong to the same printed row.
+const LINE_TOLERANCE = 2;
+
+const DATE_PATTERN = /^(\d{1,2}[\/\-.]\d{1,2}[\/\-.]\d{2,4})\s+/;
+const AMOUNT_PATTERN = /\s(-?\$?\s?\(?-?[\d,]+\.\d{2}\)?-?)$/;
+const CURRENCY_PATTERN = /\b(MXN|MxN|USD|US\$|EUR|CAD)\b/;
+
+// Mirrors the category hints in the default taxonomy; subcategories are tried before their group.
+const CATEGORY_KEYWORDS: [Category, RegExp][] = [
+  [Category.TAX, /\b(dersan|ish|iva|tua|impuesto|tax)\b/i],
+  [Category.DISCOUNT, /\b(abono|descuento|discount|credit|cr[eé]dito|pago|payment)\b/i],
+  [Category.MINIBAR, /\bmini\s?bar/i],
+  [Category.LOBBY_BAR, /\blobby\s?bar/i],
+  [Category.ROOM_SERVICE, /\b(room service|servicio a cuartos|servicio a habitaci[oó]n|in room dining)/i],
+  [Category.SPA, /\b(spa|masaje|massage|salon)\b/i],
+  [Category.ROOM, /\b(habitaci[oó]n|hospedaje|room|upgrade|early check)/i],
+  [Category.FOOD_AND_BEVERAGE, /\b(rest|restaurante?|bar|desayuno|breakfast|comida|lunch|cena|dinner|alimentos|bebidas|caf[eé])/i],
+  [Category.SERVICE, /\b(propina|tip|lavander[ií]a|laundry|tel[eé]fono|phone|transport|valet|servicio)/i]
+];
+
+const HEADER_PATTERNS: Record<'guestName' | 'roomNumber' | 'checkIn' | 'checkOut' | 'confirmationNumber', RegExp> = {
+  guestName: /(?:hu[eé]sped|guest(?: name)?|nombre)\s*:?\s*(.+)/i,
+  roomNumber: /(?:habitaci[oó]n|room(?: no\.?| number)?|hab\.)\s*:?\s*([A-Z0-9-]+)/i,
+  checkIn: /(?:llegada|arrival|check[ -]?in)\s*:?\s*(\d{1,2}[\/\-.]\d{1,2}[\/\-.]\d{2,4})/i,
+  checkOut: /(?:salida|departure|check[ -]?out)\s*:?\s*(\d{1,2}[\/\-.]\d{1,2}[\/\-.]\d{2,4})/i,
+  confirmationNumber: /(?:folio|confirmaci[oó]n|confirmation)(?: no\.?| number)?\s*:?\s*([A-Z0-9-]+)/i
+};
+
+interface TextRow {
+  y: number;
+  cells: { x: number; text: string }[];
+}
+
+// One printed row of the folio, with where it sits in the PDF.
+export interface TextLine {
+  text: string;
+  location?: SourceLocation;
+}
+
+const categorize = (description: string, amount: number) => {
+  if (amount < 0) return Category.DISCOUNT;
+  const match = CATEGORY_KEYWORDS.find(([, pattern]) => pattern.test(description));
+  return match ? match[0] : Category.OTHER;
+};
+
+// 'REST EL PATIO 23423' -> 'El Patio'
+const toCleanName = (description: string) => {
+  const words = description
+    .replace(/\b(rest|chk|ref|no)\.?\b/gi, '')
+    .replace(/[#*]?\d[\d\-\/.]*/g, '')
+    .split(/\s+/)
+    .filter(Boolean);
+  const name = words.map(w => w.charAt(0).toUpperCase() + w.slice(1).toLowerCase()).join(' ');
+  return name || description.trim();
+};
+
+const loadTextLines = async (file: File): Promise<TextLine[]> => {
+  const pdfjs = await loadPdfJs();
+  const doc = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const lines: TextLine[] = [];
+
+  for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber++) {
+    const page = await doc.getPage(pageNumber);
+    const content = await page.getTextContent();
+    const [, bottom, , top] = page.view;
+    const rows: TextRow[] = [];
+
+    content.items.forEach(item => {
+      if (!('str' in item) || !item.str.trim()) return;
+      const [, , , , x, y] = item.transform;
+      let row = rows.find(r => Math.abs(r.y - y) <= LINE_TOLERANCE);
+      if (!row) {
+        row = { y, cells: [] };
+        rows.push(row);
+      }
+      row.cells.push({ x, text: item.str.trim() });
+    });
+
+    // PDF y grows upwards, so the top of the page comes first when sorting descending.
+    rows
+      .sort((a, b) => b.y - a.y)
+      .forEach(row => lines.push({
+        text: row.cells.sort((a, b) => a.x - b.x).map(c => c.text).join(' '),
+        location: { page: pageNumber, y: (top - row.y) / (top - bottom) }
+      }));
+  }
+
+  await doc.destroy();
+  return lines;
+};
+
+/**
+ * Builds an AnalysisResult from the folio's text layer without calling a model. Rows that
+ * start with a date and end with an amount are taken as charges; everything else is scanned
+ * for header labels. Scanned (image-only) PDFs have no text layer and yield no transactions.
+ */
+export const parseFolioLines = (lines: TextLine[]): AnalysisResult => {
+  const header: Partial<Record<keyof typeof HEADER_PATTERNS, string>> = {};
+  const transactions: Transaction[] = [];
+  let totalAmount: number | null = null;
+  let detectedCurrency = '';
+
+  lines.forEach(({ text: line, location }) => {
+    const currencyMatch = line.match(CURRENCY_PATTERN);
+    const lineCurrency = currencyMatch ? coerceCurrency(currencyMatch[1]) ?? '' : '';
+    if (lineCurrency && !detectedCurrency) {
+      detectedCurrency = lineCurrency;
+    }
+
+    const dateMatch = line.match(DATE_PATTERN);
+    const amountMatch = line.match(AMOUNT_PATTERN);
+
+    if (/^total\b/i.test(line) && amountMatch) {
+      // The last printed total on the statement is the grand total.
+      totalAmount = coerceNumber(amountMatch[1]);
+      return;
+    }
+
+    if (dateMatch && amountMatch) {
+      const originalDescription = line.slice(dateMatch[0].length, line.length - amountMatch[0].length).trim();
+      let amount = coerceNumber(amountMatch[1]) ?? 0;
+      if (/\babono/i.test(originalDescription) && amount > 0) amount = -amount;
+
+      transactions.push({
+        date: normalizeDate(dateMatch[1]) ?? dateMatch[1],
+        originalDescription,
+        cleanName: toCleanName(originalDescription),
+        amount,
+        currency: lineCurrency,
+        category: categorize(originalDescription, amount),
+        location
+      });
+      return;
+    }
+
+    (Object.keys(HEADER_PATTERNS) as (keyof typeof HEADER_PATTERNS)[]).forEach(field => {
+      if (header[field]) return;
+      const match = line.match(HEADER_PATTERNS[field]);
+      if (match) header[field] = match[1].trim();
+    });
+  });
+
+  const lineSum = transactions.reduce((sum, tx) => sum + tx.amount, 0);
+
+  return {
+    hotelName: lines.find(l => l.text.trim())?.text.trim() ?? '',
+    hotelAddress: lines.find(l => /\b(blvd|av\.?|avenida|calle|km|c\.p\.|cp)\b/i.test(l.text))?.text.trim() ?? '',
+    guestName: header.guestName ?? '',
+    roomNumber: header.roomNumber ?? '',
+    checkIn: header.checkIn ?? '',
+    checkOut: header.checkOut ?? '',
+    confirmationNumber: header.confirmationNumber ?? '',
+    transactions: transactions.map(tx => ({ ...tx, currency: tx.currency || detectedCurrency })),
+    totalAmount: totalAmount ?? lineSum,
+    detectedCurrency: detectedCurrency || 'MXN'
+  };
+};
+
+export const pdfTextExtractor: StatementExtractor = {
+  backend: ExtractorBackend.PDF_TEXT,
+  model: 'pdf.js text layer',
+  extract: async (file: File) => parseFolioLines(await loadTextLines(file))
+};
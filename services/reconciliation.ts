@@ -0,0 +1,152 @@
+import { AnalysisResult, ExtractionRegion, MismatchCause, RateProvider, Reconciliation, ReconciliationFinding, Transaction } from "../types";
+import { coerceCurrency, formatCanonicalDate, parseCanonicalDate } from "./analysisValidator";
+
+// Allow for small rounding diffs between the printed total and the sum of the lines.
+export const TOTAL_TOLERANCE = 1;
+
+const SUBTOTAL_PATTERN = /\b(sub\s?total|total|saldo|balance|suma)\b/i;
+const CREDIT_PATTERN = /\b(abono|descuento|discount|cr[eé]dito|credit|pago|payment|reembolso|refund)\b/i;
+
+const near = (a: number, b: number) => Math.abs(a - b) <= TOTAL_TOLERANCE;
+
+const regionForDate = (date: string): ExtractionRegion | null => (date ? { fromDate: date, toDate: date } : null);
+
+const lineKey = (tx: Transaction) => `${tx.date}|${tx.originalDescription.trim().toLowerCase()}|${tx.amount.toFixed(2)}`;
+
+// A line the extraction should not have included, or should have signed differently, whose
+// correction would close the gap on its own. Lines are in the folio's currency; null ones
+// could not be converted and are left out.
+const findLineCauses = (transactions: (Transaction | null)[], difference: number): ReconciliationFinding[] => {
+  const findings: ReconciliationFinding[] = [];
+  const seen = new Map<string, number>();
+
+  transactions.forEach((tx, index) => {
+    if (!tx) return;
+    const key = lineKey(tx);
+    const firstIndex = seen.get(key);
+    if (firstIndex === undefined) {
+      seen.set(key, index);
+    } else if (near(difference, tx.amount)) {
+      findings.push({ cause: MismatchCause.DUPLICATE_LINE, transactionIndexes: [firstIndex, index], region: regionForDate(tx.date), explainedAmount: tx.amount });
+    }
+
+    if (near(difference, tx.amount)) {
+      // A subtotal either says so, or equals the run of lines printed right before it.
+      let runningSum = 0;
+      let equalsPrecedingRun = false;
+      for (let i = index - 1; i >= 0 && !equalsPrecedingRun; i--) {
+        runningSum += transactions[i]?.amount ?? 0;
+        equalsPrecedingRun = i < index - 1 && near(runningSum, tx.amount);
+      }
+      if (SUBTOTAL_PATTERN.test(tx.originalDescription) || equalsPrecedingRun) {
+        findings.push({ cause: MismatchCause.SUBTOTAL_ROW, transactionIndexes: [index], region: regionForDate(tx.date), explainedAmount: tx.amount });
+      }
+    }
+
+    if (tx.amount > 0 && CREDIT_PATTERN.test(tx.originalDescription) && near(difference, tx.amount * 2)) {
+      findings.push({ cause: MismatchCause.SIGN_ERROR, transactionIndexes: [index], region: regionForDate(tx.date), explainedAmount: tx.amount * 2 });
+    }
+  });
+
+  return findings;
+};
+
+// The longest run of stay days with no lines at all; a dropped page usually leaves one behind.
+const findEmptyDays = (result: AnalysisResult): ExtractionRegion | null => {
+  const checkIn = parseCanonicalDate(result.checkIn);
+  const checkOut = parseCanonicalDate(result.checkOut);
+  if (!checkIn || !checkOut || checkOut < checkIn) return null;
+
+  const datesWithLines = new Set(result.transactions.map(tx => tx.date));
+  let best: ExtractionRegion | null = null;
+  let bestLength = 0;
+  let runStart: Date | null = null;
+  let runLength = 0;
+
+  for (const date = new Date(checkIn); date <= checkOut; date.setDate(date.getDate() + 1)) {
+    if (datesWithLines.has(formatCanonicalDate(date))) {
+      runStart = null;
+      runLength = 0;
+      continue;
+    }
+    runStart = runStart ?? new Date(date);
+    runLength++;
+    if (runLength > bestLength) {
+      bestLength = runLength;
+      best = { fromDate: formatCanonicalDate(runStart), toDate: formatCanonicalDate(date) };
+    }
+  }
+
+  if (best) return best;
+  // Every day has lines: the last page of the folio is the most common one to go missing.
+  return regionForDate(result.checkOut);
+};
+
+// Each line in the folio's currency at its own date, or null when no rate converts it.
+const inDocumentCurrency = (result: AnalysisResult, rates: RateProvider): (Transaction | null)[] => {
+  const documentCurrency = coerceCurrency(result.detectedCurrency);
+  return result.transactions.map(tx => {
+    if (!tx.currency || tx.currency === result.detectedCurrency) return tx;
+    const from = coerceCurrency(tx.currency);
+    if (from !== null && from === documentCurrency) return tx;
+    const rate = from && documentCurrency ? rates.getRate(from, documentCurrency, tx.date) : null;
+    return rate ? { ...tx, amount: tx.amount * rate.rate } : null;
+  });
+};
+
+/**
+ * Compares the printed total with the sum of the extracted lines, each converted to the
+ * folio's currency, and when they differ lists the likely causes with the lines and date
+ * range involved. Lines no rate converts are reported on their own rather than summed. The
+ * printed total stays the source of truth; nothing here changes the data.
+ */
+export const reconcile = (result: AnalysisResult, rates: RateProvider): Reconciliation => {
+  const lines = inDocumentCurrency(result, rates);
+  const lineSum = lines.reduce((sum, tx) => sum + (tx?.amount ?? 0), 0);
+  // Positive when the lines add up to more than the printed total.
+  const difference = lineSum - result.totalAmount;
+  const balanced = Math.abs(difference) <= TOTAL_TOLERANCE;
+
+  const findings: ReconciliationFinding[] = [];
+  const unconverted = lines.flatMap((tx, index) => (tx ? [] : [index]));
+  if (unconverted.length > 0) {
+    findings.push({ cause: MismatchCause.UNCONVERTED_LINE, transactionIndexes: unconverted, region: null, explainedAmount: 0 });
+  }
+  if (!balanced) {
+    findings.push(...findLineCauses(lines, difference));
+    if (difference < 0) {
+      findings.push({ cause: MismatchCause.MISSING_PAGE, transactionIndexes: [], region: findEmptyDays(result), explainedAmount: difference });
+    }
+    if (findings.every(finding => finding.cause === MismatchCause.UNCONVERTED_LINE)) {
+      findings.push({ cause: MismatchCause.UNKNOWN, transactionIndexes: [], region: null, explainedAmount: difference });
+    }
+  }
+
+  return { printedTotal: result.totalAmount, lineSum, difference, balanced, findings };
+};
+
+export const isInRegion = (date: string, region: ExtractionRegion) => {
+  const time = parseCanonicalDate(date)?.getTime();
+  if (time === undefined) return false;
+  return time >= (parseCanonicalDate(region.fromDate)?.getTime() ?? -Infinity) &&
+    time <= (parseCanonicalDate(region.toDate)?.getTime() ?? Infinity);
+};
+
+// Swaps the lines inside a region for a fresh extraction of that region, keeping them where
+// the old lines were so the table order still follows the folio.
+export const replaceRegion = (transactions: Transaction[], region: ExtractionRegion, replacement: Transaction[]): Transaction[] => {
+  const inRegion = (tx: Transaction) => isInRegion(tx.date, region);
+  const firstIndex = transactions.findIndex(inRegion);
+  const kept = transactions.filter(tx => !inRegion(tx));
+
+  let insertAt: number;
+  if (firstIndex === -1) {
+    // Nothing was extracted for the region (e.g. a missing page): insert by date.
+    const regionEnd = parseCanonicalDate(region.toDate)?.getTime() ?? Infinity;
+    insertAt = kept.findIndex(tx => (parseCanonicalDate(tx.date)?.getTime() ?? -Infinity) > regionEnd);
+    if (insertAt === -1) insertAt = kept.length;
+  } else {
+    insertAt = transactions.slice(0, firstIndex).filter(tx => !inRegion(tx)).length;
+  }
+  return [...kept.slice(0, insertAt), ...replacement, ...kept.slice(insertAt)];
+};
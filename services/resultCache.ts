@@ -0,0 +1,51 @@
+import { AnalysisResult, CategoryDefinition, ExtractionRegion } from "../types";
+import { RESULT_CACHE_STORE, withStore } from "./localDb";
+import { taxonomyPromptGuide } from "./taxonomy";
+
+const MAX_CACHED_RESULTS = 200;
+// Bump when the extraction schema changes, so results cached under the old one are not reused.
+const RESULT_SCHEMA_VERSION = 3;
+
+interface CachedResult {
+  key: string;
+  storedAt: string; // ISO timestamp
+  result: AnalysisResult; // Raw model output, validated again on every use
+}
+
+const toHex = (buffer: ArrayBuffer) => [...new Uint8Array(buffer)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+export const sha256 = async (data: BufferSource) => toHex(await crypto.subtle.digest('SHA-256', data));
+
+/**
+ * SHA-256 of the document, plus the category guide the prompt carries (ids, labels and
+ * hints) and the region the extraction was asked for, since any of them changes what the
+ * model returns for the same PDF.
+ */
+export const resultCacheKey = async (file: File, taxonomy: CategoryDefinition[], region?: ExtractionRegion) => {
+  const documentHash = await sha256(await file.arrayBuffer());
+  const promptHash = await sha256(new TextEncoder().encode(JSON.stringify({ version: RESULT_SCHEMA_VERSION, taxonomy: taxonomyPromptGuide(taxonomy), region })));
+  return `${documentHash}:${promptHash.slice(0, 16)}`;
+};
+
+// The cache is an optimization: storage errors are logged and treated as a miss.
+export const getCachedResult = async (key: string): Promise<AnalysisResult | null> => {
+  try {
+    const entry = await withStore<CachedResult | undefined>(RESULT_CACHE_STORE, 'readonly', store => store.get(key));
+    return entry?.result ?? null;
+  } catch (err) {
+    console.warn('Result cache unavailable:', err);
+    return null;
+  }
+};
+
+export const putCachedResult = async (key: string, result: AnalysisResult) => {
+  try {
+    await withStore(RESULT_CACHE_STORE, 'readwrite', store => store.put({ key, storedAt: new Date().toISOString(), result } as CachedResult));
+    // Drop the oldest entries beyond the cap.
+    const keys = await withStore<IDBValidKey[]>(RESULT_CACHE_STORE, 'readonly', store => store.index('storedAt').getAllKeys());
+    const excess = keys.slice(0, Math.max(0, keys.length - MAX_CACHED_RESULTS));
+    await Promise.all(excess.map(old => withStore(RESULT_CACHE_STORE, 'readwrite', store => store.delete(old))));
+  } catch (err) {
+    console.warn('Could not cache analysis result:', err);
+  }
+};
@@ -0,0 +1,49 @@
+export interface RetryOptions {
+  retries: number; // Attempts after the first one
+  baseDelayMs: number; // Doubled after every attempt
+  isRetryable: (err: unknown) => boolean;
+  // A delay the error itself asks for (e.g. Retry-After), used instead of the backoff when longer
+  requestedDelayMs?: (err: unknown) => number | undefined;
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, delayMs: number, err: unknown) => void;
+}
+
+export const abortError = () => new DOMException('The analysis was cancelled.', 'AbortError');
+
+export const isAbortError = (err: unknown) => err instanceof DOMException && err.name === 'AbortError';
+
+// Resolves after `ms`, or rejects with an AbortError as soon as `signal` aborts.
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(abortError());
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs `task` until it succeeds, fails with a non-retryable error, or runs out of attempts.
+ * Delays grow as baseDelayMs * 2^attempt with up to 25% jitter, so clients that failed
+ * together do not retry together.
+ */
+export const withRetry = async <T,>(task: () => Promise<T>, options: RetryOptions): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (err) {
+      if (isAbortError(err) || options.signal?.aborted || attempt >= options.retries || !options.isRetryable(err)) throw err;
+      const backoff = options.baseDelayMs * 2 ** attempt * (1 + Math.random() * 0.25);
+      const delay = Math.max(backoff, options.requestedDelayMs?.(err) ?? 0);
+      options.onRetry?.(attempt + 1, delay, err);
+      await sleep(delay, options.signal);
+    }
+  }
+};
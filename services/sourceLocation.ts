@@ -0,0 +1,55 @@
+import { Transaction } from "../types";
+
+// Selections scoring below this match no line at all.
+const MIN_SCORE = 2;
+
+const normalize = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+const words = (text: string) => normalize(text).split(/[^a-z0-9]+/).filter(word => word.length >= 3 && !/^\d+$/.test(word));
+
+// The selection's numbers, stripped of thousands separators, for matching against amounts.
+const numbersIn = (text: string) => (text.match(/\d[\d,]*\.\d{1,2}/g) ?? []).map(number => Number(number.replace(/,/g, '')));
+
+const scoreMatch = (tx: Transaction, selection: string, selectionWords: Set<string>, selectionNumbers: number[], page?: number) => {
+  let score = 0;
+  const description = normalize(tx.originalDescription || tx.cleanName);
+  if (description && (selection.includes(description) || (selection.length >= 4 && description.includes(selection)))) score += 3;
+
+  const descriptionWords = words(tx.originalDescription || tx.cleanName);
+  if (descriptionWords.length > 0) {
+    score += (2 * descriptionWords.filter(word => selectionWords.has(word)).length) / descriptionWords.length;
+  }
+
+  if (selectionNumbers.some(number => Math.abs(number - Math.abs(tx.amount)) < 0.005)) score += 2;
+
+  const [day, month] = tx.date.split('/');
+  if (day && month && new RegExp(`\\b0?${Number(day)}[/.-]0?${Number(month)}\\b`).test(selection)) score += 1;
+
+  // Breaks ties between identical lines printed on different pages.
+  if (page !== undefined && tx.location?.page === page) score += 0.5;
+  return score;
+};
+
+/**
+ * Finds the line whose description, amount and date best match text selected in the PDF.
+ * `page` is where the selection was made and favors lines printed on that page. Returns
+ * null when nothing matches well enough.
+ */
+export const findTransactionForText = <T extends Transaction,>(transactions: T[], text: string, page?: number): T | null => {
+  const selection = normalize(text);
+  if (!selection) return null;
+  const selectionWords = new Set(words(text));
+  const selectionNumbers = numbersIn(text);
+
+  let best: T | null = null;
+  let bestScore = MIN_SCORE;
+  for (const tx of transactions) {
+    const score = scoreMatch(tx, selection, selectionWords, selectionNumbers, page);
+    if (score >= bestScore && (!best || score > bestScore)) {
+      best = tx;
+      bestScore = score;
+    }
+  }
+  return best;
+};
@@ -0,0 +1,163 @@
+import {
+  AnalysisResult, CategoryDefinition, CategoryDelta, CategoryId, ConvertedTransaction, Currency, EditableField, HeaderChange, HeaderField,
+  LineDiff, RateProvider, StatementDiff
+} from "../types";
+import { parseCanonicalDate } from "./analysisValidator";
+import { convertStay } from "./groupStay";
+import { DEFAULT_TAXONOMY, topLevelId } from "./taxonomy";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A fuzzy pair needs two of: dates at most a day apart, similar descriptions, equal amounts.
+const SIMILAR_DESCRIPTION = 0.5;
+const AMOUNT_EPSILON = 0.005;
+
+const HEADER_FIELDS: HeaderField[] = ['hotelName', 'hotelAddress', 'guestName', 'roomNumber', 'checkIn', 'checkOut', 'confirmationNumber', 'detectedCurrency'];
+const LINE_FIELDS: EditableField[] = ['date', 'cleanName', 'category', 'amount'];
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const normalize = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const words = (tx: ConvertedTransaction) => new Set(normalize(`${tx.originalDescription} ${tx.cleanName}`).split(' ').filter(Boolean));
+
+const similarity = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return 0;
+  const shared = [...a].filter(word => b.has(word)).length;
+  return shared / (a.size + b.size - shared);
+};
+
+const exactKey = (tx: ConvertedTransaction) => `${tx.date}|${normalize(tx.originalDescription)}|${tx.amount.toFixed(2)}`;
+
+const dayOf = (tx: ConvertedTransaction) => {
+  const date = parseCanonicalDate(tx.date);
+  return date ? Math.round(date.getTime() / DAY_MS) : null;
+};
+
+const changedBetween = (before: ConvertedTransaction, after: ConvertedTransaction) =>
+  LINE_FIELDS.filter(field => (field === 'amount' ? Math.abs(before.amount - after.amount) > AMOUNT_EPSILON : before[field] !== after[field]));
+
+/**
+ * Pairs the lines of two statements. Lines with the same date, description and amount pair
+ * first; the rest pair greedily by how close they are, as long as two of date, description
+ * and amount agree. What is left was added or removed.
+ */
+const alignLines = (before: ConvertedTransaction[], after: ConvertedTransaction[]): LineDiff[] => {
+  const pairOf = new Map<number, number>(); // After index -> before index
+  const pairedBefore = new Set<number>();
+
+  const unpairedByKey = new Map<string, number[]>();
+  before.forEach((tx, index) => {
+    const key = exactKey(tx);
+    unpairedByKey.set(key, [...(unpairedByKey.get(key) ?? []), index]);
+  });
+  after.forEach((tx, index) => {
+    const candidates = unpairedByKey.get(exactKey(tx));
+    const match = candidates?.shift();
+    if (match === undefined) return;
+    pairOf.set(index, match);
+    pairedBefore.add(match);
+  });
+
+  const beforeWords = before.map(words);
+  const beforeDays = before.map(dayOf);
+  const candidates: { afterIndex: number; beforeIndex: number; score: number }[] = [];
+  after.forEach((tx, afterIndex) => {
+    if (pairOf.has(afterIndex)) return;
+    const afterWords = words(tx);
+    const afterDay = dayOf(tx);
+    before.forEach((other, beforeIndex) => {
+      if (pairedBefore.has(beforeIndex)) return;
+      const days = afterDay === null || beforeDays[beforeIndex] === null ? null : Math.abs(afterDay - beforeDays[beforeIndex]!);
+      const described = similarity(afterWords, beforeWords[beforeIndex]);
+      const sameAmount = Math.abs(tx.amount - other.amount) <= AMOUNT_EPSILON;
+      const agreements = [days !== null && days <= 1, described >= SIMILAR_DESCRIPTION, sameAmount].filter(Boolean).length;
+      if (agreements < 2) return;
+      const score = (days === 0 ? 2 : days === 1 ? 1 : 0) + described * 3 + (sameAmount ? 2 : 0);
+      candidates.push({ afterIndex, beforeIndex, score });
+    });
+  });
+  candidates
+    .sort((a, b) => b.score - a.score)
+    .forEach(({ afterIndex, beforeIndex }) => {
+      if (pairOf.has(afterIndex) || pairedBefore.has(beforeIndex)) return;
+      pairOf.set(afterIndex, beforeIndex);
+      pairedBefore.add(beforeIndex);
+    });
+
+  // Newer order, with each removed line placed before the first kept line that followed it.
+  const lines: LineDiff[] = [];
+  let nextBefore = 0;
+  const flushRemoved = (upTo: number) => {
+    for (; nextBefore < upTo; nextBefore++) {
+      if (!pairedBefore.has(nextBefore)) lines.push({ kind: 'removed', before: before[nextBefore], changedFields: [] });
+    }
+  };
+  after.forEach((tx, afterIndex) => {
+    const beforeIndex = pairOf.get(afterIndex);
+    if (beforeIndex === undefined) {
+      lines.push({ kind: 'added', after: tx, changedFields: [] });
+      return;
+    }
+    flushRemoved(beforeIndex);
+    nextBefore = Math.max(nextBefore, beforeIndex + 1);
+    const changedFields = changedBetween(before[beforeIndex], tx);
+    lines.push({ kind: changedFields.length > 0 ? 'changed' : 'unchanged', before: before[beforeIndex], after: tx, changedFields });
+  });
+  flushRemoved(before.length);
+  return lines;
+};
+
+const categoryTotals = (transactions: ConvertedTransaction[], taxonomy: CategoryDefinition[]) => {
+  const totals = new Map<CategoryId, number>();
+  transactions.forEach(tx => {
+    const category = topLevelId(taxonomy, tx.category);
+    totals.set(category, (totals.get(category) ?? 0) + tx.convertedAmount);
+  });
+  return totals;
+};
+
+/**
+ * What changed from one statement of a stay to another: lines, header fields, the total and
+ * each top-level category. Amounts are converted to `currency` the way the dashboard does.
+ */
+export const diffStatements = (
+  before: AnalysisResult,
+  after: AnalysisResult,
+  rates: RateProvider,
+  currency: Currency,
+  taxonomy: CategoryDefinition[] = DEFAULT_TAXONOMY
+): StatementDiff => {
+  const older = convertStay(before, rates, currency);
+  const newer = convertStay(after, rates, currency);
+  const lines = alignLines(older.transactions, newer.transactions);
+
+  const headerChanges: HeaderChange[] = HEADER_FIELDS
+    .filter(field => before[field].trim() !== after[field].trim())
+    .map(field => ({ field, before: before[field], after: after[field] }));
+  if (Math.abs(before.totalAmount - after.totalAmount) > AMOUNT_EPSILON) {
+    headerChanges.push({ field: 'totalAmount', before: before.totalAmount.toFixed(2), after: after.totalAmount.toFixed(2) });
+  }
+
+  const beforeTotals = categoryTotals(older.transactions, taxonomy);
+  const afterTotals = categoryTotals(newer.transactions, taxonomy);
+  const categories: CategoryDelta[] = [...new Set([...beforeTotals.keys(), ...afterTotals.keys()])]
+    .map(category => {
+      const was = round2(beforeTotals.get(category) ?? 0);
+      const is = round2(afterTotals.get(category) ?? 0);
+      return { category, before: was, after: is, change: round2(is - was) };
+    })
+    .filter(delta => delta.change !== 0)
+    .sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+
+  const count = (kind: LineDiff['kind']) => lines.filter(line => line.kind === kind).length;
+  return {
+    lines,
+    headerChanges,
+    totalBefore: round2(older.spend),
+    totalAfter: round2(newer.spend),
+    categories,
+    counts: { added: count('added'), removed: count('removed'), changed: count('changed') }
+  };
+};
@@ -0,0 +1,95 @@
+import { AnalysisResult, BatchItem, CategoryDefinition, ExtractionProgress, ExtractionRegion, ExtractorBackend, Transaction, ValidationIssue } from "../types";
+import { BATCH_CONCURRENCY, EXTRACTOR_BACKEND } from "../constants";
+import { geminiExtractor } from "./geminiService";
+import { createFixtureExtractor } from "./fixtureExtractor";
+import { pdfTextExtractor } from "./pdfTextExtractor";
+import { AnalysisValidationError, validateAnalysisResult } from "./analysisValidator";
+import { isInRegion } from "./reconciliation";
+
+export interface ExtractOptions {
+  taxonomy?: CategoryDefinition[]; // Categories the extraction may assign; defaults to the built-in ones
+  signal?: AbortSignal; // Cancels the extraction; backends that call out pass it to fetch
+  onProgress?: (progress: ExtractionProgress) => void; // Called by backends that extract long PDFs in page ranges
+}
+
+// Every extraction backend turns an uploaded statement into the same AnalysisResult
+// shape, so the rest of the app never needs to know which one produced it.
+export interface StatementExtractor {
+  backend: ExtractorBackend;
+  model: string; // What produced the result, recorded in the history
+  extract: (file: File, options?: ExtractOptions) => Promise<AnalysisResult>;
+  // Optional: re-reads only the lines dated within a region. Backends that cannot
+  // target part of a document leave this undefined.
+  extractRegion?: (file: File, region: ExtractionRegion, options?: ExtractOptions) => Promise<AnalysisResult>;
+}
+
+export const getStatementExtractor = (backend: ExtractorBackend = EXTRACTOR_BACKEND): StatementExtractor => {
+  switch (backend) {
+    case ExtractorBackend.GEMINI:
+      return geminiExtractor;
+    case ExtractorBackend.FIXTURE:
+      return createFixtureExtractor();
+    case ExtractorBackend.PDF_TEXT:
+      return pdfTextExtractor;
+    default:
+      throw new Error(`Unknown extractor backend "${backend}". Use one of: ${Object.values(ExtractorBackend).join(', ')}.`);
+  }
+};
+
+// Runs the configured backend and validates its output. Rejects with AnalysisValidationError
+// when the extraction is unusable.
+export const analyzeFile = async (
+  file: File,
+  options: ExtractOptions = {},
+  extractor: StatementExtractor = getStatementExtractor()
+): Promise<{ result: AnalysisResult; issues: ValidationIssue[]; backend: ExtractorBackend; model: string }> => {
+  const { result, issues } = validateAnalysisResult(await extractor.extract(file, options), options.taxonomy);
+  return { result, issues, backend: extractor.backend, model: extractor.model };
+};
+
+/**
+ * Analyzes several folios, at most `concurrency` at a time, reporting each one's status as
+ * it changes. A folio that fails does not stop the others; its error is reported instead.
+ */
+export const analyzeFiles = async (
+  items: BatchItem[],
+  onUpdate: (id: string, patch: Partial<BatchItem>) => void,
+  options: ExtractOptions = {},
+  concurrency: number = BATCH_CONCURRENCY,
+  extractor: StatementExtractor = getStatementExtractor()
+): Promise<void> => {
+  const queue = [...items];
+  const worker = async () => {
+    for (let item = queue.shift(); item; item = queue.shift()) {
+      onUpdate(item.id, { status: 'analyzing' });
+      try {
+        const onProgress = (progress: ExtractionProgress) => onUpdate(item.id, { progress });
+        const { result, issues, backend, model } = await analyzeFile(item.file, { ...options, onProgress }, extractor);
+        onUpdate(item.id, { status: 'done', result, issues, backend, model, progress: undefined });
+      } catch (err) {
+        console.error(`Analysis of ${item.file.name} failed:`, err);
+        onUpdate(item.id, {
+          status: 'error',
+          progress: undefined,
+          error: (err as Error).message,
+          issues: err instanceof AnalysisValidationError ? err.issues : []
+        });
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+};
+
+// Re-extracts the lines of one region and returns only those that actually fall inside it.
+export const reextractRegion = async (
+  file: File,
+  region: ExtractionRegion,
+  options: ExtractOptions = {},
+  extractor: StatementExtractor = getStatementExtractor()
+): Promise<Transaction[]> => {
+  if (!extractor.extractRegion) {
+    throw new Error(`The "${extractor.backend}" backend does not support region re-extraction.`);
+  }
+  const { result } = validateAnalysisResult(await extractor.extractRegion(file, region, options), options.taxonomy);
+  return result.transactions.filter(tx => isInRegion(tx.date, region));
+};
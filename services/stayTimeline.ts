@@ -0,0 +1,98 @@
+import { AnalysisResult, Category, CategoryDefinition, CategoryId, ConvertedTransaction, NightBreakdown, StayTimeline, TimelineDay } from "../types";
+import { formatCanonicalDate, parseCanonicalDate } from "./analysisValidator";
+import { DEFAULT_TAXONOMY, isInCategory, topLevelId } from "./taxonomy";
+
+// A misread year can stretch the axis over years; past this the timeline shows only dates with lines.
+const MAX_TIMELINE_DAYS = 62;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const daysBetween = (from: Date, to: Date) =>
+  Math.round((Date.UTC(to.getFullYear(), to.getMonth(), to.getDate()) - Date.UTC(from.getFullYear(), from.getMonth(), from.getDate())) / 86400000);
+
+// DD/MM/YYYY to the YYYY-MM-DD used by date inputs, and back.
+export const toInputDate = (canonical: string) => {
+  const [day, month, year] = canonical.split('/');
+  return year && month && day ? `${year}-${month}-${day}` : '';
+};
+
+export const fromInputDate = (input: string) => {
+  const [year, month, day] = input.split('-');
+  return year && month && day ? `${day}/${month}/${year}` : '';
+};
+
+/**
+ * Spend per day of the stay, stacked by top-level category, and per night split into
+ * room, taxes, incidentals and credits. The axis runs from check-in to check-out and
+ * widens to take in lines dated outside it; amounts are the converted ones.
+ */
+export const buildStayTimeline = (
+  transactions: ConvertedTransaction[],
+  stay: Pick<AnalysisResult, 'checkIn' | 'checkOut'>,
+  taxonomy: CategoryDefinition[] = DEFAULT_TAXONOMY
+): StayTimeline => {
+  const dated = transactions
+    .map(tx => ({ tx, date: parseCanonicalDate(tx.date) }))
+    .filter((line): line is { tx: ConvertedTransaction; date: Date } => line.date !== null);
+
+  const checkIn = parseCanonicalDate(stay.checkIn);
+  const checkOut = parseCanonicalDate(stay.checkOut);
+  const stayKnown = !!checkIn && !!checkOut && checkOut.getTime() > checkIn.getTime();
+
+  // The axis
+  const bounds = [...dated.map(line => line.date), ...(stayKnown ? [checkIn!, checkOut!] : [])];
+  if (bounds.length === 0) return { days: [], groups: [], nights: [], averageDailyIncidentals: 0 };
+  const first = new Date(Math.min(...bounds.map(date => date.getTime())));
+  const last = new Date(Math.max(...bounds.map(date => date.getTime())));
+  const axis = daysBetween(first, last) < MAX_TIMELINE_DAYS
+    ? Array.from({ length: daysBetween(first, last) + 1 }, (_, i) => formatCanonicalDate(addDays(first, i)))
+    : [...new Set([...dated].sort((a, b) => a.date.getTime() - b.date.getTime()).map(line => formatCanonicalDate(line.date)))];
+
+  const days = new Map<string, TimelineDay>(axis.map(date => [date, { date, byGroup: {}, total: 0 }]));
+  const usedGroups = new Set<CategoryId>();
+  dated.forEach(({ tx }) => {
+    const day = days.get(tx.date);
+    if (!day || tx.convertedAmount === 0) return;
+    const group = topLevelId(taxonomy, tx.category);
+    usedGroups.add(group);
+    day.byGroup[group] = round2((day.byGroup[group] ?? 0) + tx.convertedAmount);
+    day.total = round2(day.total + tx.convertedAmount);
+  });
+  const groups = [
+    ...taxonomy.filter(cat => !cat.parentId && usedGroups.has(cat.id)).map(cat => cat.id),
+    ...[...usedGroups].filter(group => !taxonomy.some(cat => cat.id === group))
+  ];
+
+  // Nights, from check-in to the night before check-out
+  const nights: NightBreakdown[] = [];
+  if (stayKnown) {
+    const count = daysBetween(checkIn!, checkOut!);
+    for (let i = 0; i < count; i++) {
+      nights.push({ date: formatCanonicalDate(addDays(checkIn!, i)), room: 0, taxes: 0, incidentals: 0, credits: 0, total: 0 });
+    }
+    dated.forEach(({ tx, date }) => {
+      const night = nights[Math.min(count - 1, Math.max(0, daysBetween(checkIn!, date)))];
+      const amount = tx.convertedAmount;
+      if (isInCategory(taxonomy, tx.category, Category.ROOM)) night.room = round2(night.room + amount);
+      else if (isInCategory(taxonomy, tx.category, Category.TAX)) night.taxes = round2(night.taxes + amount);
+      else if (isInCategory(taxonomy, tx.category, Category.DISCOUNT)) night.credits = round2(night.credits + amount);
+      else night.incidentals = round2(night.incidentals + amount);
+      night.total = round2(night.total + amount);
+    });
+  }
+
+  const incidentals = nights.length > 0
+    ? nights.reduce((sum, night) => sum + night.incidentals, 0)
+    : dated
+        .filter(({ tx }) => ![Category.ROOM, Category.TAX, Category.DISCOUNT].some(group => isInCategory(taxonomy, tx.category, group)))
+        .reduce((sum, { tx }) => sum + tx.convertedAmount, 0);
+
+  return {
+    days: [...days.values()],
+    groups,
+    nights,
+    averageDailyIncidentals: round2(incidentals / (nights.length || axis.length))
+  };
+};
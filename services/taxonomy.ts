@@ -0,0 +1,186 @@
+import { Category, CategoryDefinition, CategoryId, Language } from "../types";
+
+const TAXONOMY_STORAGE_KEY = 'vidanta.customCategories';
+
+export const UNKNOWN_CATEGORY_COLOR = '#9CA3AF'; // Gray (Fallback for unknown categories)
+
+// Colors chosen for accessibility and distinctness; subcategories use a shade of their group.
+export const DEFAULT_TAXONOMY: CategoryDefinition[] = [
+  {
+    id: Category.FOOD_AND_BEVERAGE,
+    labels: { [Language.ES]: 'Alimentos y Bebidas', [Language.EN]: 'Food & Beverage' },
+    color: '#0D9488', // Teal (Combined Food & Drink)
+    hint: 'Restaurants, Breakfast, Dinner, Bar, Room Service Food'
+  },
+  {
+    id: Category.MINIBAR,
+    parentId: Category.FOOD_AND_BEVERAGE,
+    labels: { [Language.ES]: 'Minibar', [Language.EN]: 'Minibar' },
+    color: '#14B8A6',
+    hint: 'In-room minibar consumption'
+  },
+  {
+    id: Category.LOBBY_BAR,
+    parentId: Category.FOOD_AND_BEVERAGE,
+    labels: { [Language.ES]: 'Lobby Bar', [Language.EN]: 'Lobby Bar' },
+    color: '#0F766E',
+    hint: 'Lobby bar drinks and snacks'
+  },
+  {
+    id: Category.ROOM_SERVICE,
+    parentId: Category.FOOD_AND_BEVERAGE,
+    labels: { [Language.ES]: 'Servicio a Cuartos', [Language.EN]: 'Room Service' },
+    color: '#5EEAD4',
+    hint: 'Food or drinks delivered to the room'
+  },
+  {
+    id: Category.ROOM,
+    labels: { [Language.ES]: 'Habitación', [Language.EN]: 'Room' },
+    color: '#3B82F6', // Blue (Primary)
+    hint: 'Room charge, Upgrades, Early check-in'
+  },
+  {
+    id: Category.TAX,
+    labels: { [Language.ES]: 'Impuestos', [Language.EN]: 'Tax' },
+    color: '#EF4444', // Red (Alert/Cost)
+    hint: "Look specifically for 'Dersan', 'ISH', 'IVA', 'TUA', or generic tax descriptions"
+  },
+  {
+    id: Category.DISCOUNT,
+    labels: { [Language.ES]: 'Descuento', [Language.EN]: 'Discount' },
+    color: '#F59E0B', // Amber (Highlight/Savings)
+    hint: "Any negative values, credits, or items labeled 'Abonos'"
+  },
+  {
+    id: Category.SERVICE,
+    labels: { [Language.ES]: 'Servicio', [Language.EN]: 'Service' },
+    color: '#8B5CF6', // Violet (Distinct)
+    hint: 'Tips, Laundry, Telephone, Transport, Valet Parking'
+  },
+  {
+    id: Category.SPA,
+    parentId: Category.SERVICE,
+    labels: { [Language.ES]: 'Spa', [Language.EN]: 'Spa' },
+    color: '#A78BFA',
+    hint: 'Spa treatments, massages, salon'
+  },
+  {
+    id: Category.OTHER,
+    labels: { [Language.ES]: 'Otros', [Language.EN]: 'Other' },
+    color: '#64748B', // Slate (Neutral)
+    hint: 'Any other charge'
+  }
+];
+
+export const findCategory = (taxonomy: CategoryDefinition[], id: CategoryId) => taxonomy.find(cat => cat.id === id);
+
+// Ids of the category and all its ancestors, closest first.
+const lineage = (taxonomy: CategoryDefinition[], id: CategoryId): CategoryId[] => {
+  const ids: CategoryId[] = [];
+  let current = findCategory(taxonomy, id);
+  while (current && !ids.includes(current.id)) {
+    ids.push(current.id);
+    current = current.parentId ? findCategory(taxonomy, current.parentId) : undefined;
+  }
+  return ids.length > 0 ? ids : [id];
+};
+
+export const topLevelId = (taxonomy: CategoryDefinition[], id: CategoryId): CategoryId => {
+  const ids = lineage(taxonomy, id);
+  return ids[ids.length - 1];
+};
+
+// True when `id` is `groupId` itself or one of its subcategories.
+export const isInCategory = (taxonomy: CategoryDefinition[], id: CategoryId, groupId: CategoryId) =>
+  lineage(taxonomy, id).includes(groupId);
+
+// 'Minibar', or 'Alimentos y Bebidas › Minibar' with the parent path.
+export const categoryLabel = (taxonomy: CategoryDefinition[], id: CategoryId, language: Language, withParent = false) => {
+  const cat = findCategory(taxonomy, id);
+  if (!cat) return id;
+  if (!withParent || !cat.parentId) return cat.labels[language];
+  return `${categoryLabel(taxonomy, cat.parentId, language, true)} › ${cat.labels[language]}`;
+};
+
+export const categoryColor = (taxonomy: CategoryDefinition[], id: CategoryId) =>
+  findCategory(taxonomy, id)?.color ?? UNKNOWN_CATEGORY_COLOR;
+
+// Top-level categories each followed by their subcategories, for dropdowns.
+export const categoryOptions = (taxonomy: CategoryDefinition[], language: Language) => {
+  const ordered: { id: CategoryId; label: string; depth: number }[] = [];
+  const visit = (parentId: CategoryId | undefined, depth: number) => {
+    taxonomy
+      .filter(cat => (cat.parentId ?? undefined) === parentId)
+      .forEach(cat => {
+        ordered.push({ id: cat.id, label: cat.labels[language], depth });
+        visit(cat.id, depth + 1);
+      });
+  };
+  visit(undefined, 0);
+  return ordered;
+};
+
+/**
+ * Maps whatever the model, a fixture or an imported file calls a category to its id. Accepts
+ * ids, either language's label, the legacy combined 'Alimentos y Bebidas/Food & Beverage'
+ * strings and 'Parent › Child' (or 'Parent > Child') paths.
+ */
+export const resolveCategory = (taxonomy: CategoryDefinition[], raw: unknown): CategoryId | null => {
+  if (typeof raw !== 'string' || !raw.trim()) return null;
+  const value = raw.trim().toLowerCase();
+
+  const byId = taxonomy.find(cat => cat.id.toLowerCase() === value);
+  if (byId) return byId.id;
+
+  const path = value.split(/\s*[›>]\s*/);
+  const leaf = path[path.length - 1];
+  const byLabel = taxonomy.filter(cat => Object.values(cat.labels).some(label => label.toLowerCase() === leaf));
+  if (byLabel.length > 0) {
+    // With a parent given, prefer the child under that parent.
+    const parent = path.length > 1 ? resolveCategory(taxonomy, path[path.length - 2]) : null;
+    return (byLabel.find(cat => cat.parentId === parent) ?? byLabel[0]).id;
+  }
+
+  if (value.includes('/')) {
+    const halves = value.split('/').map(part => resolveCategory(taxonomy, part));
+    return halves.find(Boolean) ?? null;
+  }
+  return null;
+};
+
+export const createCategory = (labels: Record<Language, string>, color: string, parentId?: CategoryId): CategoryDefinition => {
+  const slug = (labels[Language.EN] || labels[Language.ES]).toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+  return {
+    id: `custom.${slug || 'category'}_${Math.random().toString(36).slice(2, 6)}`,
+    labels,
+    color,
+    parentId,
+    custom: true
+  };
+};
+
+// Category list for the extraction prompt, e.g. "- food_beverage.minibar: Minibar / Minibar (In-room minibar consumption)"
+export const taxonomyPromptGuide = (taxonomy: CategoryDefinition[]) =>
+  categoryOptions(taxonomy, Language.EN)
+    .map(({ id, depth }) => {
+      const cat = findCategory(taxonomy, id)!;
+      const indent = '   '.repeat(depth + 1);
+      const hint = cat.hint ? ` (${cat.hint})` : '';
+      return `${indent}- ${cat.id}: ${cat.labels[Language.ES]} / ${cat.labels[Language.EN]}${hint}`;
+    })
+    .join('\n');
+
+export const loadTaxonomy = (): CategoryDefinition[] => {
+  try {
+    const stored = localStorage.getItem(TAXONOMY_STORAGE_KEY);
+    const custom: CategoryDefinition[] = stored ? JSON.parse(stored) : [];
+    return [...DEFAULT_TAXONOMY, ...custom.filter(cat => cat.id && cat.labels).map(cat => ({ ...cat, custom: true }))];
+  } catch (err) {
+    console.warn('Ignoring stored custom categories:', err);
+    return DEFAULT_TAXONOMY;
+  }
+};
+
+export const saveTaxonomy = (taxonomy: CategoryDefinition[]) => {
+  localStorage.setItem(TAXONOMY_STORAGE_KEY, JSON.stringify(taxonomy.filter(cat => cat.custom)));
+};
@@ -0,0 +1,116 @@
+import { AnalysisResult, Transaction, TransactionEditOp, TransactionSnapshot } from "../types";
+
+let idCounter = 0;
+
+export const createTransactionId = () => `tx-${Date.now().toString(36)}-${(idCounter++).toString(36)}`;
+
+const snapshot = (tx: Transaction): TransactionSnapshot => ({
+  date: tx.date,
+  cleanName: tx.cleanName,
+  category: tx.category,
+  amount: tx.amount
+});
+
+// Split parts and added lines keep their own audit trail; everything else remembers the
+// extracted values the first time it is touched.
+const markEdited = (tx: Transaction): Transaction['edit'] => tx.edit ?? { kind: 'edited', original: snapshot(tx) };
+
+/**
+ * Applies one user edit to a result and returns a new result; the input is never mutated,
+ * so callers can keep previous results around for undo.
+ */
+export const applyTransactionEdit = (result: AnalysisResult, op: TransactionEditOp): AnalysisResult => {
+  const transactions = result.transactions;
+
+  switch (op.type) {
+    case 'update':
+      return {
+        ...result,
+        transactions: transactions.map(tx => {
+          if (tx.id !== op.id) return tx;
+          const updated: Transaction = { ...tx, ...op.patch, edit: markEdited(tx) };
+          // A category picked by hand wins over both the model and the rules.
+          return 'category' in op.patch ? { ...updated, categorySource: 'user', categoryRuleId: undefined } : updated;
+        })
+      };
+
+    case 'add':
+      return {
+        ...result,
+        transactions: [
+          ...transactions,
+          {
+            ...op.transaction,
+            id: op.transaction.id ?? createTransactionId(),
+            categorySource: 'user',
+            edit: { kind: 'added', original: null }
+          }
+        ]
+      };
+
+    case 'delete': {
+      const removed = transactions.find(tx => tx.id === op.id);
+      if (!removed) return result;
+      // A line the user added was never extracted, so removing it leaves nothing to audit.
+      return {
+        ...result,
+        transactions: transactions.filter(tx => tx.id !== op.id),
+        removedTransactions: removed.edit?.kind === 'added' ? result.removedTransactions : [...(result.removedTransactions ?? []), removed]
+      };
+    }
+
+    case 'split': {
+      const index = transactions.findIndex(tx => tx.id === op.id);
+      if (index === -1 || op.parts.length < 2) return result;
+      const source = transactions[index];
+      const original = source.edit?.original ?? (source.edit?.kind === 'added' ? null : snapshot(source));
+      // Each part stands for its share of what was extracted; the last one takes the remainder.
+      const extracted = extractedAmount(source);
+      const shares = op.parts.map(part => (source.amount === 0 ? extracted / op.parts.length : (extracted * part.amount) / source.amount));
+      shares[shares.length - 1] = extracted - shares.slice(0, -1).reduce((sum, share) => sum + share, 0);
+      const parts: Transaction[] = op.parts.map((part, i) => ({
+        ...source,
+        ...part,
+        id: createTransactionId(),
+        categorySource: part.category === source.category ? source.categorySource : 'user',
+        edit: { kind: 'split', original, splitFrom: source.id, extractedAmount: shares[i] }
+      }));
+      return {
+        ...result,
+        transactions: [...transactions.slice(0, index), ...parts, ...transactions.slice(index + 1)]
+      };
+    }
+
+    default:
+      return result;
+  }
+};
+
+export const hasEdits = (result: AnalysisResult) =>
+  (result.removedTransactions?.length ?? 0) > 0 || result.transactions.some(tx => tx.edit);
+
+// The part of the extracted lines' sum a line stands for: its amount until someone changes
+// it, nothing for a line the user added. Parts split before shares were kept use their amount.
+export const extractedAmount = (tx: Transaction): number => {
+  if (!tx.edit) return tx.amount;
+  if (tx.edit.kind === 'added') return 0;
+  if (tx.edit.kind === 'split') return tx.edit.extractedAmount ?? tx.amount;
+  return tx.edit.original?.amount ?? tx.amount;
+};
+
+/**
+ * How much each edit moved the lines away from what was extracted, per line so callers can
+ * convert at the line's own currency and date. The printed total plus these is the total:
+ * edits that leave amounts alone (a category, an approval, an empty added row) move nothing.
+ */
+export const amountAdjustments = (result: AnalysisResult): { tx: Transaction; delta: number }[] => [
+  ...result.transactions.map(tx => ({ tx, delta: tx.amount - extractedAmount(tx) })),
+  ...(result.removedTransactions ?? []).map(tx => ({ tx, delta: -extractedAmount(tx) }))
+].filter(({ delta }) => Math.abs(delta) > 0.0005);
+
+// Which fields differ from the extracted values, for row markers and the export.
+export const changedFields = (tx: Transaction): (keyof TransactionSnapshot)[] => {
+  const original = tx.edit?.original;
+  if (!original) return [];
+  return (Object.keys(original) as (keyof TransactionSnapshot)[]).filter(field => original[field] !== tx[field]);
+};
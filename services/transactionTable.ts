@@ -0,0 +1,143 @@
+import { CategoryDefinition, ConvertedTransaction, Language, SortKey, TableColumn, TableGroupBy } from "../types";
+import { parseCanonicalDate } from "./analysisValidator";
+import { categoryLabel, categoryOptions } from "./taxonomy";
+
+const COLUMNS_STORAGE_KEY = 'vidanta.tableColumns';
+
+export const ALL_COLUMNS: TableColumn[] = ['date', 'cleanName', 'originalDescription', 'category', 'amount'];
+
+export interface TransactionGroup {
+  key: string;
+  label: string;
+  transactions: ConvertedTransaction[];
+  subtotal: number; // Sum of convertedAmount
+}
+
+// One rendered row of the table: a group header or a transaction.
+export type TableRow =
+  | { kind: 'group'; group: TransactionGroup; collapsed: boolean }
+  | { kind: 'transaction'; tx: ConvertedTransaction };
+
+const locale = (language: Language) => (language === Language.ES ? 'es-MX' : 'en-US');
+
+// Undated lines sort after every dated one, whatever the direction.
+const dateValue = (tx: ConvertedTransaction) => parseCanonicalDate(tx.date)?.getTime() ?? Number.POSITIVE_INFINITY;
+
+const compareBy = (column: TableColumn, taxonomy: CategoryDefinition[], language: Language) => {
+  const collator = new Intl.Collator(locale(language), { sensitivity: 'base', numeric: true });
+  switch (column) {
+    case 'date':
+      return (a: ConvertedTransaction, b: ConvertedTransaction) => dateValue(a) - dateValue(b);
+    case 'amount':
+      return (a: ConvertedTransaction, b: ConvertedTransaction) => a.convertedAmount - b.convertedAmount;
+    case 'category':
+      return (a: ConvertedTransaction, b: ConvertedTransaction) =>
+        collator.compare(categoryLabel(taxonomy, a.category, language, true), categoryLabel(taxonomy, b.category, language, true));
+    default:
+      return (a: ConvertedTransaction, b: ConvertedTransaction) => collator.compare(a[column], b[column]);
+  }
+};
+
+// Sorts by each key in turn; lines that tie on every key keep their statement order.
+export const sortTransactions = (
+  transactions: ConvertedTransaction[],
+  sortKeys: SortKey[],
+  taxonomy: CategoryDefinition[],
+  language: Language
+) => {
+  if (sortKeys.length === 0) return transactions;
+  const comparators = sortKeys.map(key => ({ compare: compareBy(key.column, taxonomy, language), sign: key.direction === 'asc' ? 1 : -1 }));
+  return [...transactions].sort((a, b) => {
+    for (const { compare, sign } of comparators) {
+      const result = compare(a, b);
+      if (result !== 0 && !Number.isNaN(result)) return result * sign;
+    }
+    return 0;
+  });
+};
+
+/**
+ * Splits already-sorted lines into groups with subtotals. Groups follow the natural order of
+ * their key (chronological, alphabetical, taxonomy order), reversed when the table is sorted
+ * descending by that same column.
+ */
+export const groupTransactions = (
+  transactions: ConvertedTransaction[],
+  groupBy: TableGroupBy,
+  sortKeys: SortKey[],
+  taxonomy: CategoryDefinition[],
+  language: Language
+): TransactionGroup[] => {
+  if (groupBy === 'none') return [];
+
+  const groups = new Map<string, TransactionGroup>();
+  transactions.forEach(tx => {
+    const key = groupBy === 'cleanName' ? tx.cleanName.trim().toLowerCase() : tx[groupBy];
+    const label = groupBy === 'category' ? categoryLabel(taxonomy, tx.category, language, true) : groupBy === 'cleanName' ? tx.cleanName.trim() : tx.date;
+    const group = groups.get(key) ?? { key, label: label || '—', transactions: [], subtotal: 0 };
+    group.transactions.push(tx);
+    group.subtotal += tx.convertedAmount;
+    groups.set(key, group);
+  });
+
+  const list = [...groups.values()];
+  if (groupBy === 'date') {
+    list.sort((a, b) => dateValue(a.transactions[0]) - dateValue(b.transactions[0]));
+  } else if (groupBy === 'category') {
+    const order = categoryOptions(taxonomy, language).map(option => option.id);
+    // Unknown ids (e.g. a deleted custom category) go last.
+    const position = (key: string) => (order.includes(key) ? order.indexOf(key) : order.length);
+    list.sort((a, b) => position(a.key) - position(b.key));
+  } else {
+    const collator = new Intl.Collator(locale(language), { sensitivity: 'base', numeric: true });
+    list.sort((a, b) => collator.compare(a.label, b.label));
+  }
+  return sortKeys.find(key => key.column === groupBy)?.direction === 'desc' ? list.reverse() : list;
+};
+
+// The flat row list the (virtualized) table renders.
+export const buildTableRows = (
+  transactions: ConvertedTransaction[],
+  groups: TransactionGroup[],
+  collapsed: Set<string>
+): TableRow[] => {
+  if (groups.length === 0) return transactions.map(tx => ({ kind: 'transaction', tx }));
+  return groups.flatMap<TableRow>(group => {
+    const isCollapsed = collapsed.has(group.key);
+    const header: TableRow = { kind: 'group', group, collapsed: isCollapsed };
+    return isCollapsed ? [header] : [header, ...group.transactions.map(tx => ({ kind: 'transaction' as const, tx }))];
+  });
+};
+
+/**
+ * Click: sort by this column only, flipping direction on repeated clicks and clearing on the
+ * third. Shift+click: add the column as the next sort key (or flip/remove it if present).
+ */
+export const toggleSortKey = (sortKeys: SortKey[], column: TableColumn, additive: boolean): SortKey[] => {
+  const existing = sortKeys.find(key => key.column === column);
+  const next: SortKey | null = !existing
+    ? { column, direction: column === 'amount' ? 'desc' : 'asc' }
+    : existing.direction === (column === 'amount' ? 'desc' : 'asc')
+      ? { column, direction: existing.direction === 'asc' ? 'desc' : 'asc' }
+      : null;
+
+  if (!additive) return next ? [next] : [];
+  if (!existing) return [...sortKeys, next!];
+  return next ? sortKeys.map(key => (key.column === column ? next : key)) : sortKeys.filter(key => key.column !== column);
+};
+
+export const loadVisibleColumns = (): TableColumn[] => {
+  try {
+    const stored = localStorage.getItem(COLUMNS_STORAGE_KEY);
+    const columns: TableColumn[] = stored ? JSON.parse(stored) : ALL_COLUMNS;
+    const known = ALL_COLUMNS.filter(column => columns.includes(column));
+    return known.includes('amount') ? known : [...known, 'amount'];
+  } catch (err) {
+    console.warn('Ignoring stored table columns:', err);
+    return ALL_COLUMNS;
+  }
+};
+
+export const saveVisibleColumns = (columns: TableColumn[]) => {
+  localStorage.setItem(COLUMNS_STORAGE_KEY, JSON.stringify(columns));
+};
@@ -0,0 +1,73 @@
+import { TRANSLATIONS } from "../constants";
+import { parseCanonicalDate } from "./analysisValidator";
+import { categoryLabel } from "./taxonomy";
+import { amountAdjustments, changedFields } from "./transactionEdits";
+import { describeFilters, ExportContext, totalsByCategory } from "./exporters";
+import { reconcile } from "./reconciliation";
+
+/**
+ * Excel workbook with a Summary sheet (stay header, totals, filters and per-category
+ * amounts) and a Transactions sheet holding every line. SheetJS is only loaded when an
+ * export is requested.
+ */
+export const toXlsx = async (ctx: ExportContext): Promise<Blob> => {
+  const XLSX = await import('xlsx');
+  const { result, transactions, visibleTransactions, currency, taxonomy, language, filters } = ctx;
+  const t = TRANSLATIONS[language];
+  const visibleIds = new Set(visibleTransactions.map(tx => tx.id));
+  const { lineSum } = reconcile(result, ctx.rates);
+
+  const summary: (string | number | Date | null)[][] = [
+    ['Hotel', result.hotelName],
+    [t.address, result.hotelAddress],
+    [t.guest, result.guestName],
+    [t.room, result.roomNumber],
+    [t.folio, result.confirmationNumber],
+    [t.checkIn, parseCanonicalDate(result.checkIn) ?? result.checkIn],
+    [t.checkOut, parseCanonicalDate(result.checkOut) ?? result.checkOut],
+    [],
+    [`${t.printedTotal} (${result.detectedCurrency})`, result.totalAmount],
+    [`${t.lineSum} (${result.detectedCurrency})`, Math.round(lineSum * 100) / 100],
+    [`${t.totalSpend} (${currency})`, Math.round(ctx.totalSpend * 100) / 100],
+    ...(amountAdjustments(result).length > 0 ? [[t.editedTotalNote]] : []),
+    [],
+    [t.filtersApplied, describeFilters(filters, taxonomy, language)],
+    [],
+    [t.amountByCategory, currency],
+    ...totalsByCategory(transactions, taxonomy).map(({ id, amount }) => [categoryLabel(taxonomy, id, language), Math.round(amount * 100) / 100])
+  ];
+
+  const header = [
+    t.date, t.cleanName, t.description, t.category, t.amount, t.currencyColumn,
+    `${t.amount} (${currency})`, t.rateColumn, t.rateSourceColumn, t.editedMarker, t.originalValue, t.filtersApplied
+  ];
+  const rows = transactions.map(tx => [
+    parseCanonicalDate(tx.date) ?? tx.date,
+    tx.cleanName,
+    tx.originalDescription,
+    categoryLabel(taxonomy, tx.category, language, true),
+    tx.amount,
+    tx.currency,
+    Math.round(tx.convertedAmount * 100) / 100,
+    tx.rate ? tx.rate.rate : null,
+    tx.rate ? `${t.rateSources[tx.rate.source]}${tx.rate.date ? ` ${tx.rate.date}` : ''}` : '',
+    tx.edit ? tx.edit.kind : '',
+    changedFields(tx).map(field => `${field}=${tx.edit!.original![field]}`).join('; '),
+    // Whether the line is in the table view the export was made from
+    visibleIds.has(tx.id) ? '✓' : ''
+  ]);
+
+  const summarySheet = XLSX.utils.aoa_to_sheet(summary, { cellDates: true, dateNF: 'dd/mm/yyyy' });
+  summarySheet['!cols'] = [{ wch: 28 }, { wch: 48 }];
+  const transactionsSheet = XLSX.utils.aoa_to_sheet([header, ...rows], { cellDates: true, dateNF: 'dd/mm/yyyy' });
+  transactionsSheet['!cols'] = [{ wch: 12 }, { wch: 28 }, { wch: 36 }, { wch: 28 }, { wch: 12 }, { wch: 8 }, { wch: 14 }, { wch: 10 }, { wch: 22 }, { wch: 8 }, { wch: 30 }, { wch: 10 }];
+  transactionsSheet['!autofilter'] = { ref: XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: rows.length, c: header.length - 1 } }) };
+
+  const workbook = XLSX.utils.book_new();
+  // Sheet names are limited to 31 characters.
+  XLSX.utils.book_append_sheet(workbook, summarySheet, t.summarySheet.slice(0, 31));
+  XLSX.utils.book_append_sheet(workbook, transactionsSheet, t.transactions.slice(0, 31));
+
+  const buffer: ArrayBuffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'array', cellDates: true });
+  return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
@@ -1,6 +1,8 @@
 export enum Currency {
   MXN = 'MXN',
-  USD = 'USD'
+  USD = 'USD',
+  EUR = 'EUR',
+  CAD = 'CAD'
 }
 
 export enum Language {
@@ -8,24 +10,118 @@ export enum Language {
   EN = 'EN'
 }
 
+// Stable ids of the built-in categories. Labels and colors live in the taxonomy
+// (services/taxonomy.ts); user-defined categories get generated ids.
 export enum Category {
-  FOOD_AND_BEVERAGE = 'Alimentos y Bebidas/Food & Beverage',
-  ROOM = 'Habitación/Room',
-  TAX = 'Impuestos/Tax',
-  DISCOUNT = 'Descuento/Discount',
-  SERVICE = 'Servicio/Service',
-  OTHER = 'Otros/Other'
+  FOOD_AND_BEVERAGE = 'food_beverage',
+  MINIBAR = 'food_beverage.minibar',
+  LOBBY_BAR = 'food_beverage.lobby_bar',
+  ROOM_SERVICE = 'food_beverage.room_service',
+  ROOM = 'room',
+  TAX = 'tax',
+  DISCOUNT = 'discount',
+  SERVICE = 'service',
+  SPA = 'service.spa',
+  OTHER = 'other'
+}
+
+export type CategoryId = Category | string;
+
+export interface CategoryDefinition {
+  id: CategoryId;
+  labels: Record<Language, string>;
+  color: string;
+  parentId?: CategoryId; // Set for subcategories
+  hint?: string; // What belongs here, in English, for the extraction prompt
+  custom?: boolean; // Added by the user
+}
+
+export enum ExtractorBackend {
+  GEMINI = 'gemini',
+  FIXTURE = 'fixture',
+  PDF_TEXT = 'pdf-text'
 }
 
 export interface Transaction {
+  id?: string; // Stable row id, assigned during validation
   date: string;
   originalDescription: string;
   cleanName: string;
   amount: number;
   currency: string;
-  category: Category;
+  category: CategoryId;
+  categorySource?: CategorySource; // Where `category` came from; model when absent
+  categoryRuleId?: string; // The CategoryRule that assigned the category, if any
+  edit?: TransactionEdit; // Present once a user has changed, added or split the line
+  location?: SourceLocation; // Where the line is printed in the uploaded PDF
+  confidence?: number; // The model's confidence (0-1) that the line was read correctly
+  reviewed?: boolean; // Approved by a user in the review queue
+  expenseClass?: ExpenseClass; // Set in expense-report mode; unset lines count as reimbursable
+  reimbursableAmount?: number; // For 'split' lines, the company's part, in the line's currency
+}
+
+export type ExpenseClass = 'reimbursable' | 'personal' | 'split';
+
+// Company travel policy checked in expense-report mode.
+export interface ExpensePolicy {
+  currency: Currency; // Of the caps below
+  mealPerDiem: number | null; // Daily cap on food and beverage; null for none
+  maxTipPercent: number | null; // Tips, as a percentage of the same day's meals; null for none
+  disallowedCategories: CategoryId[];
+}
+
+// 'cap_not_convertible': the meal cap is in a currency no rate converts, so it was not checked.
+export type PolicyViolationKind = 'meal_cap' | 'tip_limit' | 'disallowed_category' | 'cap_not_convertible';
+
+export interface PolicyViolation {
+  key: string;
+  kind: PolicyViolationKind;
+  transactionIds: string[];
+  date?: string; // The day, for daily limits
+  claimed: number; // Reimbursable amount, in the selected currency
+  limit: number; // In the selected currency; 0 for disallowed categories and an unconverted cap
 }
 
+// Approximate position of a printed line: 1-based page, and the line's height on the page
+// from 0 (top edge) to 1 (bottom edge) when known.
+export interface SourceLocation {
+  page: number;
+  y?: number;
+}
+
+export type CategorySource = 'model' | 'rule' | 'user';
+
+// A user-defined override for the model's categorization. Every condition that is set must
+// match; rules are tried in order and the first match wins.
+export interface CategoryRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  field: 'originalDescription' | 'cleanName' | 'any';
+  contains?: string; // Case-insensitive substring
+  pattern?: string; // Case-insensitive regular expression source
+  minAmount?: number;
+  maxAmount?: number;
+  sign?: 'positive' | 'negative';
+  category: CategoryId;
+}
+
+export type EditableField = 'date' | 'cleanName' | 'category' | 'amount';
+export type TransactionSnapshot = Pick<Transaction, EditableField>;
+
+export interface TransactionEdit {
+  kind: 'edited' | 'added' | 'split';
+  original: TransactionSnapshot | null; // Values as extracted; null for lines the user added
+  splitFrom?: string; // Id of the line this part was split from
+  extractedAmount?: number; // Split parts: their share of the source line's extracted amount
+}
+
+export type TransactionEditOp =
+  | { type: 'update'; id: string; patch: Partial<TransactionSnapshot> }
+  | { type: 'add'; transaction: Transaction }
+  | { type: 'delete'; id: string }
+  | { type: 'split'; id: string; parts: Pick<Transaction, 'cleanName' | 'category' | 'amount'>[] };
+
 export interface AnalysisResult {
   hotelName: string;
   hotelAddress: string;
@@ -37,6 +133,468 @@ export interface AnalysisResult {
   transactions: Transaction[];
   totalAmount: number;
   detectedCurrency: string;
+  removedTransactions?: Transaction[]; // Lines the user deleted, kept for audit
+  fieldConfidence?: Partial<Record<HeaderField, number>>; // The model's confidence (0-1) in each header field
+  reviewedFields?: HeaderField[]; // Header fields approved by a user in the review queue
+  billSplit?: BillSplit; // Who pays which lines, when the folio is shared
+  cfdi?: Cfdi; // The stay's electronic invoice, when one was attached
+}
+
+// A guest or cost center sharing the folio.
+export interface Participant {
+  id: string;
+  name: string;
+  nights?: number; // Nights stayed, for room and tax lines; the whole stay when unset
+}
+
+// How one line is divided between participants.
+export type Allocation =
+  | { mode: 'whole'; participantId: string }
+  | { mode: 'equal'; participantIds: string[] }
+  | { mode: 'percent'; shares: Record<string, number> }; // Participant id -> percentage
+
+export type RoomBasis = 'nights' | 'equal';
+
+export interface BillSplit {
+  participants: Participant[];
+  allocations: Record<string, Allocation>; // By line id
+  roomBasis: RoomBasis; // How room and tax lines without an allocation are shared
+}
+
+// One participant's part of the folio, in the selected currency.
+export interface ParticipantSettlement {
+  participant: Participant;
+  room: number;
+  taxes: number;
+  other: number;
+  total: number;
+  lines: { id: string; amount: number }[];
+}
+
+export interface Settlement {
+  participants: ParticipantSettlement[];
+  unassigned: number; // Lines nobody has been given yet
+  unassignedIds: string[];
+  invalidIds: string[]; // Lines whose percentages do not add up to 100; also unassigned
+  total: number;
+}
+
+// Mexican taxes on a folio: IVA (federal VAT) and ISH (state lodging tax). Anything else
+// printed as a tax, like Dersan, is reported but not checked.
+export type TaxKind = 'iva' | 'ish' | 'other';
+
+// The charges a tax applies to. 'other' covers every other taxable charge (spa, laundry...).
+export type TaxScope = 'room' | 'food_beverage' | 'other';
+
+export interface TaxSettings {
+  ivaRate: number; // Percent
+  state: string | null; // Key of ishRates; null to detect it from the hotel's address
+  ishRates: Record<string, number>; // State -> percent, on room charges only
+}
+
+// A tax line and the charges it was matched to. Lines matched across scopes have no scope.
+export interface TaxLink {
+  taxId: string;
+  kind: TaxKind;
+  scope: TaxScope | null;
+  baseIds: string[];
+  base: number;
+  expected: number | null; // null for 'other' taxes
+  charged: number;
+}
+
+export interface TaxScopeSummary {
+  scope: TaxScope;
+  base: number;
+  ivaExpected: number;
+  ivaCharged: number;
+  ishExpected: number;
+  ishCharged: number;
+}
+
+export interface TaxDiscrepancy {
+  key: string;
+  scope: TaxScope;
+  kind: 'iva' | 'ish';
+  expected: number;
+  charged: number;
+  transactionIds: string[]; // The tax lines, or the charges when no tax was charged on them
+}
+
+// Amounts are the converted ones.
+export interface TaxBreakdown {
+  state: string | null; // As configured or detected
+  ivaRate: number;
+  ishRate: number;
+  scopes: TaxScopeSummary[];
+  links: TaxLink[];
+  otherTaxes: number;
+  otherTaxIds: string[];
+  creditableIva: number; // IVA charged on the folio
+  notItemized: ('iva' | 'ish')[]; // Kinds with no tax line on the folio, so not checked
+  discrepancies: TaxDiscrepancy[];
+}
+
+// A CFDI (Mexican electronic invoice), as read from its XML. Amounts are in the invoice's currency.
+export interface CfdiParty {
+  rfc: string;
+  name: string;
+  taxRegime: string; // SAT regime code, e.g. 601
+  cfdiUse?: string; // Receiver only, e.g. G03
+  postalCode?: string; // Receiver's fiscal address, CFDI 4.0
+}
+
+export interface CfdiTax {
+  kind: TaxKind; // ISH is a local tax, in the implocal complement
+  base: number | null;
+  rate: number | null; // Percent
+  amount: number;
+}
+
+export interface CfdiConcept {
+  productCode: string; // ClaveProdServ
+  description: string;
+  quantity: number;
+  unitValue: number;
+  amount: number; // Before discount and taxes
+  discount: number;
+  identification?: string; // NoIdentificacion
+  taxes: CfdiTax[];
+}
+
+export interface Cfdi {
+  version: string;
+  uuid: string | null; // From the stamp (TimbreFiscalDigital)
+  series: string;
+  folio: string;
+  date: string; // DD/MM/YYYY
+  currency: string;
+  exchangeRate: number | null;
+  subtotal: number;
+  discount: number;
+  total: number;
+  issuer: CfdiParty;
+  receiver: CfdiParty;
+  concepts: CfdiConcept[];
+  taxes: CfdiTax[]; // Invoice-level totals, federal and local
+  references: string[]; // Free text that may carry the hotel's confirmation number (addenda, identifications)
+}
+
+export type CfdiParseFailure = 'invalid_xml' | 'not_cfdi' | 'missing_total';
+
+export type CfdiFindingKind =
+  | 'confirmation_not_found'
+  | 'currency_mismatch'
+  | 'total_mismatch'
+  | 'tax_mismatch'
+  | 'concept_unmatched'
+  | 'charges_not_invoiced'
+  | 'invalid_rfc'
+  | 'generic_receiver';
+
+export interface CfdiFinding {
+  key: string;
+  kind: CfdiFindingKind;
+  detail?: string; // The tax, concept or RFC concerned
+  expected?: number; // What the folio says
+  actual?: number; // What the invoice says
+  transactionIds: string[];
+}
+
+export interface CfdiConceptMatch {
+  conceptIndex: number;
+  transactionIds: string[]; // Empty when nothing in the folio matches
+}
+
+export interface CfdiCrossCheck {
+  confirmationMatched: boolean | null; // null when the folio has no confirmation number
+  folioTotal: number; // Invoiceable lines, in the folio's own currency
+  concepts: CfdiConceptMatch[];
+  findings: CfdiFinding[];
+}
+
+// Two statements of the same stay, e.g. a pre-checkout and a final folio, line by line.
+export type LineChangeKind = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface LineDiff {
+  kind: LineChangeKind;
+  before?: ConvertedTransaction;
+  after?: ConvertedTransaction;
+  changedFields: EditableField[];
+}
+
+export interface HeaderChange {
+  field: HeaderField | 'totalAmount';
+  before: string;
+  after: string;
+}
+
+// Per top-level category, in the selected currency.
+export interface CategoryDelta {
+  category: CategoryId;
+  before: number;
+  after: number;
+  change: number;
+}
+
+export interface StatementDiff {
+  lines: LineDiff[]; // In the newer statement's order, removed lines where they used to be
+  headerChanges: HeaderChange[];
+  totalBefore: number;
+  totalAfter: number;
+  categories: CategoryDelta[]; // Only categories that changed
+  counts: Record<Exclude<LineChangeKind, 'unchanged'>, number>;
+}
+
+export type HeaderField = 'hotelName' | 'hotelAddress' | 'guestName' | 'roomNumber' | 'checkIn' | 'checkOut' | 'confirmationNumber' | 'detectedCurrency';
+
+// Why a field or line was judged unreliable.
+export type ConfidenceReason = 'model_uncertain' | 'missing_value' | 'stay_dates_reversed' | 'outside_stay' | 'sign_mismatch' | 'zero_amount';
+
+// A header field or line whose confidence is below the review threshold.
+export interface ReviewItem {
+  key: string; // 'header:<field>' or 'tx:<id>'
+  target: { kind: 'header'; field: HeaderField } | { kind: 'transaction'; id: string };
+  confidence: number; // 0-1
+  reasons: ConfidenceReason[];
+}
+
+export type AnomalyKind = 'duplicate' | 'near_duplicate' | 'outside_stay' | 'service_and_tip' | 'unusual_amount' | 'discount_not_applied';
+
+// A charge, or a group of charges, a guest is likely to dispute.
+export interface Anomaly {
+  key: string;
+  kind: AnomalyKind;
+  transactionIds: string[]; // The lines involved, in statement order
+}
+
+export enum ValidationIssueCode {
+  NOT_AN_OBJECT = 'not_an_object',
+  MISSING_FIELD = 'missing_field',
+  INVALID_NUMBER = 'invalid_number',
+  INVALID_DATE = 'invalid_date',
+  UNKNOWN_CATEGORY = 'unknown_category',
+  DROPPED_TRANSACTION = 'dropped_transaction',
+  INVALID_SAVED_DATA = 'invalid_saved_data'
+}
+
+export interface ValidationIssue {
+  field: string; // Path into AnalysisResult, e.g. 'transactions[3].amount'
+  code: ValidationIssueCode;
+  severity: 'error' | 'warning';
+  value?: string; // Offending raw value, stringified for display
+}
+
+export enum MismatchCause {
+  MISSING_PAGE = 'missing_page',
+  DUPLICATE_LINE = 'duplicate_line',
+  SUBTOTAL_ROW = 'subtotal_row',
+  SIGN_ERROR = 'sign_error',
+  UNCONVERTED_LINE = 'unconverted_line',
+  UNKNOWN = 'unknown'
+}
+
+// Inclusive range of statement dates (DD/MM/YYYY) to extract again.
+export interface ExtractionRegion {
+  fromDate: string;
+  toDate: string;
+}
+
+// Body of POST /api/analyze. The PDF travels base64-encoded, as Gemini expects it.
+export interface AnalyzeRequest {
+  fileName: string;
+  mimeType: string;
+  data: string;
+  taxonomy?: CategoryDefinition[];
+  region?: ExtractionRegion; // Only re-read the lines dated within this range
+  pages?: { fromPage: number; toPage: number }; // Pages of the whole PDF this part holds, when it was split
+}
+
+export interface ReconciliationFinding {
+  cause: MismatchCause;
+  transactionIndexes: number[]; // Suspect lines in AnalysisResult.transactions
+  region: ExtractionRegion | null;
+  explainedAmount: number; // How much of the difference this cause would account for
+}
+
+export interface Reconciliation {
+  printedTotal: number;
+  lineSum: number;
+  difference: number; // lineSum - printedTotal
+  balanced: boolean;
+  findings: ReconciliationFinding[];
+}
+
+// Where a conversion rate came from, in the order they take precedence.
+export enum RateSource {
+  OVERRIDE = 'override',
+  HISTORICAL = 'historical',
+  MANUAL = 'manual',
+  IDENTITY = 'identity' // Same currency on both sides; no rate was looked up
+}
+
+export interface ExchangeRate {
+  from: Currency;
+  to: Currency;
+  rate: number; // 1 unit of `from` = `rate` units of `to`
+  source: RateSource;
+  date?: string; // DD/MM/YYYY the historical rate was published for
+}
+
+// User-entered rate that wins over every other provider for this pair.
+export interface RateOverride {
+  from: Currency;
+  to: Currency;
+  rate: number;
+}
+
+export interface RateProvider {
+  source: RateSource;
+  // `date` is the transaction date (DD/MM/YYYY); providers without history ignore it.
+  getRate: (from: Currency, to: Currency, date?: string) => ExchangeRate | null;
+}
+
+// A line as the Dashboard shows it: converted to the selected currency at `rate`
+// (null when no rate was available and the amount is shown as extracted).
+export type ConvertedTransaction = Transaction & { convertedAmount: number; rate?: ExchangeRate | null };
+
+// One day on the stay timeline, in the selected currency.
+export interface TimelineDay {
+  date: string; // DD/MM/YYYY
+  byGroup: Record<CategoryId, number>; // By top-level category
+  total: number;
+}
+
+// What one night cost. Lines dated outside the stay count toward its first or last night.
+export interface NightBreakdown {
+  date: string; // The night's date (DD/MM/YYYY)
+  room: number;
+  taxes: number;
+  incidentals: number; // Everything other than room, taxes and credits
+  credits: number; // Discounts, negative
+  total: number;
+}
+
+export interface StayTimeline {
+  days: TimelineDay[];
+  groups: CategoryId[]; // Top-level categories with spend, in taxonomy order
+  nights: NightBreakdown[]; // Empty when check-in and check-out are unusable
+  averageDailyIncidentals: number;
+}
+
+// Columns of the transactions table; amount is always shown.
+export type TableColumn = 'date' | 'cleanName' | 'originalDescription' | 'category' | 'amount';
+
+export interface SortKey {
+  column: TableColumn;
+  direction: 'asc' | 'desc';
+}
+
+export type TableGroupBy = 'none' | 'date' | 'cleanName' | 'category';
+
+export enum ExportFormat {
+  CSV = 'csv',
+  XLSX = 'xlsx',
+  JSON = 'json',
+  OFX = 'ofx',
+  QIF = 'qif',
+  PDF = 'pdf'
+}
+
+// The Dashboard's table filters. Dates are YYYY-MM-DD as the date inputs hold them.
+export interface ExportFilters {
+  searchTerm: string;
+  categoryFilter: string; // Category id, or 'All'
+  startDate: string;
+  endDate: string;
+}
+
+// Everything needed to reopen an analysis exactly as it was exported.
+export interface AnalysisExport {
+  format: 'vidanta-analysis';
+  version: 1;
+  exportedAt: string; // ISO timestamp
+  currency: Currency; // Display currency at export time
+  filters: ExportFilters;
+  result: AnalysisResult;
+}
+
+// The uploaded statement, kept so a reopened analysis can still re-extract regions.
+export interface StoredSource {
+  name: string;
+  type: string;
+  data: Blob;
+}
+
+// One analysis in the local history (IndexedDB). `result` includes the user's edits.
+export interface HistoryEntry {
+  id: string;
+  name: string;
+  tags: string[];
+  extractedAt: string; // ISO timestamp of the extraction
+  updatedAt: string; // ISO timestamp of the last edit, rename or tag change
+  backend: ExtractorBackend;
+  model: string;
+  result: AnalysisResult;
+  issues: ValidationIssue[];
+  source: StoredSource | null;
+}
+
+export interface HistoryQuery {
+  text: string; // Matches name, guest, hotel, folio and tags
+  from: string; // YYYY-MM-DD, inclusive; empty for no bound
+  to: string;
+}
+
+export type BatchStatus = 'pending' | 'analyzing' | 'done' | 'error';
+
+// One folio of a multi-file upload (a group or wedding stay, one folio per room).
+export interface BatchItem {
+  id: string;
+  file: File;
+  status: BatchStatus;
+  result?: AnalysisResult;
+  issues: ValidationIssue[];
+  backend?: ExtractorBackend;
+  model?: string;
+  error?: string;
+  historyId?: string;
+  progress?: ExtractionProgress; // Page ranges of a long folio, while it is being analyzed
+}
+
+export type GroupBreakdown = 'roomNumber' | 'guestName';
+
+// Long PDFs are extracted a few pages at a time; pages are 1-based and inclusive.
+export interface PageRangeProgress {
+  fromPage: number;
+  toPage: number;
+  status: 'pending' | 'analyzing' | 'done' | 'error';
+}
+
+export interface ExtractionProgress {
+  totalPages: number;
+  ranges: PageRangeProgress[];
+}
+
+// Part of an image to keep, as fractions (0-1) of the rotated image's width and height.
+export interface ImageCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageAdjustments {
+  rotation: 0 | 90 | 180 | 270; // Clockwise quarter turns
+  skew: number; // Fine rotation in degrees, clockwise, to straighten a photo taken at an angle
+  crop: ImageCrop | null;
+}
+
+// One photo of a multi-image capture; the pages are stitched in array order.
+export interface CapturedImage {
+  id: string;
+  file: File;
+  adjustments: ImageAdjustments;
 }
 
 export interface Translation {
@@ -53,6 +611,154 @@ export interface Translation {
   category: string;
   cleanName: string;
   errorGeneric: string;
+  errorTooLarge: string;
+  errorRateLimited: string;
+  cancelAnalysis: string;
+  uploadFormats: string;
+  usePhotos: string;
+  mixedUploadError: string;
+  unsupportedFileError: string;
+  photosTitle: string;
+  photosHint: string;
+  addPhotos: string;
+  rotateLeft: string;
+  rotateRight: string;
+  straighten: string;
+  autoStraighten: string;
+  cropHint: string;
+  resetCrop: string;
+  removePhoto: string;
+  moveUp: string;
+  moveDown: string;
+  maxResolution: string;
+  analyzePhotos: string;
+  preparingPhotos: string;
+  photosTooLarge: string;
+  pagesProgress: string;
+  pagesLabel: string;
+  showPdf: string;
+  hidePdf: string;
+  pdfSelectHint: string;
+  pdfNoLocation: string;
+  pdfNoMatch: string;
+  pdfUnavailable: string;
+  headerFieldLabels: Record<HeaderField, string>;
+  reviewQueueTitle: string;
+  reviewQueueEmpty: string;
+  reviewApprove: string;
+  reviewPrevious: string;
+  reviewNext: string;
+  reviewShowLine: string;
+  reviewConfidence: string;
+  reviewPosition: string;
+  confidenceReasons: Record<ConfidenceReason, string>;
+  anomaliesBadge: string;
+  anomaliesTitle: string;
+  anomalyKinds: Record<AnomalyKind, string>;
+  timelineTitle: string;
+  timelineBrushHint: string;
+  nightlyBreakdownTitle: string;
+  nightLabel: string;
+  roomRate: string;
+  taxesLabel: string;
+  incidentalsLabel: string;
+  creditsLabel: string;
+  nightsTotal: string;
+  averageDailyIncidentals: string;
+  expenseModeLabel: string;
+  expenseColumn: string;
+  expenseClasses: Record<ExpenseClass, string>;
+  reimbursableAmountLabel: string;
+  reimbursableTotal: string;
+  personalTotal: string;
+  policyTitle: string;
+  policyCurrencyLabel: string;
+  mealPerDiemLabel: string;
+  maxTipPercentLabel: string;
+  disallowedCategoriesLabel: string;
+  noLimit: string;
+  policyViolationsTitle: string;
+  policyCompliant: string;
+  policyViolationKinds: Record<PolicyViolationKind, string>;
+  downloadExpenseReport: string;
+  expenseReportTitle: string;
+  employeeSignature: string;
+  approverSignature: string;
+  splitBillLabel: string;
+  participantsTitle: string;
+  addParticipant: string;
+  participantNamePlaceholder: string;
+  participantNights: string;
+  roomBasisLabel: string;
+  roomBasisOptions: Record<RoomBasis, string>;
+  allocationColumn: string;
+  allocationAuto: string;
+  allocationUnassigned: string;
+  allocationEqual: string;
+  allocationPercent: string;
+  percentMustTotal: string;
+  invalidPercentLines: string;
+  settlementTitle: string;
+  settlementTotal: string;
+  otherCharges: string;
+  unassignedLabel: string;
+  exportSettlement: string;
+  noParticipants: string;
+  taxBreakdownTitle: string;
+  taxStateLabel: string;
+  taxStateAuto: string;
+  ivaRateLabel: string;
+  ishRateLabel: string;
+  taxableBase: string;
+  expectedLabel: string;
+  chargedLabel: string;
+  differenceLabel: string;
+  taxScopes: Record<TaxScope, string>;
+  taxKinds: Record<'iva' | 'ish', string>;
+  creditableIva: string;
+  otherTaxesLabel: string;
+  taxDiscrepanciesTitle: string;
+  taxesMatch: string;
+  taxNotItemized: string;
+  cfdiLabel: string;
+  cfdiTitle: string;
+  attachCfdi: string;
+  replaceCfdi: string;
+  removeCfdi: string;
+  cfdiImportError: string;
+  cfdiParseErrors: Record<CfdiParseFailure, string>;
+  noCfdi: string;
+  cfdiIssuer: string;
+  cfdiReceiver: string;
+  rfcLabel: string;
+  taxRegimeLabel: string;
+  cfdiUseLabel: string;
+  postalCodeLabel: string;
+  cfdiUuid: string;
+  cfdiConcepts: string;
+  cfdiTotalLabel: string;
+  folioTotalLabel: string;
+  cfdiFindingsTitle: string;
+  cfdiMatchesFolio: string;
+  cfdiFindingKinds: Record<CfdiFindingKind, string>;
+  compareLabel: string;
+  compareTitle: string;
+  compareWith: string;
+  compareChooseHistory: string;
+  compareOpenFile: string;
+  compareSwap: string;
+  compareBefore: string;
+  compareAfter: string;
+  compareCurrent: string;
+  compareNoChanges: string;
+  compareHint: string;
+  headerChangesTitle: string;
+  categoryChangesTitle: string;
+  lineChangesTitle: string;
+  lineChangeKinds: Record<LineChangeKind, string>;
+  netChange: string;
+  unchangedLines: string;
+  totalAmountLabel: string;
   reset: string;
   guest: string;
   room: string;
@@ -62,5 +768,122 @@ export interface Translation {
   address: string;
   startDate: string;
   endDate: string;
-  exportCSV: string;
+  exportLabel: string;
+  exportFormats: Record<ExportFormat, string>;
+  validationErrorTitle: string;
+  validationWarningsTitle: string;
+  validationMessages: Record<ValidationIssueCode, string>;
+  reconciliationTitle: string;
+  printedTotal: string;
+  lineSum: string;
+  difference: string;
+  reconciled: string;
+  likelyCauses: string;
+  mismatchCauses: Record<MismatchCause, string>;
+  suspectRegion: string;
+  reextractRegion: string;
+  reextracting: string;
+  reextractFailed: string;
+  editRow: string;
+  saveEdit: string;
+  cancelEdit: string;
+  deleteRow: string;
+  splitRow: string;
+  addSplitPart: string;
+  splitMustMatch: string;
+  addRow: string;
+  undo: string;
+  redo: string;
+  editedMarker: string;
+  addedMarker: string;
+  splitMarker: string;
+  originalValue: string;
+  invalidDate: string;
+  invalidAmount: string;
+  editedTotalNote: string;
+  rulesTitle: string;
+  addRule: string;
+  ruleName: string;
+  ruleField: string;
+  fieldAny: string;
+  ruleContains: string;
+  rulePattern: string;
+  ruleMinAmount: string;
+  ruleMaxAmount: string;
+  ruleSign: string;
+  signAny: string;
+  signPositive: string;
+  signNegative: string;
+  ruleCategory: string;
+  ruleEnabled: string;
+  ruleMatches: string;
+  invalidPattern: string;
+  noRules: string;
+  importRules: string;
+  exportRules: string;
+  rulesImportError: string;
+  categoryFromModel: string;
+  categoryFromRule: string;
+  categoryFromUser: string;
+  categoriesTitle: string;
+  addCategory: string;
+  labelEs: string;
+  labelEn: string;
+  categoryColorLabel: string;
+  parentCategory: string;
+  noParent: string;
+  builtInCategory: string;
+  allCategories: string;
+  exchangeRatesTitle: string;
+  rateSources: Record<RateSource, string>;
+  rateOverride: string;
+  clearOverride: string;
+  noRateAvailable: string;
+  convertedFrom: string;
+  openSavedAnalysis: string;
+  importAnalysisError: string;
+  summarySheet: string;
+  currencyColumn: string;
+  originalAmountColumn: string;
+  originalCurrencyColumn: string;
+  rateColumn: string;
+  rateSourceColumn: string;
+  reportGeneratedOn: string;
+  reportPage: string;
+  filtersApplied: string;
+  noFilters: string;
+  amountByCategory: string;
+  exportFailed: string;
+  sortHint: string;
+  groupByLabel: string;
+  groupByOptions: Record<TableGroupBy, string>;
+  columnsLabel: string;
+  lineCount: string;
+  noTransactionsFound: string;
+  historyTitle: string;
+  historySearchPlaceholder: string;
+  historyFrom: string;
+  historyTo: string;
+  historyEmpty: string;
+  historyNoMatches: string;
+  historyOpen: string;
+  historyRename: string;
+  historyDelete: string;
+  historyDeleteConfirm: string;
+  historyAddTag: string;
+  historyExtractedOn: string;
+  historyNoSource: string;
+  historyUnavailable: string;
+  batchUploadHint: string;
+  groupStayTitle: string;
+  batchProgress: string;
+  batchStatuses: Record<BatchStatus, string>;
+  breakdownBy: string;
+  breakdownOptions: Record<GroupBreakdown, string>;
+  foliosLabel: string;
+  roomsLabel: string;
+  guestsLabel: string;
+  openFolio: string;
+  backToGroup: string;
+  groupTotal: string;
 }
\ No newline at end of file
@@ -8,11 +8,14 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The analysis API (npm run server) keeps the Gemini key out of the bundle.
+        proxy: {
+          '/api': `http://localhost:${env.PORT || 8787}`
+        }
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY || process.env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY || process.env.GEMINI_API_KEY)
+        'process.env.EXTRACTOR_BACKEND': JSON.stringify(env.EXTRACTOR_BACKEND || process.env.EXTRACTOR_BACKEND || 'gemini')
       },
       resolve: {
         alias: {